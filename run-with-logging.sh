@@ -2,73 +2,23 @@
 
 # Script to run the Election Source application with AI data logging
 
-# Help function
-show_help() {
-    echo "Usage: $0 [options]"
-    echo ""
-    echo "Options:"
-    echo "  --help                  Show this help message and exit"
-    echo "  --csv <file>            Use CSV file as data source instead of Google Civic API"
-    echo "  --limit <number>        Process only specified number of elections (for testing)"
-    echo "  --log-level <level>     Set log level (debug, info, warn, error)"
-    echo ""
-    echo "Examples:"
-    echo "  $0 --csv ./data/elections.csv     Run with CSV file input"
-    echo "  $0 --limit 1                      Process only one election (for testing)"
-    echo "  $0 --log-level debug              Run with debug log level"
-}
-
-# Parse command line arguments
-CSV_FILE=""
-ELECTION_LIMIT=""
-LOG_LEVEL=""
-
-while [[ $# -gt 0 ]]; do
-    case "$1" in
-        --help)
-            show_help
-            exit 0
-            ;;
-        --csv)
-            if [[ -z "$2" || "$2" == --* ]]; then
-                echo "Error: --csv requires a file path"
-                exit 1
-            fi
-            CSV_FILE="$2"
-            shift 2
-            ;;
-        --limit)
-            if [[ -z "$2" || "$2" == --* ]]; then
-                echo "Error: --limit requires a number"
-                exit 1
-            fi
-            ELECTION_LIMIT="$2"
-            shift 2
-            ;;
-        --log-level)
-            if [[ -z "$2" || "$2" == --* ]]; then
-                echo "Error: --log-level requires a level"
-                exit 1
-            fi
-            LOG_LEVEL="$2"
-            shift 2
-            ;;
-        *)
-            echo "Unknown option: $1"
-            show_help
-            exit 1
-            ;;
-    esac
-done
-
-# Set environment variables based on arguments
-if [[ -n "$ELECTION_LIMIT" ]]; then
-    export ELECTION_LIMIT="$ELECTION_LIMIT"
+# All arguments are passed to the election-source CLI (src/index.ts).
+# Without arguments, active elections are ingested from the Google Civic API.
+if [[ $# -eq 0 ]]; then
+    set -- ingest --civic
 fi
 
-if [[ -n "$LOG_LEVEL" ]]; then
-    export LOG_LEVEL="$LOG_LEVEL"
-fi
+# Help and read-only commands need no banner or log summary
+case "$1" in
+    help|--help|-h|export|runs)
+        exec npx ts-node src/index.ts "$@"
+        ;;
+esac
+for arg in "$@"; do
+    if [[ "$arg" == "--help" || "$arg" == "-h" ]]; then
+        exec npx ts-node src/index.ts "$@"
+    fi
+done
 
 # Display banner
 echo "======================================================"
@@ -82,18 +32,12 @@ mkdir -p logs
 # Run the application with TypeScript directly
 echo "Starting the application with AI data logging..."
 
-# Prepare CSV argument if needed
-CSV_ARGS=""
-if [[ -n "$CSV_FILE" ]]; then
-    echo "Using CSV file as data source: $CSV_FILE"
-    CSV_ARGS="--csv $CSV_FILE"
-fi
-
 # Run the application
-npx ts-node src/index-with-logging.ts $CSV_ARGS
+npx ts-node src/index.ts "$@"
+EXIT_CODE=$?
 
 # Check if the application completed successfully
-if [ $? -eq 0 ]; then
+if [ $EXIT_CODE -eq 0 ]; then
     echo ""
     echo "======================================================"
     echo "   APPLICATION COMPLETED SUCCESSFULLY"
@@ -113,11 +57,15 @@ if [ $? -eq 0 ]; then
         ls -la "$LATEST_DIR"
         
         # Count the number of elections processed
-        # Adapt for CSV input or Civic API input
-        if [ -d "$LATEST_DIR/csv-input" ]; then
+        # Adapt for CSV, manifest or Civic API input (every run has all three folders)
+        if [ -f "$LATEST_DIR/csv-input/elections.json" ]; then
             INPUT_COUNT=$(ls -1 "$LATEST_DIR/csv-input" 2>/dev/null | grep -v "^\..*" | wc -l)
             echo ""
             echo "Data source: CSV file"
+        elif [ -f "$LATEST_DIR/manifest-input/elections.json" ]; then
+            INPUT_COUNT=$(ls -1 "$LATEST_DIR/manifest-input" 2>/dev/null | grep -v "^\..*" | wc -l)
+            echo ""
+            echo "Data source: Election manifest"
         else
             INPUT_COUNT=$(ls -1 "$LATEST_DIR/civic-api" 2>/dev/null | grep -v "^\..*" | wc -l)
             echo ""
@@ -145,4 +93,5 @@ else
 fi
 
 echo ""
-echo "Done."
\ No newline at end of file
+echo "Done."
+exit $EXIT_CODE
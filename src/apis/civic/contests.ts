@@ -0,0 +1,162 @@
+// src/apis/civic/contests.ts
+import fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { expandStateName } from '../../utils/states';
+import { BasicElection, DetailedPosition, ElectionType } from '../../models/types';
+import { formatZodErrors } from '../../services/data-validator';
+import { candidateNaturalKey, normalizeText } from '../../services/db/matching';
+import { getVoterInfo } from './index';
+
+/**
+ * Representative addresses per jurisdiction: a state (name or abbreviation) or an
+ * election district, and addresses whose ballots cover its contests
+ */
+export const ContestAddressesSchema = z.record(z.string().min(1), z.array(z.string().trim().min(1)).min(1));
+
+export type ContestAddresses = z.infer<typeof ContestAddressesSchema>;
+
+/**
+ * Contests of an election found on the ballots of representative addresses
+ */
+export interface ContestDiscovery {
+  positions: DetailedPosition[];
+  // Addresses queried, and those the Civic API had no ballot for
+  addresses: string[];
+  failedAddresses: Array<{ address: string; message: string }>;
+}
+
+// Civic API district scopes of statewide and national contests
+const STATE_SCOPES = ['statewide', 'stateupper', 'statelower'];
+const NATIONAL_SCOPES = ['national', 'congressional'];
+// District scopes of contests held within the address's city
+const CITY_SCOPES = ['citywide', 'citycouncil', 'ward', 'township'];
+
+/**
+ * Loads the representative addresses per jurisdiction from a YAML or JSON file
+ * Example (YAML):
+ *   Alaska:
+ *     - 632 W 6th Ave, Anchorage, AK 99501
+ *     - 155 S Seward St, Juneau, AK 99801
+ * @param filePath - Path to the file
+ * @returns The addresses of each jurisdiction
+ */
+export function loadContestAddresses(filePath: string): ContestAddresses {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Contest addresses file not found: ${filePath}`);
+  }
+
+  let content: unknown;
+  try {
+    content = parseYaml(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid contest addresses file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = ContestAddressesSchema.safeParse(content);
+  if (!parsed.success) {
+    throw new Error(`Invalid contest addresses file ${filePath}: ${formatZodErrors(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Gets the addresses of the jurisdictions an election belongs to (its state or district)
+ * @param addresses - The addresses per jurisdiction
+ * @param election - The election
+ * @returns The election's addresses, without duplicates
+ */
+export function addressesForElection(addresses: ContestAddresses, election: BasicElection): string[] {
+  const jurisdictions = [election.state, election.district].map(value => normalizeText(expandStateName(value || '')));
+
+  return [...new Set(Object.entries(addresses)
+    .filter(([jurisdiction]) => jurisdictions.includes(normalizeText(expandStateName(jurisdiction))))
+    .flatMap(([, list]) => list))];
+}
+
+/**
+ * Finds the contests of a Civic API election on the ballots of representative addresses
+ * Each address is looked up with the voterinfo endpoint; the contests of every ballot
+ * are de-duplicated by office and district, and their candidates by name. Referendums
+ * are left out. An address without a ballot is reported and the others are still used.
+ * @param election - The election, with its Civic API election ID
+ * @param addresses - Representative addresses of the election's jurisdiction
+ * @returns The contests as positions, each with the candidates on the ballot
+ */
+export async function discoverContests(election: BasicElection, addresses: string[]): Promise<ContestDiscovery> {
+  const discovery: ContestDiscovery = { positions: [], addresses, failedAddresses: [] };
+  const contests = new Map<string, { office: string; district: string; position: DetailedPosition }>();
+
+  for (const address of addresses) {
+    let voterInfo: Awaited<ReturnType<typeof getVoterInfo>>;
+    try {
+      voterInfo = await getVoterInfo(address, election.civicElectionId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`No ballot found for ${address} in election ${election.name}: ${message}`);
+      discovery.failedAddresses.push({ address, message });
+      continue;
+    }
+
+    for (const contest of voterInfo.contests || []) {
+      const office = contest.office?.trim();
+      if (!office || contest.type === 'Referendum') continue;
+
+      const district = contest.district?.name?.trim() || '';
+      const scope = (contest.district?.scope || '').toLowerCase();
+      const key = `${normalizeText(office)}|${normalizeText(district)}`;
+
+      let entry = contests.get(key);
+      if (!entry) {
+        const seats = parseInt(contest.numberElected || '', 10);
+        entry = {
+          office,
+          district,
+          position: {
+            positionName: office,
+            electionDate: election.date,
+            city: CITY_SCOPES.includes(scope) ? voterInfo.normalizedInput?.city || '' : '',
+            state: election.state,
+            description: district ? `${office} (${district})` : office,
+            type: toElectionType(scope),
+            positions: seats > 0 ? seats : 1,
+            knownCandidates: [],
+          },
+        };
+        contests.set(key, entry);
+      }
+
+      const knownCandidates = entry.position.knownCandidates || [];
+      for (const candidate of contest.candidates || []) {
+        const name = candidate.name?.trim();
+        if (name && !knownCandidates.some(known => candidateNaturalKey(known) === candidateNaturalKey(name))) {
+          knownCandidates.push(name);
+        }
+      }
+    }
+  }
+
+  // The same office in several districts (e.g. council wards) is told apart by district
+  const districtsByOffice = new Map<string, number>();
+  for (const { office } of contests.values()) {
+    districtsByOffice.set(normalizeText(office), (districtsByOffice.get(normalizeText(office)) || 0) + 1);
+  }
+  discovery.positions = [...contests.values()].map(({ office, district, position }) =>
+    district && (districtsByOffice.get(normalizeText(office)) || 0) > 1
+      ? { ...position, positionName: `${office} - ${district}` }
+      : position
+  );
+
+  logger.info(`Found ${discovery.positions.length} contests for ${election.name} on the ballots of ${addresses.length - discovery.failedAddresses.length}/${addresses.length} addresses`);
+  return discovery;
+}
+
+/**
+ * Maps a Civic API district scope to an election type
+ */
+function toElectionType(scope: string): ElectionType {
+  if (NATIONAL_SCOPES.includes(scope)) return ElectionType.NATIONAL;
+  if (STATE_SCOPES.includes(scope)) return ElectionType.STATE;
+  return ElectionType.LOCAL;
+}
@@ -1,12 +1,10 @@
-import { google } from 'googleapis';
+import { civicinfo_v2, google } from 'googleapis';
 import { config } from '../../config';
 import logger from '../../utils/logger';
 import { BasicElection } from '../../models/types';
+import { parseOcdDivisionId } from './ocd';
 
-const civicInfo = google.civicinfo({
-  version: 'v2',
-  auth: config.google.apiKey,
-});
+let civicInfo: civicinfo_v2.Civicinfo | undefined;
 
 // Test election constants
 const TEST_ELECTION_ID = '2000';
@@ -20,7 +18,7 @@ export async function getActiveElections(): Promise<BasicElection[]> {
   try {
     logger.info('Fetching active elections from Google Civic API');
     
-    const response = await civicInfo.elections.electionQuery();
+    const response = await getCivicClient().elections.electionQuery();
     
     if (!response.data.elections) {
       logger.warn('No elections found in the Civic API response');
@@ -35,7 +33,12 @@ export async function getActiveElections(): Promise<BasicElection[]> {
     logger.info(`Retrieved ${response.data.elections.length} elections from Civic API (${realElections.length} after filtering out test elections)`);
     
     // Extract and transform the basic election data
-    return [];
+    const elections = realElections
+      .map(toBasicElection)
+      .filter((election): election is BasicElection => election !== null);
+    
+    logger.info(`Mapped ${elections.length} Civic API elections to basic elections`);
+    return elections;
   } catch (error) {
     logger.error('Error fetching elections from Google Civic API', {
       error: error instanceof Error ? error.message : String(error),
@@ -44,19 +47,63 @@ export async function getActiveElections(): Promise<BasicElection[]> {
   }
 }
 
+/**
+ * Maps a Civic API election to a BasicElection
+ * @param election - Election as returned by the Civic API elections endpoint
+ * @returns The basic election, or null if the election cannot be mapped
+ */
+function toBasicElection(election: {
+  id?: string | null;
+  name?: string | null;
+  electionDay?: string | null;
+  ocdDivisionId?: string | null;
+}): BasicElection | null {
+  if (!election.name || !election.electionDay) {
+    logger.warn('Skipping Civic API election with missing name or election day', { election });
+    return null;
+  }
+  
+  const date = new Date(election.electionDay);
+  if (isNaN(date.getTime())) {
+    logger.warn(`Skipping Civic API election with invalid date: ${election.electionDay}`, { election });
+    return null;
+  }
+  
+  const division = election.ocdDivisionId ? parseOcdDivisionId(election.ocdDivisionId) : null;
+  if (!division) {
+    logger.warn(`Could not parse OCD division ID for election: ${election.name}`, {
+      ocdDivisionId: election.ocdDivisionId,
+    });
+  }
+  
+  // Nationwide elections have no state; the prompts use "N/A" for unknown values
+  const state = division?.state || 'N/A';
+  const district = division?.district || (division?.state ? division.state : 'United States');
+  
+  return {
+    name: election.name,
+    state,
+    district,
+    description: election.name,
+    date,
+    civicElectionId: election.id || undefined,
+  };
+}
+
 /**
  * Retrieves voter information for a specific address
- * This method can be used to get more detailed information about elections
+ * The response lists the contests and candidates on the ballot at that address.
  * @param address - The voter's address
+ * @param electionId - Civic API ID of the election (defaults to the next election at the address)
  * @returns Promise with voter information
  */
-export async function getVoterInfo(address: string): Promise<any> {
+export async function getVoterInfo(address: string, electionId?: string): Promise<civicinfo_v2.Schema$VoterInfoResponse> {
   try {
     logger.info(`Fetching voter information for address: ${address}`);
     
-    // @ts-ignore - The type definition is incomplete, but the API supports this method
-    const response = await civicInfo.voterinfo.query({
+    const response = await getCivicClient().elections.voterInfoQuery({
       address,
+      electionId,
     });
     
     return response.data;
@@ -67,4 +114,19 @@ export async function getVoterInfo(address: string): Promise<any> {
     });
     throw new Error('Failed to fetch voter information');
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Gets the Civic API client, created on first use
+ * GOOGLE_CIVIC_API_URL points it at another server, such as a local stub of the API.
+ */
+function getCivicClient(): civicinfo_v2.Civicinfo {
+  if (!civicInfo) {
+    civicInfo = google.civicinfo({
+      version: 'v2',
+      auth: config.google.apiKey,
+      rootUrl: config.google.civicApiUrl || undefined,
+    });
+  }
+  return civicInfo;
+}
@@ -0,0 +1,138 @@
+import { expandStateName } from '../../utils/states';
+
+/**
+ * A single `type:value` segment of an OCD division identifier
+ */
+export interface OcdSegment {
+  type: string;
+  value: string;
+}
+
+/**
+ * A parsed Open Civic Data division identifier
+ * e.g. `ocd-division/country:us/state:pa/sldu:36`
+ */
+export interface OcdDivision {
+  id: string;
+  country: string;
+  state?: string;
+  segments: OcdSegment[];
+  district?: string;
+}
+
+const OCD_PREFIX = 'ocd-division/';
+
+// Human-readable labels for the numbered district types used by the Civic API
+const DISTRICT_LABELS: Record<string, string> = {
+  cd: 'Congressional District',
+  sldu: 'State Senate District',
+  sldl: 'State House District',
+  council_district: 'Council District',
+  ward: 'Ward',
+  precinct: 'Precinct',
+  judicial_district: 'Judicial District',
+};
+
+/**
+ * Parses an OCD division identifier into its segments
+ * @param ocdDivisionId - The OCD-ID (e.g. "ocd-division/country:us/state:pa/sldu:36")
+ * @returns The parsed division, or null if the identifier is malformed
+ */
+export function parseOcdDivisionId(ocdDivisionId: string): OcdDivision | null {
+  const id = ocdDivisionId?.trim().toLowerCase();
+  if (!id || !id.startsWith(OCD_PREFIX)) {
+    return null;
+  }
+
+  const segments: OcdSegment[] = [];
+  for (const part of id.slice(OCD_PREFIX.length).split('/')) {
+    const separatorIndex = part.indexOf(':');
+    if (separatorIndex <= 0 || separatorIndex === part.length - 1) {
+      return null;
+    }
+    const value = decodeSegmentValue(part.slice(separatorIndex + 1));
+    if (value === null) {
+      return null;
+    }
+    segments.push({ type: part.slice(0, separatorIndex), value });
+  }
+
+  if (segments.length === 0 || segments[0].type !== 'country') {
+    return null;
+  }
+
+  // DC is encoded as a district rather than a state
+  const stateSegment = segments.find(segment => segment.type === 'state' || segment.type === 'district');
+  const state = stateSegment ? expandStateName(stateSegment.value) : undefined;
+
+  const localSegments = segments.filter(segment => segment !== segments[0] && segment !== stateSegment);
+  const district = localSegments.length > 0
+    ? localSegments.map(describeSegment).join(', ')
+    : undefined;
+
+  return {
+    id,
+    country: segments[0].value,
+    state,
+    segments,
+    district,
+  };
+}
+
+/**
+ * Decodes the percent-encoded value of an OCD segment
+ * @param value - The encoded value
+ * @returns The decoded value, or null if its percent-encoding is malformed (e.g. "%zz")
+ */
+function decodeSegmentValue(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts a single OCD segment into a human-readable district name
+ * @param segment - The segment to describe
+ * @returns Description such as "State Senate District 36" or "Allegheny County"
+ */
+function describeSegment(segment: OcdSegment): string {
+  const value = titleCase(segment.value);
+
+  if (DISTRICT_LABELS[segment.type]) {
+    return `${DISTRICT_LABELS[segment.type]} ${value}`;
+  }
+
+  switch (segment.type) {
+    case 'county':
+      return `${value} County`;
+    case 'parish':
+      return `${value} Parish`;
+    case 'borough':
+      return `${value} Borough`;
+    case 'school_district':
+      return `${value} School District`;
+    case 'place':
+    case 'city':
+    case 'town':
+    case 'township':
+    case 'village':
+      return value;
+    default:
+      return `${titleCase(segment.type)} ${value}`;
+  }
+}
+
+/**
+ * Title-cases an OCD value, treating "_" and "~" as word separators
+ * @param value - Raw OCD value (e.g. "new_york")
+ * @returns Title-cased value (e.g. "New York")
+ */
+function titleCase(value: string): string {
+  return value
+    .split(/[_~\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
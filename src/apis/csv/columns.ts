@@ -0,0 +1,85 @@
+// src/apis/csv/columns.ts
+
+/**
+ * Election fields that can be read from a CSV column
+ */
+export type CsvField =
+  | 'name'
+  | 'state'
+  | 'district'
+  | 'city'
+  | 'description'
+  | 'date'
+  | 'type'
+  | 'positions'
+  | 'candidates'
+  | 'sourceUrl';
+
+/**
+ * Header names accepted for each field, matched after normalization
+ */
+export type CsvColumnMap = Record<CsvField, string[]>;
+
+/**
+ * Default header names of each field. Both the documented `name,date` layout
+ * and the `State,District,Description,Date` layout map onto these.
+ */
+export const DEFAULT_COLUMN_MAP: CsvColumnMap = {
+  name: ['name', 'election', 'election name', 'title'],
+  state: ['state', 'state name'],
+  district: ['district', 'jurisdiction', 'county', 'locality'],
+  city: ['city', 'municipality', 'town'],
+  description: ['description', 'details'],
+  date: ['date', 'election date', 'election day'],
+  type: ['type', 'election type', 'level'],
+  positions: ['positions', 'offices', 'seats'],
+  candidates: ['candidates', 'known candidates', 'candidate names'],
+  sourceUrl: ['source', 'source url', 'url', 'link'],
+};
+
+/**
+ * Normalizes a header for matching: lower-cased, with spaces, underscores,
+ * dashes and other punctuation collapsed (so "Election_Date " matches "election date")
+ * @param header - The header as written in the file
+ * @returns The normalized header
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Merges extra header names into the default column map
+ * @param overrides - Additional header names per field
+ * @returns The merged column map
+ */
+export function buildColumnMap(overrides: Partial<CsvColumnMap> = {}): CsvColumnMap {
+  const columnMap = { ...DEFAULT_COLUMN_MAP };
+  for (const [field, headers] of Object.entries(overrides) as [CsvField, string[]][]) {
+    columnMap[field] = [...headers, ...DEFAULT_COLUMN_MAP[field]];
+  }
+  return columnMap;
+}
+
+/**
+ * Works out which header of a file holds each field
+ * The first header matching one of a field's names wins.
+ * @param headers - The headers of the file
+ * @param columnMap - The accepted header names per field
+ * @returns The file's header for each field it contains
+ */
+export function resolveColumns(headers: string[], columnMap: CsvColumnMap): Partial<Record<CsvField, string>> {
+  const columns: Partial<Record<CsvField, string>> = {};
+
+  for (const [field, names] of Object.entries(columnMap) as [CsvField, string[]][]) {
+    const accepted = new Set(names.map(normalizeHeader));
+    const header = headers.find(candidate => accepted.has(normalizeHeader(candidate)));
+    if (header !== undefined) {
+      columns[field] = header;
+    }
+  }
+
+  return columns;
+}
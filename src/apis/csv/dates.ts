@@ -0,0 +1,60 @@
+// src/apis/csv/dates.ts
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/**
+ * Parses an election date written in one of the common formats:
+ * YYYY-MM-DD, YYYY/MM/DD, MM/DD/YYYY, M/D/YY, "April 1, 2025", "Apr 1 2025" and "1 April 2025".
+ * Dates are returned as UTC midnight, like `new Date('YYYY-MM-DD')`.
+ * @param value - The date as written in the file
+ * @returns The date, or null if it is not a valid date in a supported format
+ */
+export function parseElectionDate(value: string): Date | null {
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  // ISO: 2025-04-01, 2025/04/01 (an ISO timestamp keeps its calendar day)
+  if ((match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:T.*)?$/))) {
+    return buildDate(+match[1], +match[2], +match[3]);
+  }
+
+  // US: 04/01/2025, 4/1/25, 04-01-2025
+  if ((match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/))) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return buildDate(year, +match[1], +match[2]);
+  }
+
+  // Month first: April 1, 2025 / Apr 1 2025 / Apr. 1st, 2025
+  if ((match = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i))) {
+    return buildDate(+match[3], monthNumber(match[1]), +match[2]);
+  }
+
+  // Day first: 1 April 2025
+  if ((match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/i))) {
+    return buildDate(+match[3], monthNumber(match[2]), +match[1]);
+  }
+
+  return null;
+}
+
+/**
+ * Builds a UTC date, rejecting days that do not exist (e.g. February 30)
+ */
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Gets the number of a month from its name or abbreviation (e.g. "Apr", "Sept"), 0 if unknown
+ */
+function monthNumber(name: string): number {
+  const lower = name.toLowerCase();
+  const index = MONTHS.findIndex(month => lower.length >= 3 && month.startsWith(lower));
+  return index + 1;
+}
@@ -1,93 +1,293 @@
 // src/apis/csv/index.ts
 import fs from 'fs';
-import path from 'path';
 import { parse } from 'papaparse';
 import logger from '../../utils/logger';
-import { BasicElection } from '../../models/types';
+import { expandStateName, findStateName } from '../../utils/states';
+import { BasicElection, ElectionType, SourceRowError } from '../../models/types';
+import { buildColumnMap, CsvColumnMap, CsvField, resolveColumns } from './columns';
+import { parseElectionDate } from './dates';
+
+export * from './columns';
+export { parseElectionDate } from './dates';
+
+/**
+ * Options of a CSV import
+ */
+export interface CsvImportOptions {
+  // Extra header names per field, tried before the default names
+  columnMap?: Partial<CsvColumnMap>;
+}
+
+/**
+ * Outcome of a CSV import: the valid elections and the rows that could not be read
+ */
+export interface CsvImportResult {
+  elections: BasicElection[];
+  errors: SourceRowError[];
+}
+
+// Election types accepted in the type column
+const ELECTION_TYPES: Record<string, ElectionType> = {
+  local: ElectionType.LOCAL,
+  municipal: ElectionType.LOCAL,
+  state: ElectionType.STATE,
+  national: ElectionType.NATIONAL,
+  federal: ElectionType.NATIONAL,
+  university: ElectionType.UNIVERSITY,
+};
 
 /**
  * Reads election data from a CSV file
- * Expected CSV format:
- * State,District,Description,Date
- * "Delaware,Laurel,"Toen of Laurel, D.E. general municipal election",2025-03-27
- * 
+ * Accepted layouts (headers are matched case-insensitively, ignoring padding):
+ *   name,date
+ *   "South Carolina Special Election - State House District 113","2025-03-25"
+ * and
+ *   State,District,Description,Date
+ *   Delaware,Laurel,"Town of Laurel, D.E. general municipal election",2025-03-27
+ * with optional City, Type, Positions, Candidates and Source URL columns.
+ * Rows that cannot be read are logged and skipped.
+ *
  * @param filePath - Path to the CSV file
+ * @param options - Extra header names for the columns
  * @returns Promise<BasicElection[]> - Array of basic election info
  */
-export async function getElectionsFromCsv(filePath: string): Promise<BasicElection[]> {
-    try {
-      logger.info(`Reading elections from CSV file: ${filePath}`);
-      
-      // Check if file exists
-      if (!fs.existsSync(filePath)) {
-        logger.error(`CSV file not found: ${filePath}`);
-        throw new Error(`CSV file not found: ${filePath}. Please check the file path and try again.`);
-      }
-      
-      // Read file content
-      const fileContent = fs.readFileSync(filePath, { encoding: 'utf-8' });
-      
-      if (fileContent.trim() === '') {
-        logger.error(`CSV file is empty: ${filePath}`);
-        throw new Error(`CSV file is empty: ${filePath}. Please provide a valid CSV file with election data.`);
-      }
-      
-      // Parse CSV
-      const parseResult = parse(fileContent, {
-        header: true,
-        skipEmptyLines: true,
-      });
-      
-      if (parseResult.errors.length > 0) {
-        logger.error('Errors parsing CSV file', { errors: parseResult.errors });
-        throw new Error(`Failed to parse CSV file: ${parseResult.errors[0].message}. Please check the CSV format and try again.`);
+export async function getElectionsFromCsv(filePath: string, options: CsvImportOptions = {}): Promise<BasicElection[]> {
+  const { elections, errors } = await readElectionsCsv(filePath, options);
+
+  if (elections.length === 0 && errors.length > 0) {
+    throw new Error(`CSV file has no valid election rows (${errors.length} rows with errors, first: row ${errors[0].row}: ${errors[0].message})`);
+  }
+
+  return elections;
+}
+
+/**
+ * Reads election data from a CSV file, collecting an error for each row that cannot be read
+ * Problems with the file itself (missing, empty, no date column) still throw.
+ * @param filePath - Path to the CSV file
+ * @param options - Extra header names for the columns
+ * @returns The valid elections and the row errors
+ */
+export async function readElectionsCsv(filePath: string, options: CsvImportOptions = {}): Promise<CsvImportResult> {
+  try {
+    logger.info(`Reading elections from CSV file: ${filePath}`);
+
+    // Check if file exists
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`CSV file not found: ${filePath}. Please check the file path and try again.`);
+    }
+
+    // Read file content
+    const fileContent = fs.readFileSync(filePath, { encoding: 'utf-8' });
+
+    if (fileContent.trim() === '') {
+      throw new Error(`CSV file is empty: ${filePath}. Please provide a valid CSV file with election data.`);
+    }
+
+    // Parse CSV, with padding around the delimiters removed so padded headers and quoted values match
+    const parseResult = parse<Record<string, string>>(trimFieldPadding(fileContent), {
+      header: true,
+      skipEmptyLines: 'greedy',
+      transformHeader: header => header.trim(),
+    });
+
+    if (parseResult.data.length === 0) {
+      throw new Error('CSV file contains no data rows. Please provide a valid CSV file with election data.');
+    }
+
+    const columns = resolveColumns(parseResult.meta.fields || [], buildColumnMap(options.columnMap));
+    if (!columns.date) {
+      throw new Error('CSV file has no date column. Expected a "date" header.');
+    }
+    if (!columns.name && !(columns.state && (columns.district || columns.description))) {
+      throw new Error('CSV file has no election name columns. Expected a "name" header, or "state" with "district" and "description".');
+    }
+
+    // Rows papaparse could not split correctly (e.g. an unquoted comma)
+    const parseErrors = new Map<number, string>();
+    for (const error of parseResult.errors) {
+      if (error.row !== undefined && !parseErrors.has(error.row)) {
+        parseErrors.set(error.row, error.message);
       }
-      
-      if (parseResult.data.length === 0) {
-        logger.error('CSV file contains no data rows');
-        throw new Error(`CSV file contains no data rows. Please provide a valid CSV file with election data.`);
+    }
+
+    const result: CsvImportResult = { elections: [], errors: [] };
+
+    parseResult.data.forEach((record, index) => {
+      const row = index + 1;
+      const parseError = parseErrors.get(index);
+      const election = parseError ? { error: parseError } : toBasicElection(record, columns);
+
+      if ('error' in election) {
+        logger.warn(`Skipping CSV row ${row}: ${election.error}`, { record });
+        result.errors.push({ row, message: election.error, record });
+      } else {
+        result.elections.push(election);
       }
-    
-      
-      // Map to BasicElection format
-      const elections: BasicElection[] = parseResult.data.map((row: any, index: number) => {
-        // Extract State,District,Description,Date
-
-        const state = row.State?.trim();
-        const district = row.District?.trim();
-        const description = row.Description?.trim();
-        const dateStr = row.Date?.trim();
-        const name = state+","+district+","+description+","+dateStr;
-        
-        if (!state || !district || !description || !dateStr) {
-          logger.info(state, district, description, dateStr);
-          logger.error(`Missing required fields in CSV row ${index + 1}`, { row });
-          throw new Error(`CSV row ${index + 1} missing required fields: all of State,District,Description,Date are required.`);
-        }
-        
-        // Parse date
-        const date = new Date(dateStr);
-        if (isNaN(date.getTime())) {
-          logger.error(`Invalid date format in CSV row ${index + 1}`, { row });
-          throw new Error(`Invalid date format in CSV row ${index + 1}: "${dateStr}". Expected format: YYYY-MM-DD`);
+    });
+
+    logger.info(`Read ${result.elections.length} elections from CSV file (${result.errors.length} rows with errors)`);
+    return result;
+  } catch (error) {
+    logger.error('Error reading elections from CSV file', {
+      error: error instanceof Error ? error.message : String(error),
+      filePath,
+    });
+    throw error; // Re-throw to be handled by the calling function
+  }
+}
+
+/**
+ * Parses an election type as written in a source file (e.g. "Local", "federal")
+ * @param value - The type as written
+ * @returns The election type, or undefined if it is not one of the accepted names
+ */
+export function parseElectionType(value: string): ElectionType | undefined {
+  return ELECTION_TYPES[value.trim().toLowerCase()];
+}
+
+/**
+ * Maps a CSV row to a basic election
+ * @param record - The row, keyed by header
+ * @param columns - The header holding each field
+ * @returns The election, or the reason the row cannot be used
+ */
+function toBasicElection(
+  record: Record<string, string>,
+  columns: Partial<Record<CsvField, string>>
+): BasicElection | { error: string } {
+  const get = (field: CsvField) => {
+    const header = columns[field];
+    return header ? (record[header] || '').trim() : '';
+  };
+
+  const dateStr = get('date');
+  if (!dateStr) {
+    return { error: 'missing date' };
+  }
+  const date = parseElectionDate(dateStr);
+  if (!date) {
+    return { error: `invalid date "${dateStr}" (expected e.g. YYYY-MM-DD, MM/DD/YYYY or "April 1, 2025")` };
+  }
+  const dateKey = date.toISOString().split('T')[0];
+
+  const nameValue = get('name');
+  const city = get('city') || undefined;
+  let state = get('state') ? expandStateName(get('state')) : '';
+  let district = get('district');
+  let description = get('description');
+  let name: string;
+
+  if (nameValue) {
+    // name,date layout: the other fields default to what the name says
+    name = nameValue;
+    state = state || findStateName(nameValue) || '';
+    description = description || nameValue;
+    district = district || city || state;
+  } else {
+    if (!state || !district || !description) {
+      return { error: 'missing required fields: a name, or all of state, district and description' };
+    }
+    name = `${state},${district},${description},${dateKey}`;
+  }
+
+  const election: BasicElection = { name, state, district, description, date };
+
+  if (city) {
+    election.city = city;
+  }
+
+  const typeValue = get('type');
+  if (typeValue) {
+    const type = parseElectionType(typeValue);
+    if (!type) {
+      return { error: `unknown election type "${typeValue}" (expected one of: ${Object.keys(ELECTION_TYPES).join(', ')})` };
+    }
+    election.type = type;
+  }
+
+  const positions = splitList(get('positions'));
+  if (positions.length > 0) {
+    election.positions = positions;
+  }
+
+  const knownCandidates = splitList(get('candidates'));
+  if (knownCandidates.length > 0) {
+    election.knownCandidates = knownCandidates;
+  }
+
+  const sourceUrl = get('sourceUrl');
+  if (sourceUrl) {
+    if (!/^https?:\/\/\S+$/i.test(sourceUrl)) {
+      return { error: `invalid source URL "${sourceUrl}"` };
+    }
+    election.sourceUrl = sourceUrl;
+  }
+
+  return election;
+}
+
+/**
+ * Splits a list cell on semicolons, pipes or line breaks
+ * (commas are left alone, since candidate names may contain them)
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(/[;|\n]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Removes spaces and tabs around delimiters outside quoted values
+ * Fixed-width files pad fields (`State         , "S.C., elections" `); without this
+ * the padded headers do not match and the quotes are not recognized.
+ * @param content - The CSV file content
+ * @returns The content without field padding
+ */
+function trimFieldPadding(content: string): string {
+  const output: string[] = [];
+  let inQuotes = false;
+  let atFieldStart = true;
+
+  const trimEnd = () => {
+    while (output.length > 0 && (output[output.length - 1] === ' ' || output[output.length - 1] === '\t')) {
+      output.pop();
+    }
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      output.push(char);
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          output.push('"');
+          i++;
+        } else {
+          inQuotes = false;
         }
-        
-        return {
-          state,
-          district,
-          description,
-          date,
-          name,
-        };
-      });
-      
-      logger.info(`Successfully read ${elections.length} elections from CSV file`);
-      return elections;
-    } catch (error) {
-      logger.error('Error reading elections from CSV file', {
-        error: error instanceof Error ? error.message : String(error),
-        filePath,
-      });
-      throw error; // Re-throw to be handled by the calling function
+      }
+      continue;
+    }
+
+    if ((char === ' ' || char === '\t') && atFieldStart) continue;
+
+    if (char === ',' || char === '\n' || char === '\r') {
+      trimEnd();
+      output.push(char);
+      atFieldStart = true;
+      continue;
+    }
+
+    if (char === '"' && atFieldStart) {
+      inQuotes = true;
     }
-  }
\ No newline at end of file
+    atFieldStart = false;
+    output.push(char);
+  }
+
+  trimEnd();
+  return output.join('');
+}
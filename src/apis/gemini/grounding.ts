@@ -0,0 +1,95 @@
+// src/apis/gemini/grounding.ts
+import { GroundingClaim, ResearchGrounding } from '../research/types';
+
+/**
+ * The parts of the grounding metadata that are read; any of them may be missing or malformed
+ */
+interface RawGroundingMetadata {
+  webSearchQueries?: unknown;
+  groundingChunks?: unknown;
+  groundingSupports?: unknown;
+}
+
+/**
+ * A web page of the grounding metadata
+ */
+interface RawGroundingChunk {
+  web?: { uri?: unknown; title?: unknown };
+}
+
+/**
+ * A statement of the response and the pages backing it
+ */
+interface RawGroundingSupport {
+  segment?: unknown;
+  groundingChunkIndices?: unknown;
+  // Misspelled field name of some API versions
+  groundingChunckIndices?: unknown;
+  confidenceScores?: unknown;
+}
+
+/**
+ * Reads the grounding metadata of a Gemini response candidate
+ * The metadata is read defensively: the SDK's types do not match the API's field
+ * names (e.g. `groundingChunkIndices`), and any part of it may be missing.
+ * @param metadata - The candidate's `groundingMetadata`
+ * @returns The search queries, web sources and the statements they back, or undefined without metadata
+ */
+export function extractGrounding(metadata: unknown): ResearchGrounding | undefined {
+  if (!isObject(metadata)) {
+    return undefined;
+  }
+
+  const raw: RawGroundingMetadata = metadata;
+  const chunks = objectsOf<RawGroundingChunk>(raw.groundingChunks);
+  const supports = objectsOf<RawGroundingSupport>(raw.groundingSupports);
+
+  const sources = chunks.map(({ web }) => ({
+    uri: typeof web?.uri === 'string' ? web.uri : '',
+    title: typeof web?.title === 'string' ? web.title : '',
+  }));
+
+  const claims: GroundingClaim[] = supports
+    .map(support => {
+      const indices = support.groundingChunkIndices ?? support.groundingChunckIndices;
+      return {
+        text: segmentText(support.segment),
+        sources: (Array.isArray(indices) ? indices : [])
+          .filter((index): index is number => typeof index === 'number' && Boolean(sources[index]?.uri)),
+        confidence: Array.isArray(support.confidenceScores)
+          ? support.confidenceScores.filter((score): score is number => typeof score === 'number')
+          : [],
+      };
+    })
+    .filter(claim => claim.text.trim() !== '' && claim.sources.length > 0);
+
+  return {
+    searchQueries: Array.isArray(raw.webSearchQueries)
+      ? raw.webSearchQueries.filter((query): query is string => typeof query === 'string')
+      : [],
+    sources,
+    claims,
+  };
+}
+
+/**
+ * Checks whether a value is a non-null object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Gets the objects of an array, or none when the value is not an array
+ */
+function objectsOf<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value.filter((item): item is T => isObject(item)) : [];
+}
+
+/**
+ * Gets the text of a support's segment, given as a string or as an object with `text`
+ */
+function segmentText(segment: unknown): string {
+  if (typeof segment === 'string') return segment;
+  return isObject(segment) && typeof segment.text === 'string' ? segment.text : '';
+}
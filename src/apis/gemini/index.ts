@@ -1,25 +1,37 @@
 import { config } from '../../config';
 import logger from '../../utils/logger';
-import { DetailedElection, BasicElection, ElectionType, Candidate, CandidatePolicy } from '../../models/types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { generateElectionQuery, generateCandidatesQuery, generateTransformationPrompt } from './queries';
+import { DetailedElection, DetailedPosition, BasicElection, ElectionType, Candidate, CandidatePolicy } from '../../models/types';
+import { GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+import { parseJsonResponse, failure, getArrayProperty, ParseResult } from '../../utils/json-repair';
+import { RateLimiter, isRateLimitError } from '../../utils/rate-limiter';
+import { isPlaceholder, retryWithBackoff } from '../../utils/helpers';
+import { ResearchGrounding } from '../research/types';
+import { extractGrounding } from './grounding';
 
-// Update to use the latest Gemini model
-const model1 = "gemini-2.5-pro-exp-03-25"
-const model2 = 'gemini-2.0-flash';
-const model = model1;
+// Shared by every Gemini request so concurrent callers stay within the quota
+const geminiRateLimiter = new RateLimiter({
+  requestsPerMinute: config.gemini.requestsPerMinute,
+  tokensPerMinute: config.gemini.tokensPerMinute,
+  maxConcurrency: config.gemini.maxConcurrency,
+});
 
 /**
  * Function to make API calls to Gemini with streaming support
  * @param prompt - The text prompt to send to Gemini
  * @param useGrounding - Whether to use Google Search grounding
- * @returns The response from Gemini
+ * @param conversationHistory - Prior messages of the conversation
+ * @param options - Overrides such as the model (defaults to the configured research or transform model)
+ *                  and a response schema to enforce through JSON mode
+ * @returns The response text from Gemini, with its grounding metadata for grounded requests
  */
 export async function callGeminiApi(
   prompt: string, 
   useGrounding = true,
-  conversationHistory: {role: string, text: string}[] = []
-): Promise<string> {
+  conversationHistory: {role: string, text: string}[] = [],
+  options: { model?: string, responseSchema?: ResponseSchema } = {}
+): Promise<{ text: string, grounding?: ResearchGrounding }> {
+  const model = options.model || (useGrounding ? config.gemini.researchModel : config.gemini.transformModel);
+  
   try {
     // Initialize the Gemini client
     const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
@@ -38,12 +50,21 @@ export async function callGeminiApi(
     }));
 
     // Configure the request
-    const generationConfig = {
+    const generationConfig: Record<string, unknown> = {
       temperature: 0,
       maxOutputTokens: 25000,
       topP: 0.95,
       topK: 40,
     };
+    
+    // JSON mode cannot be combined with Google Search grounding
+    if (options.responseSchema && !useGrounding) {
+      generationConfig.responseMimeType = 'application/json';
+      generationConfig.responseSchema = options.responseSchema;
+      logger.info('Using JSON mode with a response schema for Gemini request');
+    } else if (options.responseSchema) {
+      logger.debug('Response schema ignored: JSON mode is not available with grounding');
+    }
 
     // Set up request parameters
     const requestParams: any = {
@@ -68,9 +89,7 @@ export async function callGeminiApi(
       ];
       logger.info('Using Google Search grounding for Gemini request');
     } else {
-      const model = model2;
-      requestParams.model = model;
-      logger.info(`No grounding tools enabled for Gemini request. Using model: ${model2}`);
+      logger.info(`No grounding tools enabled for Gemini request. Using model: ${model}`);
     }
 
     // Debug log the request
@@ -82,13 +101,24 @@ export async function callGeminiApi(
 
     logger.info('Making Gemini API request');
 
-    // Generate content using streaming
-    const result = await genaiClient.generateContent(requestParams);
+    // Schedule the request within the rate limits, retrying when the quota is exceeded
+    const result = await retryWithBackoff(
+      () => geminiRateLimiter.schedule(() => genaiClient.generateContent(requestParams), estimateTokens(history)),
+      config.gemini.maxRetries,
+      config.gemini.retryDelayMs,
+      isRateLimitError
+    );
     const response = result.response;
+    
+    // Charge the output tokens, which are only known after the response
+    geminiRateLimiter.recordUsage(response.usageMetadata?.candidatesTokenCount || 0);
     const text = response.text();
 
-    logger.info('Successfully received response from Gemini');
-    return text;
+    // Keep the searches and web pages the answer is grounded in
+    const grounding = useGrounding ? extractGrounding(response.candidates?.[0]?.groundingMetadata) : undefined;
+
+    logger.info(`Successfully received response from Gemini${grounding ? ` (${grounding.sources.length} grounding sources)` : ''}`);
+    return { text, grounding };
   } catch (error) {
     logger.error('Error calling Gemini API', {
       error: error instanceof Error ? error.message : String(error),
@@ -97,31 +127,44 @@ export async function callGeminiApi(
   }
 }
 
+/**
+ * Estimates the input tokens of a request (roughly four characters per token)
+ * @param messages - The messages sent to Gemini
+ * @returns Estimated number of tokens
+ */
+function estimateTokens(messages: {role: string, text: string}[]): number {
+  const characters = messages.reduce((sum, message) => sum + message.text.length, 0);
+  return Math.ceil(characters / 4);
+}
+
 /**
  * Parse the AI-generated JSON response into DetailedElection objects
  * @param jsonResponse - The JSON string from AI transformation
  * @param basicElection - Basic election information (for fallback)
- * @returns Array of DetailedElection objects
+ * @returns The DetailedElection objects, or the typed reason parsing failed
  */
-export function parseAIGeneratedJson(jsonResponse: string, basicElection: BasicElection): DetailedElection[] {
-  try {
-    logger.info('Parsing AI-generated JSON response');
-    
-    // Find JSON content even if there's text around it
-    const jsonMatch = jsonResponse.match(/\{[\s\S]*\}/);
-    const jsonString = jsonMatch ? jsonMatch[0] : jsonResponse;
-    
-    // Parse the JSON
-    const parsedData = JSON.parse(jsonString);
-    
-    // Basic validation
-    if (!parsedData.elections || !Array.isArray(parsedData.elections)) {
-      logger.warn('Invalid JSON structure: missing or invalid elections array');
-      return [];
-    }
-    
-    // Map to our DetailedElection type
-    const detailedElections: DetailedElection[] = parsedData.elections.map((election: any) => {
+export function parseAIGeneratedJson(jsonResponse: string, basicElection: BasicElection): ParseResult<DetailedElection[]> {
+  logger.info('Parsing AI-generated JSON response');
+  
+  // Find JSON content even if there's text, fences or several objects around it
+  const jsonResult = parseJsonResponse(jsonResponse, { arrayKey: 'elections' });
+  if (!jsonResult.success) {
+    logger.error('Error parsing AI-generated JSON', jsonResult.error);
+    return jsonResult;
+  }
+  
+  const parsedElections = getArrayProperty(jsonResult.data, 'elections');
+  
+  // Basic validation
+  if (!parsedElections) {
+    logger.warn('Invalid JSON structure: missing or invalid elections array');
+    return failure('invalid_structure', 'Missing or invalid "elections" array', jsonResponse);
+  }
+  
+  // Map to our DetailedElection type
+  const detailedElections: DetailedElection[] = parsedElections
+    .filter((election: any) => election && typeof election === 'object')
+    .map((election: any) => {
       // Validate and transform date
       let electionDate: Date;
       try {
@@ -149,33 +192,39 @@ export function parseAIGeneratedJson(jsonResponse: string, basicElection: BasicE
       // Validate and transform candidates
       const candidates: Candidate[] = Array.isArray(election.candidates) 
         ? election.candidates.map((candidate: any) => {
-            // Validate and transform keyPolicies
+            // Validate and transform keyPolicies (objects, or plain strings from older prompts)
             const keyPolicies: CandidatePolicy[] = Array.isArray(candidate.keyPolicies)
-              ? candidate.keyPolicies.map((policy: any) => ({
-                  title: policy.title || 'Policy',
-                  description: policy.description || 'No description provided'
-                }))
-              : [{ title: 'Policy', description: 'No specific policies mentioned' }];
+              ? candidate.keyPolicies.map((policy: any) => typeof policy === 'string'
+                ? { title: 'Policy', description: policy }
+                : {
+                    title: policy.title || 'Policy',
+                    description: policy.description || 'No description provided'
+                  })
+              : [];
               
             // Validate sources
             const sources: string[] = Array.isArray(candidate.sources)
               ? candidate.sources
-              : ['No sources found'];
+              : [];
               
+            // "N/A" and similar answers count as missing
+            const value = (field: string): string | undefined => isPlaceholder(candidate[field]) ? undefined : candidate[field];
+
+            // Only required text fields get a default, which isPlaceholder() also treats as missing
             return {
               fullName: candidate.fullName || '',
-              currentPosition: candidate.currentPosition || 'Candidate',
-              imageUrl: candidate.imageUrl || '',
-              linkedinUrl: candidate.linkedinUrl || '',
-              campaignUrl: candidate.campaignUrl || '',
-              description: candidate.description || 'No description found',
+              currentPosition: value('currentPosition') || 'Candidate',
+              imageUrl: value('imageUrl'),
+              linkedinUrl: value('linkedinUrl'),
+              campaignUrl: value('campaignUrl'),
+              description: value('description') || 'No description found',
               keyPolicies,
-              additionalNotes: candidate.additionalNotes || '',
+              additionalNotes: value('additionalNotes'),
               sources,
-              party: candidate.party || 'No party found',
-              city: candidate.city || 'Unknown',
-              state: candidate.state || 'Unknown',
-              twitter: candidate.twitter || ''
+              party: value('party'),
+              city: value('city'),
+              state: value('state'),
+              twitter: value('twitter')
             };
           })
         : [];
@@ -190,20 +239,96 @@ export function parseAIGeneratedJson(jsonResponse: string, basicElection: BasicE
         candidates
       };
     });
+  
+  if (detailedElections.length === 0) {
+    logger.warn('No elections found in AI-generated JSON');
+    return failure('empty_result', 'The "elections" array is empty', jsonResponse);
+  }
+  
+  logger.info(`Successfully parsed ${detailedElections.length} elections with ${detailedElections.reduce((sum, e) => sum + e.candidates.length, 0)} candidates total`);
+  return { success: true, data: detailedElections, repaired: jsonResult.repaired };
+}
+
+/**
+ * Parse the positions query response into DetailedPosition objects
+ * @param rawPositions - The response to the positions query
+ * @param basicElection - Basic election information
+ * @returns The DetailedPosition objects, or the typed reason parsing failed
+ */
+export function validateRawPositions(
+  rawPositions: string,
+  basicElection: BasicElection
+): ParseResult<DetailedPosition[]> {
+  logger.info(`Validating position information for election: ${basicElection.name}`);
+  
+  // Try to extract JSON from the response
+  const jsonResult = parseJsonResponse(rawPositions, { arrayKey: 'positions_up_for_election' });
+  if (!jsonResult.success) {
+    logger.error('Failed to parse JSON from Gemini response', jsonResult.error);
+    return jsonResult;
+  }
+  
+  const parsedPositions = getArrayProperty(jsonResult.data, 'positions_up_for_election');
+  
+  // Validate the parsed data structure
+  if (!parsedPositions) {
+    logger.warn('Invalid JSON structure: missing or invalid positions_up_for_election array');
+    return failure('invalid_structure', 'Missing or invalid "positions_up_for_election" array', rawPositions);
+  }
+  
+  // Map to DetailedPosition type
+  const detailedPositions: DetailedPosition[] = parsedPositions.map((position: any, index: number) => {
+    // Validate required fields
+    if (!position || !position.position_name) {
+      logger.warn(`Position at index ${index} is missing position_name, skipping`);
+      return null;
+    }
     
-    // If no elections were parsed, create a fallback
-    if (detailedElections.length === 0) {
-      logger.warn('No elections found in AI-generated JSON');
-      return []
+    // Convert position_type to ElectionType enum
+    let positionType: ElectionType;
+    const typeStr = String(position.position_type || '').toUpperCase();
+    
+    switch (typeStr) {
+      case 'LOCAL':
+        positionType = ElectionType.LOCAL;
+        break;
+      case 'STATE':
+        positionType = ElectionType.STATE;
+        break;
+      case 'FEDERAL':
+      case 'NATIONAL':
+        positionType = ElectionType.NATIONAL;
+        break;
+      case 'UNIVERSITY':
+        positionType = ElectionType.UNIVERSITY;
+        break;
+      default:
+        logger.warn(`Unknown position type: ${position.position_type}, defaulting to LOCAL`);
+        positionType = ElectionType.LOCAL;
     }
     
-    logger.info(`Successfully parsed ${detailedElections.length} elections with ${detailedElections.reduce((sum, e) => sum + e.candidates.length, 0)} candidates total`);
-    return detailedElections;
-  } catch (error) {
-    logger.error('Error parsing AI-generated JSON', {
-      error: error instanceof Error ? error.message : String(error),
-      jsonPreview: jsonResponse.substring(0, 200) + '...'
-    });
-    return [];
+    // Use election date from basic election if not provided
+    const electionDate = basicElection.date;
+    
+    // Validate positions count
+    const positions = parseInt(position.positions, 10);
+    
+    return {
+      positionName: position.position_name,
+      electionDate: electionDate,
+      city: position.city || '',
+      state: position.state || '',
+      description: position.description || `Position for ${basicElection.name}`,
+      type: positionType,
+      positions: isNaN(positions) ? 1 : positions
+    };
+  }).filter((position: DetailedPosition | null): position is DetailedPosition => position !== null);
+  
+  if (detailedPositions.length === 0) {
+    logger.warn(`No valid positions found for election: ${basicElection.name}`);
+    return failure('empty_result', 'No valid positions in "positions_up_for_election"', rawPositions);
   }
-}
\ No newline at end of file
+  
+  logger.info(`Successfully validated ${detailedPositions.length} positions for election: ${basicElection.name}`);
+  return { success: true, data: detailedPositions, repaired: jsonResult.repaired };
+}
@@ -0,0 +1,35 @@
+import { callGeminiApi } from './index';
+import { ResearchProvider, ResearchRequest, ResearchResponse } from '../research/types';
+
+/**
+ * Research provider backed by the Gemini API
+ * Research requests use Google Search grounding; transformations do not, so
+ * their response schema is enforced with JSON mode. Calls are scheduled by
+ * callGeminiApi's shared rate limiter.
+ */
+export class GeminiResearchProvider implements ResearchProvider {
+  public readonly name = 'gemini';
+
+  /**
+   * Researches a question with Google Search grounding
+   * @param request - The research request
+   * @returns Gemini's answer and its grounding metadata
+   */
+  public async research(request: ResearchRequest): Promise<ResearchResponse> {
+    return callGeminiApi(request.prompt, true, request.conversationHistory, {
+      responseSchema: request.responseSchema,
+    });
+  }
+
+  /**
+   * Transforms previous research into structured output
+   * @param request - The transformation request
+   * @returns Gemini's answer
+   */
+  public async transform(request: ResearchRequest): Promise<ResearchResponse> {
+    const { text } = await callGeminiApi(request.prompt, false, request.conversationHistory, {
+      responseSchema: request.responseSchema,
+    });
+    return { text };
+  }
+}
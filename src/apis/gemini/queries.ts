@@ -10,7 +10,7 @@ export function generateElectionQuery(election: BasicElection): string {
     state: ${election.state},
     district: ${election.district},
     description: ${election.district},
-    date: ${election.date.toISOString().split("T")[0]}
+    date: ${election.date.toISOString().split("T")[0]}${formatElectionHints(election)}
 
     Next, list all positions up for election as an array of JSON objects. 
   {
@@ -61,14 +61,14 @@ export function generateCandidatesQuery(
     state: ${election.state},
     district: ${election.district},
     description: ${election.district},
-    date: ${election.date.toISOString().split("T")[0]}
+    date: ${election.date.toISOString().split("T")[0]}${formatElectionHints(election)}
 
     position_name: ${position.positionName},
     city: ${position.city},
     state: ${position.state},
     description: ${position.description},
     position_type: ${position.type},
-    positions: ${position.positions},
+    positions: ${position.positions},${formatPositionHints(position)}
 
     Please provide the output in the following JSON format:
     {
@@ -85,7 +85,7 @@ export function generateCandidatesQuery(
         "home_city": "The candidate’s hometown city. If not available or unverified, mark as 'N/A'",
         "hometown_state": "The candidate’s hometown state. Make sure the state is NOT in abbreviated form (eg. NOT NY or PA). If not available or unverified, mark as 'N/A'",
         "additional_notes": "Any extra information (e.g., relevant controversies, endorsements, or unique campaign aspects)",
-        "sources": ["A list of verified sources (no need for URLs just general page description) used to gather this information"]
+        "sources": ["A list of verified sources used to gather this information, each with its page URL when known"]
         }
     ]
     }
@@ -141,7 +141,10 @@ export function generateTransformationPrompt(
           "campaignUrl": "string",
           "description": "string",
           "keyPolicies": [
-            "string"
+            {
+              "title": "string",
+              "description": "string"
+            }
           ],
           "additionalNotes": "string",
           "sources": [
@@ -161,8 +164,72 @@ export function generateTransformationPrompt(
   
   Here's the text to analyze:
   
-  ${candidatesWithPositions}
+  ${formatCandidateResponses(candidatesWithPositions)}
   
   Please ONLY respond with the valid JSON object, nothing else. Your response must be valid, parseable JSON.
   `;
 }
+
+/**
+ * Generates a prompt asking the AI to correct a JSON response that failed parsing or validation
+ * @param errors - Why the previous response was rejected (parse failure or schema error paths)
+ * @returns Prompt for the repair request
+ */
+export function generateRepairPrompt(errors: string): string {
+  return `
+  Your previous response could not be used because it is not valid JSON for the requested schema.
+  
+  These are the errors, as "path: problem" pairs separated by semicolons (paths are relative to the root object):
+  
+  ${errors}
+  
+  Return the complete corrected JSON object, following the same schema as before. Fix only what the errors describe and keep all other information unchanged.
+  If a value cannot be corrected (for example an invalid URL), leave the field blank instead of guessing.
+  
+  Please ONLY respond with the valid JSON object, nothing else. Your response must be valid, parseable JSON.
+  `;
+}
+
+/**
+ * Formats the candidate research for each position as labelled text sections
+ * @param candidatesWithPositions - The candidate research responses with their positions
+ * @returns The research text to include in the transformation prompt
+ */
+function formatCandidateResponses(
+  candidatesWithPositions: Array<{
+    position: DetailedPosition;
+    candidatesResponse: string;
+  }>
+): string {
+  return candidatesWithPositions
+    .map(({ position, candidatesResponse }) => `--- ${position.positionName} ---\n${candidatesResponse}`)
+    .join('\n\n');
+}
+
+/**
+ * Formats the optional details a source file gave for an election (city, expected
+ * positions, known candidates, source page) as extra lines of the election details
+ * @param election - Basic election information
+ * @returns The extra lines, or an empty string if the election has none
+ */
+function formatElectionHints(election: BasicElection): string {
+  const hints: string[] = [];
+
+  if (election.city) hints.push(`city: ${election.city}`);
+  if (election.type) hints.push(`election_type: ${election.type}`);
+  if (election.positions?.length) hints.push(`expected_positions: ${election.positions.join('; ')}`);
+  if (election.knownCandidates?.length) hints.push(`known_candidates: ${election.knownCandidates.join('; ')}`);
+  if (election.sourceUrl) hints.push(`official_source: ${election.sourceUrl}`);
+
+  return hints.map(hint => `,\n    ${hint}`).join('');
+}
+
+/**
+ * Formats what is already known about a position as extra lines of the position details
+ * @param position - The position
+ * @returns The extra lines, or an empty string when nothing more is known
+ */
+function formatPositionHints(position: DetailedPosition): string {
+  if (!position.knownCandidates?.length) return '';
+  return `\n    candidates_on_ballot: ${position.knownCandidates.join('; ')},`;
+}
@@ -0,0 +1,129 @@
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+
+/**
+ * Gemini response schemas matching the JSON formats requested in queries.ts.
+ * Gemini enforces a schema only in JSON mode, which cannot be combined with
+ * Google Search grounding; grounded responses are parsed with the tolerant
+ * JSON parser instead.
+ */
+
+const STRING = { type: SchemaType.STRING } as const;
+
+// Schema for the positions query (generateElectionQuery)
+export const POSITIONS_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    state: STRING,
+    district: STRING,
+    description: STRING,
+    date: STRING,
+    positions_up_for_election: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          position_name: STRING,
+          city: STRING,
+          state: STRING,
+          description: STRING,
+          position_type: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: ['local', 'state', 'federal'],
+          },
+          positions: STRING,
+        },
+        required: ['position_name', 'position_type'],
+      },
+    },
+  },
+  required: ['positions_up_for_election'],
+};
+
+// Schema for the candidates query (generateCandidatesQuery)
+export const CANDIDATES_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    candidates: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          name: STRING,
+          position: STRING,
+          party: STRING,
+          image_url: STRING,
+          linkedin_url: STRING,
+          campaign_website_url: STRING,
+          description: STRING,
+          key_policies: { type: SchemaType.ARRAY, items: STRING },
+          home_city: STRING,
+          hometown_state: STRING,
+          additional_notes: STRING,
+          sources: { type: SchemaType.ARRAY, items: STRING },
+        },
+        required: ['name'],
+      },
+    },
+  },
+  required: ['candidates'],
+};
+
+// Schema for the transformation prompt (generateTransformationPrompt)
+export const TRANSFORMATION_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    elections: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          position: STRING,
+          date: STRING,
+          city: STRING,
+          state: STRING,
+          description: STRING,
+          type: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: ['LOCAL', 'STATE', 'NATIONAL'],
+          },
+          candidates: {
+            type: SchemaType.ARRAY,
+            items: {
+              type: SchemaType.OBJECT,
+              properties: {
+                fullName: STRING,
+                currentPosition: STRING,
+                imageUrl: STRING,
+                linkedinUrl: STRING,
+                campaignUrl: STRING,
+                description: STRING,
+                keyPolicies: {
+                  type: SchemaType.ARRAY,
+                  items: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                      title: STRING,
+                      description: STRING,
+                    },
+                    required: ['title', 'description'],
+                  },
+                },
+                additionalNotes: STRING,
+                sources: { type: SchemaType.ARRAY, items: STRING },
+                party: STRING,
+                city: STRING,
+                state: STRING,
+                twitter: STRING,
+              },
+              required: ['fullName'],
+            },
+          },
+        },
+        required: ['position', 'date', 'type', 'candidates'],
+      },
+    },
+  },
+  required: ['elections'],
+};
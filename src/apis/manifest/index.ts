@@ -0,0 +1,202 @@
+// src/apis/manifest/index.ts
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import logger from '../../utils/logger';
+import { expandStateName, findStateName } from '../../utils/states';
+import { BasicElection, DetailedPosition, ElectionType, SourceRowError } from '../../models/types';
+import { formatZodErrors } from '../../services/data-validator';
+import { parseElectionDate, parseElectionType } from '../csv';
+import { ManifestElection, ManifestElectionSchema, ManifestSchema } from './schema';
+
+export * from './schema';
+
+/**
+ * Outcome of a manifest import: the valid elections and the entries that could not be read
+ */
+export interface ManifestImportResult {
+  elections: BasicElection[];
+  errors: SourceRowError[];
+}
+
+/**
+ * Reads election data from a JSON or YAML manifest
+ * Elections whose positions are listed carry them as `seededPositions`, so the
+ * positions research is skipped for them. Entries that cannot be read are logged and skipped.
+ *
+ * @param filePath - Path to the manifest (.json, .yaml or .yml)
+ * @returns Promise<BasicElection[]> - Array of basic election info
+ */
+export async function getElectionsFromManifest(filePath: string): Promise<BasicElection[]> {
+  const { elections, errors } = await readElectionManifest(filePath);
+
+  if (elections.length === 0 && errors.length > 0) {
+    throw new Error(`Manifest has no valid elections (${errors.length} entries with errors, first: entry ${errors[0].row}: ${errors[0].message})`);
+  }
+
+  return elections;
+}
+
+/**
+ * Reads election data from a JSON or YAML manifest, collecting an error for each entry that cannot be read
+ * Problems with the file itself (missing, unreadable, no election list) still throw.
+ * Example (YAML):
+ *   elections:
+ *     - name: Laurel Town Council
+ *       state: Delaware
+ *       date: 2025-03-27
+ *       positions:
+ *         - Mayor
+ *         - { name: Town Council, seats: 2 }
+ *       knownCandidates: [Jane Doe]
+ *       sourceUrl: https://townoflaurel.net/elections
+ * @param filePath - Path to the manifest (.json, .yaml or .yml)
+ * @returns The valid elections and the entry errors
+ */
+export async function readElectionManifest(filePath: string): Promise<ManifestImportResult> {
+  try {
+    logger.info(`Reading elections from manifest: ${filePath}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Manifest not found: ${filePath}. Please check the file path and try again.`);
+    }
+
+    const content = fs.readFileSync(filePath, { encoding: 'utf-8' });
+    const manifest = ManifestSchema.safeParse(parseManifest(content, filePath));
+    if (!manifest.success) {
+      throw new Error('Manifest must be a list of elections or an object with an "elections" list');
+    }
+
+    const entries = Array.isArray(manifest.data) ? manifest.data : manifest.data.elections;
+    const result: ManifestImportResult = { elections: [], errors: [] };
+
+    entries.forEach((entry, index) => {
+      const row = index + 1;
+      const parsed = ManifestElectionSchema.safeParse(entry);
+      const election = parsed.success ? toBasicElection(parsed.data) : { error: formatZodErrors(parsed.error) };
+
+      if ('error' in election) {
+        logger.warn(`Skipping manifest entry ${row}: ${election.error}`, { entry });
+        result.errors.push({
+          row,
+          message: election.error,
+          record: entry !== null && typeof entry === 'object' ? entry as Record<string, unknown> : { value: entry },
+        });
+      } else {
+        result.elections.push(election);
+      }
+    });
+
+    const seeded = result.elections.filter(election => election.seededPositions).length;
+    logger.info(`Read ${result.elections.length} elections from manifest (${seeded} with known positions, ${result.errors.length} entries with errors)`);
+    return result;
+  } catch (error) {
+    logger.error('Error reading elections from manifest', {
+      error: error instanceof Error ? error.message : String(error),
+      filePath,
+    });
+    throw error; // Re-throw to be handled by the calling function
+  }
+}
+
+/**
+ * Parses the manifest content according to its file extension
+ * @param content - The file content
+ * @param filePath - Path to the manifest
+ * @returns The parsed document
+ */
+function parseManifest(content: string, filePath: string): unknown {
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    if (extension === '.json') {
+      return JSON.parse(content);
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return parseYaml(content);
+    }
+  } catch (error) {
+    throw new Error(`Manifest is not valid ${extension === '.json' ? 'JSON' : 'YAML'}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  throw new Error(`Unsupported manifest format "${extension}" (expected .json, .yaml or .yml)`);
+}
+
+/**
+ * Maps a manifest entry to a basic election, with its positions seeded when listed
+ * @param entry - The validated manifest entry
+ * @returns The election, or the reason the entry cannot be used
+ */
+function toBasicElection(entry: ManifestElection): BasicElection | { error: string } {
+  const date = entry.date instanceof Date ? parseElectionDate(entry.date.toISOString()) : parseElectionDate(entry.date);
+  if (!date) {
+    return { error: `date: invalid date "${String(entry.date)}" (expected e.g. YYYY-MM-DD)` };
+  }
+  const dateKey = date.toISOString().split('T')[0];
+
+  let state = entry.state ? expandStateName(entry.state) : '';
+  let district = entry.district || '';
+  let description = entry.description || '';
+  let name: string;
+
+  if (entry.name) {
+    name = entry.name;
+    state = state || findStateName(entry.name) || '';
+    description = description || entry.name;
+    district = district || entry.city || state;
+  } else {
+    if (!state || !district || !description) {
+      return { error: 'missing required fields: a name, or all of state, district and description' };
+    }
+    // Same name as a State,District,Description,Date CSV row, so both sources match the same records
+    name = `${state},${district},${description},${dateKey}`;
+  }
+
+  const election: BasicElection = { name, state, district, description, date };
+
+  if (entry.city) {
+    election.city = entry.city;
+  }
+
+  if (entry.type) {
+    const type = parseElectionType(entry.type);
+    if (!type) {
+      return { error: `type: unknown election type "${entry.type}"` };
+    }
+    election.type = type;
+  }
+
+  if (entry.knownCandidates?.length) {
+    election.knownCandidates = entry.knownCandidates;
+  }
+
+  if (entry.sourceUrl) {
+    election.sourceUrl = entry.sourceUrl;
+  }
+
+  if (entry.positions?.length) {
+    const seededPositions: DetailedPosition[] = [];
+
+    for (const [index, position] of entry.positions.entries()) {
+      const details = typeof position === 'string' ? { name: position } : position;
+      const type = details.type ? parseElectionType(details.type) : election.type || ElectionType.LOCAL;
+      if (!type) {
+        return { error: `positions.${index}.type: unknown election type "${details.type}"` };
+      }
+
+      seededPositions.push({
+        positionName: details.name,
+        electionDate: date,
+        city: details.city || election.city || '',
+        state,
+        description: details.description || `Position for ${name}`,
+        type,
+        positions: details.seats || 1,
+      });
+    }
+
+    election.seededPositions = seededPositions;
+  }
+
+  return election;
+}
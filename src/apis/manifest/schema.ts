@@ -0,0 +1,38 @@
+// src/apis/manifest/schema.ts
+import { z } from 'zod';
+
+// Schema for a position listed in a manifest: just its name, or its details
+export const ManifestPositionSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    city: z.string().optional(),
+    type: z.string().optional(),
+    seats: z.number().int().positive().optional(),
+  }).strict(),
+]);
+
+// Schema for an election listed in a manifest
+// Unknown keys are rejected, so typos in the curated files are reported instead of ignored.
+export const ManifestElectionSchema = z.object({
+  name: z.string().min(1).optional(),
+  state: z.string().min(1).optional(),
+  district: z.string().min(1).optional(),
+  description: z.string().min(1).optional(),
+  city: z.string().min(1).optional(),
+  date: z.union([z.string(), z.date()]),
+  type: z.string().optional(),
+  positions: z.array(ManifestPositionSchema).optional(),
+  knownCandidates: z.array(z.string().min(1)).optional(),
+  sourceUrl: z.string().url().optional(),
+}).strict();
+
+// Schema for a manifest file: a list of elections, or an object with an `elections` list
+export const ManifestSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ elections: z.array(z.unknown()) }),
+]);
+
+export type ManifestPosition = z.infer<typeof ManifestPositionSchema>;
+export type ManifestElection = z.infer<typeof ManifestElectionSchema>;
@@ -0,0 +1,236 @@
+// src/apis/official/index.ts
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'papaparse';
+import * as XLSX from 'xlsx';
+import logger from '../../utils/logger';
+import { expandStateName } from '../../utils/states';
+import { Candidate, DetailedPosition, ElectionType, SourceRowError } from '../../models/types';
+import { candidateNaturalKey, normalizeText, toDateKey } from '../../services/db/matching';
+import { normalizeHeader, parseElectionDate } from '../csv';
+import { OfficialColumns, OfficialListProfile } from './profile';
+
+export * from './profile';
+
+/**
+ * A race on an official candidate list: the position and the candidates running for it
+ */
+export interface OfficialRace {
+  position: DetailedPosition;
+  candidates: Candidate[];
+}
+
+/**
+ * Outcome of a candidate list import: the races and the rows that could not be read
+ */
+export interface OfficialImportResult {
+  races: OfficialRace[];
+  errors: SourceRowError[];
+}
+
+/**
+ * Reads a candidate list exported by a state or county election office (CSV or XLSX)
+ * Rows are mapped with the jurisdiction's column profile and grouped into races by
+ * office, district, city and date. Every position and candidate is marked official.
+ * Rows that cannot be read are reported instead of stopping the import.
+ * @param filePath - Path to the candidate list (.csv, .xlsx or .xls)
+ * @param profile - Column mapping profile of the jurisdiction
+ * @returns The races and the row errors
+ */
+export async function readOfficialCandidateList(filePath: string, profile: OfficialListProfile): Promise<OfficialImportResult> {
+  try {
+    logger.info(`Reading official candidate list ${filePath} with profile ${profile.id}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Candidate list not found: ${filePath}. Please check the file path and try again.`);
+    }
+
+    const { headers, rows } = readRows(filePath, profile);
+    const columns = resolveProfileColumns(headers, profile.columns);
+    const source = `Official candidate list: ${profile.jurisdiction} (${path.basename(filePath)})`;
+
+    const races = new Map<string, OfficialRace>();
+    const result: OfficialImportResult = { races: [], errors: [] };
+
+    rows.forEach((record, index) => {
+      const row = index + 1;
+      const get = (field: keyof OfficialColumns) => {
+        const header = columns[field];
+        return header ? String(record[header] ?? '').trim() : '';
+      };
+      const fail = (message: string) => {
+        logger.warn(`Skipping candidate list row ${row}: ${message}`, { record });
+        result.errors.push({ row, message, record });
+      };
+
+      const office = get('office');
+      const fullName = candidateName(get, profile);
+      if (!office || !fullName) {
+        fail(`missing ${office ? 'candidate name' : 'office'}`);
+        return;
+      }
+
+      const dateValue = get('date') || profile.electionDate;
+      const date = dateValue ? parseElectionDate(dateValue) : null;
+      if (!date) {
+        fail(dateValue ? `invalid date "${dateValue}"` : 'missing date (add a date column or an electionDate to the profile)');
+        return;
+      }
+
+      const positionName = formatPositionName(office, get('district'));
+      const city = get('city') || profile.city || '';
+      const raceKey = [normalizeText(positionName), normalizeText(city), toDateKey(date)].join('|');
+
+      let race = races.get(raceKey);
+      if (!race) {
+        const seats = parseInt(get('seats'), 10);
+        race = {
+          position: {
+            positionName,
+            electionDate: date,
+            city,
+            state: expandStateName(profile.state),
+            description: `${positionName} (candidate list of the ${profile.jurisdiction})`,
+            type: profile.type || ElectionType.LOCAL,
+            positions: seats > 0 ? seats : 1,
+            official: true,
+          },
+          candidates: [],
+        };
+        races.set(raceKey, race);
+      }
+
+      if (race.candidates.some(candidate => candidateNaturalKey(candidate.fullName) === candidateNaturalKey(fullName))) {
+        fail(`duplicate candidate "${fullName}" for ${positionName}`);
+        return;
+      }
+
+      const party = get('party');
+      const website = get('website');
+      race.candidates.push({
+        fullName,
+        currentPosition: '',
+        description: '',
+        keyPolicies: [],
+        sources: [source],
+        party: party ? profile.parties?.[party] || party : undefined,
+        state: expandStateName(profile.state),
+        campaignUrl: website || undefined,
+        official: true,
+      });
+    });
+
+    result.races = [...races.values()];
+    const candidateCount = result.races.reduce((sum, race) => sum + race.candidates.length, 0);
+    logger.info(`Read ${candidateCount} candidates in ${result.races.length} races from the official candidate list (${result.errors.length} rows with errors)`);
+    return result;
+  } catch (error) {
+    logger.error('Error reading official candidate list', {
+      error: error instanceof Error ? error.message : String(error),
+      filePath,
+    });
+    throw error; // Re-throw to be handled by the calling function
+  }
+}
+
+/**
+ * Reads the rows of a CSV or XLSX file, keyed by header
+ * @param filePath - Path to the file
+ * @param profile - The profile (sheet and title rows to skip)
+ * @returns The headers and the rows
+ */
+function readRows(filePath: string, profile: OfficialListProfile): { headers: string[]; rows: Record<string, string>[] } {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.csv') {
+    const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/).slice(profile.skipRows || 0);
+    const parseResult = parse<Record<string, string>>(lines.join('\n'), {
+      header: true,
+      skipEmptyLines: 'greedy',
+      transformHeader: header => header.trim(),
+    });
+    return { headers: parseResult.meta.fields || [], rows: parseResult.data };
+  }
+
+  if (extension === '.xlsx' || extension === '.xls') {
+    const workbook = XLSX.readFile(filePath);
+    const sheetName = profile.sheet || workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      throw new Error(`Sheet "${sheetName}" not found in ${filePath} (sheets: ${workbook.SheetNames.join(', ')})`);
+    }
+
+    // Cells are read as displayed text, so dates and numbers look as they do in the spreadsheet
+    const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false });
+    const [headerRow = [], ...dataRows] = table.slice(profile.skipRows || 0);
+    const headers = headerRow.map(header => String(header).trim());
+    const rows = dataRows.map(cells => Object.fromEntries(headers.map((header, i) => [header, String(cells[i] ?? '')])));
+    return { headers, rows };
+  }
+
+  throw new Error(`Unsupported candidate list format "${extension}" (expected .csv, .xlsx or .xls)`);
+}
+
+/**
+ * Finds the file's header for each column of the profile
+ * Headers are matched after normalization, so "Office Name" matches "office_name".
+ * @param headers - The headers of the file
+ * @param columns - The profile's column headers
+ * @returns The file's header for each column
+ */
+function resolveProfileColumns(headers: string[], columns: OfficialColumns): Partial<Record<keyof OfficialColumns, string>> {
+  const resolved: Partial<Record<keyof OfficialColumns, string>> = {};
+  const missing: string[] = [];
+
+  for (const [field, expected] of Object.entries(columns) as [keyof OfficialColumns, string][]) {
+    const header = headers.find(candidate => normalizeHeader(candidate) === normalizeHeader(expected));
+    if (header === undefined) {
+      missing.push(expected);
+    } else {
+      resolved[field] = header;
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Candidate list is missing the profile's columns: ${missing.join(', ')} (found: ${headers.join(', ')})`);
+  }
+  return resolved;
+}
+
+/**
+ * Builds a candidate's full name from the name column or the name parts
+ * Names written in capitals (common in election office exports) are title-cased.
+ */
+function candidateName(get: (field: keyof OfficialColumns) => string, profile: OfficialListProfile): string {
+  let name: string;
+
+  if (profile.columns.name) {
+    name = get('name');
+    if (profile.nameFormat === 'last-first' && name.includes(',')) {
+      const [last, ...rest] = name.split(',');
+      name = `${rest.join(' ').trim()} ${last.trim()}`;
+    }
+  } else {
+    const suffix = get('suffix');
+    name = [get('firstName'), get('middleName'), get('lastName')].filter(Boolean).join(' ') + (suffix ? `, ${suffix}` : '');
+  }
+
+  name = name.replace(/\s+/g, ' ').trim();
+  return name === name.toUpperCase() ? titleCase(name) : name;
+}
+
+/**
+ * Title-cases a name written in capitals ("MARY O'NEIL-SMITH" -> "Mary O'Neil-Smith"),
+ * leaving roman numeral suffixes (II, III, IV) alone
+ */
+function titleCase(name: string): string {
+  return name.replace(/[A-Z]+/gi, word => /^(II|III|IV)$/.test(word) ? word : word.charAt(0) + word.slice(1).toLowerCase());
+}
+
+/**
+ * Names a position from its office and district ("State Senator" + "36" -> "State Senator - District 36")
+ */
+function formatPositionName(office: string, district: string): string {
+  if (!district) return office;
+  return /^\d+[a-z]?$/i.test(district) ? `${office} - District ${district}` : `${office} - ${district}`;
+}
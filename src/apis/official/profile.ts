@@ -0,0 +1,95 @@
+// src/apis/official/profile.ts
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { config } from '../../config';
+import { formatZodErrors } from '../../services/data-validator';
+import { parseElectionType } from '../csv';
+
+// Headers of the columns read from a candidate list
+// The office is required, and the candidate name is either one column or its parts.
+export const OfficialColumnsSchema = z.object({
+  office: z.string().min(1),
+  district: z.string().min(1).optional(),
+  name: z.string().min(1).optional(),
+  firstName: z.string().min(1).optional(),
+  middleName: z.string().min(1).optional(),
+  lastName: z.string().min(1).optional(),
+  suffix: z.string().min(1).optional(),
+  party: z.string().min(1).optional(),
+  city: z.string().min(1).optional(),
+  date: z.string().min(1).optional(),
+  seats: z.string().min(1).optional(),
+  website: z.string().min(1).optional(),
+}).strict().refine(columns => columns.name || (columns.firstName && columns.lastName), {
+  message: 'Either "name" or both "firstName" and "lastName" are required',
+});
+
+// Column mapping profile of one jurisdiction's candidate list export
+export const OfficialListProfileSchema = z.object({
+  // Election office publishing the list, recorded as the candidates' source
+  jurisdiction: z.string().min(1),
+  state: z.string().min(1),
+  // City of every race, for county or city lists without a city column
+  city: z.string().min(1).optional(),
+  // Election type of every race: local, state, national or university (default local)
+  type: z.string().transform((value, context) => {
+    const type = parseElectionType(value);
+    if (!type) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown election type "${value}"` });
+      return z.NEVER;
+    }
+    return type;
+  }).optional(),
+  // Election date of every race, for lists without a date column (YYYY-MM-DD)
+  electionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  // XLSX sheet to read (default: the first sheet)
+  sheet: z.string().min(1).optional(),
+  // Title rows above the header row
+  skipRows: z.number().int().nonnegative().optional(),
+  // Whether single name columns are written "Last, First Middle"
+  nameFormat: z.enum(['first-last', 'last-first']).optional(),
+  // Full party names by the codes used in the list (e.g. DEM: Democratic)
+  parties: z.record(z.string()).optional(),
+  columns: OfficialColumnsSchema,
+}).strict();
+
+export type OfficialColumns = z.infer<typeof OfficialColumnsSchema>;
+
+/**
+ * Column mapping profile of one jurisdiction's candidate list, with its name
+ */
+export type OfficialListProfile = z.infer<typeof OfficialListProfileSchema> & { id: string };
+
+/**
+ * Loads a candidate list profile by name from the profiles directory, or from a file
+ * @param nameOrPath - Profile name (e.g. "anchorage", for official-profiles/anchorage.yaml) or path to a profile file
+ * @param profilesDir - Directory of the named profiles
+ * @returns The validated profile
+ */
+export function loadOfficialListProfile(nameOrPath: string, profilesDir: string = config.official.profilesDir): OfficialListProfile {
+  const candidates = fs.existsSync(nameOrPath) && fs.statSync(nameOrPath).isFile()
+    ? [nameOrPath]
+    : ['.yaml', '.yml', '.json'].map(extension => path.join(profilesDir, `${nameOrPath}${extension}`));
+  const filePath = candidates.find(candidate => fs.existsSync(candidate));
+
+  if (!filePath) {
+    throw new Error(`Candidate list profile not found: ${nameOrPath} (looked for a file and in ${profilesDir})`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  let document: unknown;
+  try {
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Candidate list profile ${filePath} cannot be parsed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = OfficialListProfileSchema.safeParse(document);
+  if (!result.success) {
+    throw new Error(`Invalid candidate list profile ${filePath}: ${formatZodErrors(result.error)}`);
+  }
+
+  return { id: path.basename(filePath, path.extname(filePath)), ...result.data };
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../../utils/logger';
+import { sanitizeFileName } from '../../utils/helpers';
+import { ResearchGrounding, ResearchProvider, ResearchRequest, ResearchResponse } from './types';
+
+const QUERY_MARKER = '=== QUERY ===\n\n';
+const RESPONSE_MARKER = '\n\n=== RESPONSE ===\n\n';
+
+/**
+ * Research provider that replays the responses recorded in an ai-logs run
+ * directory instead of calling a model. Responses are deterministic, which
+ * lets the pipeline run end-to-end offline.
+ *
+ * Research responses are looked up by exact prompt in `gemini-queries/`, then
+ * by election / position file name, with their grounding from `gemini-grounding/`
+ * when it was recorded; transformations are read from `gemini-json/<election>_raw.json`.
+ */
+export class FixtureResearchProvider implements ResearchProvider {
+  public readonly name = 'fixture';
+
+  private runDir: string;
+  private responsesByPrompt = new Map<string, string>();
+
+  /**
+   * Creates a new FixtureResearchProvider instance
+   * @param runDir - The recorded ai-logs run directory to replay
+   */
+  constructor(runDir: string) {
+    if (!fs.existsSync(runDir)) {
+      throw new Error(`Fixture run directory not found: ${runDir}`);
+    }
+
+    this.runDir = runDir;
+    this.indexRecordedQueries();
+  }
+
+  /**
+   * Replays the recorded response to a research request
+   * @param request - The research request
+   * @returns The recorded response
+   */
+  public async research(request: ResearchRequest): Promise<ResearchResponse> {
+    const grounding = this.readGrounding(request);
+
+    const byPrompt = this.responsesByPrompt.get(normalizePrompt(request.prompt));
+    if (byPrompt !== undefined) {
+      return { text: byPrompt, ...(grounding ? { grounding } : {}) };
+    }
+
+    const recorded = this.readQueryFile(this.recordedFilePath(request));
+
+    if (!recorded) {
+      throw new Error(`No recorded ${request.stage} response for "${request.positionName || request.electionName}" in ${this.runDir}`);
+    }
+
+    return { text: recorded.response, ...(grounding ? { grounding } : {}) };
+  }
+
+  /**
+   * Replays the recorded structured JSON for an election
+   * @param request - The transformation request
+   * @returns The recorded response
+   */
+  public async transform(request: ResearchRequest): Promise<ResearchResponse> {
+    const filePath = this.recordedFilePath(request);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`No recorded transform response for "${request.electionName}" in ${this.runDir}`);
+    }
+
+    return { text: fs.readFileSync(filePath, 'utf8') };
+  }
+
+  /**
+   * Checks whether the run recorded a response for a stage
+   * @param request - The stage, election and position to look for
+   * @returns True if a recorded response file exists
+   */
+  public hasRecorded(request: Pick<ResearchRequest, 'stage' | 'electionName' | 'positionName'>): boolean {
+    return fs.existsSync(this.recordedFilePath(request));
+  }
+
+  /**
+   * Gets the file AIDataLogger records a stage's response in
+   * @param request - The stage, election and position
+   * @returns Path of the recorded response file
+   */
+  private recordedFilePath(request: Pick<ResearchRequest, 'stage' | 'electionName' | 'positionName'>): string {
+    const election = sanitizeFileName(request.electionName);
+
+    switch (request.stage) {
+      case 'positions':
+        return path.join(this.runDir, 'gemini-queries', `${election}_election_query.txt`);
+      case 'candidates':
+        return path.join(this.runDir, 'gemini-queries', `${election}_${sanitizeFileName(request.positionName || '')}_candidate_query.txt`);
+      case 'transform':
+        return path.join(this.runDir, 'gemini-json', `${election}_raw.json`);
+    }
+  }
+
+  /**
+   * Reads the grounding recorded with a research response, as AIDataLogger writes it
+   * @param request - The stage, election and position
+   * @returns The recorded grounding, or undefined if none was recorded
+   */
+  private readGrounding(request: Pick<ResearchRequest, 'stage' | 'electionName' | 'positionName'>): ResearchGrounding | undefined {
+    const election = sanitizeFileName(request.electionName);
+    const fileName = request.stage === 'candidates'
+      ? `${election}_${sanitizeFileName(request.positionName || '')}_candidate_grounding.json`
+      : `${election}_election_grounding.json`;
+    const filePath = path.join(this.runDir, 'gemini-grounding', fileName);
+
+    return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : undefined;
+  }
+
+  /**
+   * Indexes every recorded query in the run by its prompt
+   */
+  private indexRecordedQueries(): void {
+    const queriesDir = path.join(this.runDir, 'gemini-queries');
+    if (!fs.existsSync(queriesDir)) {
+      logger.warn(`Fixture run has no recorded queries: ${queriesDir}`);
+      return;
+    }
+
+    for (const file of fs.readdirSync(queriesDir)) {
+      const recorded = this.readQueryFile(path.join(queriesDir, file));
+      if (recorded) {
+        this.responsesByPrompt.set(normalizePrompt(recorded.query), recorded.response);
+      }
+    }
+
+    logger.info(`Indexed ${this.responsesByPrompt.size} recorded queries from ${queriesDir}`);
+  }
+
+  /**
+   * Reads a query log written by AIDataLogger
+   * @param filePath - Path of the query log
+   * @returns The recorded query and response, or null if the file is missing or malformed
+   */
+  private readQueryFile(filePath: string): { query: string; response: string } | null {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const queryStart = content.indexOf(QUERY_MARKER);
+    const responseStart = content.indexOf(RESPONSE_MARKER);
+
+    if (queryStart === -1 || responseStart === -1) {
+      logger.warn(`Skipping malformed query log: ${filePath}`);
+      return null;
+    }
+
+    return {
+      query: content.slice(queryStart + QUERY_MARKER.length, responseStart),
+      response: content.slice(responseStart + RESPONSE_MARKER.length),
+    };
+  }
+}
+
+/**
+ * Collapses whitespace so prompts match regardless of indentation changes
+ */
+function normalizePrompt(prompt: string): string {
+  return prompt.replace(/\s+/g, ' ').trim();
+}
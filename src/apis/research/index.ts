@@ -0,0 +1,35 @@
+import path from 'path';
+import { config } from '../../config';
+import { GeminiResearchProvider } from '../gemini/provider';
+import { FixtureResearchProvider } from './fixture-provider';
+import { ResearchProvider } from './types';
+
+export * from './types';
+export { FixtureResearchProvider } from './fixture-provider';
+export { GeminiResearchProvider } from '../gemini/provider';
+
+/**
+ * Creates the configured research provider
+ * @param options - Overrides for the provider name and fixture run directory
+ * @returns The research provider
+ */
+export function createResearchProvider(options: {
+  provider?: string,
+  fixtureRunDir?: string
+} = {}): ResearchProvider {
+  const provider = options.provider || config.research.provider;
+
+  switch (provider) {
+    case 'gemini':
+      return new GeminiResearchProvider();
+    case 'fixture': {
+      const runDir = options.fixtureRunDir || config.research.fixtureRunDir;
+      if (!runDir) {
+        throw new Error('The fixture research provider requires a run directory (RESEARCH_FIXTURE_RUN_DIR)');
+      }
+      return new FixtureResearchProvider(path.resolve(process.cwd(), runDir));
+    }
+    default:
+      throw new Error(`Unknown research provider: ${provider}`);
+  }
+}
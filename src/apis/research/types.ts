@@ -0,0 +1,88 @@
+import { ResponseSchema } from '@google/generative-ai';
+
+/**
+ * The pipeline stage a research request belongs to
+ * - positions: grounded research of the positions up for election
+ * - candidates: grounded research of the candidates for one position
+ * - transform: structured transformation of the research into JSON
+ */
+export type ResearchStage = 'positions' | 'candidates' | 'transform';
+
+/**
+ * A prior message in a multi-turn conversation with the model
+ */
+export interface ConversationMessage {
+  role: string;
+  text: string;
+}
+
+/**
+ * A single request to a research provider
+ */
+export interface ResearchRequest {
+  stage: ResearchStage;
+  prompt: string;
+  electionName: string;
+  positionName?: string;
+  conversationHistory?: ConversationMessage[];
+  // JSON schema the response should follow, enforced where the provider supports it
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * A web page the model's answer is grounded in
+ */
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+/**
+ * A statement of the answer and the sources backing it (indices into the sources)
+ */
+export interface GroundingClaim {
+  text: string;
+  sources: number[];
+  // Confidence of each source backing the statement (0 to 1), when the provider reports it
+  confidence: number[];
+}
+
+/**
+ * Where a grounded answer came from: the searches run, the pages found and which statements they back
+ */
+export interface ResearchGrounding {
+  searchQueries: string[];
+  sources: GroundingSource[];
+  claims: GroundingClaim[];
+}
+
+/**
+ * A research provider's answer to a request
+ */
+export interface ResearchResponse {
+  text: string;
+  // Grounding metadata of grounded answers, when the provider returns it
+  grounding?: ResearchGrounding;
+}
+
+/**
+ * An LLM backend that can research elections and transform the research
+ * into structured data
+ */
+export interface ResearchProvider {
+  readonly name: string;
+
+  /**
+   * Researches a question using grounded (web search backed) generation
+   * @param request - The research request
+   * @returns The model's answer
+   */
+  research(request: ResearchRequest): Promise<ResearchResponse>;
+
+  /**
+   * Transforms previous research into structured output without grounding
+   * @param request - The transformation request
+   * @returns The model's answer
+   */
+  transform(request: ResearchRequest): Promise<ResearchResponse>;
+}
@@ -0,0 +1,151 @@
+// src/apis/vip/feed.ts
+import fs from 'fs';
+import sax from 'sax';
+
+/**
+ * An XML element kept from a VIP feed: its attributes, text and child elements
+ */
+export interface VipNode {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: VipNode[];
+}
+
+/**
+ * The objects of a VIP feed needed to build contests, by element name and id
+ */
+export type VipFeed = Record<string, Map<string, VipNode>>;
+
+// Top-level VIP elements kept in memory; everything else (street segments,
+// polling locations, precincts...) is skipped while streaming
+export const VIP_ELEMENTS = [
+  'Election',
+  'State',
+  'Locality',
+  'ElectoralDistrict',
+  'Office',
+  'Party',
+  'Person',
+  'Candidate',
+  'CandidateSelection',
+  'BallotSelection',
+  'CandidateContest',
+] as const;
+
+/**
+ * Streams a VIP 5.x XML feed, keeping only the top-level objects needed for contests
+ * Objects are kept by id, since VIP objects refer to each other in any order.
+ * @param filePath - Path to the VIP XML file
+ * @returns The kept objects by element name and id
+ */
+export function streamVipFeed(filePath: string): Promise<VipFeed> {
+  const feed: VipFeed = Object.fromEntries(VIP_ELEMENTS.map(name => [name, new Map<string, VipNode>()]));
+  const kept = new Set<string>(VIP_ELEMENTS);
+
+  return new Promise((resolve, reject) => {
+    const parser = sax.createStream(true, { trim: false });
+    const input = fs.createReadStream(filePath);
+    // Elements being captured (empty while skipping), and the depth below the root
+    const stack: VipNode[] = [];
+    let depth = 0;
+
+    parser.on('opentag', tag => {
+      depth++;
+      const name = localName(tag.name);
+
+      if (stack.length === 0 && !(depth === 2 && kept.has(name))) return;
+
+      const attributes: Record<string, string> = {};
+      for (const [key, value] of Object.entries(tag.attributes)) {
+        attributes[localName(key)] = typeof value === 'string' ? value : value.value;
+      }
+
+      const node: VipNode = { name, attributes, text: '', children: [] };
+      stack[stack.length - 1]?.children.push(node);
+      stack.push(node);
+    });
+
+    parser.on('text', text => {
+      if (stack.length > 0) stack[stack.length - 1].text += text;
+    });
+
+    parser.on('cdata', text => {
+      if (stack.length > 0) stack[stack.length - 1].text += text;
+    });
+
+    parser.on('closetag', () => {
+      depth--;
+      const node = stack.pop();
+      if (!node) return;
+
+      node.text = node.text.trim();
+      if (stack.length === 0 && node.attributes.id) {
+        feed[node.name].set(node.attributes.id, node);
+      }
+    });
+
+    parser.on('error', error => {
+      input.destroy();
+      reject(new Error(`Invalid VIP XML in ${filePath}: ${error.message.split('\n').join(' ')}`));
+    });
+
+    parser.on('end', () => resolve(feed));
+    input.on('error', reject);
+    input.pipe(parser);
+  });
+}
+
+/**
+ * Gets the first child element with a name
+ * @param node - The parent element
+ * @param name - The child element name
+ * @returns The child, or undefined
+ */
+export function child(node: VipNode | undefined, name: string): VipNode | undefined {
+  return node?.children.find(candidate => candidate.name === name);
+}
+
+/**
+ * Gets the text of a child element
+ * @param node - The parent element
+ * @param name - The child element name
+ * @returns The trimmed text, or an empty string
+ */
+export function childText(node: VipNode | undefined, name: string): string {
+  return child(node, name)?.text || '';
+}
+
+/**
+ * Gets an InternationalizedText child (e.g. `<Name><Text language="en">...</Text></Name>`),
+ * preferring English and falling back to the first translation or plain text
+ * @param node - The parent element
+ * @param name - The child element name
+ * @returns The text, or an empty string
+ */
+export function childLocalizedText(node: VipNode | undefined, name: string): string {
+  const element = child(node, name);
+  if (!element) return '';
+
+  const texts = element.children.filter(candidate => candidate.name === 'Text');
+  const english = texts.find(text => (text.attributes.language || '').toLowerCase().startsWith('en'));
+  return (english || texts[0])?.text || element.text;
+}
+
+/**
+ * Gets the ids listed in an IDREFS child (e.g. `<CandidateIds>can1 can2</CandidateIds>`)
+ * @param node - The parent element
+ * @param name - The child element name
+ * @returns The ids, in order
+ */
+export function childIds(node: VipNode | undefined, name: string): string[] {
+  return childText(node, name).split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Strips a namespace prefix from an element or attribute name
+ */
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
@@ -0,0 +1,209 @@
+// src/apis/vip/index.ts
+import fs from 'fs';
+import path from 'path';
+import logger from '../../utils/logger';
+import { expandStateName } from '../../utils/states';
+import { Candidate, ElectionType, SourceRowError } from '../../models/types';
+import { candidateNaturalKey } from '../../services/db/matching';
+import { parseElectionDate } from '../csv';
+import { OfficialRace } from '../official';
+import { child, childIds, childLocalizedText, childText, streamVipFeed, VipFeed, VipNode } from './feed';
+
+export * from './feed';
+
+/**
+ * Outcome of a VIP feed import: the election, its candidate contests and the contests that could not be read
+ */
+export interface VipImportResult {
+  election: {
+    name: string;
+    date: Date;
+    state: string;
+  };
+  races: OfficialRace[];
+  errors: SourceRowError[];
+}
+
+// VIP district types of cities and towns, whose name is the position's city
+const CITY_DISTRICT_TYPES = ['borough', 'city', 'municipality', 'town', 'township', 'village'];
+
+/**
+ * Reads a Voting Information Project (VIP 5.x) XML feed
+ * The feed is streamed, so only the election, its districts, offices, parties and
+ * candidates are kept in memory (not the street segments or polling locations).
+ * Each candidate contest becomes an official race; ballot measures are ignored.
+ * Contests that cannot be read are reported instead of stopping the import.
+ * @param filePath - Path to the VIP XML file
+ * @returns The election, its races and the contest errors
+ */
+export async function readVipFeed(filePath: string): Promise<VipImportResult> {
+  try {
+    logger.info(`Reading VIP feed ${filePath}`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`VIP feed not found: ${filePath}. Please check the file path and try again.`);
+    }
+
+    const feed = await streamVipFeed(filePath);
+    const election = readElection(feed, filePath);
+    const source = `VIP feed: ${election.name} (${path.basename(filePath)})`;
+    const result: VipImportResult = { election, races: [], errors: [] };
+
+    [...feed.CandidateContest.values()].forEach((contest, index) => {
+      const row = index + 1;
+      const record = { id: contest.attributes.id, name: childLocalizedText(contest, 'Name') || childText(contest, 'Name') };
+      const fail = (message: string) => {
+        logger.warn(`VIP contest ${record.id}: ${message}`, { record });
+        result.errors.push({ row, message, record });
+      };
+
+      const race = toOfficialRace(feed, contest, election, source, fail);
+      if (race.candidates.length === 0) {
+        fail('no candidates');
+        return;
+      }
+      result.races.push(race);
+    });
+
+    const candidateCount = result.races.reduce((sum, race) => sum + race.candidates.length, 0);
+    logger.info(`Read ${candidateCount} candidates in ${result.races.length} contests from the VIP feed (${result.errors.length} contests with errors)`);
+    return result;
+  } catch (error) {
+    logger.error('Error reading VIP feed', {
+      error: error instanceof Error ? error.message : String(error),
+      filePath,
+    });
+    throw error; // Re-throw to be handled by the calling function
+  }
+}
+
+/**
+ * Reads the feed's election: its name, date and state
+ */
+function readElection(feed: VipFeed, filePath: string): VipImportResult['election'] {
+  const [election] = feed.Election.values();
+  if (!election) {
+    throw new Error(`VIP feed has no Election: ${filePath}`);
+  }
+
+  const dateValue = childText(election, 'Date');
+  const date = parseElectionDate(dateValue);
+  if (!date) {
+    throw new Error(`VIP feed has an invalid election date "${dateValue}": ${filePath}`);
+  }
+
+  const state = feed.State.get(childText(election, 'StateId'));
+  return {
+    name: childLocalizedText(election, 'Name') || path.basename(filePath, path.extname(filePath)),
+    date,
+    state: expandStateName(childLocalizedText(state, 'Name') || childText(state, 'Name')),
+  };
+}
+
+/**
+ * Maps a candidate contest to an official race
+ * @param feed - The feed's objects
+ * @param contest - The CandidateContest element
+ * @param election - The feed's election
+ * @param source - Source recorded on every candidate
+ * @param fail - Reports a problem with the contest
+ * @returns The race, with the candidates that could be resolved
+ */
+function toOfficialRace(
+  feed: VipFeed,
+  contest: VipNode,
+  election: VipImportResult['election'],
+  source: string,
+  fail: (message: string) => void
+): OfficialRace {
+  const office = feed.Office.get(childIds(contest, 'OfficeIds')[0] || '');
+  const district = feed.ElectoralDistrict.get(childText(contest, 'ElectoralDistrictId') || childText(office, 'ElectoralDistrictId'));
+  const districtType = childText(district, 'Type').toLowerCase();
+
+  const positionName = childLocalizedText(office, 'Name') ||
+    childLocalizedText(contest, 'Name') ||
+    childLocalizedText(contest, 'BallotTitle');
+  const seats = parseInt(childText(contest, 'NumberElected'), 10);
+
+  const race: OfficialRace = {
+    position: {
+      positionName,
+      electionDate: election.date,
+      city: CITY_DISTRICT_TYPES.includes(districtType) ? childLocalizedText(district, 'Name') : '',
+      state: election.state,
+      description: `${positionName} (official ballot of the ${election.name})`,
+      type: toElectionType(districtType),
+      positions: seats > 0 ? seats : 1,
+      official: true,
+    },
+    candidates: [],
+  };
+
+  for (const candidateId of contestCandidateIds(feed, contest, fail)) {
+    const candidate = feed.Candidate.get(candidateId);
+    if (!candidate) {
+      fail(`unknown candidate ${candidateId}`);
+      continue;
+    }
+    if (childText(candidate, 'PreElectionStatus').toLowerCase() === 'withdrawn') {
+      continue;
+    }
+
+    const mapped = toCandidate(feed, candidate, positionName, election.state, source);
+    if (!mapped.fullName) {
+      fail(`candidate ${candidateId} has no name`);
+    } else if (!race.candidates.some(existing => candidateNaturalKey(existing.fullName) === candidateNaturalKey(mapped.fullName))) {
+      race.candidates.push(mapped);
+    }
+  }
+
+  return race;
+}
+
+/**
+ * Lists the candidate ids of a contest, from its referenced or nested ballot selections
+ */
+function contestCandidateIds(feed: VipFeed, contest: VipNode, fail: (message: string) => void): string[] {
+  const nested = contest.children.filter(node => node.name === 'BallotSelection' || node.name === 'CandidateSelection');
+  const referenced = childIds(contest, 'BallotSelectionIds').flatMap(selectionId => {
+    const selection = feed.CandidateSelection.get(selectionId) || feed.BallotSelection.get(selectionId);
+    if (!selection) fail(`unknown ballot selection ${selectionId}`);
+    return selection ? [selection] : [];
+  });
+
+  return [...nested, ...referenced].flatMap(selection => childIds(selection, 'CandidateIds'));
+}
+
+/**
+ * Maps a VIP candidate (and the person and party it refers to) to a candidate
+ */
+function toCandidate(feed: VipFeed, candidate: VipNode, positionName: string, state: string, source: string): Candidate {
+  const person = feed.Person.get(childText(candidate, 'PersonId'));
+  const party = feed.Party.get(childText(candidate, 'PartyId') || childText(person, 'PartyId'));
+  const suffix = childText(person, 'Suffix');
+  const personName = [childText(person, 'FirstName'), childText(person, 'MiddleName'), childText(person, 'LastName')]
+    .filter(Boolean)
+    .join(' ') + (suffix ? `, ${suffix}` : '');
+  const uri = childText(child(candidate, 'ContactInformation'), 'Uri') || childText(child(person, 'ContactInformation'), 'Uri');
+
+  return {
+    fullName: (childLocalizedText(candidate, 'BallotName') || personName).replace(/\s+/g, ' ').trim(),
+    currentPosition: childText(candidate, 'IsIncumbent').toLowerCase() === 'true' ? `Incumbent ${positionName}` : '',
+    description: '',
+    keyPolicies: [],
+    sources: [source],
+    party: childLocalizedText(party, 'Name') || undefined,
+    state,
+    campaignUrl: uri || undefined,
+    official: true,
+  };
+}
+
+/**
+ * Maps a VIP electoral district type to an election type
+ */
+function toElectionType(districtType: string): ElectionType {
+  if (['congressional', 'national'].includes(districtType)) return ElectionType.NATIONAL;
+  if (['state', 'state-house', 'state-senate'].includes(districtType)) return ElectionType.STATE;
+  return ElectionType.LOCAL;
+}
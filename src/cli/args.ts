@@ -0,0 +1,318 @@
+// src/cli/args.ts
+import path from 'path';
+import { ElectionFilter } from '../utils/election-filter';
+import { OptionDefinition, ParsedArgs } from './types';
+
+/**
+ * Error in the command line itself, reported with usage help and exit code 2
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Options accepted by every command
+ */
+export const GLOBAL_OPTIONS: Record<string, OptionDefinition> = {
+  help: { type: 'boolean', description: 'Show help for the command' },
+  'log-level': { type: 'string', valueName: 'level', description: 'Log level (debug, info, warn, error)' },
+};
+
+/**
+ * Options selecting where elections are read from
+ */
+export const SOURCE_OPTIONS: Record<string, OptionDefinition> = {
+  csv: { type: 'string', valueName: 'file', description: 'Read elections from a CSV file' },
+  manifest: { type: 'string', valueName: 'file', description: 'Read elections, and any known positions, from a JSON or YAML manifest' },
+  civic: { type: 'boolean', description: 'Read active elections from the Google Civic API' },
+};
+
+/**
+ * Options finding the contests of Civic API elections instead of researching them
+ */
+export const CONTEST_OPTIONS: Record<string, OptionDefinition> = {
+  addresses: { type: 'string', valueName: 'file', description: 'Find the contests of Civic API elections on the ballots of representative addresses (YAML or JSON, per state or district)' },
+};
+
+/**
+ * Options merging an election office's candidate list into the research
+ */
+export const OFFICIAL_OPTIONS: Record<string, OptionDefinition> = {
+  official: { type: 'string', valueName: 'file', description: 'Merge an election office candidate list (CSV or XLSX) ahead of the AI research' },
+  'official-profile': { type: 'string', valueName: 'profile', description: 'Column profile of the candidate list: a name in official-profiles/ or a file' },
+};
+
+/**
+ * Options selecting elections by state and date
+ */
+export const FILTER_OPTIONS: Record<string, OptionDefinition> = {
+  state: { type: 'string', valueName: 'state', description: 'Only elections in this state (name or abbreviation)' },
+  since: { type: 'string', valueName: 'date', description: 'Only elections on or after this date (YYYY-MM-DD)' },
+  until: { type: 'string', valueName: 'date', description: 'Only elections on or before this date (YYYY-MM-DD)' },
+};
+
+/**
+ * Options of commands that research candidates
+ */
+export const RESEARCH_OPTIONS: Record<string, OptionDefinition> = {
+  recheck: { type: 'boolean', description: 'Ask each candidates question twice and hold back values the answers disagree on' },
+  consistency: { type: 'string', valueName: 'runs', description: 'Ask each candidates question this many times and keep the candidates and values most answers agree on' },
+  'verify-links': { type: 'boolean', description: 'Check candidate links before storing them, dropping dead ones and flagging those naming someone else' },
+};
+
+/**
+ * Options of commands that can compare their result with the database instead of storing it
+ */
+export const DRY_RUN_OPTIONS: Record<string, OptionDefinition> = {
+  'dry-run': { type: 'boolean', description: 'Compare the result with the database instead of writing to it' },
+  json: { type: 'boolean', description: 'Print the dry-run diff as JSON' },
+};
+
+/**
+ * Parses a command's arguments against its option definitions
+ * Accepts `--name value`, `--name=value` and boolean `--name` flags; `-h` is
+ * short for `--help` and everything after `--` is positional.
+ * @param argv - The arguments following the command name
+ * @param definitions - The options the command accepts
+ * @returns The positional arguments and option values
+ */
+export function parseArgs(argv: string[], definitions: Record<string, OptionDefinition>): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], options: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      parsed.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (arg === '-h') {
+      parsed.options.help = true;
+      continue;
+    }
+
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = splitOption(arg.slice(2));
+    const definition = definitions[name];
+    if (!definition) {
+      throw new UsageError(`Unknown option: --${name}`);
+    }
+
+    if (definition.type === 'boolean') {
+      if (inlineValue !== undefined) {
+        throw new UsageError(`Option --${name} does not take a value`);
+      }
+      parsed.options[name] = true;
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new UsageError(`Option --${name} requires a ${definition.valueName || 'value'}`);
+    }
+    parsed.options[name] = value;
+  }
+
+  return parsed;
+}
+
+/**
+ * Gets a string option
+ * @param args - The parsed arguments
+ * @param name - The option name
+ * @returns The option value, or undefined if it was not given
+ */
+export function getString(args: ParsedArgs, name: string): string | undefined {
+  const value = args.options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Gets a boolean flag
+ * @param args - The parsed arguments
+ * @param name - The flag name
+ * @returns True if the flag was given
+ */
+export function getFlag(args: ParsedArgs, name: string): boolean {
+  return args.options[name] === true;
+}
+
+/**
+ * Gets a non-negative integer option
+ * @param args - The parsed arguments
+ * @param name - The option name
+ * @returns The number, or undefined if the option was not given
+ */
+export function getCount(args: ParsedArgs, name: string): number | undefined {
+  const value = getString(args, name);
+  if (value === undefined) return undefined;
+
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`Option --${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Gets a date option given as YYYY-MM-DD
+ * @param args - The parsed arguments
+ * @param name - The option name
+ * @returns The date (UTC midnight), or undefined if the option was not given
+ */
+export function getDate(args: ParsedArgs, name: string): Date | undefined {
+  const value = getString(args, name);
+  if (value === undefined) return undefined;
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new UsageError(`Option --${name} must be a date in YYYY-MM-DD format, got "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Gets a file path option, resolved against the working directory
+ * @param args - The parsed arguments
+ * @param name - The option name
+ * @returns The absolute path, or undefined if the option was not given
+ */
+export function getPath(args: ParsedArgs, name: string): string | undefined {
+  const value = getString(args, name);
+  return value === undefined ? undefined : path.resolve(process.cwd(), value);
+}
+
+/**
+ * Gets the election filter from the --state, --since and --until options
+ * @param args - The parsed arguments
+ * @returns The election filter
+ */
+export function getElectionFilter(args: ParsedArgs): ElectionFilter {
+  const filter: ElectionFilter = {
+    state: getString(args, 'state'),
+    since: getDate(args, 'since'),
+    until: getDate(args, 'until'),
+  };
+
+  if (filter.since && filter.until && filter.since > filter.until) {
+    throw new UsageError('Option --since must not be after --until');
+  }
+  return filter;
+}
+
+/**
+ * Election source files selected on the command line
+ */
+export interface ElectionSource {
+  csvFilePath?: string;
+  manifestFilePath?: string;
+}
+
+/**
+ * Gets the election source from the --csv, --manifest and --civic options; exactly one is required
+ * @param args - The parsed arguments
+ * @returns The CSV file or manifest to read, or neither for the Google Civic API
+ */
+export function getElectionSource(args: ParsedArgs): ElectionSource {
+  const csvFilePath = getPath(args, 'csv');
+  const manifestFilePath = getPath(args, 'manifest');
+  const civic = getFlag(args, 'civic');
+  const selected = [csvFilePath && '--csv', manifestFilePath && '--manifest', civic && '--civic'].filter(Boolean);
+
+  if (selected.length > 1) {
+    throw new UsageError(`Options ${selected.join(' and ')} cannot be combined`);
+  }
+  if (selected.length === 0) {
+    throw new UsageError('Choose an election source: --csv <file>, --manifest <file> or --civic');
+  }
+  return { csvFilePath, manifestFilePath };
+}
+
+/**
+ * Gets the --official and --official-profile options; they are required together
+ * @param args - The parsed arguments
+ * @returns The candidate list and its profile name or file, or undefined when no list is given
+ */
+export function getOfficialList(args: ParsedArgs): { filePath: string; profile: string } | undefined {
+  const filePath = getPath(args, 'official');
+  const profile = getString(args, 'official-profile');
+
+  if (!filePath && !profile) {
+    return undefined;
+  }
+  if (!filePath || !profile) {
+    throw new UsageError('Options --official and --official-profile must be given together');
+  }
+  return { filePath, profile };
+}
+
+/**
+ * Gets the --consistency option
+ * @param args - The parsed arguments
+ * @returns The self-consistency mode, or undefined if the option was not given
+ */
+export function getConsistency(args: ParsedArgs): { runs: number } | undefined {
+  const runs = getCount(args, 'consistency');
+  if (runs === undefined) return undefined;
+
+  if (runs < 2) {
+    throw new UsageError(`Option --consistency needs at least 2 runs, got ${runs}`);
+  }
+  return { runs };
+}
+
+/**
+ * Gets the --dry-run and --json options
+ * @param args - The parsed arguments
+ * @returns Whether to compare instead of store, and whether to print the diff as JSON
+ */
+export function getDryRun(args: ParsedArgs): { dryRun: boolean; json: boolean } {
+  const dryRun = getFlag(args, 'dry-run');
+  const json = getFlag(args, 'json');
+
+  if (json && !dryRun) {
+    throw new UsageError('Option --json needs --dry-run');
+  }
+  return { dryRun, json };
+}
+
+/**
+ * Gets the single required positional argument of a command
+ * @param args - The parsed arguments
+ * @param name - Name of the argument, for the error message
+ * @returns The argument
+ */
+export function getRequiredPositional(args: ParsedArgs, name: string): string {
+  if (args.positionals.length === 0) {
+    throw new UsageError(`Missing required argument: <${name}>`);
+  }
+  if (args.positionals.length > 1) {
+    throw new UsageError(`Unexpected argument: ${args.positionals[1]}`);
+  }
+  return args.positionals[0];
+}
+
+/**
+ * Rejects positional arguments for commands that take none
+ * @param args - The parsed arguments
+ */
+export function assertNoPositionals(args: ParsedArgs): void {
+  if (args.positionals.length > 0) {
+    throw new UsageError(`Unexpected argument: ${args.positionals[0]}`);
+  }
+}
+
+/**
+ * Splits `name=value` into the option name and its inline value
+ */
+function splitOption(option: string): [string, string | undefined] {
+  const separator = option.indexOf('=');
+  return separator === -1 ? [option, undefined] : [option.slice(0, separator), option.slice(separator + 1)];
+}
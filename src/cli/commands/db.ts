@@ -0,0 +1,45 @@
+// src/cli/commands/db.ts
+import { PrunedElection, pruneElections } from '../../services/db';
+import { FILTER_OPTIONS, assertNoPositionals, getElectionFilter, getFlag } from '../args';
+import { print } from '../output';
+import { CliCommand, ExitCode } from '../types';
+
+/**
+ * `db prune`: deletes past elections with their candidates
+ */
+export const dbPruneCommand: CliCommand = {
+  name: 'db prune',
+  summary: 'Delete past elections and their candidates, keeping campaign-owned data',
+  usage: '[options]',
+  options: {
+    ...FILTER_OPTIONS,
+    'dry-run': { type: 'boolean', description: 'List the elections that would be deleted without deleting them' },
+  },
+
+  async run(args) {
+    assertNoPositionals(args);
+    const dryRun = getFlag(args, 'dry-run');
+
+    const { pruned, kept } = await pruneElections({
+      before: new Date(),
+      filter: getElectionFilter(args),
+      dryRun,
+    });
+
+    for (const election of pruned) {
+      print(`${dryRun ? 'Would delete' : 'Deleted'}: ${formatElection(election)}`);
+    }
+    for (const election of kept) {
+      print(`Kept (verified, claimed, with testimonials or vendors): ${formatElection(election)}`);
+    }
+    print(`${pruned.length} past elections ${dryRun ? 'would be' : 'were'} deleted, ${kept.length} kept`);
+    return ExitCode.SUCCESS;
+  },
+};
+
+/**
+ * Formats a pruned election for output
+ */
+function formatElection(election: PrunedElection): string {
+  return `#${election.id} ${election.position}, ${election.city}, ${election.state} (${new Date(election.date).toISOString().split('T')[0]}, ${election.candidates} candidates)`;
+}
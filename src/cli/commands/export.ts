@@ -0,0 +1,35 @@
+// src/cli/commands/export.ts
+import fs from 'fs';
+import { getStoredElections } from '../../services/db';
+import { FILTER_OPTIONS, assertNoPositionals, getElectionFilter, getPath } from '../args';
+import { print } from '../output';
+import { CliCommand, ExitCode } from '../types';
+
+/**
+ * `export`: writes the stored elections and their candidates as JSON
+ */
+export const exportCommand: CliCommand = {
+  name: 'export',
+  summary: 'Export stored elections and their candidates as JSON',
+  usage: '[options]',
+  options: {
+    ...FILTER_OPTIONS,
+    output: { type: 'string', valueName: 'file', description: 'Write to this file instead of stdout' },
+  },
+
+  async run(args) {
+    assertNoPositionals(args);
+    const outputPath = getPath(args, 'output');
+
+    const elections = await getStoredElections(getElectionFilter(args));
+    const json = JSON.stringify({ elections }, null, 2);
+
+    if (outputPath) {
+      fs.writeFileSync(outputPath, `${json}\n`, 'utf8');
+      print(`Exported ${elections.length} elections to ${outputPath}`);
+    } else {
+      print(json);
+    }
+    return ExitCode.SUCCESS;
+  },
+};
@@ -0,0 +1,96 @@
+// src/cli/commands/ingest.ts
+import logger from '../../utils/logger';
+import { validateConfig } from '../../config';
+import { loadOfficialListProfile } from '../../apis/official';
+import { loadContestAddresses } from '../../apis/civic/contests';
+import { runPipeline } from '../../services/pipeline';
+import { LinkVerifier } from '../../services/link-verifier';
+import {
+  CONTEST_OPTIONS,
+  DRY_RUN_OPTIONS,
+  FILTER_OPTIONS,
+  OFFICIAL_OPTIONS,
+  RESEARCH_OPTIONS,
+  SOURCE_OPTIONS,
+  UsageError,
+  assertNoPositionals,
+  getCount,
+  getConsistency,
+  getDryRun,
+  getElectionFilter,
+  getElectionSource,
+  getFlag,
+  getOfficialList,
+  getPath,
+  getString,
+} from '../args';
+import { printPipelineResult } from '../output';
+import { CliCommand, ExitCode } from '../types';
+
+/**
+ * `ingest`: researches the elections of a CSV file, a manifest or the Google Civic API and stores them
+ */
+export const ingestCommand: CliCommand = {
+  name: 'ingest',
+  summary: 'Research and store elections from a CSV file, a manifest or the Google Civic API',
+  usage: '(--csv <file> | --manifest <file> | --civic | --resume <runId>) [options]',
+  options: {
+    ...SOURCE_OPTIONS,
+    ...CONTEST_OPTIONS,
+    ...OFFICIAL_OPTIONS,
+    ...FILTER_OPTIONS,
+    limit: { type: 'string', valueName: 'number', description: 'Process at most this many elections (0 for no limit)' },
+    ...RESEARCH_OPTIONS,
+    ...DRY_RUN_OPTIONS,
+    resume: { type: 'string', valueName: 'runId', description: 'Resume an interrupted run from its last completed stage' },
+    'no-ai-logs': { type: 'boolean', description: 'Do not record AI inputs and outputs (disables --resume)' },
+  },
+
+  async run(args) {
+    assertNoPositionals(args);
+    const resumeRunId = getString(args, 'resume');
+    // A resumed run reuses the elections it started with, so it needs no source
+    const source = resumeRunId && !args.options.csv && !args.options.manifest && !args.options.civic
+      ? {}
+      : getElectionSource(args);
+    const officialList = getOfficialList(args);
+    const addressesFile = getPath(args, 'addresses');
+    const filter = getElectionFilter(args);
+    const limit = getCount(args, 'limit');
+    const { dryRun, json } = getDryRun(args);
+    const consistency = getConsistency(args);
+    const logging = !getFlag(args, 'no-ai-logs');
+
+    if (resumeRunId && !logging) {
+      throw new UsageError('Option --resume needs AI data logging and cannot be combined with --no-ai-logs');
+    }
+
+    validateConfig();
+
+    const official = officialList
+      ? { filePath: officialList.filePath, profile: loadOfficialListProfile(officialList.profile) }
+      : undefined;
+    const contestAddresses = addressesFile ? loadContestAddresses(addressesFile) : undefined;
+
+    if (resumeRunId) {
+      logger.info(`Resuming run ${resumeRunId} from its last completed stage`);
+    }
+
+    const result = await runPipeline({
+      ...source,
+      official,
+      contestAddresses,
+      resumeRunId,
+      logging,
+      filter,
+      limit,
+      dryRun,
+      recheck: getFlag(args, 'recheck'),
+      consistency,
+      linkVerifier: getFlag(args, 'verify-links') ? new LinkVerifier() : undefined,
+    });
+
+    printPipelineResult(result, json);
+    return ExitCode.SUCCESS;
+  },
+};
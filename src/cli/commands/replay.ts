@@ -0,0 +1,34 @@
+// src/cli/commands/replay.ts
+import { replayRun } from '../../services/replay';
+import { DRY_RUN_OPTIONS, FILTER_OPTIONS, getDryRun, getElectionFilter, getRequiredPositional } from '../args';
+import { print, printPipelineResult } from '../output';
+import { CliCommand, ExitCode } from '../types';
+
+/**
+ * `replay <runId>`: rebuilds election data from a recorded run without calling Gemini
+ */
+export const replayCommand: CliCommand = {
+  name: 'replay',
+  summary: 'Rebuild and store election data from a recorded ai-logs run without calling Gemini',
+  usage: '<runId> [options]',
+  options: {
+    ...FILTER_OPTIONS,
+    ...DRY_RUN_OPTIONS,
+  },
+
+  async run(args) {
+    const runId = getRequiredPositional(args, 'runId');
+    const { dryRun, json } = getDryRun(args);
+
+    const result = await replayRun(runId, {
+      filter: getElectionFilter(args),
+      dryRun,
+    });
+
+    if (!json) {
+      print(`Replayed run ${result.replayedRunId}`);
+    }
+    printPipelineResult(result, json);
+    return ExitCode.SUCCESS;
+  },
+};
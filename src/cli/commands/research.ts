@@ -0,0 +1,93 @@
+// src/cli/commands/research.ts
+import logger from '../../utils/logger';
+import { validateConfig } from '../../config';
+import { getActiveElections } from '../../apis/civic';
+import { loadContestAddresses } from '../../apis/civic/contests';
+import { getElectionsFromCsv } from '../../apis/csv';
+import { getElectionsFromManifest } from '../../apis/manifest';
+import { BasicElection } from '../../models/types';
+import { runPipeline } from '../../services/pipeline';
+import { LinkVerifier } from '../../services/link-verifier';
+import {
+  CONTEST_OPTIONS,
+  DRY_RUN_OPTIONS,
+  RESEARCH_OPTIONS,
+  SOURCE_OPTIONS,
+  getConsistency,
+  getDryRun,
+  getElectionSource,
+  getFlag,
+  getPath,
+  getRequiredPositional,
+} from '../args';
+import { printPipelineResult } from '../output';
+import { CliCommand, ExitCode } from '../types';
+
+/**
+ * `research <election>`: researches and stores a single election, found by name in the source
+ */
+export const researchCommand: CliCommand = {
+  name: 'research',
+  summary: 'Research and store a single election, found by name in a CSV file, a manifest or the Google Civic API',
+  usage: '<election> (--csv <file> | --manifest <file> | --civic) [options]',
+  options: {
+    ...SOURCE_OPTIONS,
+    ...CONTEST_OPTIONS,
+    ...RESEARCH_OPTIONS,
+    ...DRY_RUN_OPTIONS,
+    'no-ai-logs': { type: 'boolean', description: 'Do not record AI inputs and outputs' },
+  },
+
+  async run(args) {
+    const name = getRequiredPositional(args, 'election');
+    const { csvFilePath, manifestFilePath } = getElectionSource(args);
+    const { dryRun, json } = getDryRun(args);
+    const consistency = getConsistency(args);
+    const addressesFile = getPath(args, 'addresses');
+
+    validateConfig();
+
+    const elections = csvFilePath
+      ? await getElectionsFromCsv(csvFilePath)
+      : manifestFilePath
+        ? await getElectionsFromManifest(manifestFilePath)
+        : await getActiveElections();
+    const matches = findElections(elections, name);
+
+    if (matches.length !== 1) {
+      const message = matches.length === 0
+        ? `No election matches "${name}"`
+        : `"${name}" matches ${matches.length} elections:\n${matches.map(election => `  ${election.name}`).join('\n')}`;
+      logger.error(message);
+      process.stderr.write(`${message}\n`);
+      return ExitCode.FAILURE;
+    }
+
+    const result = await runPipeline({
+      elections: matches,
+      contestAddresses: addressesFile ? loadContestAddresses(addressesFile) : undefined,
+      logging: !getFlag(args, 'no-ai-logs'),
+      limit: 0,
+      dryRun,
+      recheck: getFlag(args, 'recheck'),
+      consistency,
+      linkVerifier: getFlag(args, 'verify-links') ? new LinkVerifier() : undefined,
+    });
+
+    printPipelineResult(result, json);
+    return ExitCode.SUCCESS;
+  },
+};
+
+/**
+ * Finds elections by name: an exact (case-insensitive) match wins, otherwise
+ * every election whose name contains the search text is returned
+ * @param elections - The elections to search
+ * @param name - The election name or part of it
+ * @returns The matching elections
+ */
+function findElections(elections: BasicElection[], name: string): BasicElection[] {
+  const search = name.trim().toLowerCase();
+  const exact = elections.filter(election => election.name.toLowerCase() === search);
+  return exact.length > 0 ? exact : elections.filter(election => election.name.toLowerCase().includes(search));
+}
@@ -0,0 +1,42 @@
+// src/cli/commands/runs.ts
+import { listRuns } from '../../services/runs';
+import { assertNoPositionals, getCount } from '../args';
+import { print } from '../output';
+import { CliCommand, ExitCode } from '../types';
+
+/**
+ * `runs list`: lists the recorded ai-logs runs, most recent first
+ */
+export const runsListCommand: CliCommand = {
+  name: 'runs list',
+  summary: 'List recorded ai-logs runs, most recent first',
+  usage: '[options]',
+  options: {
+    limit: { type: 'string', valueName: 'number', description: 'Show at most this many runs' },
+  },
+
+  async run(args) {
+    assertNoPositionals(args);
+    const limit = getCount(args, 'limit');
+
+    const runs = listRuns();
+    const shown = limit ? runs.slice(0, limit) : runs;
+
+    if (shown.length === 0) {
+      print('No runs found in ./ai-logs');
+      return ExitCode.SUCCESS;
+    }
+
+    print(['RUN ID'.padEnd(20), 'SOURCE'.padEnd(8), 'ELECTIONS'.padEnd(9), 'QUARANTINED'.padEnd(11), 'STATUS'].join('  '));
+    for (const run of shown) {
+      print([
+        run.runId.padEnd(20),
+        run.source.padEnd(8),
+        String(run.electionsProcessed ?? '-').padEnd(9),
+        String(run.quarantined).padEnd(11),
+        run.completed ? 'completed' : 'incomplete',
+      ].join('  '));
+    }
+    return ExitCode.SUCCESS;
+  },
+};
@@ -0,0 +1,35 @@
+// src/cli/commands/vip.ts
+import path from 'path';
+import { runPipeline } from '../../services/pipeline';
+import { DRY_RUN_OPTIONS, FILTER_OPTIONS, getDryRun, getElectionFilter, getFlag, getRequiredPositional } from '../args';
+import { printPipelineResult } from '../output';
+import { CliCommand, ExitCode } from '../types';
+
+/**
+ * `vip import <file>`: stores the candidate contests of a VIP XML feed as official elections, without research
+ */
+export const vipImportCommand: CliCommand = {
+  name: 'vip import',
+  summary: 'Store the contests and candidates of a VIP XML feed as official ballot data, without AI research',
+  usage: '<file> [options]',
+  options: {
+    ...FILTER_OPTIONS,
+    ...DRY_RUN_OPTIONS,
+    'no-ai-logs': { type: 'boolean', description: 'Do not record the imported contests in an ai-logs run' },
+  },
+
+  async run(args) {
+    const vipFilePath = path.resolve(process.cwd(), getRequiredPositional(args, 'file'));
+    const { dryRun, json } = getDryRun(args);
+
+    const result = await runPipeline({
+      vipFilePath,
+      logging: !getFlag(args, 'no-ai-logs'),
+      filter: getElectionFilter(args),
+      dryRun,
+    });
+
+    printPipelineResult(result, json);
+    return ExitCode.SUCCESS;
+  },
+};
@@ -0,0 +1,164 @@
+// src/cli/index.ts
+import logger from '../utils/logger';
+import { GLOBAL_OPTIONS, UsageError, getString, parseArgs } from './args';
+import { dbPruneCommand } from './commands/db';
+import { exportCommand } from './commands/export';
+import { ingestCommand } from './commands/ingest';
+import { replayCommand } from './commands/replay';
+import { researchCommand } from './commands/research';
+import { runsListCommand } from './commands/runs';
+import { vipImportCommand } from './commands/vip';
+import { CliCommand, ExitCode, OptionDefinition } from './types';
+
+export { ExitCode } from './types';
+
+const PROGRAM = 'election-source';
+
+const LOG_LEVELS = ['error', 'warn', 'info', 'debug'];
+
+/**
+ * Every command, in the order shown in the help output
+ */
+const COMMANDS: CliCommand[] = [
+  ingestCommand,
+  researchCommand,
+  replayCommand,
+  vipImportCommand,
+  exportCommand,
+  dbPruneCommand,
+  runsListCommand,
+];
+
+/**
+ * Runs the command line interface
+ * @param argv - The command line arguments (without the node and script paths)
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[]): Promise<ExitCode> {
+  if (argv.length === 0) {
+    printHelp(process.stderr);
+    return ExitCode.USAGE;
+  }
+
+  if (argv[0] === '--help' || argv[0] === '-h' || argv[0] === 'help') {
+    printHelp(process.stdout);
+    return ExitCode.SUCCESS;
+  }
+
+  let command: CliCommand | undefined;
+
+  try {
+    const match = findCommand(argv);
+    command = match.command;
+
+    const args = parseArgs(match.rest, { ...command.options, ...GLOBAL_OPTIONS });
+    if (args.options.help) {
+      printCommandHelp(command, process.stdout);
+      return ExitCode.SUCCESS;
+    }
+
+    setLogLevel(getString(args, 'log-level'));
+
+    logger.info(`Running command: ${command.name}`);
+    return await command.run(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`Error: ${error.message}\n`);
+      process.stderr.write(`Run '${PROGRAM} ${command ? `${command.name} ` : ''}--help' for usage.\n`);
+      return ExitCode.USAGE;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Command failed: ${command?.name}`, { error: message });
+    process.stderr.write(`Error: ${message}\n`);
+    return ExitCode.FAILURE;
+  }
+}
+
+/**
+ * Finds the command named by the leading arguments, e.g. `ingest` or `db prune`
+ * @param argv - The command line arguments
+ * @returns The command and the arguments following its name
+ */
+function findCommand(argv: string[]): { command: CliCommand; rest: string[] } {
+  for (const command of COMMANDS) {
+    const words = command.name.split(' ');
+    if (words.every((word, i) => argv[i] === word)) {
+      return { command, rest: argv.slice(words.length) };
+    }
+  }
+
+  // A command group without (or with an unknown) subcommand, e.g. `db`
+  const group = COMMANDS.filter(command => command.name.startsWith(`${argv[0]} `));
+  if (group.length > 0) {
+    const subcommands = group.map(command => command.name.split(' ')[1]).join(', ');
+    throw new UsageError(argv[1] && !argv[1].startsWith('-')
+      ? `Unknown ${argv[0]} command: ${argv[1]} (expected one of: ${subcommands})`
+      : `Missing ${argv[0]} command (expected one of: ${subcommands})`);
+  }
+
+  throw new UsageError(`Unknown command: ${argv[0]}`);
+}
+
+/**
+ * Applies the --log-level option
+ * @param level - The requested log level, if any
+ */
+function setLogLevel(level: string | undefined): void {
+  if (level === undefined) return;
+
+  if (!LOG_LEVELS.includes(level)) {
+    throw new UsageError(`Option --log-level must be one of: ${LOG_LEVELS.join(', ')}`);
+  }
+  logger.level = level;
+}
+
+/**
+ * Prints the list of commands
+ * @param stream - Where to print the help
+ */
+function printHelp(stream: NodeJS.WritableStream): void {
+  const width = Math.max(...COMMANDS.map(command => command.name.length));
+  const lines = [
+    `Usage: ${PROGRAM} <command> [options]`,
+    '',
+    'Commands:',
+    ...COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    `Run '${PROGRAM} <command> --help' for the options of a command.`,
+    '',
+    'Exit codes:',
+    `  ${ExitCode.SUCCESS}  Success`,
+    `  ${ExitCode.FAILURE}  The command failed`,
+    `  ${ExitCode.USAGE}  Invalid command line`,
+  ];
+  stream.write(`${lines.join('\n')}\n`);
+}
+
+/**
+ * Prints the usage and options of a command
+ * @param command - The command
+ * @param stream - Where to print the help
+ */
+function printCommandHelp(command: CliCommand, stream: NodeJS.WritableStream): void {
+  const options = { ...command.options, ...GLOBAL_OPTIONS };
+  const labels = Object.entries(options).map(([name, definition]) => [optionLabel(name, definition), definition.description]);
+  const width = Math.max(...labels.map(([label]) => label.length));
+
+  const lines = [
+    `Usage: ${PROGRAM} ${command.name} ${command.usage}`,
+    '',
+    command.summary,
+    '',
+    'Options:',
+    ...labels.map(([label, description]) => `  ${label.padEnd(width)}  ${description}`),
+  ];
+  stream.write(`${lines.join('\n')}\n`);
+}
+
+/**
+ * Formats an option for help output, e.g. `--csv <file>`
+ */
+function optionLabel(name: string, definition: OptionDefinition): string {
+  return definition.type === 'string' ? `--${name} <${definition.valueName || 'value'}>` : `--${name}`;
+}
@@ -0,0 +1,56 @@
+// src/cli/output.ts
+import { PipelineResult } from '../services/pipeline';
+import { formatDiff, StoreSummary } from '../services/db';
+
+/**
+ * Writes a line of command output to stdout (logs go to stderr)
+ * @param line - The line to write
+ */
+export function print(line = ''): void {
+  process.stdout.write(`${line}\n`);
+}
+
+/**
+ * Prints the outcome of a pipeline run, with the diff against the database on dry runs
+ * @param result - The pipeline result
+ * @param json - Print only the dry-run diff, as JSON
+ */
+export function printPipelineResult(result: Pick<PipelineResult, 'runId' | 'elections' | 'quarantined' | 'storeSummary' | 'diff'>, json = false): void {
+  if (json) {
+    print(JSON.stringify(result.diff ?? null, null, 2));
+    return;
+  }
+
+  const candidates = result.elections.reduce((sum, election) => sum + election.candidates.length, 0);
+  print(`${result.runId ? `Run ${result.runId}: ` : ''}${result.elections.length} elections with ${candidates} candidates, ${result.quarantined.length} records quarantined`);
+
+  if (result.diff) {
+    print('Dry run, nothing was stored. Changes compared with the database:');
+    print(formatDiff(result.diff));
+  } else if (result.storeSummary) {
+    print(formatStoreSummary(result.storeSummary));
+  }
+}
+
+/**
+ * Formats the counts of a database store
+ * Candidates linked to stored candidates under another name, and possible matches to
+ * review, follow on their own lines.
+ * @param summary - The store summary
+ * @returns The counts
+ */
+export function formatStoreSummary(summary: StoreSummary): string {
+  const { elections, candidates, resolution } = summary;
+  const lines = [
+    `Stored elections: ${elections.created} created, ${elections.updated} updated, ${elections.unchanged} unchanged; ` +
+    `candidates: ${candidates.created} created, ${candidates.updated} updated, ${candidates.unchanged} unchanged; ` +
+    `suggestions: ${summary.suggestions}`,
+  ];
+  for (const link of resolution?.linked || []) {
+    lines.push(`  linked "${link.candidate}" to #${link.existingId} "${link.existing}" (${link.election}, score ${link.score})`);
+  }
+  for (const review of resolution?.review || []) {
+    lines.push(`  review "${review.candidate}" vs #${review.existingId} "${review.match}" (${review.election}, score ${review.score}: ${review.reasons.join(', ')})`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,42 @@
+// src/cli/types.ts
+
+/**
+ * Process exit codes of the CLI
+ */
+export enum ExitCode {
+  SUCCESS = 0,
+  // The command ran but failed (e.g. an API, pipeline or database error)
+  FAILURE = 1,
+  // The command line was invalid (unknown command or option, missing or malformed value)
+  USAGE = 2
+}
+
+/**
+ * Definition of a command line option
+ */
+export interface OptionDefinition {
+  type: 'string' | 'boolean';
+  description: string;
+  // Placeholder shown in help output for the option's value
+  valueName?: string;
+}
+
+/**
+ * Parsed command line of a command
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  options: Record<string, string | boolean | undefined>;
+}
+
+/**
+ * A CLI command (or subcommand, e.g. "db prune")
+ */
+export interface CliCommand {
+  name: string;
+  summary: string;
+  // Arguments shown after the command name in help output
+  usage: string;
+  options: Record<string, OptionDefinition>;
+  run(args: ParsedArgs): Promise<ExitCode>;
+}
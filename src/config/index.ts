@@ -12,14 +12,62 @@ const config = {
   },
   google: {
     apiKey: process.env.GOOGLE_API_KEY || '',
+    // Root URL of the Civic API (empty for Google's), e.g. a local stub in tests
+    civicApiUrl: process.env.GOOGLE_CIVIC_API_URL || '',
+    // Representative addresses per jurisdiction, whose ballots list the contests of Civic API elections
+    contestAddressesFile: process.env.CONTEST_ADDRESSES_FILE || '',
   },
   gemini: {
     apiKey: process.env.GEMINI_API_KEY || '',
+    // Model used for grounded research requests
+    researchModel: process.env.GEMINI_RESEARCH_MODEL || 'gemini-2.5-pro-exp-03-25',
+    // Model used for ungrounded transformation requests (a cheaper model such as gemini-2.0-flash can be set)
+    transformModel: process.env.GEMINI_TRANSFORM_MODEL || 'gemini-2.5-pro-exp-03-25',
+    // Times the model is re-asked to correct invalid or schema-violating JSON
+    maxRepairAttempts: parseInt(process.env.GEMINI_MAX_REPAIR_ATTEMPTS || '2', 10),
+    // Shared rate limits for all Gemini requests
+    requestsPerMinute: parseInt(process.env.GEMINI_REQUESTS_PER_MINUTE || '5', 10),
+    tokensPerMinute: parseInt(process.env.GEMINI_TOKENS_PER_MINUTE || '250000', 10),
+    maxConcurrency: parseInt(process.env.GEMINI_MAX_CONCURRENCY || '2', 10),
+    // Retries of a request rejected with a rate limit error (429 / RESOURCE_EXHAUSTED)
+    maxRetries: parseInt(process.env.GEMINI_MAX_RETRIES || '5', 10),
+    retryDelayMs: parseInt(process.env.GEMINI_RETRY_DELAY_MS || '2000', 10),
+  },
+  research: {
+    // Research provider: 'gemini' or 'fixture' (replays a recorded ai-logs run)
+    provider: process.env.RESEARCH_PROVIDER || 'gemini',
+    // Run directory replayed by the fixture provider
+    fixtureRunDir: process.env.RESEARCH_FIXTURE_RUN_DIR || '',
   },
   app: {
     nodeEnv: process.env.NODE_ENV || 'development',
     logLevel: process.env.LOG_LEVEL || 'info',
   },
+  ingestion: {
+    // Candidate columns that ingestion must never overwrite on verified or claimed profiles
+    protectedCandidateFields: (process.env.PROTECTED_CANDIDATE_FIELDS || 'bio,policies,website,linkedin,twitter,photo')
+      .split(',')
+      .map(field => field.trim())
+      .filter(Boolean),
+  },
+  confidence: {
+    // Researched fields scoring below these are held back from publication, or published but flagged
+    holdBelow: parseFloat(process.env.CONFIDENCE_HOLD_BELOW || '0.3'),
+    flagBelow: parseFloat(process.env.CONFIDENCE_FLAG_BELOW || '0.6'),
+  },
+  links: {
+    // Time allowed for each request when verifying candidate links, and the redirects followed
+    timeoutMs: parseInt(process.env.LINK_CHECK_TIMEOUT_MS || '10000', 10),
+    maxRedirects: parseInt(process.env.LINK_CHECK_MAX_REDIRECTS || '5', 10),
+  },
+  official: {
+    // Directory of the column profiles of election office candidate lists
+    profilesDir: process.env.OFFICIAL_PROFILES_DIR || './official-profiles',
+  },
+  pipeline: {
+    // Elections researched at the same time (Gemini requests are rate limited separately)
+    concurrency: parseInt(process.env.PIPELINE_CONCURRENCY || '2', 10),
+  },
   testing: {
     // Parse the election limit from environment variable or default to 0 (no limit)
     electionLimit: parseInt(process.env.ELECTION_LIMIT || '0', 10),
@@ -31,8 +79,12 @@ const validateConfig = () => {
   const requiredVars = [
     { key: 'DATABASE_URL', value: config.database.url },
     { key: 'GOOGLE_API_KEY', value: config.google.apiKey },
-    { key: 'GEMINI_API_KEY', value: config.gemini.apiKey },
   ];
+  
+  // The Gemini key is only needed when Gemini is the research provider
+  if (config.research.provider === 'gemini') {
+    requiredVars.push({ key: 'GEMINI_API_KEY', value: config.gemini.apiKey });
+  }
 
   let missingVars = false;
   
@@ -11,6 +11,15 @@ export interface BasicElection {
   district: string;
   description: string;
   date: Date;
+  civicElectionId?: string;
+  // Optional details supplied by the source (e.g. extra CSV columns)
+  city?: string;
+  type?: ElectionType;
+  positions?: string[];
+  knownCandidates?: string[];
+  sourceUrl?: string;
+  // Positions already known to be up for election (e.g. from a manifest), used instead of researching them
+  seededPositions?: DetailedPosition[];
 }
 
 export interface DetailedPosition {
@@ -21,6 +30,10 @@ export interface DetailedPosition {
   description: string;
   type: ElectionType;
   positions: number;
+  // Taken from an election office's candidate list rather than AI research
+  official?: boolean;
+  // Candidates listed on the ballot (e.g. by the Civic API), named in the candidates research
+  knownCandidates?: string[];
 }
 
 export interface CandidatePolicy {
@@ -28,6 +41,55 @@ export interface CandidatePolicy {
   description: string;
 }
 
+/**
+ * A web page backing an election or candidate, taken from the research's grounding metadata
+ */
+export interface SourceRecord {
+  uri: string;
+  title: string;
+  // Fields of the election or candidate the page backs (e.g. "party", "keyPolicies")
+  fields: string[];
+  // Statements of the research the page backs
+  claims: string[];
+  // Google searches of the research that found it
+  searchQueries: string[];
+}
+
+/**
+ * How far a researched field of a candidate can be trusted
+ * Confident values are published, flagged ones are published and marked for review,
+ * and held ones are kept out of the record until they are confirmed.
+ */
+export type ConfidenceStatus = 'confident' | 'flagged' | 'held';
+
+export interface FieldConfidence {
+  // From 0 (unsupported) to 1 (confirmed by an official list)
+  score: number;
+  status: ConfidenceStatus;
+  // Independent web sites (by host) the research of the value is grounded in
+  sources: number;
+  // Whether the value was confirmed by an election office's candidate list
+  official: boolean;
+  // Whether the value was given again when the question was asked twice (absent when it was not)
+  stable?: boolean;
+  // The value held back from publication
+  heldValue?: string;
+  // The researched value an official list disagreed with
+  disagreedValue?: string;
+}
+
+/**
+ * Social and profile sites whose links are kept in a candidate's `socials`
+ */
+export type SocialPlatform = 'x' | 'linkedin' | 'facebook' | 'instagram' | 'youtube' | 'ballotpedia';
+
+export interface SocialProfile {
+  // Handle, username or page name, without "@"
+  handle: string;
+  // Canonical profile URL
+  url: string;
+}
+
 export interface Candidate {
   fullName: string;
   currentPosition: string;
@@ -42,6 +104,14 @@ export interface Candidate {
   city?: string;
   state?: string;
   twitter?: string;
+  // Listed on an election office's candidate list rather than only found by AI research
+  official?: boolean;
+  // Web pages the research of the candidate is grounded in
+  provenance?: SourceRecord[];
+  // Confidence in each researched field, by field name (absent for candidates only taken from official lists)
+  confidence?: Record<string, FieldConfidence>;
+  // Canonical social and profile links, by platform
+  socials?: Partial<Record<SocialPlatform, SocialProfile>>;
 }
 
 export interface DetailedElection {
@@ -52,8 +122,35 @@ export interface DetailedElection {
   description: string;
   type: ElectionType;
   candidates: Candidate[];
+  // Seats to fill (one when the research does not say)
+  positions?: number;
+  // Race taken from an election office's candidate list
+  official?: boolean;
+  // Web pages the research of the position is grounded in
+  provenance?: SourceRecord[];
 }
 
 export interface TransformedData {
   elections: DetailedElection[];
-} 
\ No newline at end of file
+}
+
+// A record that failed validation and was set aside instead of stored
+export interface QuarantinedRecord {
+  kind: 'election' | 'candidate';
+  election: string;
+  candidate?: string;
+  errors: string;
+  record: DetailedElection | Candidate;
+}
+
+export interface TransformResult {
+  elections: DetailedElection[];
+  quarantined: QuarantinedRecord[];
+}
+
+// A row (or entry) of an input file that could not be read, reported instead of stopping the import
+export interface SourceRowError {
+  row: number;
+  message: string;
+  record: Record<string, unknown>;
+}
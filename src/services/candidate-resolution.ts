@@ -0,0 +1,427 @@
+// src/services/candidate-resolution.ts
+import logger from '../utils/logger';
+import { Candidate, DetailedElection } from '../models/types';
+import { normalizeText, toDateKey } from './db/matching';
+
+/**
+ * The parts of a candidate used to tell whether two records are the same person
+ */
+export interface CandidateIdentity {
+  name: string;
+  linkedin?: string | null;
+  website?: string | null;
+  twitter?: string | null;
+}
+
+/**
+ * How likely two candidate records are the same person (0 to 1), and why
+ */
+export interface CandidateMatch {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * A possible match too uncertain to merge or link automatically
+ */
+export interface CandidateReview {
+  election: string;
+  candidate: string;
+  // The other researched candidate, or the stored candidate with its ID
+  match: string;
+  existingId?: number;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * An incoming candidate linked to a stored candidate recorded under another name
+ */
+export interface CandidateLink {
+  election: string;
+  candidate: string;
+  existing: string;
+  existingId: number;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Duplicate candidates merged into one within an election
+ */
+export interface CandidateMerge {
+  election: string;
+  kept: string;
+  merged: string;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * What resolving the candidates of a run did
+ */
+export interface CandidateResolutionReport {
+  merged: CandidateMerge[];
+  review: CandidateReview[];
+}
+
+/**
+ * A person's name split into comparable parts
+ */
+export interface ParsedName {
+  // First name, with nicknames replaced by the formal name ("bob" -> "robert")
+  first: string;
+  middle: string[];
+  last: string;
+  suffix: string;
+}
+
+// Records scoring at least this are the same person; between the review threshold and this they are listed for review
+export const MATCH_THRESHOLD = 0.9;
+export const REVIEW_THRESHOLD = 0.7;
+// Matches scoring within this of the best match make it uncertain ("J. Smith" is John Smith or Jane Smith)
+const AMBIGUITY_MARGIN = 0.05;
+
+// Score given to names that only differ in a conflicting middle name or suffix ("John A. Smith" / "John B. Smith")
+const CONFLICT_SCORE = 0.75;
+// Highest score of names whose first names are only similar ("Daniel" / "Danielle"), which are never merged automatically
+const SIMILAR_FIRST_NAME_SCORE = 0.85;
+
+const SUFFIXES = ['jr', 'sr', 'ii', 'iii', 'iv'];
+const TITLES = ['dr', 'mr', 'mrs', 'ms', 'miss', 'hon', 'rev'];
+
+// Common English nicknames and the formal first name they stand for
+const NICKNAMES: Record<string, string> = {
+  al: 'albert', alex: 'alexander', andy: 'andrew', ben: 'benjamin', bill: 'william', billy: 'william',
+  bob: 'robert', bobby: 'robert', cathy: 'catherine', charlie: 'charles', chris: 'christopher', chuck: 'charles',
+  dan: 'daniel', danny: 'daniel', dave: 'david', deb: 'deborah', debbie: 'deborah', dick: 'richard',
+  don: 'donald', ed: 'edward', eddie: 'edward', fred: 'frederick', greg: 'gregory', hank: 'henry',
+  jack: 'john', jake: 'jacob', jim: 'james', jimmy: 'james', joe: 'joseph', joey: 'joseph',
+  jon: 'jonathan', kate: 'katherine', kathy: 'katherine', ken: 'kenneth', larry: 'lawrence', liz: 'elizabeth',
+  matt: 'matthew', mike: 'michael', nick: 'nicholas', pat: 'patricia', peggy: 'margaret', pete: 'peter',
+  ray: 'raymond', rich: 'richard', rick: 'richard', rob: 'robert', ron: 'ronald', sam: 'samuel',
+  steve: 'steven', sue: 'susan', ted: 'edward', tim: 'timothy', tom: 'thomas', tony: 'anthony',
+  will: 'william',
+};
+
+/**
+ * Splits a name into first, middle, last and suffix
+ * Handles "Last, First" order, titles, quoted or bracketed nicknames
+ * ("Robert \"Bob\" Smith") and nicknames of the first name.
+ * @param name - The full name
+ * @returns The parsed name
+ */
+export function parsePersonName(name: string): ParsedName {
+  const parts = splitPersonName(name);
+  return { ...parts, first: NICKNAMES[parts.first] || parts.first };
+}
+
+/**
+ * Splits a name into first, middle, last and suffix, keeping the first name as it is written
+ */
+function splitPersonName(name: string): ParsedName {
+  let value = name.replace(/["“”][^"“”]*["“”]|\([^)]*\)/g, ' ');
+
+  // "Smith, Robert J." is reordered, "Robert Smith, Jr." keeps its suffix
+  const comma = value.indexOf(',');
+  if (comma !== -1) {
+    const before = value.slice(0, comma);
+    const after = value.slice(comma + 1);
+    const afterTokens = normalizeText(after).split(' ').filter(Boolean);
+    const isSuffix = afterTokens.length > 0 && afterTokens.every(token => SUFFIXES.includes(token));
+    value = isSuffix ? `${before} ${after}` : `${after} ${before}`;
+  }
+
+  const tokens = normalizeText(value).split(' ').filter(Boolean);
+  while (tokens.length > 1 && TITLES.includes(tokens[0])) tokens.shift();
+  const suffix = tokens.length > 1 && SUFFIXES.includes(tokens[tokens.length - 1]) ? tokens.pop() as string : '';
+
+  return {
+    first: tokens[0] || '',
+    middle: tokens.slice(1, -1),
+    last: tokens.length > 1 ? tokens[tokens.length - 1] : '',
+    suffix,
+  };
+}
+
+/**
+ * Scores how likely two candidate records are the same person
+ * Names are compared after normalization (nicknames, initials, suffixes, word order),
+ * with fuzzy similarity for spelling differences. A shared LinkedIn, Twitter or
+ * campaign URL is strong evidence, unless the last names clearly differ.
+ * @param a - A candidate
+ * @param b - Another candidate
+ * @returns The score and the reasons behind it
+ */
+export function compareCandidates(a: CandidateIdentity, b: CandidateIdentity): CandidateMatch {
+  const nameMatch = compareNames(a.name, b.name);
+  const lastNameSimilarity = similarity(parsePersonName(a.name).last, parsePersonName(b.name).last);
+
+  const shared: Array<[string, number]> = [];
+  if (sameUrl(a.linkedin, b.linkedin)) shared.push(['same LinkedIn profile', 0.98]);
+  if (sameHandle(a.twitter, b.twitter)) shared.push(['same Twitter account', 0.98]);
+  if (sameUrl(a.website, b.website)) shared.push(['same campaign website', 0.95]);
+
+  if (shared.length === 0 || nameMatch.score >= shared[0][1]) {
+    return nameMatch;
+  }
+
+  // A shared link between clearly different names (e.g. a slate's website) is left for review
+  const score = lastNameSimilarity >= 0.85 ? shared[0][1] : Math.max(nameMatch.score, REVIEW_THRESHOLD);
+  return { score: round(score), reasons: [...shared.map(([reason]) => reason), ...nameMatch.reasons] };
+}
+
+/**
+ * Finds the stored candidate a candidate is, among the candidates of the same election
+ * @param candidate - The incoming candidate
+ * @param existing - The stored candidates
+ * @returns The best match when it is certain enough and no other candidate scores almost as high,
+ * and otherwise the uncertain matches to review
+ */
+export function findCandidateMatch<T extends CandidateIdentity>(
+  candidate: CandidateIdentity,
+  existing: T[]
+): { match?: { record: T } & CandidateMatch; ambiguous: Array<{ record: T } & CandidateMatch> } {
+  const scored = existing
+    .map(record => ({ record, ...compareCandidates(candidate, record) }))
+    .filter(result => result.score >= REVIEW_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+
+  const [best, second] = scored;
+  const isAmbiguous = second && second.score >= MATCH_THRESHOLD && best.score - second.score < AMBIGUITY_MARGIN;
+  if (best && best.score >= MATCH_THRESHOLD && !isAmbiguous) {
+    return { match: best, ambiguous: [] };
+  }
+  return { ambiguous: scored };
+}
+
+/**
+ * Merges duplicate candidates within each election
+ * Duplicates (e.g. "Bob Smith" and "Robert J. Smith" listed twice under one position)
+ * become one candidate; uncertain pairs are kept apart and listed for review.
+ * @param elections - The elections
+ * @returns The elections without duplicate candidates, and a report of the merges and reviews
+ */
+export function resolveCandidateDuplicates(elections: DetailedElection[]): { elections: DetailedElection[]; report: CandidateResolutionReport } {
+  const report: CandidateResolutionReport = { merged: [], review: [] };
+
+  const resolved = elections.map(election => {
+    const label = `${election.position} (${toDateKey(election.date)})`;
+    const candidates: Candidate[] = [];
+
+    for (const candidate of election.candidates) {
+      const { match, ambiguous } = findCandidateMatch(toIdentity(candidate), candidates.map(toIdentityWith));
+
+      if (match) {
+        const index = candidates.indexOf(match.record.candidate);
+        candidates[index] = mergeDuplicate(match.record.candidate, candidate);
+        report.merged.push({
+          election: label,
+          kept: candidates[index].fullName,
+          merged: candidate.fullName,
+          score: match.score,
+          reasons: match.reasons,
+        });
+        continue;
+      }
+
+      for (const uncertain of ambiguous) {
+        report.review.push({
+          election: label,
+          candidate: candidate.fullName,
+          match: uncertain.record.name,
+          score: uncertain.score,
+          reasons: uncertain.reasons,
+        });
+      }
+      candidates.push(candidate);
+    }
+
+    return candidates.length === election.candidates.length ? election : { ...election, candidates };
+  });
+
+  if (report.merged.length > 0 || report.review.length > 0) {
+    logger.info(`Merged ${report.merged.length} duplicate candidates, ${report.review.length} possible duplicates to review`);
+  }
+  return { elections: resolved, report };
+}
+
+/**
+ * Gets the identity of a candidate
+ * @param candidate - The candidate
+ * @returns Its name and links
+ */
+export function toIdentity(candidate: Candidate): CandidateIdentity {
+  return { name: candidate.fullName, linkedin: candidate.linkedinUrl, website: candidate.campaignUrl, twitter: candidate.twitter };
+}
+
+/**
+ * Gets the identity of a candidate, keeping the candidate itself
+ */
+function toIdentityWith(candidate: Candidate): CandidateIdentity & { candidate: Candidate } {
+  return { ...toIdentity(candidate), candidate };
+}
+
+/**
+ * Compares two names part by part
+ */
+function compareNames(a: string, b: string): CandidateMatch {
+  const x = parsePersonName(a);
+  const y = parsePersonName(b);
+  const reasons: string[] = [];
+
+  if (!x.first || !y.first) {
+    return { score: 0, reasons: ['missing name'] };
+  }
+
+  // Single-word names only match exactly
+  if (!x.last || !y.last) {
+    const same = normalizeText(a) === normalizeText(b);
+    return { score: same ? 1 : 0, reasons: same ? ['same name'] : [] };
+  }
+
+  const lastScore = similarity(x.last, y.last);
+  if (lastScore < 1) reasons.push(`similar last names (${round(lastScore)})`);
+
+  let firstScore: number;
+  let similarFirstNames = false;
+  if (x.first === y.first) {
+    firstScore = 1;
+    const [rawX, rawY] = [normalizeText(a).split(' '), normalizeText(b).split(' ')];
+    if (!rawX.includes(x.first) || !rawY.includes(y.first)) reasons.push('nickname');
+  } else if (isInitialOf(x.first, y.first) || isInitialOf(y.first, x.first)) {
+    firstScore = 0.92;
+    reasons.push('first initial');
+  } else {
+    // Different first names are penalized more than different last names ("Maria" / "Mario"), and are
+    // compared as written too, since a nickname's formal name can be further off ("Jon" / "John")
+    const written = similarity(splitPersonName(a).first, splitPersonName(b).first);
+    firstScore = Math.pow(Math.max(similarity(x.first, y.first), written), 2);
+    similarFirstNames = true;
+    reasons.push(`similar first names (${round(firstScore)})`);
+  }
+
+  let score = lastScore * firstScore;
+  // Gendered variants ("Daniel" / "Danielle", "Robert" / "Roberta") are different people as often as not
+  if (similarFirstNames) {
+    score = Math.min(score, SIMILAR_FIRST_NAME_SCORE);
+  }
+
+  if (x.middle.length > 0 && y.middle.length > 0 && x.middle[0][0] !== y.middle[0][0]) {
+    score = Math.min(score, CONFLICT_SCORE);
+    reasons.push('different middle names');
+  }
+  if (x.suffix && y.suffix && x.suffix !== y.suffix) {
+    score = Math.min(score, CONFLICT_SCORE);
+    reasons.push('different suffixes');
+  }
+
+  if (reasons.length === 0) reasons.push('same name');
+  return { score: round(score), reasons };
+}
+
+/**
+ * Merges a duplicate into the candidate kept
+ * The kept candidate's values win, except that the more complete name and an official
+ * listing are kept; empty fields are filled in and sources, policies and provenance are combined.
+ */
+function mergeDuplicate(kept: Candidate, duplicate: Candidate): Candidate {
+  const [primary, secondary] = duplicate.official && !kept.official ? [duplicate, kept] : [kept, duplicate];
+  const merged: Candidate = { ...secondary };
+
+  for (const [field, value] of Object.entries(primary) as [keyof Candidate, Candidate[keyof Candidate]][]) {
+    const isEmpty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    if (!isEmpty) {
+      (merged as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  const nameLength = (name: string) => normalizeText(name).split(' ').length;
+  merged.fullName = nameLength(secondary.fullName) > nameLength(primary.fullName) ? secondary.fullName : primary.fullName;
+  merged.sources = [...new Set([...primary.sources, ...secondary.sources])];
+  merged.keyPolicies = [
+    ...primary.keyPolicies,
+    ...secondary.keyPolicies.filter(policy => !primary.keyPolicies.some(existing => normalizeText(existing.title) === normalizeText(policy.title))),
+  ];
+  if (primary.provenance || secondary.provenance) {
+    const kept = primary.provenance || [];
+    merged.provenance = [...kept, ...(secondary.provenance || []).filter(source => !kept.some(existing => existing.uri === source.uri))];
+  }
+  return merged;
+}
+
+/**
+ * Checks whether a name part is the initial of another ("r" / "robert")
+ */
+function isInitialOf(initial: string, name: string): boolean {
+  return initial.length === 1 && name.length > 1 && name.startsWith(initial);
+}
+
+/**
+ * Compares two URLs, ignoring the scheme, "www.", case, query and trailing slash
+ */
+function sameUrl(a: string | null | undefined, b: string | null | undefined): boolean {
+  const key = (url: string | null | undefined) => {
+    const value = (url || '').trim().toLowerCase();
+    if (!value || value === 'n/a') return '';
+    return value.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+  };
+  const [x, y] = [key(a), key(b)];
+  return x !== '' && x === y;
+}
+
+/**
+ * Compares two Twitter accounts given as handles or profile URLs
+ */
+function sameHandle(a: string | null | undefined, b: string | null | undefined): boolean {
+  const key = (value: string | null | undefined) => {
+    const trimmed = (value || '').trim().toLowerCase().replace(/[?#].*$/, '').replace(/\/+$/, '');
+    if (!trimmed || trimmed === 'n/a') return '';
+    return trimmed.split('/').pop()?.replace(/^@/, '') || '';
+  };
+  const [x, y] = [key(a), key(b)];
+  return x !== '' && x === y;
+}
+
+/**
+ * Jaro-Winkler similarity of two strings (1 for identical strings)
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Rounds a score to two decimals
+ */
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,233 @@
+// src/services/confidence.ts
+import logger from '../utils/logger';
+import { config } from '../config';
+import { isPlaceholder } from '../utils/helpers';
+import { Candidate, ConfidenceStatus, DetailedElection, FieldConfidence } from '../models/types';
+import { canonicalPosition, normalizeText } from './db/matching';
+import { backsValue, PositionGrounding } from './provenance';
+
+/**
+ * What is known about the candidates research of one position when scoring its candidates
+ */
+export interface PositionEvidence extends PositionGrounding {
+  // The answer to the candidates question when it was asked a second time
+  recheckResponse?: string;
+}
+
+/**
+ * Scores below which a field is held back or flagged
+ */
+export interface ConfidenceThresholds {
+  holdBelow: number;
+  flagBelow: number;
+}
+
+// Candidate fields that are scored. Optional fields can be held back; required ones are only flagged.
+const SCORED_FIELDS: Array<{ field: keyof Candidate; holdable: boolean }> = [
+  { field: 'party', holdable: true },
+  { field: 'currentPosition', holdable: false },
+  { field: 'description', holdable: false },
+  { field: 'keyPolicies', holdable: false },
+  { field: 'campaignUrl', holdable: true },
+  { field: 'linkedinUrl', holdable: true },
+  { field: 'twitter', holdable: true },
+  { field: 'imageUrl', holdable: true },
+];
+
+// Score of a value backed by 0, 1, 2 and 3 or more independent grounded sources
+const SOURCE_SCORES = [0.2, 0.55, 0.75, 0.9];
+// Score of a value whose research has no grounding metadata to check it against
+const UNGROUNDED_SCORE = 0.5;
+// Adjustments for a value given again, or not, when the question is asked twice
+const STABLE_BONUS = 0.1;
+const UNSTABLE_PENALTY = 0.3;
+
+/**
+ * Scores the researched fields of every candidate, holding back the doubtful ones
+ * A field's score grows with the independent web sites (distinct hosts) its grounded
+ * statements come from, and goes up or down with whether a second asking of the
+ * candidates question gave the value again. Research without grounding metadata starts
+ * from a neutral score. Fields below the hold threshold are removed from optional
+ * fields and kept in their confidence entry instead; required fields are flagged.
+ * @param elections - The structured elections of one researched election, with their provenance
+ * @param evidence - The grounding and second answer of the candidates research of each position
+ * @param thresholds - Scores below which fields are held back or flagged
+ * @returns The elections with the confidence of each candidate's fields
+ */
+export function scoreElections(
+  elections: DetailedElection[],
+  evidence: PositionEvidence[],
+  thresholds: ConfidenceThresholds = config.confidence
+): DetailedElection[] {
+  let held = 0;
+  let flagged = 0;
+
+  const scored = elections.map(election => {
+    const positionKey = canonicalPosition(election.position, election);
+    const research = evidence.find(entry => canonicalPosition(entry.positionName, election) === positionKey);
+
+    const candidates = election.candidates.map(candidate => {
+      const result = scoreCandidate(candidate, research, thresholds);
+      for (const entry of Object.values(result.confidence || {})) {
+        if (entry.status === 'held') held++;
+        if (entry.status === 'flagged') flagged++;
+      }
+      return result;
+    });
+
+    return { ...election, candidates };
+  });
+
+  if (held > 0 || flagged > 0) {
+    logger.info(`Confidence scoring held back ${held} candidate fields and flagged ${flagged}`);
+  }
+  return scored;
+}
+
+/**
+ * Scores the researched fields of one candidate
+ * @param candidate - The candidate, with its provenance
+ * @param research - The evidence of the candidate's research, if known
+ * @param thresholds - Scores below which fields are held back or flagged
+ * @returns The candidate with its confidence, without its held back values
+ */
+export function scoreCandidate(
+  candidate: Candidate,
+  research: PositionEvidence | undefined,
+  thresholds: ConfidenceThresholds = config.confidence
+): Candidate {
+  const scored: Candidate = { ...candidate };
+  const confidence: Record<string, FieldConfidence> = {};
+  const grounded = Boolean(research?.grounding);
+
+  for (const { field, holdable } of SCORED_FIELDS) {
+    const value = fieldText(candidate, field);
+    if (value === undefined) continue;
+
+    const sources = countSources(candidate, field);
+    const stable = research?.recheckResponse !== undefined ? answerGives(research.recheckResponse, field, value) : undefined;
+
+    let score = grounded ? SOURCE_SCORES[Math.min(sources, SOURCE_SCORES.length - 1)] : UNGROUNDED_SCORE;
+    if (stable === true) score += STABLE_BONUS;
+    if (stable === false) score -= UNSTABLE_PENALTY;
+    score = Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+
+    const status = statusOf(score, holdable, thresholds);
+    confidence[field] = {
+      score,
+      status,
+      sources,
+      official: false,
+      ...(stable !== undefined ? { stable } : {}),
+      ...(status === 'held' ? { heldValue: value } : {}),
+    };
+    if (status === 'held') {
+      delete scored[field];
+    }
+  }
+
+  return Object.keys(confidence).length > 0 ? { ...scored, confidence } : scored;
+}
+
+/**
+ * Marks the fields an election office's candidate list gives as certain
+ * Values of the list replace researched ones, so a held back value is dropped. Where the
+ * research found a different value, the field is flagged and keeps that value as disagreed.
+ * @param candidate - The merged candidate, or an official candidate without research
+ * @param fields - The fields the official list gave
+ * @param researched - The researched candidate the official one was merged with, if any
+ * @returns The candidate with full confidence in those fields
+ */
+export function confirmOfficialFields(candidate: Candidate, fields: string[], researched?: Candidate): Candidate {
+  const confidence: Record<string, FieldConfidence> = { ...candidate.confidence };
+
+  for (const { field } of SCORED_FIELDS) {
+    const value = fieldText(candidate, field);
+    if (!fields.includes(field) || value === undefined) continue;
+
+    const entry = confidence[field];
+    const researchedValue = researched ? fieldText(researched, field) ?? researched.confidence?.[field]?.heldValue : undefined;
+    const disagrees = researchedValue !== undefined && !sameValue(field, value, researchedValue);
+    confidence[field] = {
+      score: 1,
+      status: disagrees ? 'flagged' : 'confident',
+      sources: entry?.sources ?? 0,
+      official: true,
+      ...(entry?.stable !== undefined ? { stable: entry.stable } : {}),
+      ...(disagrees ? { disagreedValue: researchedValue } : {}),
+    };
+  }
+
+  return Object.keys(confidence).length > 0 ? { ...candidate, confidence } : candidate;
+}
+
+/**
+ * Gets the text of a scored field, or undefined if it has no value
+ */
+function fieldText(candidate: Candidate, field: keyof Candidate): string | undefined {
+  if (field === 'keyPolicies') {
+    const policies = candidate.keyPolicies.map(policy => policy.description).filter(description => !isPlaceholder(description));
+    return policies.length > 0 ? policies.join('; ') : undefined;
+  }
+  const value = candidate[field];
+  return typeof value === 'string' && !isPlaceholder(value) ? value : undefined;
+}
+
+/**
+ * Counts the independent web sites whose grounded statements back a field
+ */
+function countSources(candidate: Candidate, field: string): number {
+  const hosts = new Set<string>();
+  for (const source of candidate.provenance || []) {
+    if (!source.fields.includes(field)) continue;
+    try {
+      hosts.add(new URL(source.uri).hostname.replace(/^www\./, ''));
+    } catch {
+      hosts.add(source.uri);
+    }
+  }
+  return hosts.size;
+}
+
+/**
+ * Checks whether an answer to the candidates question gives a field's value
+ * Links are compared without their scheme, "www." and trailing slash.
+ */
+function answerGives(answer: string, field: keyof Candidate, value: string): boolean {
+  if (field === 'keyPolicies') {
+    return value.split('; ').some(policy => backsValue(answer, policy));
+  }
+  if (field.endsWith('Url')) {
+    return normalizeLinks(answer).includes(normalizeLinks(value));
+  }
+  return backsValue(answer, field === 'twitter' ? value.replace(/^@/, '') : value);
+}
+
+/**
+ * Checks whether two values of a field are the same, ignoring case, punctuation and link formatting
+ */
+function sameValue(field: keyof Candidate, a: string, b: string): boolean {
+  if (field.endsWith('Url')) {
+    return normalizeLinks(a) === normalizeLinks(b);
+  }
+  const normalize = (value: string) => {
+    const text = normalizeText(field === 'twitter' ? value.replace(/^@/, '') : value);
+    return field === 'party' ? text.replace(/ party$/, '') : text;
+  };
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Lower-cases links and removes their scheme, "www." and trailing slashes
+ */
+function normalizeLinks(text: string): string {
+  return text.toLowerCase().replace(/https?:\/\//g, '').replace(/www\./g, '').replace(/\/+(?=["'\s,]|$)/g, '');
+}
+
+/**
+ * Gets the status of a score
+ */
+function statusOf(score: number, holdable: boolean, thresholds: ConfidenceThresholds): ConfidenceStatus {
+  if (score < thresholds.holdBelow) return holdable ? 'held' : 'flagged';
+  return score < thresholds.flagBelow ? 'flagged' : 'confident';
+}
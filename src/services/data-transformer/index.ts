@@ -1,25 +1,62 @@
 import logger from '../../utils/logger';
-import { DetailedElection, ElectionType, CandidatePolicy, TransformedData } from '../../models/types';
-import { validateElectionData } from '../data-validator';
+import { DetailedElection, ElectionType, CandidatePolicy, Candidate, QuarantinedRecord, TransformResult } from '../../models/types';
+import { validateCandidate, validateSingleElection } from '../data-validator';
+import { isPlaceholder } from '../../utils/helpers';
+import { normalizeCandidateSocials } from './socials';
 
 /**
  * Transforms the raw election data from the Gemini API into a standardized format
+ * Each election and candidate is validated on its own: valid records proceed,
+ * invalid ones are quarantined with their validation errors.
  * @param rawElections - Array of elections from the aggregator
- * @returns Validated and transformed election data
+ * @returns Validated and transformed election data, and the quarantined records
  */
-export function transformElectionData(rawElections: DetailedElection[]): DetailedElection[] {
+export function transformElectionData(rawElections: DetailedElection[]): TransformResult {
   try {
     logger.info('Transforming election data');
     
-    // Validate and standardize the format of each election
-    const transformedElections = rawElections.map(transformSingleElection);
+    const elections: DetailedElection[] = [];
+    const quarantined: QuarantinedRecord[] = [];
     
-    // Validate the entire dataset
-    const data: TransformedData = { elections: transformedElections };
-    const validatedData = validateElectionData(data);
+    for (const rawElection of rawElections) {
+      // Standardize the format of the election
+      const election = transformSingleElection(rawElection);
+      
+      // Validate each candidate, keeping only the valid ones
+      const candidates: Candidate[] = [];
+      for (const candidate of election.candidates) {
+        try {
+          candidates.push(validateCandidate(candidate));
+        } catch (error) {
+          quarantined.push({
+            kind: 'candidate',
+            election: election.position,
+            candidate: candidate.fullName,
+            errors: error instanceof Error ? error.message : String(error),
+            record: candidate,
+          });
+        }
+      }
+      
+      // Validate the election with its valid candidates
+      try {
+        elections.push(validateSingleElection({ ...election, candidates }));
+      } catch (error) {
+        quarantined.push({
+          kind: 'election',
+          election: election.position,
+          errors: error instanceof Error ? error.message : String(error),
+          record: election,
+        });
+      }
+    }
+    
+    if (quarantined.length > 0) {
+      logger.warn(`Quarantined ${quarantined.length} invalid records during transformation`);
+    }
     
     logger.info('Election data transformation complete');
-    return validatedData.elections;
+    return { elections, quarantined };
   } catch (error) {
     logger.error('Error during election data transformation', {
       error: error instanceof Error ? error.message : String(error),
@@ -33,7 +70,7 @@ export function transformElectionData(rawElections: DetailedElection[]): Detaile
  * @param election - The election data to transform
  * @returns The transformed election
  */
-function transformSingleElection(election: DetailedElection): DetailedElection {
+export function transformSingleElection(election: DetailedElection): DetailedElection {
   try {
     logger.info(`Transforming election: ${election.position}`);
     
@@ -52,13 +89,14 @@ function transformSingleElection(election: DetailedElection): DetailedElection {
       const transformedLinkedinUrl = candidate.linkedinUrl ? formatUrl(candidate.linkedinUrl) : undefined;
       const transformedCampaignUrl = candidate.campaignUrl ? formatUrl(candidate.campaignUrl) : undefined;
       
-      return {
+      // Social and profile links get their canonical URLs and handles
+      return normalizeCandidateSocials({
         ...candidate,
         imageUrl: transformedImageUrl,
         linkedinUrl: transformedLinkedinUrl,
         campaignUrl: transformedCampaignUrl,
         keyPolicies: transformedPolicies,
-      };
+      });
     });
     
     return {
@@ -117,7 +155,8 @@ function transformPolicy(policy: CandidatePolicy | string): CandidatePolicy {
  * @returns A properly formatted URL
  */
 function formatUrl(url: string): string | undefined {
-  if (!url) return undefined;
+  // "N/A" would otherwise become the valid URL https://N/A
+  if (isPlaceholder(url)) return undefined;
   
   try {
     // Add https:// if protocol is missing
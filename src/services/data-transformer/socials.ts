@@ -0,0 +1,193 @@
+// src/services/data-transformer/socials.ts
+import { isPlaceholder } from '../../utils/helpers';
+import { Candidate, SocialPlatform, SocialProfile } from '../../models/types';
+import { normalizeText } from '../db/matching';
+import { parsePersonName } from '../candidate-resolution';
+
+/**
+ * Hosts of each platform (subdomains such as "m." or a LinkedIn country are accepted)
+ */
+const PLATFORM_HOSTS: Record<SocialPlatform, string[]> = {
+  x: ['x.com', 'twitter.com'],
+  linkedin: ['linkedin.com'],
+  facebook: ['facebook.com', 'fb.com'],
+  instagram: ['instagram.com'],
+  youtube: ['youtube.com'],
+  ballotpedia: ['ballotpedia.org'],
+};
+
+// First path segments that are pages of the site rather than profiles
+const RESERVED_PATHS: Partial<Record<SocialPlatform, string[]>> = {
+  x: ['home', 'i', 'intent', 'search', 'hashtag', 'share', 'explore', 'settings', 'login'],
+  facebook: ['sharer', 'sharer.php', 'share', 'watch', 'groups', 'events', 'photo', 'photo.php', 'story.php', 'login', 'hashtag'],
+  instagram: ['p', 'reel', 'reels', 'explore', 'stories', 'accounts', 'tv'],
+  youtube: ['watch', 'results', 'playlist', 'shorts', 'feed'],
+};
+
+// Where a bare handle ("@janesmith") lives on each platform
+const BARE_HANDLE_PATHS: Record<SocialPlatform, (handle: string) => string[]> = {
+  x: handle => [handle],
+  linkedin: handle => ['in', handle],
+  facebook: handle => [handle],
+  instagram: handle => [handle],
+  youtube: handle => [`@${handle}`],
+  ballotpedia: handle => [handle],
+};
+
+const X_HANDLE = /^[A-Za-z0-9_]{1,15}$/;
+
+/**
+ * Turns a social or profile link, or a handle, into the platform's canonical URL and handle
+ * Tracking parameters, mobile and country subdomains and trailing slashes are dropped, and links
+ * to posts or other pages of the site are recognized by their profile where they have one.
+ * @param platform - The platform the link is for
+ * @param value - The link or handle ("@janesmith", "https://x.com/janesmith?s=20", "ca.linkedin.com/in/janesmith/")
+ * @returns The canonical profile, or undefined for placeholders and links that are not a profile of the platform
+ */
+export function normalizeSocialLink(platform: SocialPlatform, value: string | null | undefined): SocialProfile | undefined {
+  if (isPlaceholder(value)) return undefined;
+  const trimmed = (value as string).trim();
+
+  // A bare handle has no host
+  const isLink = /^https?:\/\//i.test(trimmed) || /^[\w.-]+\.[a-z]{2,}(\/|$)/i.test(trimmed);
+  if (!isLink) {
+    const handle = trimmed.replace(/^@/, '');
+    if (!/^[\w.-]+$/.test(handle)) return undefined;
+    return toProfile(platform, BARE_HANDLE_PATHS[platform](handle), new URLSearchParams());
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return undefined;
+  }
+  if (detectSocialPlatform(url.toString()) !== platform) return undefined;
+
+  const segments = url.pathname.split('/').filter(Boolean).map(segment => safeDecode(segment));
+  return toProfile(platform, segments, url.searchParams);
+}
+
+/**
+ * Finds the platform a link belongs to
+ * @param url - The link
+ * @returns The platform, or undefined for other sites
+ */
+export function detectSocialPlatform(url: string): SocialPlatform | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+
+  return (Object.keys(PLATFORM_HOSTS) as SocialPlatform[])
+    .find(platform => PLATFORM_HOSTS[platform].some(host => hostname === host || hostname.endsWith(`.${host}`)));
+}
+
+/**
+ * Normalizes the social and profile links of a candidate
+ * The X/Twitter handle becomes "@handle" and the LinkedIn URL its canonical form; placeholders
+ * become undefined. The `socials` map collects the profiles found in the candidate's links,
+ * its campaign website when that is a social page, and its sources when the profile names the candidate.
+ * @param candidate - The candidate
+ * @returns The candidate with canonical links and its `socials` map
+ */
+export function normalizeCandidateSocials(candidate: Candidate): Candidate {
+  const socials: Partial<Record<SocialPlatform, SocialProfile>> = {};
+  const add = (platform: SocialPlatform, profile: SocialProfile | undefined) => {
+    if (profile && !socials[platform]) socials[platform] = profile;
+  };
+
+  // Profiles given as such come first, then the ones found in other links
+  for (const [platform, profile] of Object.entries(candidate.socials || {}) as Array<[SocialPlatform, SocialProfile | undefined]>) {
+    add(platform, normalizeSocialLink(platform, profile?.url));
+  }
+  add('x', normalizeSocialLink('x', candidate.twitter));
+  add('linkedin', normalizeSocialLink('linkedin', candidate.linkedinUrl));
+
+  const campaignPlatform = candidate.campaignUrl ? detectSocialPlatform(candidate.campaignUrl) : undefined;
+  if (campaignPlatform) {
+    add(campaignPlatform, normalizeSocialLink(campaignPlatform, candidate.campaignUrl));
+  }
+
+  for (const source of candidate.sources || []) {
+    const platform = typeof source === 'string' ? detectSocialPlatform(source) : undefined;
+    const profile = platform ? normalizeSocialLink(platform, source) : undefined;
+    if (platform && profile && handleNamesCandidate(profile.handle, candidate.fullName)) {
+      add(platform, profile);
+    }
+  }
+
+  return {
+    ...candidate,
+    twitter: socials.x ? `@${socials.x.handle}` : undefined,
+    ...(socials.linkedin ? { linkedinUrl: socials.linkedin.url } : {}),
+    socials: Object.keys(socials).length > 0 ? socials : undefined,
+  };
+}
+
+/**
+ * Builds the canonical profile of a platform from the path segments of a link
+ */
+function toProfile(platform: SocialPlatform, segments: string[], query: URLSearchParams): SocialProfile | undefined {
+  const [first, second] = segments;
+  if (!first || RESERVED_PATHS[platform]?.includes(first.toLowerCase())) return undefined;
+
+  switch (platform) {
+    case 'x':
+      return X_HANDLE.test(first) ? { handle: first, url: `https://x.com/${first}` } : undefined;
+    case 'linkedin': {
+      const kind = first.toLowerCase();
+      const slug = second;
+      if (!slug || !['in', 'company', 'pub'].includes(kind)) return undefined;
+      const handle = slug.toLowerCase();
+      return { handle, url: `https://www.linkedin.com/${kind}/${encodeURIComponent(handle)}` };
+    }
+    case 'facebook': {
+      if (first === 'profile.php') {
+        const id = query.get('id');
+        return id ? { handle: id, url: `https://www.facebook.com/profile.php?id=${id}` } : undefined;
+      }
+      // "/pages/Jane-Smith/1234" pages are known by their number
+      const handle = first === 'pages' && segments[2] ? segments[2] : first;
+      return { handle, url: `https://www.facebook.com/${encodeURIComponent(handle)}` };
+    }
+    case 'instagram':
+      return /^[A-Za-z0-9_.]{1,30}$/.test(first) ? { handle: first.toLowerCase(), url: `https://www.instagram.com/${first.toLowerCase()}` } : undefined;
+    case 'youtube':
+      if (first.startsWith('@')) {
+        return { handle: first.slice(1), url: `https://www.youtube.com/${first}` };
+      }
+      if (['channel', 'c', 'user'].includes(first) && second) {
+        return { handle: second, url: `https://www.youtube.com/${first}/${encodeURIComponent(second)}` };
+      }
+      // A legacy custom URL
+      return segments.length === 1 ? { handle: first, url: `https://www.youtube.com/${encodeURIComponent(first)}` } : undefined;
+    case 'ballotpedia': {
+      // Page names use underscores for spaces and are case-sensitive after the first letter
+      const page = first.replace(/ /g, '_');
+      return { handle: page, url: `https://ballotpedia.org/${encodeURI(page)}` };
+    }
+  }
+}
+
+/**
+ * Checks whether a handle or page name contains the candidate's last name
+ */
+function handleNamesCandidate(handle: string, name: string): boolean {
+  const { last } = parsePersonName(name);
+  const compact = (value: string) => normalizeText(value).replace(/ /g, '');
+  return last.length > 0 && compact(handle).includes(compact(last));
+}
+
+/**
+ * Decodes a path segment, keeping it as it is when it is not valid percent-encoding
+ */
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -1,6 +1,6 @@
 import logger from '../../utils/logger';
-import { DetailedElection, TransformedData } from '../../models/types';
-import { TransformedDataSchema, DetailedElectionSchema } from './schema';
+import { Candidate, DetailedElection, TransformedData } from '../../models/types';
+import { TransformedDataSchema, DetailedElectionSchema, CandidateSchema } from './schema';
 import { ZodError } from 'zod';
 
 /**
@@ -71,12 +71,50 @@ export function validateSingleElection(election: DetailedElection): DetailedElec
   }
 }
 
+/**
+ * Validates a single candidate against the schema
+ * @param candidate - The candidate to validate
+ * @returns Validated candidate or throws an error
+ */
+export function validateCandidate(candidate: Candidate): Candidate {
+  try {
+    // Validate the candidate
+    const validationResult = CandidateSchema.safeParse(candidate);
+    
+    if (!validationResult.success) {
+      const errors = formatZodErrors(validationResult.error);
+      logger.warn(`Validation failed for candidate: ${candidate.fullName}`, { errors });
+      throw new Error(`Candidate validation failed: ${errors}`);
+    }
+    
+    return validationResult.data;
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const formattedErrors = formatZodErrors(error);
+      logger.warn(`Validation failed for candidate: ${candidate.fullName}`, { errors: formattedErrors });
+      throw new Error(`Candidate validation failed: ${formattedErrors}`);
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Checks election data against the schema without throwing
+ * @param data - The transformed data object to check
+ * @returns The formatted validation errors, or undefined if the data is valid
+ */
+export function getValidationErrors(data: TransformedData): string | undefined {
+  const validationResult = TransformedDataSchema.safeParse(data);
+  return validationResult.success ? undefined : formatZodErrors(validationResult.error);
+}
+
 /**
  * Formats Zod errors for better readability in logs
  * @param error - The Zod error object
  * @returns Formatted error string
  */
-function formatZodErrors(error: ZodError): string {
+export function formatZodErrors(error: ZodError): string {
   return error.errors
     .map(err => `${err.path.join('.')}: ${err.message}`)
     .join('; ');
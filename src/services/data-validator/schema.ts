@@ -7,6 +7,42 @@ export const PolicySchema = z.object({
   description: z.string(),
 });
 
+// Schema for a web page backing an election or candidate
+export const SourceRecordSchema = z.object({
+  uri: z.string().url(),
+  title: z.string(),
+  fields: z.array(z.string()),
+  claims: z.array(z.string()),
+  searchQueries: z.array(z.string()),
+});
+
+// Schema for the confidence in a researched field
+export const FieldConfidenceSchema = z.object({
+  score: z.number().min(0).max(1),
+  status: z.enum(['confident', 'flagged', 'held']),
+  sources: z.number().int().min(0),
+  official: z.boolean(),
+  stable: z.boolean().optional(),
+  heldValue: z.string().optional(),
+  disagreedValue: z.string().optional(),
+});
+
+// Schema for a social or profile link
+export const SocialProfileSchema = z.object({
+  handle: z.string().min(1),
+  url: z.string().url(),
+});
+
+// Schema for a candidate's social and profile links, by platform
+export const SocialsSchema = z.object({
+  x: SocialProfileSchema.optional(),
+  linkedin: SocialProfileSchema.optional(),
+  facebook: SocialProfileSchema.optional(),
+  instagram: SocialProfileSchema.optional(),
+  youtube: SocialProfileSchema.optional(),
+  ballotpedia: SocialProfileSchema.optional(),
+}).strict();
+
 // Schema for a candidate
 export const CandidateSchema = z.object({
   imageUrl: z.string().url().optional(),
@@ -22,6 +58,10 @@ export const CandidateSchema = z.object({
   city: z.string().optional(),
   state: z.string().optional(),
   twitter: z.string().optional(),
+  official: z.boolean().optional(),
+  provenance: z.array(SourceRecordSchema).optional(),
+  confidence: z.record(FieldConfidenceSchema).optional(),
+  socials: SocialsSchema.optional(),
 });
 
 // Enum for election types
@@ -41,6 +81,9 @@ export const DetailedElectionSchema = z.object({
   description: z.string(),
   type: ElectionTypeSchema,
   candidates: z.array(CandidateSchema),
+  positions: z.number().int().min(1).optional(),
+  official: z.boolean().optional(),
+  provenance: z.array(SourceRecordSchema).optional(),
 });
 
 // Schema for the transformed data
@@ -0,0 +1,141 @@
+/**
+ * Differences between incoming election data and the database, reported by
+ * dry runs instead of writing
+ */
+
+/**
+ * A column whose stored value would change
+ */
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  // The candidate is verified or claimed: the change would be stored as a pending suggestion
+  suggested?: boolean;
+}
+
+/**
+ * Changes to one stored candidate
+ */
+export interface CandidateDiff {
+  id: number;
+  name: string;
+  changes: FieldChange[];
+}
+
+/**
+ * Differences for one incoming election
+ */
+export interface ElectionDiff {
+  position: string;
+  date: Date;
+  city: string;
+  state: string;
+  // 'new' elections have no stored row yet; everything in them would be created
+  status: 'new' | 'changed' | 'unchanged';
+  electionId?: number;
+  changes: FieldChange[];
+  candidates: {
+    added: string[];
+    // Stored candidates missing from the incoming data (they are kept when storing)
+    removed: string[];
+    changed: CandidateDiff[];
+  };
+}
+
+/**
+ * Differences between a set of incoming elections and the database
+ */
+export interface StoreDiff {
+  elections: ElectionDiff[];
+  totals: {
+    newElections: number;
+    changedElections: number;
+    unchangedElections: number;
+    addedCandidates: number;
+    removedCandidates: number;
+    changedCandidates: number;
+  };
+}
+
+/**
+ * Adds up the totals of election diffs
+ * @param elections - The election diffs
+ * @returns The diff with its totals
+ */
+export function summarizeDiff(elections: ElectionDiff[]): StoreDiff {
+  const count = (status: ElectionDiff['status']) => elections.filter(election => election.status === status).length;
+  const sum = (size: (election: ElectionDiff) => number) => elections.reduce((total, election) => total + size(election), 0);
+
+  return {
+    elections,
+    totals: {
+      newElections: count('new'),
+      changedElections: count('changed'),
+      unchangedElections: count('unchanged'),
+      addedCandidates: sum(election => election.candidates.added.length),
+      removedCandidates: sum(election => election.candidates.removed.length),
+      changedCandidates: sum(election => election.candidates.changed.length),
+    },
+  };
+}
+
+/**
+ * Formats a diff for reading in a terminal
+ * Unchanged elections are only counted.
+ * @param diff - The diff to format
+ * @returns The human-readable diff
+ */
+export function formatDiff(diff: StoreDiff): string {
+  const lines: string[] = [];
+
+  for (const election of diff.elections) {
+    if (election.status === 'unchanged') continue;
+
+    const label = `${election.position}, ${election.city}, ${election.state} (${formatValue(election.date)})`;
+    lines.push(election.status === 'new' ? `+ ${label} [new election]` : `~ ${label} [election #${election.electionId}]`);
+
+    for (const change of election.changes) {
+      lines.push(`    ${formatChange(change)}`);
+    }
+    for (const name of election.candidates.added) {
+      lines.push(`  + candidate ${name}`);
+    }
+    for (const name of election.candidates.removed) {
+      lines.push(`  - candidate ${name} (not in the new data, kept)`);
+    }
+    for (const candidate of election.candidates.changed) {
+      lines.push(`  ~ candidate ${candidate.name} [#${candidate.id}]`);
+      for (const change of candidate.changes) {
+        lines.push(`      ${formatChange(change)}`);
+      }
+    }
+  }
+
+  const { totals } = diff;
+  lines.push(
+    `Elections: ${totals.newElections} new, ${totals.changedElections} changed, ${totals.unchangedElections} unchanged. ` +
+    `Candidates: ${totals.addedCandidates} new, ${totals.removedCandidates} removed, ${totals.changedCandidates} changed.`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats one field change
+ */
+function formatChange(change: FieldChange): string {
+  const suffix = change.suggested ? ' (pending suggestion: verified or claimed candidate)' : '';
+  return `${change.field}: ${formatValue(change.from)} -> ${formatValue(change.to)}${suffix}`;
+}
+
+/**
+ * Formats a column value, shortening long text
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '(empty)';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
@@ -1,19 +1,77 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import logger from '../../utils/logger';
-import { DetailedElection, Candidate, CandidatePolicy } from '../../models/types';
+import { DetailedElection, Candidate, CandidatePolicy, FieldConfidence, SourceRecord } from '../../models/types';
 import { chunkArray } from '../../utils/helpers';
+import { config } from '../../config';
+import { ElectionFilter, matchesElectionFilter } from '../../utils/election-filter';
+import { electionNaturalKey, candidateNaturalKey, dayRange, toDateKey } from './matching';
+import { CandidateDiff, ElectionDiff, FieldChange, StoreDiff, summarizeDiff } from './diff';
+import { CandidateLink, CandidateReview, findCandidateMatch, toIdentity } from '../candidate-resolution';
+import { mergeSourceRecords } from '../provenance';
+
+export * from './diff';
 
 const prisma = new PrismaClient();
 
+type ElectionRecord = NonNullable<Awaited<ReturnType<typeof prisma.election.findFirst>>>;
+type CandidateRecord = NonNullable<Awaited<ReturnType<typeof prisma.candidate.findFirst>>>;
+
+/**
+ * Counts of rows created, updated or left unchanged by a store
+ */
+export interface StoreCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+/**
+ * Summary of what a call to storeElectionData did
+ */
+export interface StoreSummary {
+  elections: StoreCounts;
+  candidates: StoreCounts;
+  // Pending suggestions recorded for verified or claimed candidates
+  suggestions: number;
+  // Candidates linked to stored candidates under another spelling, and uncertain matches
+  // left for review (absent when every candidate matched by name or was new)
+  resolution?: {
+    linked: CandidateLink[];
+    review: CandidateReview[];
+  };
+}
+
+// Source recorded on suggestions created by the ingestion pipeline
+const SUGGESTION_SOURCE = 'ingestion';
+
+// Candidate columns are strings or string arrays, stored as JSON on suggestions
+type SuggestionValue = string | string[];
+
+// A suggested value of a protected column, with the stored value it would replace
+interface FieldSuggestion {
+  currentValue?: SuggestionValue;
+  suggestedValue: SuggestionValue;
+}
+
+type StoreOutcome = keyof StoreCounts;
+
 /**
  * Store election data in the database
+ * Elections and candidates are matched to existing rows by natural key, so
+ * re-running the same input updates changed fields instead of duplicating rows.
  * @param elections - Array of detailed elections to store
- * @returns Promise that resolves when all data is stored
+ * @returns Promise with counts of created, updated and unchanged rows
  */
-export async function storeElectionData(elections: DetailedElection[]): Promise<void> {
+export async function storeElectionData(elections: DetailedElection[]): Promise<StoreSummary> {
   try {
     logger.info('Starting to store election data in database');
     
+    const summary: StoreSummary = {
+      elections: emptyCounts(),
+      candidates: emptyCounts(),
+      suggestions: 0,
+    };
+    
     // Process elections in chunks to avoid overwhelming the database
     const chunks = chunkArray(elections, 5);
     
@@ -22,11 +80,12 @@ export async function storeElectionData(elections: DetailedElection[]): Promise<
       
       // Store each election in the chunk
       for (const election of chunk) {
-        await storeElection(election);
+        await storeElection(election, summary);
       }
     }
     
-    logger.info('Election data storage complete');
+    logger.info('Election data storage complete', { summary });
+    return summary;
   } catch (error) {
     logger.error('Error storing election data in database', {
       error: error instanceof Error ? error.message : String(error),
@@ -36,32 +95,186 @@ export async function storeElectionData(elections: DetailedElection[]): Promise<
 }
 
 /**
- * Store a single election in the database
- * @param election - The election to store
- * @returns Promise that resolves when the election is stored
+ * Compare election data with the database without writing anything
+ * Elections and candidates are matched exactly as storeElectionData matches them.
+ * @param elections - Array of detailed elections that would be stored
+ * @returns New elections, new and removed candidates, and field-level changes
  */
-async function storeElection(election: DetailedElection): Promise<void> {
+export async function diffElectionData(elections: DetailedElection[]): Promise<StoreDiff> {
   try {
-    logger.info(`Storing election: ${election.position}`);
+    logger.info(`Comparing ${elections.length} elections with the database`);
+    
+    const diffs: ElectionDiff[] = [];
+    for (const election of elections) {
+      diffs.push(await diffElection(election));
+    }
+    
+    return summarizeDiff(diffs);
+  } catch (error) {
+    logger.error('Error comparing election data with database', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new Error('Failed to compare election data with database');
+  }
+}
+
+/**
+ * Stored election with its candidates
+ */
+export type StoredElection = ElectionRecord & { candidates: CandidateRecord[] };
+
+/**
+ * Past election selected by a prune
+ */
+export interface PrunedElection {
+  id: number;
+  position: string;
+  date: Date;
+  city: string;
+  state: string;
+  candidates: number;
+}
+
+/**
+ * Outcome of pruning past elections
+ */
+export interface PruneResult {
+  // Elections deleted with their candidates (or that would be, in a dry run)
+  pruned: PrunedElection[];
+  // Past elections kept because a candidate is verified, claimed or has testimonials
+  kept: PrunedElection[];
+}
+
+/**
+ * Get stored elections with their candidates
+ * @param filter - State and date range to select
+ * @returns The matching elections, ordered by date
+ */
+export async function getStoredElections(filter: ElectionFilter = {}): Promise<StoredElection[]> {
+  try {
+    const elections: StoredElection[] = await prisma.election.findMany({
+      where: { date: dateRangeFilter(filter) },
+      include: { candidates: { orderBy: { id: 'asc' } } },
+      orderBy: [{ date: 'asc' }, { id: 'asc' }],
+    });
+    
+    return elections.filter(election => matchesElectionFilter(election, filter));
+  } catch (error) {
+    logger.error('Error reading elections from database', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new Error('Failed to read elections from database');
+  }
+}
+
+/**
+ * Delete elections held before a date, with their candidates and suggestions
+ * Elections with a verified or claimed candidate, or a candidate with
+ * testimonials or linked vendors, are kept so campaign-owned data is never removed.
+ * @param options - Cutoff date, state and date filter, and whether to only report what would be deleted
+ * @returns The pruned and the kept elections
+ */
+export async function pruneElections(options: {
+  before: Date,
+  filter?: ElectionFilter,
+  dryRun?: boolean
+}): Promise<PruneResult> {
+  try {
+    const result: PruneResult = { pruned: [], kept: [] };
+    const cutoff = dayRange(options.before).gte;
+    const elections = (await getStoredElections(options.filter))
+      .filter(election => election.date < cutoff);
     
-    // Create the election record
-    const createdElection = await prisma.election.create({
-      data: {
+    for (const election of elections) {
+      const summary: PrunedElection = {
+        id: election.id,
         position: election.position,
         date: election.date,
         city: election.city,
         state: election.state,
-        description: election.description,
-        type: election.type,
-        active: true,
-        positions: 1, // Assuming 1 position per election, adjust as needed
-      },
+        candidates: election.candidates.length,
+      };
+      const candidateIds = election.candidates.map((candidate: CandidateRecord) => candidate.id);
+      const testimonials = candidateIds.length > 0
+        ? await prisma.testimonial.count({ where: { candidateId: { in: candidateIds } } })
+        : 0;
+      // Candidates working with vendors are linked to them by the campaign
+      const vendorLinked = candidateIds.length > 0
+        ? await prisma.candidate.count({ where: { id: { in: candidateIds }, Vendor: { some: {} } } })
+        : 0;
+      
+      if (testimonials > 0 || vendorLinked > 0 || election.candidates.some(isProtectedCandidate)) {
+        logger.info(`Keeping past election with campaign-owned data: ${election.position} (ID ${election.id})`);
+        result.kept.push(summary);
+        continue;
+      }
+      
+      if (!options.dryRun) {
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+          await tx.candidateSuggestion.deleteMany({ where: { candidateId: { in: candidateIds } } });
+          await tx.candidateSource.deleteMany({ where: { candidateId: { in: candidateIds } } });
+          await tx.candidateFieldConfidence.deleteMany({ where: { candidateId: { in: candidateIds } } });
+          await tx.candidate.deleteMany({ where: { electionId: election.id } });
+          await tx.election.delete({ where: { id: election.id } });
+        });
+        logger.info(`Pruned election: ${election.position} (ID ${election.id}) with ${candidateIds.length} candidates`);
+      }
+      result.pruned.push(summary);
+    }
+    
+    return result;
+  } catch (error) {
+    logger.error('Error pruning elections from database', {
+      error: error instanceof Error ? error.message : String(error),
     });
+    throw new Error('Failed to prune elections from database');
+  }
+}
+
+/**
+ * Close the database connection
+ * @returns Promise that resolves when the connection is closed
+ */
+export async function disconnectDatabase(): Promise<void> {
+  await prisma.$disconnect();
+}
+
+/**
+ * Upsert a single election in the database
+ * @param election - The election to store
+ * @param summary - Summary to record the outcome in
+ * @returns Promise that resolves when the election is stored
+ */
+async function storeElection(election: DetailedElection, summary: StoreSummary): Promise<void> {
+  try {
+    logger.info(`Storing election: ${election.position}`);
+    
+    const data = toElectionData(election);
+    const existingElection = await findExistingElection(election);
+    let electionId: number;
+    let outcome: StoreOutcome;
+    
+    if (!existingElection) {
+      const createdElection = await prisma.election.create({ data });
+      electionId = createdElection.id;
+      outcome = 'created';
+    } else {
+      electionId = existingElection.id;
+      const changes = changedFields(existingElection, data);
+      
+      if (Object.keys(changes).length > 0) {
+        await prisma.election.update({ where: { id: electionId }, data: changes });
+        outcome = 'updated';
+      } else {
+        outcome = 'unchanged';
+      }
+    }
+    summary.elections[outcome]++;
     
     // Store candidates for this election
-    await storeCandidates(createdElection.id, election.candidates);
+    await storeCandidates(electionId, election, summary);
     
-    logger.info(`Successfully stored election: ${election.position} with ID ${createdElection.id}`);
+    logger.info(`Successfully stored election: ${election.position} with ID ${electionId} (${outcome})`);
   } catch (error) {
     logger.error(`Error storing election: ${election.position}`, {
       error: error instanceof Error ? error.message : String(error),
@@ -71,44 +284,179 @@ async function storeElection(election: DetailedElection): Promise<void> {
 }
 
 /**
- * Store candidates for an election
+ * Compare a single election and its candidates with the database
+ * @param election - The incoming election
+ * @returns The election's differences
+ */
+async function diffElection(election: DetailedElection): Promise<ElectionDiff> {
+  const existingElection = await findExistingElection(election);
+  const diff: ElectionDiff = {
+    position: election.position,
+    date: election.date,
+    city: election.city,
+    state: election.state,
+    status: 'new',
+    changes: [],
+    candidates: { added: [], removed: [], changed: [] },
+  };
+  
+  if (!existingElection) {
+    diff.candidates.added = uniqueCandidateNames(election.candidates);
+    return diff;
+  }
+  
+  diff.electionId = existingElection.id;
+  diff.changes = toFieldChanges(existingElection, changedFields(existingElection, toElectionData(election)));
+  
+  const existingCandidates: CandidateRecord[] = await prisma.candidate.findMany({
+    where: { electionId: existingElection.id },
+    orderBy: { id: 'asc' },
+  });
+  const matcher = new StoredCandidateMatcher(election, existingCandidates);
+  const seen = new Set<number>();
+  
+  for (const candidate of election.candidates) {
+    const { existing, link } = matcher.match(candidate);
+    if (!existing) {
+      if (!diff.candidates.added.some(name => candidateNaturalKey(name) === candidateNaturalKey(candidate.fullName))) {
+        diff.candidates.added.push(candidate.fullName);
+      }
+      continue;
+    }
+    if (seen.has(existing.id)) continue;
+    seen.add(existing.id);
+    
+    // A candidate linked under another spelling keeps its stored name
+    const data = toCandidateData(candidate);
+    const changes = changedFields(existing, link ? { ...data, name: existing.name } : data);
+    if (Object.keys(changes).length === 0) continue;
+    
+    const protectedFields = isProtectedCandidate(existing) ? new Set(config.ingestion.protectedCandidateFields) : new Set<string>();
+    const candidateDiff: CandidateDiff = {
+      id: existing.id,
+      name: existing.name,
+      changes: toFieldChanges(existing, changes).map(change => protectedFields.has(change.field) ? { ...change, suggested: true } : change),
+    };
+    diff.candidates.changed.push(candidateDiff);
+  }
+  
+  for (const existing of matcher.unmatched(seen)) {
+    diff.candidates.removed.push(existing.name);
+  }
+  
+  const hasChanges = diff.changes.length > 0 || diff.candidates.added.length > 0 ||
+    diff.candidates.removed.length > 0 || diff.candidates.changed.length > 0;
+  diff.status = hasChanges ? 'changed' : 'unchanged';
+  return diff;
+}
+
+/**
+ * List the candidate names of an election once per natural key
+ * @param candidates - The incoming candidates
+ * @returns The candidates' names
+ */
+function uniqueCandidateNames(candidates: Candidate[]): string[] {
+  const names = new Map<string, string>();
+  for (const candidate of candidates) {
+    const key = candidateNaturalKey(candidate.fullName);
+    if (!names.has(key)) {
+      names.set(key, candidate.fullName);
+    }
+  }
+  return [...names.values()];
+}
+
+/**
+ * Turn changed columns into field changes with their stored values
+ * @param existing - The stored row
+ * @param changes - The changed columns
+ * @returns The field changes
+ */
+function toFieldChanges(existing: object, changes: object): FieldChange[] {
+  const stored = existing as Record<string, unknown>;
+  return Object.entries(changes).map(([field, to]) => ({ field, from: stored[field] ?? null, to }));
+}
+
+/**
+ * Find the stored election matching an election's natural key
+ * (canonical position + date + city + state)
+ * @param election - The election to match
+ * @returns The existing election row, or null if there is none
+ */
+async function findExistingElection(election: DetailedElection): Promise<ElectionRecord | null> {
+  const key = electionNaturalKey(election);
+  
+  const sameDayElections: ElectionRecord[] = await prisma.election.findMany({
+    where: { date: dayRange(election.date) },
+    orderBy: { id: 'asc' },
+  });
+  
+  return sameDayElections.find(existing => electionNaturalKey(existing) === key) || null;
+}
+
+/**
+ * Upsert candidates for an election
+ * Candidates are matched to the election's stored candidates by normalized name, then
+ * by entity resolution (nicknames, initials, shared links); uncertain matches are created
+ * as new candidates and listed for review. Candidates that are verified or claimed by a
+ * campaign keep their protected fields; changes to those fields are stored as pending suggestions instead.
  * @param electionId - The ID of the election
- * @param candidates - Array of candidates to store
+ * @param election - The election with the candidates to store
+ * @param summary - Summary to record the outcomes in
  * @returns Promise that resolves when all candidates are stored
  */
-async function storeCandidates(electionId: number, candidates: Candidate[]): Promise<void> {
+async function storeCandidates(electionId: number, election: DetailedElection, summary: StoreSummary): Promise<void> {
+  const { candidates } = election;
   try {
     logger.info(`Storing ${candidates.length} candidates for election ID ${electionId}`);
     
+    const existingCandidates: CandidateRecord[] = await prisma.candidate.findMany({
+      where: { electionId },
+      orderBy: { id: 'asc' },
+    });
+    const matcher = new StoredCandidateMatcher(election, existingCandidates);
+    
     for (const candidate of candidates) {
-      // Format policies as strings for database storage
-      const policiesStr = candidate.keyPolicies.map(formatPolicy);
+      const { existing, link, review } = matcher.match(candidate);
+      recordResolution(summary, link, review);
+      const data = toCandidateData(candidate);
       
-      // Extract additional fields with safe defaults
-      const { party = '', city, state, twitter } = candidate;
+      if (!existing) {
+        // Create the candidate record
+        const created = await prisma.candidate.create({
+          data: {
+            ...data,
+            party: data.party ?? '',
+            electionId,
+            verified: false,
+            donations: [],
+            history: [],
+          },
+        });
+        matcher.add(candidate, created);
+        await storeSources(created.id, candidate.provenance);
+        await storeConfidence(created.id, candidate.confidence);
+        summary.candidates.created++;
+        continue;
+      }
       
-      // Create the candidate record
-      await prisma.candidate.create({
-        data: {
-          name: candidate.fullName,
-          position: candidate.currentPosition,
-          party,
-          policies: policiesStr,
-          website: candidate.campaignUrl,
-          electionId,
-          additionalNotes: candidate.additionalNotes,
-          city,
-          linkedin: candidate.linkedinUrl,
-          photo: candidate.imageUrl,
-          sources: candidate.sources,
-          state,
-          twitter,
-          bio: candidate.description,
-          verified: false,
-          donations: [],
-          history: [],
-        },
-      });
+      // A candidate linked under another spelling keeps its stored name
+      let changes = changedFields(existing, link ? { ...data, name: existing.name } : data);
+      
+      if (isProtectedCandidate(existing)) {
+        const { applied, suggested } = splitProtectedChanges(changes, existing);
+        summary.suggestions += await storeSuggestions(existing, suggested);
+        changes = applied;
+      }
+      
+      if (Object.keys(changes).length > 0) {
+        await prisma.candidate.update({ where: { id: existing.id }, data: changes });
+        summary.candidates.updated++;
+      } else {
+        summary.candidates.unchanged++;
+      }
+      await storeSources(existing.id, candidate.provenance);
+      await storeConfidence(existing.id, candidate.confidence);
     }
     
     logger.info(`Successfully stored all candidates for election ID ${electionId}`);
@@ -120,6 +468,370 @@ async function storeCandidates(electionId: number, candidates: Candidate[]): Pro
   }
 }
 
+/**
+ * Matches incoming candidates to the stored candidates of one election
+ * Exact natural-key matches always win. Otherwise a stored candidate not matched yet
+ * is linked when entity resolution is certain it is the same person.
+ */
+class StoredCandidateMatcher {
+  private byKey = new Map<string, CandidateRecord>();
+  private linked = new Set<number>();
+  // Names of the incoming candidates, whose stored rows are kept for their exact match
+  private incomingKeys: Set<string>;
+  private label: string;
+
+  constructor(election: DetailedElection, private existing: CandidateRecord[]) {
+    this.label = `${election.position} (${toDateKey(election.date)})`;
+    this.incomingKeys = new Set(election.candidates.map(candidate => candidateNaturalKey(candidate.fullName)));
+    for (const record of existing) {
+      const key = candidateNaturalKey(record.name);
+      if (!this.byKey.has(key)) {
+        this.byKey.set(key, record);
+      }
+    }
+  }
+
+  /**
+   * Finds the stored candidate an incoming candidate is
+   * @param candidate - The incoming candidate
+   * @returns The stored candidate, the link made by entity resolution and the uncertain matches
+   */
+  public match(candidate: Candidate): { existing?: CandidateRecord; link?: CandidateLink; review: CandidateReview[] } {
+    const exact = this.byKey.get(candidateNaturalKey(candidate.fullName));
+    if (exact) {
+      this.linked.add(exact.id);
+      return { existing: exact, review: [] };
+    }
+
+    const pool = this.existing
+      .filter(record => !this.linked.has(record.id) && !this.incomingKeys.has(candidateNaturalKey(record.name)))
+      .map(record => ({ record, name: record.name, linkedin: record.linkedin, website: record.website, twitter: record.twitter }));
+    const { match, ambiguous } = findCandidateMatch(toIdentity(candidate), pool);
+
+    if (match) {
+      const { record } = match.record;
+      this.linked.add(record.id);
+      this.byKey.set(candidateNaturalKey(candidate.fullName), record);
+      logger.info(`Linked candidate "${candidate.fullName}" to stored candidate #${record.id} "${record.name}" (score ${match.score}: ${match.reasons.join(', ')})`);
+      return {
+        existing: record,
+        link: { election: this.label, candidate: candidate.fullName, existing: record.name, existingId: record.id, score: match.score, reasons: match.reasons },
+        review: [],
+      };
+    }
+
+    return {
+      review: ambiguous.map(({ record, score, reasons }) => ({
+        election: this.label,
+        candidate: candidate.fullName,
+        match: record.record.name,
+        existingId: record.record.id,
+        score,
+        reasons,
+      })),
+    };
+  }
+
+  /**
+   * Registers a candidate created for an incoming candidate, so later duplicates update it
+   * @param candidate - The incoming candidate
+   * @param record - The created row
+   */
+  public add(candidate: Candidate, record: CandidateRecord): void {
+    this.byKey.set(candidateNaturalKey(candidate.fullName), record);
+    this.linked.add(record.id);
+  }
+
+  /**
+   * Lists the stored candidates no incoming candidate matched
+   * @param matchedIds - IDs of the stored candidates that were matched
+   * @returns The unmatched stored candidates, once per name
+   */
+  public unmatched(matchedIds: Set<number>): CandidateRecord[] {
+    const seenKeys = new Set(this.existing
+      .filter(record => matchedIds.has(record.id))
+      .map(record => candidateNaturalKey(record.name)));
+    return this.existing.filter(record => {
+      const key = candidateNaturalKey(record.name);
+      if (seenKeys.has(key)) return false;
+      seenKeys.add(key);
+      return true;
+    });
+  }
+}
+
+/**
+ * Records a link made by entity resolution and the uncertain matches in a store summary
+ * @param summary - The store summary
+ * @param link - The link, if one was made
+ * @param review - The uncertain matches
+ */
+function recordResolution(summary: StoreSummary, link: CandidateLink | undefined, review: CandidateReview[]): void {
+  if (!link && review.length === 0) return;
+
+  summary.resolution = summary.resolution || { linked: [], review: [] };
+  if (link) summary.resolution.linked.push(link);
+  summary.resolution.review.push(...review);
+}
+
+/**
+ * Check whether a stored candidate is verified or claimed by a campaign
+ * @param candidate - The stored candidate
+ * @returns True if the candidate's protected fields must not be overwritten
+ */
+function isProtectedCandidate(candidate: CandidateRecord): boolean {
+  return Boolean(candidate.verified || candidate.clerkUserId);
+}
+
+/**
+ * Split candidate changes into those that may be applied and those that
+ * touch protected fields and may only be suggested
+ * @param changes - The changed candidate columns
+ * @param stored - The stored values of the candidate's columns
+ * @returns The applicable changes, and the suggested ones with the values they would replace
+ */
+function splitProtectedChanges<T extends object>(changes: Partial<T>, stored: Partial<T>): {
+  applied: Partial<T>;
+  suggested: Record<string, FieldSuggestion>;
+} {
+  const protectedFields = new Set(config.ingestion.protectedCandidateFields);
+  const applied: Partial<T> = {};
+  const suggested: Record<string, FieldSuggestion> = {};
+  
+  for (const field of Object.keys(changes) as Array<keyof T & string>) {
+    if (protectedFields.has(field)) {
+      suggested[field] = {
+        currentValue: (stored[field] ?? undefined) as SuggestionValue | undefined,
+        suggestedValue: changes[field] as SuggestionValue,
+      };
+    } else {
+      applied[field] = changes[field];
+    }
+  }
+  
+  return { applied, suggested };
+}
+
+/**
+ * Record the web pages a candidate's research is grounded in
+ * Sources are kept per page: a page found again adds the fields, statements and
+ * searches it backs this time to its stored record.
+ * @param candidateId - The ID of the stored candidate
+ * @param provenance - The candidate's source records
+ * @returns Number of source records created or updated
+ */
+async function storeSources(candidateId: number, provenance: SourceRecord[] = []): Promise<number> {
+  let stored = 0;
+  
+  for (const source of provenance) {
+    const key = { candidateId_uri: { candidateId, uri: source.uri } };
+    const existing = await prisma.candidateSource.findUnique({ where: key });
+    
+    const [merged] = existing ? mergeSourceRecords([existing], [source]) : [source];
+    if (existing && isSameValue(existing.fields, merged.fields) && isSameValue(existing.claims, merged.claims) &&
+      isSameValue(existing.searchQueries, merged.searchQueries) && existing.title === merged.title) {
+      continue;
+    }
+    
+    // Upserted on the unique page of the candidate, so a concurrent store of the same page does not fail
+    const data = { title: merged.title, fields: merged.fields, claims: merged.claims, searchQueries: merged.searchQueries };
+    await prisma.candidateSource.upsert({
+      where: key,
+      create: { candidateId, uri: source.uri, ...data },
+      update: data,
+    });
+    stored++;
+  }
+  
+  if (stored > 0) {
+    logger.info(`Recorded ${stored} sources for candidate ID ${candidateId}`);
+  }
+  
+  return stored;
+}
+
+/**
+ * Record the confidence in each researched field of a candidate
+ * Each field keeps the scores of the latest research, including the values held back from publication.
+ * @param candidateId - The ID of the stored candidate
+ * @param confidence - The candidate's confidence by field
+ * @returns Number of field scores created or updated
+ */
+async function storeConfidence(candidateId: number, confidence: Record<string, FieldConfidence> = {}): Promise<number> {
+  let stored = 0;
+  
+  for (const [field, entry] of Object.entries(confidence)) {
+    const data = {
+      score: entry.score,
+      status: entry.status,
+      sources: entry.sources,
+      official: entry.official,
+      stable: entry.stable ?? null,
+      heldValue: entry.heldValue ?? null,
+      disagreedValue: entry.disagreedValue ?? null,
+    };
+    const key = { candidateId_field: { candidateId, field } };
+    const existing = await prisma.candidateFieldConfidence.findUnique({ where: key });
+    
+    if (!existing || Object.keys(changedFields(existing, data)).length > 0) {
+      await prisma.candidateFieldConfidence.upsert({ where: key, create: { candidateId, field, ...data }, update: data });
+      stored++;
+    }
+  }
+  
+  const held = Object.values(confidence).filter(entry => entry.status === 'held').length;
+  if (held > 0) {
+    logger.info(`Held back ${held} low-confidence fields of candidate ID ${candidateId}`);
+  }
+  
+  return stored;
+}
+
+/**
+ * Record pending suggestions for a protected candidate's fields
+ * An existing pending suggestion for the same field is replaced rather than duplicated.
+ * @param candidate - The stored candidate
+ * @param suggested - The suggested column values, with the stored values they would replace
+ * @returns Number of suggestions created or updated
+ */
+async function storeSuggestions(candidate: CandidateRecord, suggested: Record<string, FieldSuggestion>): Promise<number> {
+  let stored = 0;
+  
+  for (const [field, { currentValue, suggestedValue }] of Object.entries(suggested)) {
+    const pending = await prisma.candidateSuggestion.findFirst({
+      where: { candidateId: candidate.id, field, status: 'PENDING' },
+    });
+    
+    if (pending && isSameValue(pending.suggestedValue, suggestedValue)) {
+      continue;
+    }
+    
+    if (pending) {
+      await prisma.candidateSuggestion.update({
+        where: { id: pending.id },
+        data: { currentValue, suggestedValue },
+      });
+    } else {
+      await prisma.candidateSuggestion.create({
+        data: {
+          candidateId: candidate.id,
+          field,
+          currentValue,
+          suggestedValue,
+          source: SUGGESTION_SOURCE,
+        },
+      });
+    }
+    stored++;
+  }
+  
+  if (stored > 0) {
+    logger.info(`Recorded ${stored} pending suggestions for protected candidate: ${candidate.name}`);
+  }
+  
+  return stored;
+}
+
+/**
+ * Map an election to its database fields
+ * @param election - The election to map
+ * @returns The election's column values
+ */
+function toElectionData(election: DetailedElection) {
+  return {
+    position: election.position,
+    date: election.date,
+    city: election.city,
+    state: election.state,
+    description: election.description,
+    type: election.type,
+    active: true,
+    positions: election.positions ?? 1,
+  };
+}
+
+/**
+ * Map a candidate to its database fields
+ * @param candidate - The candidate to map
+ * @returns The candidate's column values
+ */
+function toCandidateData(candidate: Candidate) {
+  // Extract additional fields with safe defaults; a held back party leaves the stored one as it is
+  const { city, state, twitter } = candidate;
+  const party = candidate.party ?? (candidate.confidence?.party?.status === 'held' ? undefined : '');
+  
+  return {
+    name: candidate.fullName,
+    position: candidate.currentPosition,
+    party,
+    // Format policies as strings for database storage
+    policies: candidate.keyPolicies.map(formatPolicy),
+    website: candidate.campaignUrl,
+    additionalNotes: candidate.additionalNotes,
+    city,
+    linkedin: candidate.linkedinUrl,
+    photo: candidate.imageUrl,
+    sources: candidate.sources,
+    state,
+    twitter,
+    bio: candidate.description,
+  };
+}
+
+/**
+ * Collect the fields whose incoming value differs from the stored row
+ * Incoming undefined values never clear a stored value.
+ * @param existing - The stored row
+ * @param incoming - The incoming column values
+ * @returns Only the changed columns
+ */
+function changedFields<T extends object>(existing: object, incoming: T): Partial<T> {
+  const stored = existing as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  
+  for (const [field, value] of Object.entries(incoming)) {
+    if (value === undefined) continue;
+    if (!isSameValue(stored[field], value)) {
+      changes[field] = value;
+    }
+  }
+  
+  return changes as Partial<T>;
+}
+
+/**
+ * Compare a stored column value with an incoming one
+ */
+function isSameValue(stored: unknown, incoming: unknown): boolean {
+  if (stored instanceof Date && incoming instanceof Date) {
+    return stored.getTime() === incoming.getTime();
+  }
+  if (Array.isArray(stored) || Array.isArray(incoming)) {
+    return JSON.stringify(stored) === JSON.stringify(incoming);
+  }
+  return (stored ?? null) === (incoming ?? null);
+}
+
+/**
+ * Build a Prisma date condition covering a filter's since and until days
+ * @param filter - The filter
+ * @returns The date condition, or undefined if the filter has no dates
+ */
+function dateRangeFilter(filter: ElectionFilter): { gte?: Date; lt?: Date } | undefined {
+  if (!filter.since && !filter.until) return undefined;
+  return {
+    ...(filter.since ? { gte: dayRange(filter.since).gte } : {}),
+    ...(filter.until ? { lt: dayRange(filter.until).lt } : {}),
+  };
+}
+
+/**
+ * Create a zeroed set of store counts
+ */
+function emptyCounts(): StoreCounts {
+  return { created: 0, updated: 0, unchanged: 0 };
+}
+
 /**
  * Format a policy for database storage
  * @param policy - The policy to format
@@ -0,0 +1,169 @@
+/**
+ * Natural-key matching used to find existing database rows for incoming
+ * elections and candidates, so re-running an input updates instead of duplicating
+ */
+
+/**
+ * Minimal election shape needed to build a natural key
+ */
+export interface ElectionKeyFields {
+  position: string;
+  date: Date;
+  city: string;
+  state: string;
+}
+
+/**
+ * Normalizes free text for comparison: lower-cased, punctuation removed,
+ * "&" spelled out and whitespace collapsed
+ * @param value - Text to normalize
+ * @returns The normalized text
+ */
+export function normalizeText(value: string | null | undefined): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Office titles written several ways, mapped to one spelling (applied in order)
+const OFFICE_SYNONYMS: Array<[RegExp, string]> = [
+  [/\bcouncil ?(?:man|woman|member|person|or|lor)s?\b/g, 'council member'],
+  [/\bcouncil\b(?! member)/g, 'council member'],
+  [/\balder ?(?:man|men|woman|person)\b/g, 'alder'],
+  [/\bcommission(?:er)?s?\b/g, 'commissioner'],
+  [/\b(?:school board|board of education)(?: members?| trustees?)?\b/g, 'school board member'],
+  [/\b(?:rep|representative)\b/g, 'representative'],
+  [/\b(?:sen|senator)\b/g, 'senator'],
+];
+
+// District and seat designations: "District 3", "Dist. 03", "3rd Ward", "Seat A", "Position 4"
+const DISTRICT_PATTERNS = [
+  /\b(district|dist|ward|precinct|zone|division) (?:no |number )?([0-9]+|[a-z])\b/,
+  /\b([0-9]+)(?:st|nd|rd|th)? (district|ward)\b/,
+];
+const SEAT_PATTERN = /\b(?:seat|position|pos|post|place) (?:no |number )?([0-9]+|[a-z])\b/;
+
+// Words that do not tell offices apart ("City of Miami Mayor" / "Mayor")
+const FILLER_WORDS = ['the', 'of', 'for', 'city', 'town', 'village', 'municipal'];
+
+/**
+ * Canonicalizes a position name so the same office matches however it is written
+ * Office titles are normalized ("Councilwoman" / "City Council Member"), the
+ * position's own city and state are dropped from the title ("Miami Mayor" in Miami),
+ * and district numbers and seat designations are put in one form at the end
+ * ("Dist. 03 Council" / "Council Member, District 3").
+ * @param position - The position name
+ * @param place - The position's city and state, dropped from the title
+ * @returns The canonical position
+ */
+export function canonicalPosition(position: string, place: { city?: string; state?: string } = {}): string {
+  let value = ` ${normalizeText(position)} `;
+
+  let district = '';
+  for (const pattern of DISTRICT_PATTERNS) {
+    const match = value.match(pattern);
+    if (!match) continue;
+    const [kind, id] = /^[0-9]/.test(match[1]) ? [match[2], match[1]] : [match[1], match[2]];
+    district = `${kind === 'ward' ? 'ward' : 'district'} ${toDesignation(id)}`;
+    value = value.replace(match[0], ' ');
+    break;
+  }
+
+  let seat = '';
+  const seatMatch = value.match(SEAT_PATTERN);
+  if (seatMatch) {
+    seat = `seat ${toDesignation(seatMatch[1])}`;
+    value = value.replace(seatMatch[0], ' ');
+  }
+
+  for (const name of [place.city, place.state].map(normalizeText).filter(Boolean)) {
+    value = value.replace(new RegExp(`\\b${name}\\b`, 'g'), ' ');
+  }
+  for (const [pattern, replacement] of OFFICE_SYNONYMS) {
+    value = value.replace(pattern, replacement);
+  }
+
+  const office = value.split(' ').filter(word => word && !FILLER_WORDS.includes(word)).join(' ');
+  return [office, district, seat].filter(Boolean).join(' ');
+}
+
+/**
+ * Checks whether two positions are the same race: the same canonical office on the
+ * same day in the same state and city. A position without a city matches one with a
+ * city only when its title names that city ("Miami Mayor" / "Mayor" in Miami).
+ * @param a - A position
+ * @param b - Another position
+ * @returns True if both describe the same race
+ */
+export function positionsOverlap(a: ElectionKeyFields, b: ElectionKeyFields): boolean {
+  if (toDateKey(a.date) !== toDateKey(b.date) || normalizeText(a.state) !== normalizeText(b.state)) {
+    return false;
+  }
+
+  const [cityA, cityB] = [normalizeText(a.city), normalizeText(b.city)];
+  if (cityA && cityB && cityA !== cityB) {
+    return false;
+  }
+
+  // A position without a city only matches one in the city its title names
+  const city = cityA || cityB;
+  const untitled = [a, b].find(position => !normalizeText(position.city));
+  if (city && untitled && !` ${normalizeText(untitled.position)} `.includes(` ${city} `)) {
+    return false;
+  }
+
+  return canonicalPosition(a.position, { city, state: a.state }) === canonicalPosition(b.position, { city, state: b.state });
+}
+
+/**
+ * Formats a district or seat number without leading zeros, or a letter as it is
+ */
+function toDesignation(id: string): string {
+  return /^[0-9]+$/.test(id) ? String(parseInt(id, 10)) : id;
+}
+
+/**
+ * Formats a date as its UTC calendar day (YYYY-MM-DD)
+ * @param date - The date to format
+ * @returns The calendar day
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Builds the natural key of an election: canonical position + date + city + state
+ * @param election - The election to key
+ * @returns The natural key
+ */
+export function electionNaturalKey(election: ElectionKeyFields): string {
+  return [
+    canonicalPosition(election.position, election),
+    toDateKey(election.date),
+    normalizeText(election.city),
+    normalizeText(election.state),
+  ].join('|');
+}
+
+/**
+ * Builds the natural key of a candidate within an election: the normalized name
+ * @param name - The candidate's full name
+ * @returns The natural key
+ */
+export function candidateNaturalKey(name: string): string {
+  return normalizeText(name);
+}
+
+/**
+ * Gets the UTC day range containing a date, for querying rows on the same day
+ * @param date - The date
+ * @returns Inclusive start and exclusive end of the day
+ */
+export function dayRange(date: Date): { gte: Date; lt: Date } {
+  const start = new Date(`${toDateKey(date)}T00:00:00.000Z`);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { gte: start, lt: end };
+}
@@ -0,0 +1,369 @@
+// src/services/link-verifier.ts
+import logger from '../utils/logger';
+import { config } from '../config';
+import { isPlaceholder, mapWithConcurrency } from '../utils/helpers';
+import { Candidate, DetailedElection, FieldConfidence } from '../models/types';
+import { normalizeText } from './db/matching';
+import { parsePersonName } from './candidate-resolution';
+
+/**
+ * Candidate fields holding links that are verified
+ */
+export type LinkField = 'linkedinUrl' | 'campaignUrl' | 'twitter' | 'imageUrl';
+
+/**
+ * One HTTP response, before any redirect is followed
+ */
+export interface FetchedPage {
+  status: number;
+  // Location header of a redirect
+  location?: string;
+  contentType?: string;
+  // Start of the body of an HTML page
+  body?: string;
+}
+
+/**
+ * Requests a URL without following redirects
+ */
+export type LinkFetcher = (url: string) => Promise<FetchedPage>;
+
+/**
+ * Outcome of checking a link:
+ * - ok: the page loads and plausibly belongs to the candidate
+ * - dead: the page or site does not exist
+ * - mismatch: the page loads but names someone else (or is not an image, for photos)
+ * - unverified: the site refused or failed the request, so nothing is known
+ */
+export type LinkVerdict = 'ok' | 'dead' | 'mismatch' | 'unverified';
+
+/**
+ * What checking one link of a candidate found
+ */
+export interface LinkCheck {
+  candidate: string;
+  field: LinkField;
+  url: string;
+  status?: number;
+  // URLs redirected to, in order
+  redirects: string[];
+  finalUrl: string;
+  title?: string;
+  // Profile handle read from the final URL (LinkedIn and X/Twitter)
+  handle?: string;
+  matchesName?: boolean;
+  verdict: LinkVerdict;
+  error?: string;
+}
+
+/**
+ * A loaded page, shared by every candidate linking to the same URL
+ */
+interface PageResult {
+  status?: number;
+  redirects: string[];
+  finalUrl: string;
+  contentType?: string;
+  title?: string;
+  body?: string;
+  error?: string;
+  // The host does not exist or refuses connections
+  unreachable?: boolean;
+}
+
+const LINK_FIELDS: LinkField[] = ['linkedinUrl', 'campaignUrl', 'twitter', 'imageUrl'];
+// Statuses of pages that do not exist
+const DEAD_STATUSES = [404, 410];
+// Network errors meaning the host does not exist or accepts no connections
+const UNREACHABLE_CODES = ['ENOTFOUND', 'ECONNREFUSED', 'EAI_AGAIN'];
+// Score given to a link whose page names someone else
+const MISMATCH_SCORE = 0.4;
+// HTML read from a page to find its title and the candidate's name
+const MAX_BODY_LENGTH = 256 * 1024;
+// Links checked at the same time
+const CONCURRENCY = 4;
+
+/**
+ * Checks candidate links: whether they load, where they redirect, and whether the page is the candidate's
+ * Pages are requested once per URL for the lifetime of the verifier, so candidates sharing a link
+ * (or a resumed run) do not request it again. The fetcher can be replaced, e.g. by a local stub in tests.
+ */
+export class LinkVerifier {
+  private cache = new Map<string, Promise<PageResult>>();
+  private fetcher: LinkFetcher;
+  private maxRedirects: number;
+
+  /**
+   * Creates a new LinkVerifier instance
+   * @param options - The fetcher (defaults to an HTTP GET with the configured timeout) and the redirects followed
+   */
+  constructor(options: { fetcher?: LinkFetcher; maxRedirects?: number } = {}) {
+    this.fetcher = options.fetcher || createHttpFetcher(config.links.timeoutMs);
+    this.maxRedirects = options.maxRedirects ?? config.links.maxRedirects;
+  }
+
+  /**
+   * Checks the links of a candidate
+   * @param candidate - The candidate
+   * @returns A check for each link field with a value
+   */
+  public async verifyCandidate(candidate: Candidate): Promise<LinkCheck[]> {
+    const checks: LinkCheck[] = [];
+    for (const field of LINK_FIELDS) {
+      const value = candidate[field];
+      if (typeof value === 'string' && !isPlaceholder(value)) {
+        checks.push(await this.verifyLink(candidate.fullName, field, value));
+      }
+    }
+    return checks;
+  }
+
+  /**
+   * Checks one link of a candidate
+   * @param name - The candidate's full name
+   * @param field - The field holding the link
+   * @param value - The link (or X/Twitter handle)
+   * @returns What the check found
+   */
+  public async verifyLink(name: string, field: LinkField, value: string): Promise<LinkCheck> {
+    const url = field === 'twitter' ? twitterUrl(value) : value;
+    const page = await this.loadPage(url);
+    const check: LinkCheck = {
+      candidate: name,
+      field,
+      url,
+      ...(page.status !== undefined ? { status: page.status } : {}),
+      redirects: page.redirects,
+      finalUrl: page.finalUrl,
+      ...(page.title ? { title: page.title } : {}),
+      verdict: 'unverified',
+      ...(page.error ? { error: page.error } : {}),
+    };
+
+    const handle = profileHandle(field, page.finalUrl) || profileHandle(field, url);
+    if (handle) check.handle = handle;
+
+    if (page.unreachable || (page.status !== undefined && DEAD_STATUSES.includes(page.status))) {
+      check.verdict = 'dead';
+    } else if (page.status !== undefined && page.status >= 200 && page.status < 300) {
+      if (field === 'imageUrl') {
+        check.verdict = page.contentType?.startsWith('image/') ? 'ok' : 'mismatch';
+      } else {
+        check.matchesName = pageNamesCandidate(page, name, handle);
+        check.verdict = check.matchesName ? 'ok' : 'mismatch';
+      }
+    }
+
+    return check;
+  }
+
+  /**
+   * Loads a page, following redirects, or reuses the result of an earlier request for the URL
+   */
+  private loadPage(url: string): Promise<PageResult> {
+    let page = this.cache.get(url);
+    if (!page) {
+      page = this.followRedirects(url);
+      this.cache.set(url, page);
+    }
+    return page;
+  }
+
+  /**
+   * Requests a URL and the URLs it redirects to, up to the redirect limit
+   */
+  private async followRedirects(url: string): Promise<PageResult> {
+    const redirects: string[] = [];
+    let current = url;
+
+    try {
+      for (;;) {
+        const response = await this.fetcher(current);
+        const isRedirect = response.status >= 300 && response.status < 400 && response.location;
+        if (!isRedirect) {
+          return {
+            status: response.status,
+            redirects,
+            finalUrl: current,
+            contentType: response.contentType,
+            ...(response.body ? { title: pageTitle(response.body), body: response.body } : {}),
+          };
+        }
+
+        if (redirects.length >= this.maxRedirects) {
+          return { status: response.status, redirects, finalUrl: current, error: `More than ${this.maxRedirects} redirects` };
+        }
+        current = new URL(response.location as string, current).toString();
+        redirects.push(current);
+      }
+    } catch (error) {
+      const code = (error as { cause?: { code?: string } })?.cause?.code;
+      logger.debug(`Could not load ${current}`, { error: error instanceof Error ? error.message : String(error), code });
+      return {
+        redirects,
+        finalUrl: current,
+        error: code || (error instanceof Error ? error.message : String(error)),
+        unreachable: Boolean(code && UNREACHABLE_CODES.includes(code)),
+      };
+    }
+  }
+}
+
+/**
+ * Checks the links of every candidate, dropping dead links and flagging mismatched ones
+ * A dead link is removed from the candidate and held back in its confidence; a link to a
+ * page naming someone else is kept but flagged. Links that could not be checked are kept as they are.
+ * @param elections - The elections
+ * @param verifier - The link verifier
+ * @returns The elections with their links checked, and every check
+ */
+export async function verifyElectionLinks(
+  elections: DetailedElection[],
+  verifier: LinkVerifier
+): Promise<{ elections: DetailedElection[]; checks: LinkCheck[] }> {
+  const checks: LinkCheck[] = [];
+
+  const verified: DetailedElection[] = [];
+  for (const election of elections) {
+    const candidateChecks = await mapWithConcurrency(election.candidates, CONCURRENCY, candidate => verifier.verifyCandidate(candidate));
+    checks.push(...candidateChecks.flat());
+    verified.push({
+      ...election,
+      candidates: election.candidates.map((candidate, index) => applyLinkChecks(candidate, candidateChecks[index])),
+    });
+  }
+
+  const dead = checks.filter(check => check.verdict === 'dead').length;
+  const mismatched = checks.filter(check => check.verdict === 'mismatch').length;
+  logger.info(`Checked ${checks.length} candidate links: ${dead} dead, ${mismatched} not matching the candidate`);
+
+  return { elections: verified, checks };
+}
+
+/**
+ * Drops a candidate's dead links and flags the mismatched ones in its confidence
+ * @param candidate - The candidate
+ * @param checks - The checks of the candidate's links
+ * @returns The candidate without its dead links
+ */
+export function applyLinkChecks(candidate: Candidate, checks: LinkCheck[]): Candidate {
+  const updated: Candidate = { ...candidate };
+  const confidence: Record<string, FieldConfidence> = { ...candidate.confidence };
+
+  for (const check of checks) {
+    const value = candidate[check.field];
+    const entry = confidence[check.field];
+    const base = { sources: entry?.sources ?? 0, official: entry?.official ?? false, ...(entry?.stable !== undefined ? { stable: entry.stable } : {}) };
+
+    if (check.verdict === 'dead' && typeof value === 'string') {
+      delete updated[check.field];
+      confidence[check.field] = { ...base, score: 0, status: 'held', heldValue: value };
+    } else if (check.verdict === 'mismatch') {
+      confidence[check.field] = { ...base, score: Math.min(entry?.score ?? 1, MISMATCH_SCORE), status: 'flagged' };
+    }
+  }
+
+  return Object.keys(confidence).length > 0 ? { ...updated, confidence } : updated;
+}
+
+/**
+ * Creates the default fetcher: an HTTP GET with a timeout that does not follow redirects
+ * and reads the start of HTML pages
+ * @param timeoutMs - Time allowed for each request
+ * @returns The fetcher
+ */
+export function createHttpFetcher(timeoutMs: number): LinkFetcher {
+  return async url => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: { 'User-Agent': 'election-source link checker', Accept: 'text/html,image/*;q=0.9,*/*;q=0.8' },
+      });
+      const contentType = response.headers.get('content-type') || undefined;
+      const isHtml = Boolean(contentType?.includes('html'));
+      const body = isHtml ? (await response.text()).slice(0, MAX_BODY_LENGTH) : undefined;
+      if (!isHtml) {
+        await response.body?.cancel();
+      }
+
+      return {
+        status: response.status,
+        location: response.headers.get('location') || undefined,
+        contentType,
+        body,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Checks whether a page plausibly belongs to a candidate: its title, text, handle or host names them
+ */
+function pageNamesCandidate(page: PageResult, name: string, handle: string | undefined): boolean {
+  const { first, last } = parsePersonName(name);
+  if (!last) return false;
+
+  const text = ` ${normalizeText(`${page.title || ''} ${stripTags(page.body || '')}`)} `;
+  if (text.includes(` ${last} `)) return true;
+
+  // Handles and hosts run the words together ("janesmith", "smithformayor")
+  const compact = (value: string) => normalizeText(value).replace(/ /g, '');
+  const joined = compact(`${handle || ''} ${hostOf(page.finalUrl)}`);
+  return last.length > 2 ? joined.includes(compact(last)) : joined.includes(compact(`${first}${last}`));
+}
+
+/**
+ * Gets the title of an HTML page
+ */
+function pageTitle(html: string): string | undefined {
+  const match = html.match(/<title[^>]*>([^<]*)<\/title>/i) || html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']*)["']/i);
+  const title = match?.[1].replace(/\s+/g, ' ').trim();
+  return title || undefined;
+}
+
+/**
+ * Reads the profile handle of a LinkedIn or X/Twitter URL
+ */
+function profileHandle(field: LinkField, url: string): string | undefined {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const segments = pathname.split('/').filter(Boolean);
+    if (field === 'linkedinUrl' && hostname.endsWith('linkedin.com') && segments[0] === 'in') return segments[1];
+    if (field === 'twitter' && /(^|\.)(x|twitter)\.com$/.test(hostname)) return segments[0];
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Turns an X/Twitter handle into its profile URL (URLs are kept)
+ */
+function twitterUrl(value: string): string {
+  const trimmed = value.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://x.com/${trimmed.replace(/^@/, '')}`;
+}
+
+/**
+ * Gets the host of a URL without "www."
+ */
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Removes scripts, styles and tags from HTML
+ */
+function stripTags(html: string): string {
+  return html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ');
+}
@@ -0,0 +1,163 @@
+// src/services/official-merge.ts
+import logger from '../utils/logger';
+import { OfficialRace } from '../apis/official';
+import { Candidate, DetailedElection } from '../models/types';
+import { candidateNaturalKey, normalizeText, toDateKey } from './db/matching';
+import { confirmOfficialFields } from './confidence';
+
+/**
+ * What merging an official candidate list into the researched elections did
+ */
+export interface OfficialMergeReport {
+  // Official races that matched a researched election, and those added on their own
+  matchedRaces: string[];
+  addedRaces: string[];
+  // Official candidates completed with details from AI research
+  enrichedCandidates: number;
+  // AI-researched candidates left out because the official list of their race does not include them
+  droppedCandidates: Array<{ election: string; candidate: string }>;
+}
+
+/**
+ * Result of merging an official candidate list into the researched elections
+ */
+export interface OfficialMergeResult {
+  elections: DetailedElection[];
+  report: OfficialMergeReport;
+}
+
+/**
+ * Merges official races ahead of the AI-researched elections
+ * An official race replaces the researched election for the same position, date and
+ * state (and city, when both have one): its candidate list is authoritative, so the
+ * official candidates come first and their listed fields win, AI research only fills in
+ * what the list does not have, and researched candidates missing from the list are dropped.
+ * Official races without a researched election are added as they are. Every field an official
+ * list gives is scored as confirmed.
+ * @param elections - The researched elections
+ * @param races - The races of the official candidate list
+ * @returns The official elections, followed by the researched elections they do not cover, and a report
+ */
+export function mergeOfficialRaces(elections: DetailedElection[], races: OfficialRace[]): OfficialMergeResult {
+  const report: OfficialMergeReport = { matchedRaces: [], addedRaces: [], enrichedCandidates: 0, droppedCandidates: [] };
+  const remaining = [...elections];
+  const merged: DetailedElection[] = [];
+
+  for (const race of races) {
+    const official = officialRaceToElection(race);
+    const label = `${official.position} (${toDateKey(official.date)})`;
+    const matchIndex = remaining.findIndex(election => isSameRace(official, election));
+
+    if (matchIndex === -1) {
+      report.addedRaces.push(label);
+      merged.push({ ...official, candidates: official.candidates.map(candidate => confirmOfficialFields(candidate, listedFields(candidate))) });
+      continue;
+    }
+
+    const [researched] = remaining.splice(matchIndex, 1);
+    report.matchedRaces.push(label);
+    merged.push(mergeElection(official, researched, report));
+  }
+
+  if (report.droppedCandidates.length > 0) {
+    logger.warn(`Dropped ${report.droppedCandidates.length} researched candidates missing from the official candidate lists`, {
+      candidates: report.droppedCandidates,
+    });
+  }
+  logger.info(
+    `Merged official candidate list: ${report.matchedRaces.length} races matched researched elections, ` +
+    `${report.addedRaces.length} added, ${report.enrichedCandidates} candidates enriched with research`
+  );
+
+  return { elections: [...merged, ...remaining], report };
+}
+
+/**
+ * Converts an official race to an election
+ * @param race - The official race
+ * @returns The election, marked official
+ */
+export function officialRaceToElection(race: OfficialRace): DetailedElection {
+  const { position, candidates } = race;
+  return {
+    position: position.positionName,
+    date: position.electionDate,
+    city: position.city,
+    state: position.state,
+    description: position.description,
+    type: position.type,
+    candidates,
+    positions: position.positions,
+    official: true,
+  };
+}
+
+/**
+ * Checks whether a researched election is the same race as an official one
+ */
+function isSameRace(official: DetailedElection, researched: DetailedElection): boolean {
+  const sameCity = !official.city || !researched.city || normalizeText(official.city) === normalizeText(researched.city);
+  return normalizeText(official.position) === normalizeText(researched.position) &&
+    toDateKey(official.date) === toDateKey(researched.date) &&
+    normalizeText(official.state) === normalizeText(researched.state) &&
+    sameCity;
+}
+
+/**
+ * Merges a researched election into the official race for the same position
+ */
+function mergeElection(official: DetailedElection, researched: DetailedElection, report: OfficialMergeReport): DetailedElection {
+  const researchedByName = new Map(researched.candidates.map(candidate => [candidateNaturalKey(candidate.fullName), candidate]));
+
+  const candidates = official.candidates.map(candidate => {
+    const match = researchedByName.get(candidateNaturalKey(candidate.fullName));
+    if (!match) return confirmOfficialFields(candidate, listedFields(candidate));
+
+    researchedByName.delete(candidateNaturalKey(candidate.fullName));
+    report.enrichedCandidates++;
+    return mergeCandidate(candidate, match);
+  });
+
+  for (const dropped of researchedByName.values()) {
+    report.droppedCandidates.push({ election: official.position, candidate: dropped.fullName });
+  }
+
+  return {
+    ...researched,
+    position: official.position,
+    city: official.city || researched.city,
+    state: official.state,
+    type: official.type,
+    positions: official.positions,
+    // The researched description explains the role; the official one only names the list
+    description: researched.description || official.description,
+    candidates,
+    official: true,
+  };
+}
+
+/**
+ * Completes an official candidate with researched details
+ * Fields the official list has win, and are scored as confirmed unless the research disagrees;
+ * sources of both are kept, official first.
+ */
+function mergeCandidate(official: Candidate, researched: Candidate): Candidate {
+  const merged: Candidate = { ...researched };
+  const officialFields = listedFields(official);
+
+  for (const field of officialFields) {
+    (merged as unknown as Record<string, unknown>)[field] = official[field as keyof Candidate];
+  }
+
+  merged.sources = [...new Set([...official.sources, ...researched.sources])];
+  return confirmOfficialFields(merged, officialFields, researched);
+}
+
+/**
+ * Gets the fields an official candidate has a value for
+ */
+function listedFields(official: Candidate): string[] {
+  return (Object.entries(official) as [keyof Candidate, Candidate[keyof Candidate]][])
+    .filter(([, value]) => !(value === undefined || value === '' || (Array.isArray(value) && value.length === 0)))
+    .map(([field]) => field);
+}
@@ -0,0 +1,318 @@
+// src/services/pipeline/index.ts
+import logger from '../../utils/logger';
+import { AIDataLogger } from '../../utils/ai-data-logger';
+import { RunCheckpoint } from '../../utils/run-checkpoint';
+import { mapWithConcurrency } from '../../utils/helpers';
+import { ElectionFilter, hasElectionFilter, matchesElectionFilter } from '../../utils/election-filter';
+import { config } from '../../config';
+import { createResearchProvider, ResearchProvider } from '../../apis/research';
+import { LinkVerifier } from '../link-verifier';
+import { ContestAddresses, loadContestAddresses } from '../../apis/civic/contests';
+import { BasicElection, DetailedElection, QuarantinedRecord, TransformResult } from '../../models/types';
+import { StoreDiff, StoreSummary } from '../db';
+import {
+  PipelineContext,
+  sourceStage,
+  positionsStage,
+  candidatesStage,
+  transformStage,
+  validateStage,
+  storeStage,
+  diffStage,
+  officialStage,
+  mergeStage,
+  vipStage,
+  contestsStage,
+  resolveStage,
+  verifyStage,
+  dedupeStage,
+  PositionsResearch,
+  OfficialListSource,
+  ConsistencyOptions,
+} from './stages';
+
+export * from './stages';
+
+/**
+ * Options of a pipeline run
+ */
+export interface PipelineOptions {
+  // Source: CSV file to read elections from (the Google Civic API is used otherwise)
+  csvFilePath?: string;
+  // Source: JSON or YAML election manifest, whose known positions are not researched again
+  manifestFilePath?: string;
+  // Source: elections supplied directly, taking precedence over the files and Civic API
+  elections?: BasicElection[];
+  // VIP XML feed whose candidate contests are stored as official elections, without research
+  vipFilePath?: string;
+  // Election office candidate list merged ahead of the AI research
+  official?: OfficialListSource;
+  // Representative addresses per jurisdiction, whose ballots list the contests of Civic API elections
+  // (defaults to CONTEST_ADDRESSES_FILE)
+  contestAddresses?: ContestAddresses;
+  // Research provider (defaults to the configured provider)
+  provider?: ResearchProvider;
+  // Whether to record AI inputs and outputs and checkpoints in an ai-logs run (default true)
+  logging?: boolean;
+  // Logger of the run, created in ./ai-logs when not supplied
+  aiLogger?: AIDataLogger;
+  // Run ID to resume from its last completed stage
+  resumeRunId?: string;
+  // Number of elections researched at the same time
+  concurrency?: number;
+  // Only process elections in this state and date range
+  filter?: ElectionFilter;
+  // Maximum number of elections to process (0 for no limit)
+  limit?: number;
+  // Whether to store the result in the database (default true)
+  store?: boolean;
+  // Compare the result with the database instead of storing it
+  dryRun?: boolean;
+  // Ask each candidates question twice, and lower the confidence in values the answers disagree on
+  recheck?: boolean;
+  // Ask each candidates question several times (or to several providers) and keep what most answers agree on
+  consistency?: ConsistencyOptions;
+  // Check candidate links (status, redirects, whose page it is) before storing them
+  linkVerifier?: LinkVerifier;
+}
+
+/**
+ * Result of a pipeline run
+ */
+export interface PipelineResult {
+  runId?: string;
+  elections: DetailedElection[];
+  quarantined: QuarantinedRecord[];
+  storeSummary?: StoreSummary;
+  // Differences with the database, on dry runs
+  diff?: StoreDiff;
+}
+
+/**
+ * Runs the election data pipeline: source -> positions -> dedupe -> candidates ->
+ * transform -> (merge official lists) -> validate -> (verify links) -> resolve -> store. Each stage is checkpointed in the ai-logs
+ * run, so a resumed run continues from the first missing stage.
+ * A VIP feed replaces the source and research stages: its contests are validated and stored as they are.
+ * @param options - Input source, logging, concurrency and storage options
+ * @returns The valid elections, the quarantined records and the store summary
+ */
+export async function runPipeline(options: PipelineOptions = {}): Promise<PipelineResult> {
+  const startTime = new Date();
+  const aiLogger = options.logging === false
+    ? undefined
+    : options.aiLogger || new AIDataLogger('./ai-logs', options.resumeRunId);
+  const context: PipelineContext = {
+    provider: options.provider || createResearchProvider(),
+    aiLogger,
+    checkpoint: aiLogger ? new RunCheckpoint(aiLogger.getRunDir()) : undefined,
+    recheck: options.recheck,
+    consistency: options.consistency,
+    linkVerifier: options.linkVerifier,
+  };
+  const runId = aiLogger?.getRunId();
+
+  try {
+    logger.info(`Starting election data pipeline (run ${runId || 'without AI data logging'}, provider ${context.provider.name})`);
+
+    // A completed run has nothing left to resume
+    const storedSummary = context.checkpoint?.load<StoreSummary>(RunCheckpoint.key('store'));
+    const storedResult = context.checkpoint?.load<TransformResult>(RunCheckpoint.key('validate'));
+    if (storedSummary && storedResult) {
+      logger.info(`Run ${runId} already completed, nothing to resume`);
+      // The elections as they were stored, after link verification and duplicate merging
+      const verified = context.checkpoint?.load<DetailedElection[]>(RunCheckpoint.key('verify')) || storedResult.elections;
+      const storedElections = resolveStage(context, verified);
+      return { runId, elections: storedElections, quarantined: storedResult.quarantined, storeSummary: storedSummary };
+    }
+
+    const { filter = {} } = options;
+    let detailedElections: DetailedElection[];
+
+    if (options.vipFilePath) {
+      // Official ballot data needs no research
+      const vipElections = await vipStage(context, options.vipFilePath);
+      detailedElections = vipElections.filter(election => matchesElectionFilter(election, filter));
+      if (hasElectionFilter(filter)) {
+        logger.info(`Filtered to ${detailedElections.length} VIP contests (from ${vipElections.length} available)`);
+      }
+    } else {
+      // Stage 1: Get basic election data from the selected data source
+      const sourceElections = await sourceStage(context, options);
+      const basicElections = sourceElections.filter(election => matchesElectionFilter(election, filter));
+      if (hasElectionFilter(filter)) {
+        logger.info(`Filtered to ${basicElections.length} elections (from ${sourceElections.length} available)`);
+      }
+
+      // Official candidate list, read before the research so a bad file fails early
+      const officialRaces = (await officialStage(context, options.official))
+        .filter(race => matchesElectionFilter({ state: race.position.state, date: race.position.electionDate }, filter));
+
+      if (basicElections.length === 0) {
+        logger.warn('No active elections found, pipeline stopped');
+        aiLogger?.createRunSummary(0, startTime);
+        return { runId, elections: [], quarantined: [] };
+      }
+
+      // Apply election limit for testing if configured
+      const limit = options.limit ?? config.testing.electionLimit;
+      const electionsToProcess = limit > 0 ? basicElections.slice(0, limit) : basicElections;
+      if (electionsToProcess.length < basicElections.length) {
+        logger.info(`Limited to ${electionsToProcess.length} elections (from ${basicElections.length} available)`);
+      }
+
+      // Stages 2-4: Find the positions of every election, then research and structure each election
+      const concurrency = options.concurrency || config.pipeline.concurrency;
+      logger.info(`Researching ${electionsToProcess.length} elections, ${concurrency} at a time`);
+
+      const contestAddresses = options.contestAddresses ||
+        (config.google.contestAddressesFile ? loadContestAddresses(config.google.contestAddressesFile) : undefined);
+
+      const planned = await mapWithConcurrency(electionsToProcess, concurrency, (election, index) => {
+        logger.info(`Finding positions of election ${index + 1}/${electionsToProcess.length}: ${election.name}`);
+        return planElection(context, election, contestAddresses);
+      });
+
+      // Races listed by several elections (or already stored) are lined up before researching their candidates
+      const pending = planned.filter((plan): plan is ElectionPlan => plan !== null && !plan.elections);
+      const deduped = await dedupeStage(
+        context,
+        pending.map(plan => ({ election: plan.election, positions: plan.research.positions })),
+        Boolean(options.dryRun) || options.store !== false
+      );
+      deduped.forEach(({ positions }, index) => {
+        const plan = pending[index];
+        plan.duplicate = positions.length === 0 && plan.research.positions.length > 0;
+        plan.research = { ...plan.research, positions };
+      });
+
+      const researched = await mapWithConcurrency(planned, concurrency, (plan, index) => {
+        if (!plan) return Promise.resolve([]);
+        logger.info(`Processing election ${index + 1}/${planned.length}: ${plan.election.name}`);
+        return researchElection(context, plan);
+      });
+      // Official races go ahead of the research results
+      detailedElections = officialRaces.length > 0
+        ? mergeStage(context, researched.flat(), officialRaces)
+        : researched.flat();
+    }
+
+    aiLogger?.createRunSummary(detailedElections.length, startTime);
+
+    if (detailedElections.length === 0) {
+      logger.warn('No election data found, pipeline complete');
+      return { runId, elections: [], quarantined: [] };
+    }
+
+    // Stage 5: Validate every election and candidate
+    const validated = validateStage(context, detailedElections);
+    logger.info(`Validated ${validated.elections.length} elections (${validated.quarantined.length} records quarantined)`);
+
+    // Drop dead candidate links and flag mismatched ones, then merge duplicate candidates
+    // before they are matched with the database
+    const checked = await verifyStage(context, validated.elections);
+    const elections = resolveStage(context, checked);
+    const { quarantined } = validated;
+
+    // Stage 6: Store the data in the database, or on a dry run compare it with the database
+    const result: PipelineResult = { runId, elections, quarantined };
+    if (options.dryRun) {
+      result.diff = await diffStage(context, elections);
+    } else if (options.store !== false) {
+      result.storeSummary = await storeStage(context, elections);
+    }
+
+    logger.info('Election data pipeline completed successfully');
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Error during election data pipeline', { error: message });
+
+    // Create a run summary even on error
+    aiLogger?.createRunSummary(0, startTime);
+
+    // The CLI only prints this error, so it carries the reason
+    throw new Error(`Election data pipeline failed: ${message}`);
+  }
+}
+
+/**
+ * The positions of one election, or its elections when they were already researched in this run
+ */
+interface ElectionPlan {
+  election: BasicElection;
+  research: PositionsResearch;
+  elections?: DetailedElection[];
+  // All of its positions are researched with another election
+  duplicate?: boolean;
+}
+
+/**
+ * Runs the contests and positions stages for one election
+ * Contests found on the ballots of representative addresses are used as the election's
+ * positions, so only their candidates are researched.
+ * A failed election is logged and skipped so it does not stop the run.
+ * @param context - The pipeline context
+ * @param election - The election to research
+ * @param contestAddresses - Representative addresses per jurisdiction, if any
+ * @returns The election's positions, or null if the election failed
+ */
+async function planElection(
+  context: PipelineContext,
+  election: BasicElection,
+  contestAddresses?: ContestAddresses
+): Promise<ElectionPlan | null> {
+  const checkpointedElection = context.checkpoint?.load<DetailedElection[]>(RunCheckpoint.electionKey(election, 'transformation'));
+
+  if (checkpointedElection) {
+    logger.info(`Skipping election already processed in this run: ${election.name}`);
+    return { election, research: { query: '', response: '', positions: [] }, elections: checkpointedElection };
+  }
+
+  try {
+    const contests = contestAddresses && !election.seededPositions
+      ? await contestsStage(context, election, contestAddresses)
+      : [];
+    if (contests.length > 0) {
+      election = { ...election, seededPositions: contests };
+    }
+
+    return { election, research: await positionsStage(context, election) };
+  } catch (error) {
+    logger.error(`Failed to get positions for election: ${election.name}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Runs the candidates and transform stages for one election
+ * A failed election is logged and skipped so it does not stop the run.
+ * @param context - The pipeline context
+ * @param plan - The election and its positions left to research
+ * @returns The structured elections, or an empty array if the election failed or all its positions were researched elsewhere
+ */
+async function researchElection(context: PipelineContext, plan: ElectionPlan): Promise<DetailedElection[]> {
+  const { election, research } = plan;
+  if (plan.elections) {
+    return plan.elections;
+  }
+
+  if (plan.duplicate) {
+    logger.info(`Skipping election whose positions are all researched with another election: ${election.name}`);
+    return [];
+  }
+
+  try {
+    const candidates = await candidatesStage(context, election, research.positions);
+    const detailedInfo = await transformStage(context, election, research, candidates);
+
+    logger.info(`Successfully processed election: ${election.name}`);
+    return detailedInfo;
+  } catch (error) {
+    logger.error(`Failed to get detailed info for election: ${election.name}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
@@ -0,0 +1,679 @@
+// src/services/pipeline/stages.ts
+import logger from '../../utils/logger';
+import { AIDataLogger } from '../../utils/ai-data-logger';
+import { RunCheckpoint } from '../../utils/run-checkpoint';
+import { getActiveElections } from '../../apis/civic';
+import { addressesForElection, ContestAddresses, discoverContests } from '../../apis/civic/contests';
+import { readElectionsCsv } from '../../apis/csv';
+import { readElectionManifest } from '../../apis/manifest';
+import { OfficialListProfile, OfficialRace, readOfficialCandidateList } from '../../apis/official';
+import { readVipFeed } from '../../apis/vip';
+import { validateRawPositions } from '../../apis/gemini/index';
+import { generateCandidatesQuery, generateElectionQuery, generateTransformationPrompt } from '../../apis/gemini/queries';
+import { CANDIDATES_RESPONSE_SCHEMA, POSITIONS_RESPONSE_SCHEMA, TRANSFORMATION_RESPONSE_SCHEMA } from '../../apis/gemini/schemas';
+import { ConversationMessage, ResearchGrounding, ResearchProvider } from '../../apis/research';
+import { BasicElection, DetailedElection, DetailedPosition, TransformResult } from '../../models/types';
+import { transformElectionData } from '../data-transformer';
+import { diffElectionData, formatDiff, getStoredElections, storeElectionData, StoreDiff, StoreSummary } from '../db';
+import { canonicalPosition } from '../db/matching';
+import { transformWithRepair } from '../response-repair';
+import { mergeOfficialRaces, officialRaceToElection } from '../official-merge';
+import { resolveCandidateDuplicates } from '../candidate-resolution';
+import { dedupePositions, PlannedElection } from '../position-dedup';
+import { attachProvenance } from '../provenance';
+import { scoreElections } from '../confidence';
+import { reconcileCandidateAnswers } from '../self-consistency';
+import { LinkVerifier, verifyElectionLinks } from '../link-verifier';
+
+/**
+ * State shared by every stage of a pipeline run
+ * The AI data logger and checkpoint are absent when AI data logging is disabled.
+ */
+export interface PipelineContext {
+  provider: ResearchProvider;
+  aiLogger?: AIDataLogger;
+  checkpoint?: RunCheckpoint;
+  // Ask each candidates question a second time, to check the answers are stable
+  recheck?: boolean;
+  // Ask each candidates question several times and keep what a majority of the answers agree on
+  consistency?: ConsistencyOptions;
+  // Check candidate links before storing them, dropping dead ones and flagging those naming someone else
+  linkVerifier?: LinkVerifier;
+}
+
+/**
+ * Self-consistency mode of the candidates stage
+ */
+export interface ConsistencyOptions {
+  // Answers asked for each position (at least 2 for a vote)
+  runs: number;
+  // Providers the questions after the first are asked to in turn (defaults to the run's provider)
+  providers?: ResearchProvider[];
+}
+
+/**
+ * Where the source stage reads its elections from
+ */
+export interface SourceOptions {
+  csvFilePath?: string;
+  manifestFilePath?: string;
+  elections?: BasicElection[];
+}
+
+/**
+ * An election office's candidate list and the column profile to read it with
+ */
+export interface OfficialListSource {
+  filePath: string;
+  profile: OfficialListProfile;
+}
+
+/**
+ * Output of the positions stage for one election
+ */
+export interface PositionsResearch {
+  query: string;
+  response: string;
+  positions: DetailedPosition[];
+  grounding?: ResearchGrounding;
+}
+
+/**
+ * Output of the candidates stage for one position
+ */
+export interface CandidateResearch {
+  position: DetailedPosition;
+  candidatesResponse: string;
+  grounding?: ResearchGrounding;
+  // The answer to the question asked a second time (with the recheck option)
+  recheckResponse?: string;
+}
+
+/**
+ * Source stage: gets the basic elections from the caller, a CSV file, a manifest or the Google Civic API
+ * @param context - The pipeline context
+ * @param options - The election source
+ * @returns The basic elections to process
+ */
+export async function sourceStage(context: PipelineContext, options: SourceOptions): Promise<BasicElection[]> {
+  const { aiLogger, checkpoint } = context;
+  const sourceKey = RunCheckpoint.key('source');
+  const checkpointedElections = checkpoint?.load<BasicElection[]>(sourceKey);
+
+  if (checkpointedElections) {
+    // Resuming: reuse the exact election list the run started with
+    logger.info(`Resuming with ${checkpointedElections.length} elections from checkpoint`);
+    return checkpointedElections;
+  }
+
+  let basicElections: BasicElection[];
+
+  if (options.elections) {
+    // Elections supplied directly by the caller (e.g. a replayed run)
+    logger.info(`Using ${options.elections.length} elections supplied by the caller`);
+    basicElections = options.elections;
+  } else if (options.csvFilePath) {
+    // Get elections from CSV file
+    logger.info(`Using CSV file as data source: ${options.csvFilePath}`);
+    const { elections, errors } = await readElectionsCsv(options.csvFilePath);
+    if (elections.length === 0 && errors.length > 0) {
+      throw new Error(`CSV file has no valid election rows (${errors.length} rows with errors)`);
+    }
+    basicElections = elections;
+
+    // Log CSV election data, with the rows that were skipped
+    aiLogger?.logCsvElectionData(basicElections, options.csvFilePath, errors);
+  } else if (options.manifestFilePath) {
+    // Get elections, and the positions already known, from a JSON or YAML manifest
+    logger.info(`Using election manifest as data source: ${options.manifestFilePath}`);
+    const { elections, errors } = await readElectionManifest(options.manifestFilePath);
+    if (elections.length === 0 && errors.length > 0) {
+      throw new Error(`Manifest has no valid elections (${errors.length} entries with errors)`);
+    }
+    basicElections = elections;
+
+    aiLogger?.logManifestElectionData(basicElections, options.manifestFilePath, errors);
+  } else {
+    // Get basic election data from Google Civic API
+    logger.info('Using Google Civic API as data source');
+    basicElections = await getActiveElections();
+
+    // Log Civic API results
+    aiLogger?.logCivicApiData(basicElections);
+  }
+
+  checkpoint?.save(sourceKey, basicElections);
+  return basicElections;
+}
+
+/**
+ * Official list stage: reads the races of an election office's candidate list
+ * A resumed run reuses the races of the list it started with, even when the list is not given again.
+ * @param context - The pipeline context
+ * @param source - The candidate list and its column profile, if any
+ * @returns The official races, or none when the run has no official list
+ */
+export async function officialStage(context: PipelineContext, source?: OfficialListSource): Promise<OfficialRace[]> {
+  const { aiLogger, checkpoint } = context;
+  const officialKey = RunCheckpoint.key('official');
+
+  const checkpointedRaces = checkpoint?.load<OfficialRace[]>(officialKey);
+  if (checkpointedRaces) {
+    logger.info(`Resuming with ${checkpointedRaces.length} official races from checkpoint`);
+    return checkpointedRaces;
+  }
+  if (!source) {
+    return [];
+  }
+
+  const { races, errors } = await readOfficialCandidateList(source.filePath, source.profile);
+  if (races.length === 0) {
+    throw new Error(`Official candidate list has no valid races (${errors.length} rows with errors)`);
+  }
+
+  aiLogger?.logOfficialCandidateList(source.filePath, source.profile.id, races, errors);
+  checkpoint?.save(officialKey, races);
+  return races;
+}
+
+/**
+ * VIP stage: reads the candidate contests of a VIP feed as official elections, without research
+ * @param context - The pipeline context
+ * @param filePath - Path to the VIP XML feed
+ * @returns An official election for each candidate contest
+ */
+export async function vipStage(context: PipelineContext, filePath: string): Promise<DetailedElection[]> {
+  const { aiLogger, checkpoint } = context;
+  const vipKey = RunCheckpoint.key('vip');
+
+  const checkpointedElections = checkpoint?.load<DetailedElection[]>(vipKey);
+  if (checkpointedElections) {
+    logger.info(`Resuming with ${checkpointedElections.length} VIP contests from checkpoint`);
+    return checkpointedElections;
+  }
+
+  const result = await readVipFeed(filePath);
+  if (result.races.length === 0 && result.errors.length > 0) {
+    throw new Error(`VIP feed has no valid candidate contests (${result.errors.length} contests with errors)`);
+  }
+
+  const elections = result.races.map(officialRaceToElection);
+  aiLogger?.logVipFeed(filePath, result);
+  checkpoint?.save(vipKey, elections);
+  return elections;
+}
+
+/**
+ * Contests stage: finds the positions of a Civic API election on the ballots of representative addresses
+ * Elections without a Civic API ID or addresses for their jurisdiction are left to the positions research.
+ * @param context - The pipeline context
+ * @param election - The election
+ * @param addresses - Representative addresses per jurisdiction
+ * @returns The contests found, as positions with the candidates on the ballot
+ */
+export async function contestsStage(context: PipelineContext, election: BasicElection, addresses: ContestAddresses): Promise<DetailedPosition[]> {
+  const { aiLogger, checkpoint } = context;
+  const contestsKey = RunCheckpoint.electionKey(election, 'contests');
+
+  const checkpointedPositions = checkpoint?.load<DetailedPosition[]>(contestsKey);
+  if (checkpointedPositions) {
+    return checkpointedPositions;
+  }
+
+  const electionAddresses = addressesForElection(addresses, election);
+  if (!election.civicElectionId || electionAddresses.length === 0) {
+    logger.debug(`No contest discovery for ${election.name} (${election.civicElectionId ? 'no addresses for its jurisdiction' : 'not a Civic API election'})`);
+    return [];
+  }
+
+  const discovery = await discoverContests(election, electionAddresses);
+  aiLogger?.logContestDiscovery(election.name, discovery);
+  checkpoint?.save(contestsKey, discovery.positions);
+
+  return discovery.positions;
+}
+
+/**
+ * Positions stage: researches the positions up for election
+ * Positions seeded by the source (e.g. a manifest) are used as they are, without a query.
+ * @param context - The pipeline context
+ * @param basicElection - The election to research
+ * @returns The positions query, the raw response and the parsed positions (query and response are empty for seeded positions)
+ */
+export async function positionsStage(context: PipelineContext, basicElection: BasicElection): Promise<PositionsResearch> {
+  const { provider, aiLogger, checkpoint } = context;
+
+  if (basicElection.seededPositions?.length) {
+    logger.info(`Using ${basicElection.seededPositions.length} known positions for election: ${basicElection.name}`);
+    return { query: '', response: '', positions: basicElection.seededPositions };
+  }
+
+  // Generate the elections query for Gemini
+  const query = generateElectionQuery(basicElection);
+
+  // Get detailed positions list from Gemini with Google Search grounding
+  const positionsKey = RunCheckpoint.electionKey(basicElection, 'positions');
+  const groundingKey = RunCheckpoint.electionKey(basicElection, 'positions', 'grounding');
+  let response = checkpoint?.load<string>(positionsKey);
+  let grounding = checkpoint?.load<ResearchGrounding>(groundingKey);
+
+  if (response === undefined) {
+    const positionsResponse = await provider.research({
+      stage: 'positions',
+      prompt: query,
+      electionName: basicElection.name,
+      responseSchema: POSITIONS_RESPONSE_SCHEMA,
+    });
+    response = positionsResponse.text;
+    grounding = positionsResponse.grounding;
+
+    // Log the election query and response, and the sources it is grounded in
+    aiLogger?.logElectionQuery(basicElection.name, query, response);
+    if (grounding) {
+      aiLogger?.logGrounding(basicElection.name, undefined, grounding);
+      checkpoint?.save(groundingKey, grounding);
+    }
+    checkpoint?.save(positionsKey, response);
+  } else {
+    logger.info(`Using checkpointed positions for election: ${basicElection.name}`);
+  }
+
+  // Validate the raw positions response
+  const positionsResult = validateRawPositions(response, basicElection);
+  if (!positionsResult.success) {
+    // No positions means nothing to research; continue with an empty list
+    logger.warn(`Could not parse positions for election: ${basicElection.name} (${positionsResult.error.reason})`, positionsResult.error);
+  }
+
+  return {
+    query,
+    response,
+    positions: positionsResult.success ? positionsResult.data : [],
+    ...(grounding ? { grounding } : {}),
+  };
+}
+
+/**
+ * Dedupe stage: researches each race once when several elections of the run list it
+ * Positions are also matched against the elections stored on the same days, unless the
+ * run does not touch the database.
+ * @param context - The pipeline context
+ * @param plans - The positions found for each election
+ * @param compareWithDatabase - Whether to match positions against stored elections
+ * @returns The positions left to research for each election, in the same order
+ */
+export async function dedupeStage(context: PipelineContext, plans: PlannedElection[], compareWithDatabase: boolean): Promise<PlannedElection[]> {
+  const days = plans.flatMap(plan => plan.positions.map(position => new Date(position.electionDate).getTime()));
+  const stored = compareWithDatabase && days.length > 0
+    ? await getStoredElections({ since: new Date(Math.min(...days)), until: new Date(Math.max(...days)) })
+    : [];
+
+  const { plans: deduped, report } = dedupePositions(plans, stored);
+  if (report.dropped.length > 0 || report.stored.length > 0) {
+    context.aiLogger?.logPositionDedup(report);
+  }
+  return deduped;
+}
+
+/**
+ * Candidates stage: researches the candidates for each position
+ * Positions are researched concurrently; the provider enforces its own rate limits.
+ * In self-consistency mode each question is asked several times and the answers are reconciled by
+ * majority vote. With the recheck option each question is asked a second time, to score the stability of the answers.
+ * @param context - The pipeline context
+ * @param basicElection - The election being researched
+ * @param positions - The positions found by the positions stage
+ * @returns The candidate research for each position, in the order of the positions
+ */
+export async function candidatesStage(
+  context: PipelineContext,
+  basicElection: BasicElection,
+  positions: DetailedPosition[]
+): Promise<CandidateResearch[]> {
+  if (positions.length === 0) {
+    logger.warn(`No positions to query candidates for in election: ${basicElection.name}`);
+    return [];
+  }
+
+  logger.info(`Getting candidate info for ${positions.length} positions in election: ${basicElection.name}`);
+
+  const results = await Promise.all(positions.map(async (position, i): Promise<CandidateResearch> => {
+    logger.info(`Processing position ${i + 1}/${positions.length}: ${position.positionName}`);
+
+    try {
+      const first = await researchCandidates(context, basicElection, position);
+      const research = context.consistency && context.consistency.runs > 1
+        ? await reconcileCandidates(context, basicElection, first, context.consistency)
+        : first;
+      const recheckResponse = context.recheck ? await recheckCandidates(context, basicElection, position) : undefined;
+      return recheckResponse !== undefined ? { ...research, recheckResponse } : research;
+    } catch (error) {
+      logger.error(`Failed to get candidate info for position: ${position.positionName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Still include a placeholder in the results array to maintain order
+      return {
+        position,
+        candidatesResponse: `Error retrieving candidate information for ${position.positionName}: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }));
+
+  logger.info(`Completed candidate information gathering for all positions in election: ${basicElection.name}`);
+  return results;
+}
+
+/**
+ * Asks the candidates question for one position, or reuses the checkpointed answer
+ * @param context - The pipeline context
+ * @param basicElection - The election being researched
+ * @param position - The position
+ * @returns The answer and the sources it is grounded in
+ */
+async function researchCandidates(context: PipelineContext, basicElection: BasicElection, position: DetailedPosition): Promise<CandidateResearch> {
+  const { provider, aiLogger, checkpoint } = context;
+  const candidatesKey = RunCheckpoint.electionKey(basicElection, 'candidates', position.positionName);
+  const groundingKey = RunCheckpoint.electionKey(basicElection, 'candidates', position.positionName, 'grounding');
+  const checkpointedResponse = checkpoint?.load<string>(candidatesKey);
+
+  if (checkpointedResponse !== undefined) {
+    logger.info(`Using checkpointed candidate information for position: ${position.positionName}`);
+    const grounding = checkpoint?.load<ResearchGrounding>(groundingKey);
+    return { position, candidatesResponse: checkpointedResponse, ...(grounding ? { grounding } : {}) };
+  }
+
+  // Generate candidates query for this specific position
+  const candidatesQuery = generateCandidatesQuery(basicElection, position);
+
+  // Research the candidates with grounding enabled
+  const { text: candidatesResponse, grounding } = await provider.research({
+    stage: 'candidates',
+    prompt: candidatesQuery,
+    electionName: basicElection.name,
+    positionName: position.positionName,
+    responseSchema: CANDIDATES_RESPONSE_SCHEMA,
+  });
+
+  // Log the candidate query and response, and the sources it is grounded in
+  aiLogger?.logCandidateQuery(basicElection.name, position.positionName, candidatesQuery, candidatesResponse);
+  if (grounding) {
+    aiLogger?.logGrounding(basicElection.name, position.positionName, grounding);
+    checkpoint?.save(groundingKey, grounding);
+  }
+  checkpoint?.save(candidatesKey, candidatesResponse);
+
+  logger.info(`Successfully retrieved candidate information for position: ${position.positionName}`);
+  return { position, candidatesResponse, ...(grounding ? { grounding } : {}) };
+}
+
+/**
+ * Asks the candidates question for one position again until there are enough answers, and reconciles them
+ * Answers that fail are left out of the vote. The first answer keeps its grounding.
+ * @param context - The pipeline context
+ * @param basicElection - The election being researched
+ * @param first - The first answer
+ * @param options - The number of answers and the providers to ask
+ * @returns The research with the reconciled answer
+ */
+async function reconcileCandidates(
+  context: PipelineContext,
+  basicElection: BasicElection,
+  first: CandidateResearch,
+  options: ConsistencyOptions
+): Promise<CandidateResearch> {
+  const { position } = first;
+  const consistentKey = RunCheckpoint.electionKey(basicElection, 'candidates', position.positionName, 'consistent');
+  const checkpointedResponse = context.checkpoint?.load<string>(consistentKey);
+  if (checkpointedResponse !== undefined) {
+    return { ...first, candidatesResponse: checkpointedResponse };
+  }
+
+  const providers = options.providers?.length ? options.providers : [context.provider];
+  const prompt = generateCandidatesQuery(basicElection, position);
+  const answers = [first.candidatesResponse];
+
+  for (let run = 1; run < options.runs; run++) {
+    const provider = providers[(run - 1) % providers.length];
+    try {
+      const { text } = await provider.research({
+        stage: 'candidates',
+        prompt,
+        electionName: basicElection.name,
+        positionName: position.positionName,
+        responseSchema: CANDIDATES_RESPONSE_SCHEMA,
+      });
+      answers.push(text);
+    } catch (error) {
+      logger.warn(`Failed to get answer ${run + 1}/${options.runs} (${provider.name}) for position: ${position.positionName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const { response, report } = reconcileCandidateAnswers(answers, { election: basicElection.name, position: position.positionName });
+  context.aiLogger?.logConsistency(report, answers);
+  context.checkpoint?.save(consistentKey, response);
+
+  return { ...first, candidatesResponse: response };
+}
+
+/**
+ * Asks the candidates question for one position a second time, or reuses the checkpointed second answer
+ * A failed second asking is logged and leaves the first answer unchecked.
+ * @param context - The pipeline context
+ * @param basicElection - The election being researched
+ * @param position - The position
+ * @returns The second answer, or undefined if it failed
+ */
+async function recheckCandidates(context: PipelineContext, basicElection: BasicElection, position: DetailedPosition): Promise<string | undefined> {
+  const { provider, aiLogger, checkpoint } = context;
+  const recheckKey = RunCheckpoint.electionKey(basicElection, 'candidates', position.positionName, 'recheck');
+  const checkpointedResponse = checkpoint?.load<string>(recheckKey);
+  if (checkpointedResponse !== undefined) {
+    return checkpointedResponse;
+  }
+
+  try {
+    const { text } = await provider.research({
+      stage: 'candidates',
+      prompt: generateCandidatesQuery(basicElection, position),
+      electionName: basicElection.name,
+      positionName: position.positionName,
+      responseSchema: CANDIDATES_RESPONSE_SCHEMA,
+    });
+
+    aiLogger?.logCandidateRecheck(basicElection.name, position.positionName, text);
+    checkpoint?.save(recheckKey, text);
+    return text;
+  } catch (error) {
+    logger.warn(`Failed to ask the candidates question again for position: ${position.positionName}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Transform stage: turns the research into structured elections, re-asking while the JSON is invalid
+ * @param context - The pipeline context
+ * @param basicElection - The election being researched
+ * @param positionsResearch - Output of the positions stage
+ * @param candidates - Output of the candidates stage
+ * @returns The structured elections
+ */
+export async function transformStage(
+  context: PipelineContext,
+  basicElection: BasicElection,
+  positionsResearch: PositionsResearch,
+  candidates: CandidateResearch[]
+): Promise<DetailedElection[]> {
+  const { provider, aiLogger, checkpoint } = context;
+
+  const transformationPrompt = generateTransformationPrompt(candidates, basicElection);
+
+  // Create conversation history for transformation (seeded positions have no positions exchange)
+  const conversationHistory: ConversationMessage[] = [
+    ...(positionsResearch.query
+      ? [{ role: 'user', text: positionsResearch.query }, { role: 'model', text: positionsResearch.response }]
+      : []),
+    ...candidates.map(candidate => ({ role: 'model', text: candidate.candidatesResponse })),
+  ];
+
+  const { structuredJson, detailedInfo: transformed } = await transformWithRepair({
+    stage: 'transform',
+    prompt: transformationPrompt,
+    electionName: basicElection.name,
+    conversationHistory,
+    responseSchema: TRANSFORMATION_RESPONSE_SCHEMA,
+  }, basicElection, provider, aiLogger);
+
+  // The seats of each position come from the positions research, which the structured JSON does not repeat
+  const seated = transformed.map(election => {
+    const positionKey = canonicalPosition(election.position, election);
+    const research = candidates.find(candidate => canonicalPosition(candidate.position.positionName, election) === positionKey);
+    return research ? { ...election, positions: research.position.positions } : election;
+  });
+
+  // Link the elections and candidates to the web pages their research is grounded in, then
+  // score each candidate field on its sources and on whether the second answer agrees
+  const evidence = candidates.map(candidate => ({
+    positionName: candidate.position.positionName,
+    grounding: candidate.grounding,
+    recheckResponse: candidate.recheckResponse,
+  }));
+  const detailedInfo = scoreElections(attachProvenance(seated, positionsResearch.grounding, evidence), evidence);
+
+  // Log the structured JSON response
+  aiLogger?.logGeminiJson(basicElection.name, structuredJson, detailedInfo);
+  checkpoint?.save(RunCheckpoint.electionKey(basicElection, 'transformation'), detailedInfo);
+
+  return detailedInfo;
+}
+
+/**
+ * Merge stage: puts the official races ahead of the researched elections
+ * @param context - The pipeline context
+ * @param elections - The structured elections of every researched election
+ * @param races - The official races
+ * @returns The merged elections
+ */
+export function mergeStage(context: PipelineContext, elections: DetailedElection[], races: OfficialRace[]): DetailedElection[] {
+  const { elections: merged, report } = mergeOfficialRaces(elections, races);
+  context.aiLogger?.logOfficialMerge(report);
+  return merged;
+}
+
+/**
+ * Validate stage: standardizes and validates every election and candidate, quarantining invalid records
+ * @param context - The pipeline context
+ * @param elections - The structured elections of every researched election
+ * @returns The valid elections and the quarantined records
+ */
+export function validateStage(context: PipelineContext, elections: DetailedElection[]): TransformResult {
+  const { aiLogger, checkpoint } = context;
+  const validateKey = RunCheckpoint.key('validate');
+
+  const checkpointedResult = checkpoint?.load<TransformResult>(validateKey);
+  if (checkpointedResult) {
+    return checkpointedResult;
+  }
+
+  const transformResult = transformElectionData(elections);
+  aiLogger?.logValidationResults(transformResult);
+  checkpoint?.save(validateKey, transformResult);
+
+  return transformResult;
+}
+
+/**
+ * Verify stage: checks the links of every candidate, dropping dead links and flagging mismatched ones
+ * The checked elections are checkpointed, so a resumed run does not request the links again, even
+ * when it is resumed without a link verifier.
+ * @param context - The pipeline context
+ * @param elections - The valid elections
+ * @returns The elections with their links checked
+ */
+export async function verifyStage(context: PipelineContext, elections: DetailedElection[]): Promise<DetailedElection[]> {
+  const { aiLogger, checkpoint, linkVerifier } = context;
+  const verifyKey = RunCheckpoint.key('verify');
+  const checkpointedElections = checkpoint?.load<DetailedElection[]>(verifyKey);
+  if (checkpointedElections) {
+    return checkpointedElections;
+  }
+  if (!linkVerifier) {
+    return elections;
+  }
+
+  const { elections: verified, checks } = await verifyElectionLinks(elections, linkVerifier);
+  aiLogger?.logLinkChecks(checks);
+  checkpoint?.save(verifyKey, verified);
+
+  return verified;
+}
+
+/**
+ * Resolve stage: merges duplicate candidates within each election (nicknames, initials, shared links)
+ * The resolved elections are the ones stored, and are checkpointed as such.
+ * @param context - The pipeline context
+ * @param elections - The valid elections
+ * @returns The elections without duplicate candidates
+ */
+export function resolveStage(context: PipelineContext, elections: DetailedElection[]): DetailedElection[] {
+  const { aiLogger, checkpoint } = context;
+  const resolveKey = RunCheckpoint.key('resolve');
+  const checkpointedElections = checkpoint?.load<DetailedElection[]>(resolveKey);
+  if (checkpointedElections) {
+    return checkpointedElections;
+  }
+
+  const { elections: resolved, report } = resolveCandidateDuplicates(elections);
+  if (report.merged.length > 0 || report.review.length > 0) {
+    aiLogger?.logCandidateResolution(report);
+  }
+  checkpoint?.save(resolveKey, resolved);
+
+  return resolved;
+}
+
+/**
+ * Store stage: upserts the valid elections and candidates into the database
+ * @param context - The pipeline context
+ * @param elections - The valid elections
+ * @returns Counts of created, updated and unchanged records
+ */
+export async function storeStage(context: PipelineContext, elections: DetailedElection[]): Promise<StoreSummary> {
+  const storeSummary = await storeElectionData(elections);
+  context.checkpoint?.save(RunCheckpoint.key('store'), storeSummary);
+
+  logger.info(
+    `Elections: ${storeSummary.elections.created} created, ${storeSummary.elections.updated} updated, ${storeSummary.elections.unchanged} unchanged. ` +
+    `Candidates: ${storeSummary.candidates.created} created, ${storeSummary.candidates.updated} updated, ${storeSummary.candidates.unchanged} unchanged. ` +
+    `Suggestions for protected candidates: ${storeSummary.suggestions}`
+  );
+  if (storeSummary.resolution) {
+    logger.info(`Linked ${storeSummary.resolution.linked.length} candidates to stored candidates, ${storeSummary.resolution.review.length} possible matches to review`);
+  }
+
+  return storeSummary;
+}
+
+/**
+ * Diff stage (dry runs): compares the valid elections with the database instead of storing them
+ * The diff is not checkpointed, since the database may change before the next run.
+ * @param context - The pipeline context
+ * @param elections - The valid elections
+ * @returns New elections, new and removed candidates, and field-level changes
+ */
+export async function diffStage(context: PipelineContext, elections: DetailedElection[]): Promise<StoreDiff> {
+  const diff = await diffElectionData(elections);
+  context.aiLogger?.logDryRunDiff(diff, formatDiff(diff));
+
+  const { totals } = diff;
+  logger.info(
+    `Dry run: ${totals.newElections} new and ${totals.changedElections} changed elections, ` +
+    `${totals.addedCandidates} new, ${totals.removedCandidates} removed and ${totals.changedCandidates} changed candidates`
+  );
+
+  return diff;
+}
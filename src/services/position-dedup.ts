@@ -0,0 +1,115 @@
+// src/services/position-dedup.ts
+import logger from '../utils/logger';
+import { BasicElection, DetailedPosition } from '../models/types';
+import { candidateNaturalKey, ElectionKeyFields, normalizeText, positionsOverlap } from './db/matching';
+
+/**
+ * The positions found for one election, before their candidates are researched
+ */
+export interface PlannedElection {
+  election: BasicElection;
+  positions: DetailedPosition[];
+}
+
+/**
+ * A stored election that researched positions are matched against
+ */
+export interface StoredPosition extends ElectionKeyFields {
+  id: number;
+}
+
+/**
+ * What de-duplicating the positions of a run did
+ */
+export interface PositionDedupReport {
+  // Positions dropped because another election of the run researches the same race
+  dropped: Array<{ election: string; position: string; keptIn: string; keptAs: string }>;
+  // Positions renamed to the stored election of the same race
+  stored: Array<{ election: string; position: string; storedAs: string; electionId: number }>;
+}
+
+/**
+ * Removes positions that several elections of a run describe, and lines positions up with stored elections
+ * A statewide election ("Florida municipal elections") often lists races that a city's
+ * own election also lists, under slightly different names. Each race is researched once:
+ * the position with a city is kept over one without, otherwise the first one, and the
+ * candidates known for either are combined. A position matching a stored election takes
+ * its position name and city, so the research updates that election instead of adding another.
+ * @param plans - The positions found for each election
+ * @param stored - Stored elections on the same days
+ * @returns The positions of each election (in the same order) and a report of the changes
+ */
+export function dedupePositions(plans: PlannedElection[], stored: StoredPosition[] = []): { plans: PlannedElection[]; report: PositionDedupReport } {
+  const report: PositionDedupReport = { dropped: [], stored: [] };
+  const kept: Array<{ plan: number; position: DetailedPosition }> = [];
+
+  plans.forEach(({ election, positions }, planIndex) => {
+    for (const original of positions) {
+      let position = original;
+
+      const storedMatch = stored.find(record => positionsOverlap(toKeyFields(position), record));
+      if (storedMatch && (storedMatch.position !== position.positionName || storedMatch.city !== position.city)) {
+        report.stored.push({ election: election.name, position: position.positionName, storedAs: storedMatch.position, electionId: storedMatch.id });
+        position = { ...position, positionName: storedMatch.position, city: storedMatch.city };
+      }
+
+      const duplicate = kept.find(entry => positionsOverlap(toKeyFields(entry.position), toKeyFields(position)));
+      if (!duplicate) {
+        kept.push({ plan: planIndex, position });
+        continue;
+      }
+
+      // The more specific position (the one with a city) is researched
+      const replace = !normalizeText(duplicate.position.city) && Boolean(normalizeText(position.city));
+      const [winner, loser] = replace
+        ? [{ plan: planIndex, position }, duplicate]
+        : [duplicate, { plan: planIndex, position }];
+      report.dropped.push({
+        election: plans[loser.plan].election.name,
+        position: loser.position.positionName,
+        keptIn: plans[winner.plan].election.name,
+        keptAs: winner.position.positionName,
+      });
+
+      duplicate.plan = winner.plan;
+      duplicate.position = mergePositions(winner.position, loser.position);
+    }
+  });
+
+  if (report.dropped.length > 0 || report.stored.length > 0) {
+    logger.info(`Dropped ${report.dropped.length} duplicate positions, matched ${report.stored.length} positions to stored elections`);
+  }
+
+  return {
+    plans: plans.map((plan, planIndex) => ({
+      ...plan,
+      positions: kept.filter(entry => entry.plan === planIndex).map(entry => entry.position),
+    })),
+    report,
+  };
+}
+
+/**
+ * Combines the candidates known for a position and its duplicate into the position kept
+ */
+function mergePositions(kept: DetailedPosition, duplicate: DetailedPosition): DetailedPosition {
+  const knownCandidates = [...(kept.knownCandidates || [])];
+  for (const name of duplicate.knownCandidates || []) {
+    if (!knownCandidates.some(known => candidateNaturalKey(known) === candidateNaturalKey(name))) {
+      knownCandidates.push(name);
+    }
+  }
+
+  return {
+    ...kept,
+    ...(kept.official || duplicate.official ? { official: true } : {}),
+    ...(knownCandidates.length > 0 ? { knownCandidates } : {}),
+  };
+}
+
+/**
+ * Gets the fields a position is matched on
+ */
+function toKeyFields(position: DetailedPosition): ElectionKeyFields {
+  return { position: position.positionName, date: position.electionDate, city: position.city, state: position.state };
+}
@@ -0,0 +1,186 @@
+// src/services/provenance.ts
+import { ResearchGrounding } from '../apis/research/types';
+import { Candidate, DetailedElection, SourceRecord } from '../models/types';
+import { canonicalPosition, normalizeText } from './db/matching';
+import { parsePersonName } from './candidate-resolution';
+
+/**
+ * The grounding of the candidates research of one position
+ */
+export interface PositionGrounding {
+  positionName: string;
+  grounding?: ResearchGrounding;
+}
+
+// Share of a long value's words a statement must contain to back it
+const WORD_OVERLAP = 0.5;
+// Values longer than this are compared word by word instead of as a whole
+const SHORT_VALUE_LENGTH = 60;
+
+/**
+ * Attaches the web pages the research is grounded in to the elections and candidates it describes
+ * A grounded statement backs a candidate when it names them (full or last name), and
+ * backs each of their fields whose value it contains. Statements of the positions
+ * research naming a position back that election. Each page becomes one source record
+ * listing the fields and statements it backs.
+ * @param elections - The structured elections of one researched election
+ * @param positionsGrounding - Grounding of the positions research, if any
+ * @param candidatesGrounding - Grounding of the candidates research of each position
+ * @returns The elections with their provenance (unchanged when nothing is grounded)
+ */
+export function attachProvenance(
+  elections: DetailedElection[],
+  positionsGrounding: ResearchGrounding | undefined,
+  candidatesGrounding: PositionGrounding[]
+): DetailedElection[] {
+  return elections.map(election => {
+    const positionKey = canonicalPosition(election.position, election);
+    const research = candidatesGrounding.find(entry => canonicalPosition(entry.positionName, election) === positionKey);
+
+    const electionSources = positionsGrounding
+      ? collectSources(positionsGrounding, claim => claimMentions(claim, election.position) || claimMentions(claim, positionKey), claim => [
+        'position',
+        ...(election.description && backsValue(claim, election.description) ? ['description'] : []),
+      ])
+      : [];
+
+    const candidates = election.candidates.map(candidate => {
+      if (!research?.grounding) return candidate;
+
+      const provenance = collectSources(research.grounding, claim => namesCandidate(claim, candidate), claim => candidateFields(claim, candidate));
+      return provenance.length > 0 ? { ...candidate, provenance: mergeSourceRecords(candidate.provenance || [], provenance) } : candidate;
+    });
+
+    return {
+      ...election,
+      candidates,
+      ...(electionSources.length > 0 ? { provenance: mergeSourceRecords(election.provenance || [], electionSources) } : {}),
+    };
+  });
+}
+
+/**
+ * Combines source records by page, joining the fields, statements and searches of each
+ * @param records - Source records already attached
+ * @param added - Source records to add
+ * @returns One record per page
+ */
+export function mergeSourceRecords(records: SourceRecord[], added: SourceRecord[]): SourceRecord[] {
+  const byUri = new Map<string, SourceRecord>();
+  for (const record of [...records, ...added]) {
+    const existing = byUri.get(record.uri);
+    byUri.set(record.uri, existing
+      ? {
+        ...existing,
+        title: existing.title || record.title,
+        fields: union(existing.fields, record.fields),
+        claims: union(existing.claims, record.claims),
+        searchQueries: union(existing.searchQueries, record.searchQueries),
+      }
+      : record);
+  }
+  return [...byUri.values()];
+}
+
+/**
+ * Builds the source records of the statements that concern a record
+ * @param grounding - The research's grounding
+ * @param concerns - Whether a statement is about the record
+ * @param fieldsOf - The fields a statement backs
+ * @returns One record per page backing a statement about the record
+ */
+function collectSources(
+  grounding: ResearchGrounding,
+  concerns: (claim: string) => boolean,
+  fieldsOf: (claim: string) => string[]
+): SourceRecord[] {
+  const records: SourceRecord[] = [];
+
+  for (const claim of grounding.claims) {
+    if (!concerns(claim.text)) continue;
+
+    const fields = fieldsOf(claim.text);
+    for (const index of claim.sources) {
+      const source = grounding.sources[index];
+      if (!source?.uri) continue;
+      records.push({ uri: source.uri, title: source.title, fields, claims: [claim.text.trim()], searchQueries: grounding.searchQueries });
+    }
+  }
+
+  return mergeSourceRecords([], records);
+}
+
+/**
+ * Lists the candidate fields a statement about the candidate backs
+ */
+function candidateFields(claim: string, candidate: Candidate): string[] {
+  const fields = ['fullName'];
+  const values: Array<[string, string | undefined]> = [
+    ['party', candidate.party],
+    ['currentPosition', candidate.currentPosition],
+    ['description', candidate.description],
+    ['campaignUrl', hostOf(candidate.campaignUrl)],
+    ['linkedinUrl', candidate.linkedinUrl ? 'linkedin' : undefined],
+    ['twitter', candidate.twitter?.replace(/^@/, '')],
+  ];
+
+  for (const [field, value] of values) {
+    if (value && backsValue(claim, value)) fields.push(field);
+  }
+  // Policies researched as plain strings have the placeholder title "Policy"
+  if (candidate.keyPolicies.some(policy => backsValue(claim, policy.description) || (policy.title !== 'Policy' && backsValue(claim, policy.title)))) {
+    fields.push('keyPolicies');
+  }
+  return fields;
+}
+
+/**
+ * Checks whether a statement names a candidate, by full name or last name
+ */
+function namesCandidate(claim: string, candidate: Candidate): boolean {
+  const { last } = parsePersonName(candidate.fullName);
+  return claimMentions(claim, candidate.fullName) || (last.length > 2 && claimMentions(claim, last));
+}
+
+/**
+ * Checks whether a statement contains a value: as a whole for short values, or enough of its words for long ones
+ * @param claim - The statement
+ * @param value - The value of a field
+ * @returns True if the statement backs the value
+ */
+export function backsValue(claim: string, value: string): boolean {
+  const normalizedValue = normalizeText(value);
+  if (!normalizedValue) return false;
+  if (normalizedValue.length <= SHORT_VALUE_LENGTH) return claimMentions(claim, normalizedValue);
+
+  const claimWords = new Set(normalizeText(claim).split(' '));
+  const words = [...new Set(normalizedValue.split(' ').filter(word => word.length > 3))];
+  return words.length > 0 && words.filter(word => claimWords.has(word)).length / words.length >= WORD_OVERLAP;
+}
+
+/**
+ * Checks whether a statement contains a phrase, as whole words
+ */
+function claimMentions(claim: string, phrase: string): boolean {
+  const normalizedPhrase = normalizeText(phrase);
+  return normalizedPhrase !== '' && ` ${normalizeText(claim)} `.includes(` ${normalizedPhrase} `);
+}
+
+/**
+ * Gets the host of a URL without "www.", or undefined if it is not a URL
+ */
+function hostOf(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Joins two lists without duplicates, keeping their order
+ */
+function union(a: string[], b: string[]): string[] {
+  return [...new Set([...a, ...b])];
+}
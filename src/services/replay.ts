@@ -0,0 +1,146 @@
+// src/services/replay.ts
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger';
+import { AIDataLogger } from '../utils/ai-data-logger';
+import { RunCheckpoint } from '../utils/run-checkpoint';
+import { ElectionFilter } from '../utils/election-filter';
+import { getElectionsFromCsv } from '../apis/csv';
+import { getElectionsFromManifest } from '../apis/manifest';
+import { parseAIGeneratedJson } from '../apis/gemini/index';
+import { FixtureResearchProvider } from '../apis/research';
+import { BasicElection, DetailedElection, QuarantinedRecord } from '../models/types';
+import { runPipeline } from './pipeline';
+import { StoreDiff, StoreSummary } from './db';
+
+/**
+ * Result of replaying a recorded run
+ */
+export interface ReplayResult {
+  replayedRunId: string;
+  runId: string;
+  elections: DetailedElection[];
+  quarantined: QuarantinedRecord[];
+  storeSummary?: StoreSummary;
+  diff?: StoreDiff;
+}
+
+/**
+ * Rebuilds election data from a past ai-logs run without calling Gemini.
+ * The recorded responses are re-parsed, transformed and stored, so a parser
+ * fix can be applied to historical runs without spending API quota.
+ * @param runId - The run to replay (its ai-logs directory name)
+ * @param options - Base ai-logs directory, elections to replay, and whether to store the result or compare it with the database
+ * @returns The replayed elections and the store summary, or the diff on a dry run
+ */
+export async function replayRun(runId: string, options: {
+  baseDir?: string,
+  filter?: ElectionFilter,
+  store?: boolean,
+  dryRun?: boolean
+} = {}): Promise<ReplayResult> {
+  const baseDir = options.baseDir || './ai-logs';
+  const runDir = path.join(baseDir, runId);
+
+  if (!fs.existsSync(runDir)) {
+    throw new Error(`Run directory not found for run ID "${runId}": ${runDir}`);
+  }
+
+  logger.info(`Replaying run ${runId} from ${runDir}`);
+
+  const provider = new FixtureResearchProvider(runDir);
+  const elections = await loadRecordedElections(runDir);
+
+  // The replay is itself logged as a new run, so the original stays untouched
+  const aiLogger = new AIDataLogger(baseDir);
+  const checkpoint = new RunCheckpoint(aiLogger.getRunDir());
+
+  // Runs recorded before the positions -> candidates flow only have the structured JSON.
+  // Those elections are parsed here and checkpointed, so the pipeline skips their research.
+  for (const election of elections) {
+    if (provider.hasRecorded({ stage: 'positions', electionName: election.name })) continue;
+
+    if (!provider.hasRecorded({ stage: 'transform', electionName: election.name })) {
+      logger.warn(`No recorded responses for election, skipping: ${election.name}`);
+      continue;
+    }
+
+    const { text } = await provider.transform({ stage: 'transform', prompt: '', electionName: election.name });
+    const parsed = parseAIGeneratedJson(text, election);
+    if (!parsed.success) {
+      logger.warn(`Could not parse recorded JSON for election, skipping: ${election.name} (${parsed.error.reason})`);
+      aiLogger.logGeminiJson(election.name, text);
+      continue;
+    }
+    aiLogger.logGeminiJson(election.name, text, parsed.data);
+    checkpoint.save(RunCheckpoint.electionKey(election, 'transformation'), parsed.data);
+  }
+
+  const result = await runPipeline({
+    elections,
+    provider,
+    aiLogger,
+    filter: options.filter,
+    limit: 0,
+    store: options.store,
+    dryRun: options.dryRun,
+  });
+
+  logger.info(`Replayed ${result.elections.length} elections from run ${runId}`);
+
+  return {
+    replayedRunId: runId,
+    runId: aiLogger.getRunId(),
+    elections: result.elections,
+    quarantined: result.quarantined,
+    storeSummary: result.storeSummary,
+    diff: result.diff,
+  };
+}
+
+/**
+ * Loads the elections a run was started with
+ * Prefers the source checkpoint, then the copied CSV or manifest input, then
+ * the logged election names and dates.
+ * @param runDir - The recorded run directory
+ * @returns The run's basic elections
+ */
+async function loadRecordedElections(runDir: string): Promise<BasicElection[]> {
+  const checkpoint = new RunCheckpoint(runDir);
+  const checkpointed = checkpoint.load<BasicElection[]>(RunCheckpoint.key('source'));
+  if (checkpointed) {
+    return checkpointed;
+  }
+
+  const csvDir = path.join(runDir, 'csv-input');
+  const csvCopy = fs.existsSync(csvDir)
+    ? fs.readdirSync(csvDir).find(file => file.toLowerCase().endsWith('.csv'))
+    : undefined;
+  if (csvCopy) {
+    return getElectionsFromCsv(path.join(csvDir, csvCopy));
+  }
+
+  const manifestDir = path.join(runDir, 'manifest-input');
+  const manifestCopy = fs.existsSync(manifestDir)
+    ? fs.readdirSync(manifestDir).find(file => /\.(ya?ml|json)$/i.test(file) && !['elections.json', 'row_errors.json'].includes(file))
+    : undefined;
+  if (manifestCopy) {
+    return getElectionsFromManifest(path.join(manifestDir, manifestCopy));
+  }
+
+  for (const sourceDir of ['csv-input', 'manifest-input', 'civic-api']) {
+    const filePath = path.join(runDir, sourceDir, 'elections.json');
+    if (!fs.existsSync(filePath)) continue;
+
+    const logged: Array<{ name: string; date: string }> = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return logged.map(election => ({
+      name: election.name,
+      state: '',
+      district: '',
+      description: election.name,
+      date: new Date(election.date),
+    }));
+  }
+
+  throw new Error(`No recorded elections found in run directory: ${runDir}`);
+}
@@ -0,0 +1,110 @@
+// src/services/response-repair.ts
+import logger from '../utils/logger';
+import { AIDataLogger } from '../utils/ai-data-logger';
+import { config } from '../config';
+import { BasicElection, DetailedElection } from '../models/types';
+import { parseAIGeneratedJson } from '../apis/gemini/index';
+import { generateRepairPrompt } from '../apis/gemini/queries';
+import { ResearchProvider, ResearchRequest } from '../apis/research';
+import { transformSingleElection } from './data-transformer';
+import { getValidationErrors } from './data-validator';
+
+/**
+ * Outcome of a transformation, including any repair attempts
+ */
+export interface RepairResult {
+  structuredJson: string;
+  detailedInfo: DetailedElection[];
+  repairAttempts: number;
+}
+
+/**
+ * Runs a transformation request and re-asks the model to correct its output
+ * while it cannot be parsed or fails schema validation. Each re-ask sends the
+ * model its previous output together with the parse failure or the zod error
+ * paths, so one bad field no longer costs the whole election. A response that still fails
+ * schema validation after the last attempt is returned as it is, so validation quarantines
+ * only its invalid records; one that cannot be parsed fails the election.
+ * @param request - The transformation request
+ * @param basicElection - Basic election information
+ * @param provider - The research provider to ask
+ * @param aiLogger - Logger recording each repair attempt (if AI data logging is enabled)
+ * @param maxAttempts - Maximum number of repair attempts after the first response
+ * @returns The last JSON response and its parsed elections
+ */
+export async function transformWithRepair(
+  request: ResearchRequest,
+  basicElection: BasicElection,
+  provider: ResearchProvider,
+  aiLogger: AIDataLogger | undefined,
+  maxAttempts = config.gemini.maxRepairAttempts
+): Promise<RepairResult> {
+  let { text } = await provider.transform(request);
+
+  for (let attempt = 0; ; attempt++) {
+    const check = checkStructuredJson(text, basicElection);
+
+    if (check.success) {
+      if (attempt > 0) {
+        logger.info(`Structured JSON for election ${basicElection.name} accepted after ${attempt} repair attempt(s)`);
+      }
+      return { structuredJson: text, detailedInfo: check.data, repairAttempts: attempt };
+    }
+
+    if (attempt >= maxAttempts) {
+      // Keep the last rejected response so the failure can be inspected or replayed
+      aiLogger?.logGeminiJson(basicElection.name, text);
+
+      // A response that parses is kept: validation quarantines only its invalid records
+      if (check.data) {
+        logger.warn(`Structured JSON for election ${basicElection.name} still fails validation after ${attempt} repair attempt(s), invalid records will be quarantined`, {
+          errors: check.errors,
+        });
+        return { structuredJson: text, detailedInfo: check.data, repairAttempts: attempt };
+      }
+      throw new Error(`Failed to get valid structured JSON after ${attempt} repair attempt(s): ${check.errors}`);
+    }
+
+    logger.warn(`Structured JSON rejected for election: ${basicElection.name}, asking for a correction (attempt ${attempt + 1}/${maxAttempts})`, {
+      errors: check.errors,
+    });
+
+    const repairPrompt = generateRepairPrompt(check.errors);
+    const response = await provider.transform({
+      ...request,
+      prompt: repairPrompt,
+      conversationHistory: [
+        ...(request.conversationHistory || []),
+        { role: 'user', text: request.prompt },
+        { role: 'model', text },
+      ],
+    });
+
+    aiLogger?.logRepairAttempt(basicElection.name, attempt + 1, check.errors, repairPrompt, response.text);
+    text = response.text;
+  }
+}
+
+/**
+ * Parses a transformation response and validates it against the election schema
+ * @param text - The transformation response
+ * @param basicElection - Basic election information
+ * @returns The parsed elections, or the errors to send back to the model
+ */
+function checkStructuredJson(
+  text: string,
+  basicElection: BasicElection
+): { success: true; data: DetailedElection[] } | { success: false; errors: string; data?: DetailedElection[] } {
+  const parseResult = parseAIGeneratedJson(text, basicElection);
+  if (!parseResult.success) {
+    return { success: false, errors: `${parseResult.error.reason}: ${parseResult.error.message}` };
+  }
+
+  // Validate the elections as the transformer will see them, so the error paths match
+  const errors = getValidationErrors({ elections: parseResult.data.map(transformSingleElection) });
+  if (errors) {
+    return { success: false, errors, data: parseResult.data };
+  }
+
+  return { success: true, data: parseResult.data };
+}
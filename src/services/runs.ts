@@ -0,0 +1,82 @@
+// src/services/runs.ts
+import fs from 'fs';
+import path from 'path';
+import { RunCheckpoint } from '../utils/run-checkpoint';
+
+/**
+ * Overview of a recorded ai-logs run
+ */
+export interface RunInfo {
+  runId: string;
+  // Where the run read its elections from ('other' for elections supplied in code, e.g. a replay)
+  source: 'csv' | 'manifest' | 'vip' | 'civic' | 'other';
+  // Elections researched, as recorded in the run summary
+  electionsProcessed?: number;
+  quarantined: number;
+  // Whether the store stage completed (an incomplete run can be resumed)
+  completed: boolean;
+}
+
+/**
+ * Lists the runs recorded in an ai-logs directory, most recent first
+ * @param baseDir - Base directory of the runs (default: './ai-logs')
+ * @returns An overview of each run
+ */
+export function listRuns(baseDir: string = './ai-logs'): RunInfo[] {
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(baseDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .reverse()
+    .map(runId => readRunInfo(path.join(baseDir, runId), runId));
+}
+
+/**
+ * Reads the overview of a single run from its directory
+ * @param runDir - The run directory
+ * @param runId - The run ID
+ * @returns The run overview
+ */
+function readRunInfo(runDir: string, runId: string): RunInfo {
+  const summaryPath = path.join(runDir, 'run_summary.txt');
+  const summary = fs.existsSync(summaryPath) ? fs.readFileSync(summaryPath, 'utf8') : '';
+  const processed = summary.match(/^Elections processed: (\d+)$/m);
+
+  return {
+    runId,
+    source: detectSource(runDir),
+    electionsProcessed: processed ? parseInt(processed[1], 10) : undefined,
+    quarantined: countQuarantined(runDir),
+    completed: new RunCheckpoint(runDir).has(RunCheckpoint.key('store')),
+  };
+}
+
+/**
+ * Detects a run's election source from the source data it logged
+ */
+function detectSource(runDir: string): RunInfo['source'] {
+  if (fs.existsSync(path.join(runDir, 'csv-input', 'elections.json'))) return 'csv';
+  if (fs.existsSync(path.join(runDir, 'manifest-input', 'elections.json'))) return 'manifest';
+  if (fs.existsSync(path.join(runDir, 'vip-input', 'contests.json'))) return 'vip';
+  if (fs.existsSync(path.join(runDir, 'civic-api', 'elections.json'))) return 'civic';
+  return 'other';
+}
+
+/**
+ * Counts the records a run quarantined
+ */
+function countQuarantined(runDir: string): number {
+  const quarantinePath = path.join(runDir, 'quarantine.json');
+  if (!fs.existsSync(quarantinePath)) return 0;
+
+  try {
+    const records = JSON.parse(fs.readFileSync(quarantinePath, 'utf8'));
+    return Array.isArray(records) ? records.length : 0;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,192 @@
+// src/services/self-consistency.ts
+import logger from '../utils/logger';
+import { getArrayProperty, parseJsonResponse } from '../utils/json-repair';
+import { isPlaceholder } from '../utils/helpers';
+import { normalizeText } from './db/matching';
+import { CandidateIdentity, findCandidateMatch } from './candidate-resolution';
+
+/**
+ * A candidate as the candidates research lists it (see CANDIDATES_RESPONSE_SCHEMA)
+ */
+type AnsweredCandidate = Record<string, unknown> & { name: string };
+
+/**
+ * The values several answers gave for one field of a candidate, none of them by a majority
+ */
+export interface ConsistencyDisagreement {
+  candidate: string;
+  field: string;
+  values: Array<{ value: string; votes: number }>;
+}
+
+/**
+ * What reconciling the answers to one candidates question did
+ */
+export interface ConsistencyReport {
+  election: string;
+  position: string;
+  // Answers asked for, and those that could be read
+  answers: number;
+  parsed: number;
+  // Answers a candidate or value needs to be kept
+  quorum: number;
+  kept: Array<{ candidate: string; votes: number }>;
+  dropped: Array<{ candidate: string; votes: number }>;
+  disagreements: ConsistencyDisagreement[];
+}
+
+// Fields whose values are voted on. Free text (description, policies, notes) is worded
+// differently in every answer, so it is taken from the first answer listing the candidate.
+const VOTED_FIELDS = ['position', 'party', 'image_url', 'linkedin_url', 'campaign_website_url', 'home_city', 'hometown_state'];
+const URL_FIELDS = ['image_url', 'linkedin_url', 'campaign_website_url'];
+
+/**
+ * Reconciles several answers to the same candidates question by majority vote
+ * The candidates of each answer are matched across answers with entity resolution
+ * (nicknames, initials, shared links). A candidate is kept when a majority of the
+ * answers that could be read list them, and each voted field keeps the value a majority
+ * gave; other values are replaced by "N/A" and reported as disagreements. Sources of
+ * every answer are combined.
+ * @param answers - The answers, first one first
+ * @param label - The election and position asked about, for the report
+ * @returns The reconciled answer, in the format of the candidates research, and a report
+ */
+export function reconcileCandidateAnswers(
+  answers: string[],
+  label: { election: string; position: string }
+): { response: string; report: ConsistencyReport } {
+  const parsed = answers
+    .map(answer => {
+      const result = parseJsonResponse(answer, { arrayKey: 'candidates' });
+      return result.success ? getArrayProperty(result.data, 'candidates') : undefined;
+    })
+    .filter((candidates): candidates is unknown[] => candidates !== undefined)
+    .map(candidates => candidates.filter((candidate): candidate is AnsweredCandidate => isAnsweredCandidate(candidate)));
+
+  const quorum = Math.floor(parsed.length / 2) + 1;
+  const report: ConsistencyReport = { ...label, answers: answers.length, parsed: parsed.length, quorum, kept: [], dropped: [], disagreements: [] };
+
+  if (parsed.length < 2) {
+    logger.warn(`Only ${parsed.length} of ${answers.length} answers for ${label.position} could be read, using the first answer without a vote`);
+    return { response: answers[0] || '', report };
+  }
+
+  const reconciled: AnsweredCandidate[] = [];
+  for (const group of groupCandidates(parsed)) {
+    const name = majorityValue(group.map(candidate => candidate.name))?.value || group[0].name;
+    if (group.length < quorum) {
+      report.dropped.push({ candidate: name, votes: group.length });
+      continue;
+    }
+
+    report.kept.push({ candidate: name, votes: group.length });
+    reconciled.push(reconcileCandidate(name, group, quorum, report));
+  }
+
+  if (report.dropped.length > 0 || report.disagreements.length > 0) {
+    logger.info(
+      `Reconciled ${parsed.length} answers for ${label.position}: kept ${report.kept.length} candidates, ` +
+      `dropped ${report.dropped.length}, ${report.disagreements.length} fields without a majority`
+    );
+  }
+
+  return { response: JSON.stringify({ candidates: reconciled }, null, 2), report };
+}
+
+/**
+ * Groups the candidates of every answer into the people they are, each answer counting once per person
+ */
+function groupCandidates(answers: AnsweredCandidate[][]): AnsweredCandidate[][] {
+  const groups: Array<{ identity: CandidateIdentity; answers: Set<number>; candidates: AnsweredCandidate[] }> = [];
+
+  answers.forEach((candidates, answerIndex) => {
+    for (const candidate of candidates) {
+      const identity = toIdentity(candidate);
+      const open = groups.filter(group => !group.answers.has(answerIndex));
+      const { match } = findCandidateMatch(identity, open.map(group => ({ ...group.identity, group })));
+
+      if (match) {
+        match.record.group.answers.add(answerIndex);
+        match.record.group.candidates.push(candidate);
+      } else {
+        groups.push({ identity, answers: new Set([answerIndex]), candidates: [candidate] });
+      }
+    }
+  });
+
+  return groups.map(group => group.candidates);
+}
+
+/**
+ * Builds the reconciled candidate from every answer's version of them
+ */
+function reconcileCandidate(name: string, versions: AnsweredCandidate[], quorum: number, report: ConsistencyReport): AnsweredCandidate {
+  const reconciled: AnsweredCandidate = { ...versions[0], name };
+
+  for (const field of VOTED_FIELDS) {
+    const values = versions.map(version => version[field]).filter(value => !isPlaceholder(value)) as string[];
+    if (values.length === 0) continue;
+
+    const winner = majorityValue(values, field);
+    if (winner && winner.votes >= quorum) {
+      reconciled[field] = winner.value;
+      continue;
+    }
+
+    reconciled[field] = 'N/A';
+    report.disagreements.push({ candidate: name, field, values: tally(values, field) });
+  }
+
+  const sources = versions.flatMap(version => Array.isArray(version.sources) ? version.sources : []);
+  if (sources.length > 0) {
+    reconciled.sources = [...new Set(sources)];
+  }
+  return reconciled;
+}
+
+/**
+ * Finds the value given most often, first given first on a tie
+ */
+function majorityValue(values: string[], field = ''): { value: string; votes: number } | undefined {
+  const [winner] = tally(values, field).sort((a, b) => b.votes - a.votes);
+  return winner;
+}
+
+/**
+ * Counts the votes for each value, comparing values after normalizing them, in the order first given
+ */
+function tally(values: string[], field: string): Array<{ value: string; votes: number }> {
+  const counts = new Map<string, { value: string; votes: number }>();
+  for (const value of values) {
+    const key = URL_FIELDS.includes(field) ? normalizeUrl(value) : normalizeText(value);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.votes++;
+    } else {
+      counts.set(key, { value, votes: 1 });
+    }
+  }
+  return [...counts.values()];
+}
+
+/**
+ * Gets what a researched candidate is matched across answers on
+ */
+function toIdentity(candidate: AnsweredCandidate): CandidateIdentity {
+  const link = (value: unknown) => isPlaceholder(value) ? undefined : value as string;
+  return { name: candidate.name, linkedin: link(candidate.linkedin_url), website: link(candidate.campaign_website_url) };
+}
+
+/**
+ * Compares links without their scheme, "www." and trailing slash
+ */
+function normalizeUrl(url: string): string {
+  return url.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+/**
+ * Checks whether an entry of an answer is a candidate with a name
+ */
+function isAnsweredCandidate(candidate: unknown): candidate is AnsweredCandidate {
+  return Boolean(candidate) && typeof candidate === 'object' && !isPlaceholder((candidate as AnsweredCandidate).name);
+}
@@ -2,7 +2,19 @@
 import fs from 'fs';
 import path from 'path';
 import logger from './logger';
-import { BasicElection, DetailedElection } from '../models/types';
+import { BasicElection, DetailedElection, SourceRowError, TransformResult } from '../models/types';
+import { StoreDiff } from '../services/db/diff';
+import { OfficialMergeReport } from '../services/official-merge';
+import { OfficialRace } from '../apis/official';
+import { VipImportResult } from '../apis/vip';
+import { ContestDiscovery } from '../apis/civic/contests';
+import { CandidateResolutionReport } from '../services/candidate-resolution';
+import { PositionDedupReport } from '../services/position-dedup';
+import { ConsistencyReport } from '../services/self-consistency';
+import { LinkCheck } from '../services/link-verifier';
+import { ResearchGrounding } from '../apis/research/types';
+import { sanitizeFileName } from './helpers';
+import { parseJsonResponse } from './json-repair';
 
 /**
  * AI Data Logger - Utility to log data from AI models to local files
@@ -16,15 +28,36 @@ export class AIDataLogger {
   /**
    * Creates a new AIDataLogger instance
    * @param baseDir - Base directory for logs (default: './ai-logs')
+   * @param runId - Existing run to continue logging into (default: a new timestamped run)
    */
-  constructor(baseDir: string = './ai-logs') {
+  constructor(baseDir: string = './ai-logs', runId?: string) {
     this.baseDir = baseDir;
-    this.timestamp = this.generateTimestamp();
+    this.timestamp = runId || this.generateTimestamp();
     this.currentRunDir = path.join(this.baseDir, this.timestamp);
     
+    if (runId && !fs.existsSync(this.currentRunDir)) {
+      throw new Error(`Run directory not found for run ID "${runId}": ${this.currentRunDir}`);
+    }
+    
     this.initializeDirectories();
   }
   
+  /**
+   * Gets the ID of the current run
+   * @returns The run ID (the run directory's timestamp name)
+   */
+  public getRunId(): string {
+    return this.timestamp;
+  }
+  
+  /**
+   * Gets the directory the current run is logged into
+   * @returns Path of the run directory
+   */
+  public getRunDir(): string {
+    return this.currentRunDir;
+  }
+  
   /**
    * Generates a timestamp for the current run
    * @returns Formatted timestamp string
@@ -50,7 +83,7 @@ export class AIDataLogger {
       logger.info(`Created run directory: ${this.currentRunDir}`);
       
       // Create subdirectories for different data types
-      const subdirs = ['civic-api', 'csv-input', 'gemini-research', 'gemini-json', 'gemini-queries'];
+      const subdirs = ['civic-api', 'csv-input', 'manifest-input', 'gemini-research', 'gemini-json', 'gemini-queries'];
       
       subdirs.forEach(subdir => {
         const fullPath = path.join(this.currentRunDir, subdir);
@@ -113,8 +146,9 @@ export class AIDataLogger {
    * Logs CSV-sourced election data
    * @param elections - Array of elections from the CSV file
    * @param csvFilePath - Path to the original CSV file
+   * @param errors - Rows of the CSV file that could not be read
    */
-  public logCsvElectionData(elections: BasicElection[], csvFilePath: string): void {
+  public logCsvElectionData(elections: BasicElection[], csvFilePath: string, errors: SourceRowError[] = []): void {
     try {
       const filePath = path.join(this.currentRunDir, 'csv-input', 'elections.json');
       
@@ -146,6 +180,15 @@ export class AIDataLogger {
       });
       
       fs.writeFileSync(textFilePath, textContent, 'utf8');
+
+      // Record the rows that were skipped, so they can be fixed in the source file
+      if (errors.length > 0) {
+        fs.writeFileSync(
+          path.join(this.currentRunDir, 'csv-input', 'row_errors.json'),
+          JSON.stringify(errors, null, 2),
+          'utf8'
+        );
+      }
       
       // Additionally, save a copy of the original CSV file
       try {
@@ -167,6 +210,333 @@ export class AIDataLogger {
     }
   }
   
+  /**
+   * Logs manifest-sourced election data
+   * @param elections - Array of elections from the manifest
+   * @param manifestFilePath - Path to the original manifest
+   * @param errors - Entries of the manifest that could not be read
+   */
+  public logManifestElectionData(elections: BasicElection[], manifestFilePath: string, errors: SourceRowError[] = []): void {
+    try {
+      const filePath = path.join(this.currentRunDir, 'manifest-input', 'elections.json');
+      
+      // Create a more human-readable format
+      const formattedData = elections.map(election => ({
+        name: election.name,
+        date: election.date.toISOString().split('T')[0], // YYYY-MM-DD format
+        positions: (election.seededPositions || []).map(position => position.positionName),
+        timestamp: this.timestamp,
+        source: `Manifest: ${path.basename(manifestFilePath)}`
+      }));
+      
+      fs.writeFileSync(filePath, JSON.stringify(formattedData, null, 2), 'utf8');
+      
+      // Also create a human-readable text version
+      const textFilePath = path.join(this.currentRunDir, 'manifest-input', 'elections.txt');
+      let textContent = 'MANIFEST ELECTION DATA\n';
+      textContent += `Source: ${manifestFilePath}\n`;
+      textContent += `Retrieved at: ${new Date().toISOString()}\n\n`;
+      
+      elections.forEach((election, index) => {
+        textContent += `Election #${index + 1}:\n`;
+        textContent += `- Name: ${election.name}\n`;
+        textContent += `- Date: ${election.date.toISOString().split('T')[0]}\n`;
+        if (election.seededPositions) {
+          textContent += `- Known positions: ${election.seededPositions.map(position => position.positionName).join(', ')}\n`;
+        }
+        textContent += '\n';
+      });
+      
+      fs.writeFileSync(textFilePath, textContent, 'utf8');
+
+      // Record the entries that were skipped, so they can be fixed in the manifest
+      if (errors.length > 0) {
+        fs.writeFileSync(
+          path.join(this.currentRunDir, 'manifest-input', 'row_errors.json'),
+          JSON.stringify(errors, null, 2),
+          'utf8'
+        );
+      }
+      
+      // Additionally, save a copy of the original manifest
+      try {
+        fs.copyFileSync(manifestFilePath, path.join(this.currentRunDir, 'manifest-input', path.basename(manifestFilePath)));
+      } catch (copyError) {
+        logger.warn(`Could not copy original manifest: ${String(copyError)}`);
+      }
+      
+      logger.info(`Logged manifest election data to ${filePath} and ${textFilePath}`);
+    } catch (error) {
+      logger.error('Error logging manifest election data', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the races read from an election office's candidate list
+   * @param filePath - Path to the original candidate list
+   * @param profileId - Name of the column profile it was read with
+   * @param races - The official races
+   * @param errors - Rows of the list that could not be read
+   */
+  public logOfficialCandidateList(filePath: string, profileId: string, races: OfficialRace[], errors: SourceRowError[] = []): void {
+    try {
+      const officialDir = path.join(this.currentRunDir, 'official-input');
+      fs.mkdirSync(officialDir, { recursive: true });
+      
+      const formattedData = races.map(race => ({
+        position: race.position.positionName,
+        date: race.position.electionDate.toISOString().split('T')[0], // YYYY-MM-DD format
+        city: race.position.city,
+        state: race.position.state,
+        candidates: race.candidates.map(candidate => candidate.party ? `${candidate.fullName} (${candidate.party})` : candidate.fullName),
+      }));
+      
+      fs.writeFileSync(
+        path.join(officialDir, 'races.json'),
+        JSON.stringify({ source: path.basename(filePath), profile: profileId, timestamp: this.timestamp, races: formattedData }, null, 2),
+        'utf8'
+      );
+      
+      if (errors.length > 0) {
+        fs.writeFileSync(path.join(officialDir, 'row_errors.json'), JSON.stringify(errors, null, 2), 'utf8');
+      }
+      
+      // Additionally, save a copy of the original list (XLSX files are binary, so copy the bytes)
+      try {
+        fs.copyFileSync(filePath, path.join(officialDir, path.basename(filePath)));
+      } catch (copyError) {
+        logger.warn(`Could not copy original candidate list: ${String(copyError)}`);
+      }
+      
+      logger.info(`Logged ${races.length} official races to ${officialDir}`);
+    } catch (error) {
+      logger.error('Error logging official candidate list', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the contests read from a VIP feed
+   * The feed itself is not copied, since state feeds can be hundreds of megabytes.
+   * @param filePath - Path to the VIP feed
+   * @param result - The feed's election, races and contest errors
+   */
+  public logVipFeed(filePath: string, result: VipImportResult): void {
+    try {
+      const vipDir = path.join(this.currentRunDir, 'vip-input');
+      fs.mkdirSync(vipDir, { recursive: true });
+
+      const formattedData = result.races.map(race => ({
+        position: race.position.positionName,
+        city: race.position.city,
+        seats: race.position.positions,
+        candidates: race.candidates.map(candidate => candidate.party ? `${candidate.fullName} (${candidate.party})` : candidate.fullName),
+      }));
+
+      fs.writeFileSync(
+        path.join(vipDir, 'contests.json'),
+        JSON.stringify({
+          source: path.resolve(filePath),
+          election: result.election.name,
+          date: result.election.date.toISOString().split('T')[0], // YYYY-MM-DD format
+          state: result.election.state,
+          timestamp: this.timestamp,
+          contests: formattedData,
+        }, null, 2),
+        'utf8'
+      );
+
+      if (result.errors.length > 0) {
+        fs.writeFileSync(path.join(vipDir, 'row_errors.json'), JSON.stringify(result.errors, null, 2), 'utf8');
+      }
+
+      logger.info(`Logged ${result.races.length} VIP contests to ${vipDir}`);
+    } catch (error) {
+      logger.error('Error logging VIP feed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Logs how an official candidate list was merged with the researched elections
+   * @param report - The merge report
+   */
+  public logOfficialMerge(report: OfficialMergeReport): void {
+    try {
+      const officialDir = path.join(this.currentRunDir, 'official-input');
+      fs.mkdirSync(officialDir, { recursive: true });
+      
+      const filePath = path.join(officialDir, 'merge_report.json');
+      fs.writeFileSync(filePath, JSON.stringify(report, null, 2), 'utf8');
+      
+      logger.info(`Logged official candidate list merge to ${filePath}`);
+    } catch (error) {
+      logger.error('Error logging official candidate list merge', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the searches and web pages a research response is grounded in
+   * @param electionName - Name of the election
+   * @param positionName - Name of the position for candidates research, undefined for positions research
+   * @param grounding - The response's grounding metadata
+   */
+  public logGrounding(electionName: string, positionName: string | undefined, grounding: ResearchGrounding): void {
+    try {
+      const groundingDir = path.join(this.currentRunDir, 'gemini-grounding');
+      fs.mkdirSync(groundingDir, { recursive: true });
+      
+      const fileName = positionName
+        ? `${this.sanitizeFileName(electionName)}_${this.sanitizeFileName(positionName)}_candidate_grounding.json`
+        : `${this.sanitizeFileName(electionName)}_election_grounding.json`;
+      const filePath = path.join(groundingDir, fileName);
+      fs.writeFileSync(filePath, JSON.stringify(grounding, null, 2), 'utf8');
+      
+      logger.info(`Logged ${grounding.sources.length} grounding sources for "${positionName || electionName}" to ${filePath}`);
+    } catch (error) {
+      logger.error(`Error logging grounding sources for "${positionName || electionName}"`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the answers to a candidates question asked several times, and how they were reconciled
+   * @param report - The candidates and values kept, dropped and disputed
+   * @param answers - The answers, first one first
+   */
+  public logConsistency(report: ConsistencyReport, answers: string[]): void {
+    try {
+      const consistencyDir = path.join(this.currentRunDir, 'consistency');
+      fs.mkdirSync(consistencyDir, { recursive: true });
+      
+      const filePath = path.join(consistencyDir, `${this.sanitizeFileName(report.election)}_${this.sanitizeFileName(report.position)}_consistency.json`);
+      fs.writeFileSync(filePath, JSON.stringify({ ...report, responses: answers }, null, 2), 'utf8');
+      
+      logger.info(`Logged ${report.parsed} reconciled answers for "${report.position}" to ${filePath}`);
+    } catch (error) {
+      logger.error(`Error logging reconciled answers for "${report.position}"`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the second answer to a candidates question, asked to check the first answer is stable
+   * Kept out of gemini-queries/ so replays use the first answer.
+   * @param electionName - Name of the election
+   * @param positionName - Name of the position
+   * @param response - The second answer
+   */
+  public logCandidateRecheck(electionName: string, positionName: string, response: string): void {
+    try {
+      const recheckDir = path.join(this.currentRunDir, 'gemini-rechecks');
+      fs.mkdirSync(recheckDir, { recursive: true });
+      
+      const filePath = path.join(recheckDir, `${this.sanitizeFileName(electionName)}_${this.sanitizeFileName(positionName)}_candidate_recheck.txt`);
+      fs.writeFileSync(filePath, response, 'utf8');
+      
+      logger.info(`Logged second candidates answer for "${positionName}" to ${filePath}`);
+    } catch (error) {
+      logger.error(`Error logging second candidates answer for "${positionName}"`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the positions dropped as duplicates of another election's, and those matched to stored elections
+   * @param report - The dropped and matched positions
+   */
+  public logPositionDedup(report: PositionDedupReport): void {
+    try {
+      const filePath = path.join(this.currentRunDir, 'position-dedup.json');
+      fs.writeFileSync(filePath, JSON.stringify(report, null, 2), 'utf8');
+      
+      logger.info(`Logged position de-duplication to ${filePath}`);
+    } catch (error) {
+      logger.error('Error logging position de-duplication', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the duplicate candidates merged before storing, and the possible duplicates to review
+   * @param report - The merges and possible duplicates
+   */
+  public logCandidateResolution(report: CandidateResolutionReport): void {
+    try {
+      const filePath = path.join(this.currentRunDir, 'candidate-resolution.json');
+      fs.writeFileSync(filePath, JSON.stringify(report, null, 2), 'utf8');
+      
+      logger.info(`Logged candidate resolution to ${filePath}`);
+    } catch (error) {
+      logger.error('Error logging candidate resolution', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the candidate links checked before storing, with their status, redirects and verdict
+   * @param checks - The link checks
+   */
+  public logLinkChecks(checks: LinkCheck[]): void {
+    try {
+      const filePath = path.join(this.currentRunDir, 'link-checks.json');
+      fs.writeFileSync(filePath, JSON.stringify(checks, null, 2), 'utf8');
+      
+      logger.info(`Logged ${checks.length} link checks to ${filePath}`);
+    } catch (error) {
+      logger.error('Error logging link checks', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Logs the contests found on the ballots of an election's representative addresses
+   * @param electionName - Name of the election
+   * @param discovery - The addresses queried and the contests found
+   */
+  public logContestDiscovery(electionName: string, discovery: ContestDiscovery): void {
+    try {
+      const contestsDir = path.join(this.currentRunDir, 'civic-api', 'contests');
+      fs.mkdirSync(contestsDir, { recursive: true });
+
+      const filePath = path.join(contestsDir, `${this.sanitizeFileName(electionName)}.json`);
+      const formattedData = {
+        election: electionName,
+        timestamp: this.timestamp,
+        addresses: discovery.addresses,
+        failedAddresses: discovery.failedAddresses,
+        contests: discovery.positions.map(position => ({
+          position: position.positionName,
+          description: position.description,
+          city: position.city,
+          type: position.type,
+          seats: position.positions,
+          candidates: position.knownCandidates || [],
+        })),
+      };
+
+      fs.writeFileSync(filePath, JSON.stringify(formattedData, null, 2), 'utf8');
+
+      logger.info(`Logged ${discovery.positions.length} discovered contests for "${electionName}" to ${filePath}`);
+    } catch (error) {
+      logger.error(`Error logging discovered contests for "${electionName}"`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Logs Gemini's research response for a specific election
    * @param electionName - Name of the election
@@ -215,17 +585,13 @@ export class AIDataLogger {
       
       // Try to format the JSON if possible
       let formattedJson = jsonResponse;
-      try {
-        // Extract JSON if wrapped in text
-        const jsonMatch = jsonResponse.match(/\{[\s\S]*\}/);
-        const jsonString = jsonMatch ? jsonMatch[0] : jsonResponse;
-        
-        // Parse and re-stringify for pretty printing
-        const parsed = JSON.parse(jsonString);
-        formattedJson = JSON.stringify(parsed, null, 2);
-      } catch (e) {
+      const jsonResult = parseJsonResponse(jsonResponse);
+      if (jsonResult.success) {
+        // Re-stringify for pretty printing
+        formattedJson = JSON.stringify(jsonResult.data, null, 2);
+      } else {
         // If formatting fails, keep the original
-        logger.warn(`Could not format JSON for "${electionName}", saving raw content`);
+        logger.warn(`Could not format JSON for "${electionName}" (${jsonResult.error.reason}), saving raw content`);
       }
       
       fs.writeFileSync(rawFilePath, formattedJson, 'utf8');
@@ -283,6 +649,39 @@ export class AIDataLogger {
     }
   }
   
+  /**
+   * Logs an attempt to have Gemini correct a rejected JSON response
+   * @param electionName - Name of the election
+   * @param attempt - The repair attempt number (starting at 1)
+   * @param errors - Why the previous response was rejected
+   * @param query - The repair prompt sent to Gemini
+   * @param response - The corrected response from Gemini
+   */
+  public logRepairAttempt(electionName: string, attempt: number, errors: string, query: string, response: string): void {
+    try {
+      // Sanitize election name for file naming
+      const sanitizedName = this.sanitizeFileName(electionName);
+      
+      const filePath = path.join(this.currentRunDir, 'gemini-json', `${sanitizedName}_repair_${attempt}.txt`);
+      
+      // Add header information
+      let content = `GEMINI JSON REPAIR ATTEMPT ${attempt} - ${electionName}\n`;
+      content += `Generated at: ${new Date().toISOString()}\n`;
+      content += `Run: ${this.timestamp}\n\n`;
+      content += `=== ERRORS ===\n\n${errors}\n\n`;
+      content += `=== QUERY ===\n\n${query}\n\n`;
+      content += `=== RESPONSE ===\n\n${response}`;
+      
+      fs.writeFileSync(filePath, content, 'utf8');
+      
+      logger.info(`Logged JSON repair attempt ${attempt} for "${electionName}" to ${filePath}`);
+    } catch (error) {
+      logger.error(`Error logging JSON repair attempt for "${electionName}"`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
   /**
    * Creates a log file with summary information about the run
    * @param electionCount - Number of elections processed
@@ -325,6 +724,10 @@ export class AIDataLogger {
       content += `  |- gemini-research/   # Gemini research responses\n`;
       content += `  |- gemini-json/       # Gemini structured JSON outputs\n`;
       content += `  |- gemini-queries/    # Gemini queries and responses\n`;
+      
+      if (fs.existsSync(path.join(this.currentRunDir, 'checkpoints'))) {
+        content += `  |- checkpoints/       # Completed pipeline stages (for --resume)\n`;
+      }
 
       
       fs.writeFileSync(filePath, content, 'utf8');
@@ -337,16 +740,65 @@ export class AIDataLogger {
     }
   }
   
+  /**
+   * Writes records that failed validation to quarantine.json and adds the
+   * validation counts to the run summary
+   * @param result - The transformation result with its quarantined records
+   */
+  public logValidationResults(result: TransformResult): void {
+    try {
+      const quarantinedElections = result.quarantined.filter(record => record.kind === 'election').length;
+      const quarantinedCandidates = result.quarantined.filter(record => record.kind === 'candidate').length;
+      const validCandidates = result.elections.reduce((sum, election) => sum + election.candidates.length, 0);
+      
+      if (result.quarantined.length > 0) {
+        const filePath = path.join(this.currentRunDir, 'quarantine.json');
+        fs.writeFileSync(filePath, JSON.stringify(result.quarantined, null, 2), 'utf8');
+        logger.info(`Logged ${result.quarantined.length} quarantined records to ${filePath}`);
+      }
+      
+      // The summary is written before transformation, so the counts are appended to it
+      let content = '\nValidation:\n';
+      content += `- Elections: ${result.elections.length} valid, ${quarantinedElections} quarantined\n`;
+      content += `- Candidates: ${validCandidates} valid, ${quarantinedCandidates} quarantined\n`;
+      if (result.quarantined.length > 0) {
+        content += '- Quarantined records and their errors: quarantine.json\n';
+      }
+      
+      fs.appendFileSync(path.join(this.currentRunDir, 'run_summary.txt'), content, 'utf8');
+    } catch (error) {
+      logger.error('Error logging validation results', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
+  /**
+   * Writes the differences a dry run found between its data and the database
+   * to dry-run-diff.json and dry-run-diff.txt
+   * @param diff - The differences
+   * @param formatted - The human-readable diff
+   */
+  public logDryRunDiff(diff: StoreDiff, formatted: string): void {
+    try {
+      fs.writeFileSync(path.join(this.currentRunDir, 'dry-run-diff.json'), JSON.stringify(diff, null, 2), 'utf8');
+      fs.writeFileSync(path.join(this.currentRunDir, 'dry-run-diff.txt'), `${formatted}\n`, 'utf8');
+      
+      logger.info(`Logged dry-run diff to ${this.currentRunDir}`);
+    } catch (error) {
+      logger.error('Error logging dry-run diff', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  
   /**
    * Helper function to sanitize file names
    * @param fileName - Original file name
    * @returns Sanitized file name
    */
   private sanitizeFileName(fileName: string): string {
-    return fileName
-      .replace(/[^a-z0-9]/gi, '_') // Replace non-alphanumeric with underscore
-      .replace(/_+/g, '_')         // Replace multiple underscores with single
-      .toLowerCase();
+    return sanitizeFileName(fileName);
   }
   /**
  * Logs Gemini's election query for a specific election
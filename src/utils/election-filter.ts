@@ -0,0 +1,60 @@
+// src/utils/election-filter.ts
+import { expandStateName } from './states';
+
+/**
+ * Filters selecting elections by state and date range
+ */
+export interface ElectionFilter {
+  // Full state name or two-letter abbreviation
+  state?: string;
+  // First election day to include
+  since?: Date;
+  // Last election day to include
+  until?: Date;
+}
+
+/**
+ * Checks whether an election matches a filter
+ * Dates are compared by UTC calendar day, so since and until are inclusive.
+ * @param election - The election's state and date
+ * @param filter - The filter to apply
+ * @returns True if the election matches every filter that is set
+ */
+export function matchesElectionFilter(election: { state: string; date: Date }, filter: ElectionFilter): boolean {
+  if (filter.state && normalizeState(election.state) !== normalizeState(filter.state)) {
+    return false;
+  }
+
+  const day = toDay(election.date);
+  if (filter.since && day < toDay(filter.since)) {
+    return false;
+  }
+  if (filter.until && day > toDay(filter.until)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Checks whether any filter is set
+ * @param filter - The filter to check
+ * @returns True if the filter would exclude anything
+ */
+export function hasElectionFilter(filter: ElectionFilter | undefined): boolean {
+  return Boolean(filter && (filter.state || filter.since || filter.until));
+}
+
+/**
+ * Normalizes a state for comparison: expanded and lower-cased
+ */
+function normalizeState(state: string): string {
+  return expandStateName(state).toLowerCase();
+}
+
+/**
+ * Formats a date as its UTC calendar day (YYYY-MM-DD)
+ */
+function toDay(date: Date): string {
+  return new Date(date).toISOString().split('T')[0];
+}
@@ -14,12 +14,14 @@ export function sleep(ms: number): Promise<void> {
  * @param fn - The function to retry
  * @param maxRetries - Maximum number of retries
  * @param initialDelay - Initial delay in ms
+ * @param shouldRetry - Decides whether an error is worth retrying (defaults to every error)
  * @returns The result of the function
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>, 
   maxRetries = 3, 
-  initialDelay = 1000
+  initialDelay = 1000,
+  shouldRetry: (error: unknown) => boolean = () => true
 ): Promise<T> {
   let attempt = 0;
   let delay = initialDelay;
@@ -30,6 +32,10 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       attempt++;
       
+      if (!shouldRetry(error)) {
+        throw error;
+      }
+      
       if (attempt >= maxRetries) {
         logger.error('Max retries reached', {
           error: error instanceof Error ? error.message : String(error),
@@ -59,4 +65,56 @@ export function chunkArray<T>(array: T[], size: number): T[][] {
     chunks.push(array.slice(i, i + size));
   }
   return chunks;
-} 
\ No newline at end of file
+}
+
+/**
+ * Map over an array with a limited number of calls in flight
+ * @param items - The items to process
+ * @param concurrency - Maximum number of concurrent calls
+ * @param fn - The async function to apply to each item
+ * @returns The results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Sanitize a string for use as a file name
+ * @param fileName - Original file name
+ * @returns Lower-cased file name containing only alphanumerics and underscores
+ */
+export function sanitizeFileName(fileName: string): string {
+  return fileName
+    .replace(/[^a-z0-9]/gi, '_') // Replace non-alphanumeric with underscore
+    .replace(/_+/g, '_')         // Replace multiple underscores with single
+    .toLowerCase();
+}
+
+// Answers the model gives for information it could not find or confirm, and the defaults
+// filled in for required fields the research left out ("Candidate", "No description found")
+const PLACEHOLDER_PATTERN = /^(n\/?a\.?|none|null|unknown|not (available|applicable|found|verified|confirmed)|unavailable|unverified|-+|candidate|no (description|party|sources?) found|no specific policies mentioned)$/i;
+
+/**
+ * Check whether a text field holds a placeholder ("N/A", "Not available") instead of a value
+ * @param value - The field value
+ * @returns True if the value is empty or a placeholder
+ */
+export function isPlaceholder(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim() === '' || PLACEHOLDER_PATTERN.test(value.trim());
+}
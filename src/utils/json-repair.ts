@@ -0,0 +1,302 @@
+/**
+ * Why an AI response could not be turned into the expected data
+ * - empty_response: the model returned nothing
+ * - no_json_found: the response contains no JSON object or array
+ * - truncated: the JSON was cut off and could not be completed
+ * - syntax_error: JSON was found but could not be parsed or repaired
+ * - invalid_structure: the JSON parsed but is missing the expected fields
+ * - empty_result: the JSON is well-formed but contains no usable records
+ */
+export type ParseFailureReason =
+  | 'empty_response'
+  | 'no_json_found'
+  | 'truncated'
+  | 'syntax_error'
+  | 'invalid_structure'
+  | 'empty_result';
+
+/**
+ * Details of a failed parse
+ */
+export interface ParseFailure {
+  reason: ParseFailureReason;
+  message: string;
+  preview: string;
+}
+
+/**
+ * Outcome of parsing an AI response, mirroring zod's safeParse shape
+ */
+export type ParseResult<T> =
+  | { success: true; data: T; repaired: boolean }
+  | { success: false; error: ParseFailure };
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Parses JSON out of a free-text model response, repairing the common ways
+ * models break it: markdown fences, surrounding prose, trailing commas,
+ * output truncated mid-object and several JSON objects in one response.
+ * @param text - The model response
+ * @param options - `arrayKey`: when several objects are found, the array property to merge them on
+ * @returns The parsed JSON value or a typed failure
+ */
+export function parseJsonResponse(text: string, options: { arrayKey?: string } = {}): ParseResult<unknown> {
+  if (!text || text.trim() === '') {
+    return failure('empty_response', 'The response is empty', text);
+  }
+
+  const body = stripMarkdownFences(text);
+  const { segments, unterminated } = extractJsonSegments(body);
+
+  if (segments.length === 0 && unterminated === null) {
+    return failure('no_json_found', 'No JSON object or array found in the response', text);
+  }
+
+  const parsed: unknown[] = [];
+  let repaired = body !== text.trim();
+  let lastError = '';
+
+  for (const segment of segments) {
+    const result = parseWithRepairs(segment);
+    if (result.success) {
+      parsed.push(result.value);
+      repaired = repaired || result.repaired;
+    } else {
+      lastError = result.error;
+    }
+  }
+
+  if (parsed.length === 0 && unterminated !== null) {
+    const completed = completeTruncatedJson(unterminated);
+    const result = completed !== null ? parseWithRepairs(completed) : null;
+    if (result && result.success) {
+      return { success: true, data: result.value, repaired: true };
+    }
+    return failure('truncated', 'The JSON in the response is truncated and could not be completed', text);
+  }
+
+  if (parsed.length === 0) {
+    return failure('syntax_error', `The JSON in the response could not be parsed: ${lastError}`, text);
+  }
+
+  if (parsed.length === 1 || !options.arrayKey) {
+    return { success: true, data: parsed[0], repaired: repaired || segments.length > 1 };
+  }
+
+  return { success: true, data: mergeOnArrayKey(parsed, options.arrayKey), repaired: true };
+}
+
+/**
+ * Gets an array property of a parsed JSON value
+ * @param value - The parsed JSON value
+ * @param key - The property name
+ * @returns The array, or undefined if the value is not an object with that array
+ */
+export function getArrayProperty(value: unknown, key: string): unknown[] | undefined {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const property = (value as Record<string, unknown>)[key];
+  return Array.isArray(property) ? property : undefined;
+}
+
+/**
+ * Builds a failed parse result
+ * @param reason - Why the parse failed
+ * @param message - Human-readable description of the failure
+ * @param text - The response that failed to parse
+ * @returns The failed parse result
+ */
+export function failure<T = never>(reason: ParseFailureReason, message: string, text: string): ParseResult<T> {
+  const preview = (text || '').length > PREVIEW_LENGTH
+    ? text.substring(0, PREVIEW_LENGTH) + '...'
+    : (text || '');
+  return { success: false, error: { reason, message, preview } };
+}
+
+/**
+ * Replaces markdown code fences with their contents
+ */
+function stripMarkdownFences(text: string): string {
+  const fenced = [...text.matchAll(/```[a-zA-Z]*\s*\n?([\s\S]*?)```/g)].map(match => match[1]);
+  if (fenced.length > 0) {
+    return fenced.join('\n').trim();
+  }
+
+  // An opening fence whose closing fence was cut off
+  return text.trim().replace(/^```[a-zA-Z]*\s*\n?/, '');
+}
+
+/**
+ * Finds every balanced top-level JSON object or array in a text
+ * @param text - Text that may contain JSON surrounded by prose
+ * @returns The balanced segments, and the trailing segment that never closed (if any)
+ */
+function extractJsonSegments(text: string): { segments: string[]; unterminated: string | null } {
+  const segments: string[] = [];
+  let start = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (start === -1) {
+      if (char === '{' || char === '[') {
+        start = i;
+        depth = 1;
+        inString = false;
+        escaped = false;
+      }
+      continue;
+    }
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        segments.push(text.slice(start, i + 1));
+        start = -1;
+      }
+    }
+  }
+
+  return { segments, unterminated: start === -1 ? null : text.slice(start) };
+}
+
+/**
+ * Parses a JSON segment, applying syntax repairs if the plain parse fails
+ */
+function parseWithRepairs(segment: string): { success: true; value: unknown; repaired: boolean } | { success: false; error: string } {
+  try {
+    return { success: true, value: JSON.parse(segment), repaired: false };
+  } catch (error) {
+    const fixed = removeTrailingCommas(segment)
+      .replace(/[“”]/g, '"');
+    try {
+      return { success: true, value: JSON.parse(fixed), repaired: true };
+    } catch {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+/**
+ * Removes commas directly before a closing bracket, outside of strings
+ */
+function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      result += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      const next = json.slice(i + 1).match(/^\s*([}\]])/);
+      if (next) continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Closes a JSON document that was cut off mid-output
+ * The last incomplete value is dropped and every open string, object and
+ * array is closed.
+ * @param json - The truncated JSON
+ * @returns The completed JSON, or null if nothing usable remains
+ */
+function completeTruncatedJson(json: string): string | null {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Position after the last complete value inside each container
+  let lastSafeEnd = -1;
+  let lastSafeStack: string[] = [];
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      lastSafeEnd = i + 1;
+      lastSafeStack = [...stack];
+    } else if (char === ',') {
+      lastSafeEnd = i;
+      lastSafeStack = [...stack];
+    }
+  }
+
+  if (lastSafeEnd === -1 || lastSafeStack.length === 0) {
+    return null;
+  }
+
+  return json.slice(0, lastSafeEnd) + lastSafeStack.reverse().join('');
+}
+
+/**
+ * Merges several parsed objects that each hold part of one array
+ * e.g. `{"candidates": [a]} {"candidates": [b]}` -> `{"candidates": [a, b]}`
+ */
+function mergeOnArrayKey(values: unknown[], arrayKey: string): unknown {
+  const objects = values.filter((value): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && Array.isArray((value as Record<string, unknown>)[arrayKey])
+  );
+
+  if (objects.length === 0) {
+    return values[0];
+  }
+
+  return {
+    ...objects[0],
+    [arrayKey]: objects.flatMap(value => value[arrayKey] as unknown[]),
+  };
+}
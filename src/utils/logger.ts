@@ -20,6 +20,8 @@ const logger = winston.createLogger({
 if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === undefined) {
   logger.add(
     new winston.transports.Console({
+      // Log to stderr so command output on stdout can be piped
+      stderrLevels: Object.keys(winston.config.npm.levels),
       format: winston.format.combine(
         winston.format.colorize(),
         winston.format.simple()
@@ -0,0 +1,204 @@
+// src/utils/rate-limiter.ts
+import logger from './logger';
+import { sleep } from './helpers';
+
+/**
+ * Limits enforced by a RateLimiter
+ */
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxConcurrency: number;
+}
+
+// Lower bound of the adaptive rate factor after repeated rate limit errors
+const MIN_RATE_FACTOR = 0.1;
+// How much of the full rate each successful call wins back
+const RATE_RECOVERY_STEP = 0.1;
+const MINUTE_MS = 60000;
+
+/**
+ * A bucket that refills continuously up to its capacity
+ */
+interface TokenBucket {
+  capacity: number;
+  available: number;
+}
+
+/**
+ * Rate Limiter - Schedules calls to a rate-limited API with token buckets for
+ * requests and tokens per minute and a limit on concurrent calls.
+ *
+ * When the API reports a rate limit error, every caller pauses and the
+ * refill rate is halved; it recovers gradually as calls succeed again.
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private requests: TokenBucket;
+  private tokens: TokenBucket;
+  private lastRefill: number;
+  private rateFactor = 1;
+  private pausedUntil = 0;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  /**
+   * Creates a new RateLimiter instance
+   * @param options - Requests per minute, tokens per minute and maximum concurrent calls
+   */
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.requests = { capacity: options.requestsPerMinute, available: options.requestsPerMinute };
+    this.tokens = { capacity: options.tokensPerMinute, available: options.tokensPerMinute };
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Runs a call once a concurrency slot and enough request and token budget are available
+   * @param fn - The call to run
+   * @param estimatedTokens - Tokens the call is expected to use
+   * @returns The result of the call
+   */
+  public async schedule<T>(fn: () => Promise<T>, estimatedTokens = 0): Promise<T> {
+    await this.acquireSlot();
+
+    try {
+      await this.waitForBudget(estimatedTokens);
+
+      try {
+        const result = await fn();
+        this.rateFactor = Math.min(1, this.rateFactor + RATE_RECOVERY_STEP);
+        return result;
+      } catch (error) {
+        if (isRateLimitError(error)) {
+          this.backOff();
+        }
+        throw error;
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Charges tokens a call used beyond its estimate (e.g. its output)
+   * @param tokens - Number of tokens to charge
+   */
+  public recordUsage(tokens: number): void {
+    if (tokens > 0) {
+      this.refill();
+      this.tokens.available -= tokens;
+    }
+  }
+
+  /**
+   * Pauses every caller and halves the refill rate after a rate limit error
+   */
+  public backOff(): void {
+    this.rateFactor = Math.max(MIN_RATE_FACTOR, this.rateFactor / 2);
+
+    // Wait long enough for one request at the reduced rate
+    const pauseMs = Math.ceil(MINUTE_MS / (this.options.requestsPerMinute * this.rateFactor));
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs);
+    this.requests.available = Math.min(this.requests.available, 0);
+
+    logger.warn(`Rate limit reached, pausing requests for ${Math.round(pauseMs / 1000)} seconds (rate at ${Math.round(this.rateFactor * 100)}%)`);
+  }
+
+  /**
+   * Waits for a free concurrency slot
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxConcurrency) {
+      this.active++;
+      return;
+    }
+
+    // The releasing caller hands its slot over directly
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  /**
+   * Frees a concurrency slot, handing it to the next waiting caller
+   */
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Waits until the buckets hold one request and the estimated tokens, then takes them
+   * @param estimatedTokens - Tokens the call is expected to use
+   */
+  private async waitForBudget(estimatedTokens: number): Promise<void> {
+    // A call larger than the whole budget only has to wait for a full bucket
+    const tokensNeeded = Math.min(estimatedTokens, this.tokens.capacity);
+
+    while (true) {
+      this.refill();
+
+      const pauseMs = this.pausedUntil - Date.now();
+      const requestWaitMs = this.waitTime(this.requests, 1, this.options.requestsPerMinute);
+      const tokenWaitMs = this.waitTime(this.tokens, tokensNeeded, this.options.tokensPerMinute);
+      const waitMs = Math.max(pauseMs, requestWaitMs, tokenWaitMs);
+
+      if (waitMs <= 0) {
+        this.requests.available -= 1;
+        this.tokens.available -= tokensNeeded;
+        return;
+      }
+
+      logger.debug(`Rate limiter waiting ${waitMs}ms before the next request`);
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Adds the budget earned since the last refill to both buckets
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+
+    for (const [bucket, perMinute] of [
+      [this.requests, this.options.requestsPerMinute],
+      [this.tokens, this.options.tokensPerMinute],
+    ] as Array<[TokenBucket, number]>) {
+      bucket.available = Math.min(bucket.capacity, bucket.available + elapsed * perMinute * this.rateFactor / MINUTE_MS);
+    }
+  }
+
+  /**
+   * Gets how long a bucket needs to refill to the amount needed
+   * @param bucket - The bucket
+   * @param needed - The amount needed
+   * @param perMinute - The bucket's full refill rate per minute
+   * @returns Wait time in ms (0 if the amount is available)
+   */
+  private waitTime(bucket: TokenBucket, needed: number, perMinute: number): number {
+    const missing = needed - bucket.available;
+    return missing <= 0 ? 0 : Math.ceil(missing * MINUTE_MS / (perMinute * this.rateFactor));
+  }
+}
+
+/**
+ * Checks whether an error is an API rate limit / quota error (HTTP 429 or RESOURCE_EXHAUSTED)
+ * @param error - The error to check
+ * @returns True if the call should be retried after backing off
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!error) return false;
+
+  const status = (error as { status?: unknown }).status;
+  if (status === 429 || status === 'RESOURCE_EXHAUSTED') {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|RESOURCE_EXHAUSTED|Too Many Requests|quota/i.test(message);
+}
@@ -0,0 +1,131 @@
+// src/utils/run-checkpoint.ts
+import fs from 'fs';
+import path from 'path';
+import logger from './logger';
+import { sanitizeFileName } from './helpers';
+import { BasicElection } from '../models/types';
+
+// Keys whose ISO string values are revived as Date objects when loading a checkpoint
+const DATE_KEYS = new Set(['date', 'electionDate']);
+
+/**
+ * Stored form of a single checkpoint file
+ */
+interface CheckpointFile<T> {
+  stage: string;
+  savedAt: string;
+  data: T;
+}
+
+/**
+ * Run Checkpoint - Persists the output of each completed pipeline stage
+ * inside an AI data logger run directory so an interrupted run can be resumed
+ */
+export class RunCheckpoint {
+  private checkpointDir: string;
+
+  /**
+   * Creates a new RunCheckpoint instance
+   * @param runDir - The run directory created by AIDataLogger
+   */
+  constructor(runDir: string) {
+    this.checkpointDir = path.join(runDir, 'checkpoints');
+  }
+
+  /**
+   * Builds a checkpoint key from its parts (e.g. election name, stage, position name)
+   * @param parts - The parts identifying the stage
+   * @returns The checkpoint key
+   */
+  public static key(...parts: string[]): string {
+    return parts.map(part => sanitizeFileName(part)).join('__');
+  }
+
+  /**
+   * Builds the checkpoint key of a stage of one source election
+   * Elections are keyed by name, state, district and date, since sources can list
+   * several elections with the same name (e.g. one per district).
+   * @param election - The source election
+   * @param parts - The parts identifying the stage (e.g. stage, position name)
+   * @returns The checkpoint key
+   */
+  public static electionKey(election: BasicElection, ...parts: string[]): string {
+    const date = new Date(election.date).toISOString().split('T')[0];
+    return RunCheckpoint.key(`${election.name} ${election.state} ${election.district} ${date}`, ...parts);
+  }
+
+  /**
+   * Checks whether a stage has already been completed
+   * @param stage - The checkpoint key
+   * @returns True if a checkpoint exists for the stage
+   */
+  public has(stage: string): boolean {
+    return fs.existsSync(this.filePath(stage));
+  }
+
+  /**
+   * Loads the saved output of a completed stage
+   * @param stage - The checkpoint key
+   * @returns The saved data, or undefined if the stage has no (readable) checkpoint
+   */
+  public load<T>(stage: string): T | undefined {
+    if (!this.has(stage)) {
+      return undefined;
+    }
+
+    try {
+      const content = fs.readFileSync(this.filePath(stage), 'utf8');
+      const checkpoint: CheckpointFile<T> = JSON.parse(content, reviveDates);
+      logger.info(`Loaded checkpoint "${stage}" saved at ${checkpoint.savedAt}`);
+      return checkpoint.data;
+    } catch (error) {
+      logger.warn(`Could not read checkpoint "${stage}", the stage will be re-run`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Saves the output of a completed stage
+   * @param stage - The checkpoint key
+   * @param data - The stage output (must be JSON serializable)
+   */
+  public save<T>(stage: string, data: T): void {
+    const checkpoint: CheckpointFile<T> = {
+      stage,
+      savedAt: new Date().toISOString(),
+      data,
+    };
+
+    fs.mkdirSync(this.checkpointDir, { recursive: true });
+    
+    // Write to a temporary file first so a crash never leaves a half-written checkpoint
+    const filePath = this.filePath(stage);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(checkpoint, null, 2), 'utf8');
+    fs.renameSync(tempPath, filePath);
+
+    logger.info(`Saved checkpoint "${stage}"`);
+  }
+
+  /**
+   * Gets the file path of a checkpoint
+   * @param stage - The checkpoint key
+   * @returns Path of the checkpoint file
+   */
+  private filePath(stage: string): string {
+    return path.join(this.checkpointDir, `${stage}.json`);
+  }
+}
+
+/**
+ * JSON reviver that turns known date fields back into Date objects
+ */
+function reviveDates(key: string, value: unknown): unknown {
+  if (DATE_KEYS.has(key) && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
@@ -0,0 +1,87 @@
+/**
+ * Two-letter postal abbreviations mapped to full state / territory names.
+ * The research prompts require unabbreviated state names, so any abbreviation
+ * coming from an upstream source is expanded with this table.
+ */
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama',
+  AK: 'Alaska',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  DC: 'District of Columbia',
+  FL: 'Florida',
+  GA: 'Georgia',
+  HI: 'Hawaii',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming',
+  AS: 'American Samoa',
+  GU: 'Guam',
+  MP: 'Northern Mariana Islands',
+  PR: 'Puerto Rico',
+  VI: 'U.S. Virgin Islands',
+};
+
+/**
+ * Expands a state abbreviation to its full name
+ * Values that are already full names (or unknown) are returned trimmed, unchanged.
+ * @param value - State abbreviation or name (e.g. "pa", "PA", "Pennsylvania")
+ * @returns The full state name
+ */
+export function expandStateName(value: string): string {
+  const trimmed = value.trim();
+  const fullName = US_STATES[trimmed.toUpperCase()];
+  return fullName || trimmed;
+}
+
+/**
+ * Finds the full state name mentioned in free text (e.g. an election name)
+ * Longer names are tried first, so "West Virginia" is not read as "Virginia".
+ * @param text - Text that may mention a state
+ * @returns The full state name, or undefined if no state is mentioned
+ */
+export function findStateName(text: string): string | undefined {
+  const names = Object.values(US_STATES).sort((a, b) => b.length - a.length);
+  const lower = ` ${text.toLowerCase().replace(/[^a-z.]+/g, ' ')} `;
+  return names.find(name => lower.includes(` ${name.toLowerCase()} `));
+}
@@ -1,21 +1,22 @@
 import * as civicModule from '../../src/apis/civic';
+import electionsResponse from '../fixtures/civic/elections.json';
+import malformedElectionsResponse from '../fixtures/civic/malformed-elections.json';
+import { google } from 'googleapis';
 
-// Store the original implementation
-const originalGetActiveElections = civicModule.getActiveElections;
-
-// Mock the googleapis module
-jest.mock('googleapis', () => ({
-  google: {
-    civicinfo: jest.fn().mockImplementation(() => ({
-      elections: {
-        electionQuery: jest.fn()
-      },
-      voterinfo: {
-        query: jest.fn()
-      }
-    }))
-  }
-}));
+// Mock the googleapis module with a shared Civic API client so tests can control the canned responses
+jest.mock('googleapis', () => {
+  const civicInfo = {
+    elections: {
+      electionQuery: jest.fn(),
+      voterInfoQuery: jest.fn()
+    }
+  };
+  return {
+    google: {
+      civicinfo: jest.fn().mockImplementation(() => civicInfo)
+    }
+  };
+});
 
 // Mock the config module
 jest.mock('../../src/config', () => ({
@@ -36,66 +37,75 @@ jest.mock('../../src/utils/logger', () => ({
   }
 }));
 
+const mockCivicInfo = (google.civicinfo as unknown as jest.Mock)();
+
 describe('Google Civic API', () => {
-  let mockGetActiveElections: jest.SpyInstance;
-  
-  beforeEach(() => {
-    // Mock the implementation of getActiveElections for testing
-    mockGetActiveElections = jest.spyOn(civicModule, 'getActiveElections');
-  });
-  
   afterEach(() => {
-    // Clean up after the test
-    mockGetActiveElections.mockRestore();
+    jest.clearAllMocks();
   });
-  
+
   describe('getActiveElections', () => {
     it('should return an empty array when no elections are found', async () => {
-      // Mock the implementation to return an empty array
-      mockGetActiveElections.mockResolvedValueOnce([]);
-      
+      mockCivicInfo.elections.electionQuery.mockResolvedValueOnce({ data: {} });
+
       const result = await civicModule.getActiveElections();
-      
+
       expect(result).toEqual([]);
-      expect(mockGetActiveElections).toHaveBeenCalledTimes(1);
+      expect(mockCivicInfo.elections.electionQuery).toHaveBeenCalledTimes(1);
     });
-    
-    it('should return elections when found', async () => {
-      const mockElectionDate = new Date('2023-11-07');
-      const mockElections = [
-        {
-          name: 'Test Election 1',
-          date: mockElectionDate
-        },
-        {
-          name: 'Test Election 2',
-          date: mockElectionDate
-        }
-      ];
-      
-      // Mock the implementation to return the elections
-      mockGetActiveElections.mockResolvedValueOnce(mockElections);
-      
+
+    it('should map elections to basic elections and drop the VIP test election', async () => {
+      mockCivicInfo.elections.electionQuery.mockResolvedValueOnce({ data: electionsResponse });
+
       const result = await civicModule.getActiveElections();
-      
-      expect(result).toHaveLength(2);
+
+      expect(result).toHaveLength(5);
+      expect(result.map(election => election.civicElectionId)).not.toContain('2000');
       expect(result[0]).toEqual({
-        name: 'Test Election 1',
-        date: mockElectionDate
+        name: 'South Carolina Special Election - State House District 113',
+        state: 'South Carolina',
+        district: 'State House District 113',
+        description: 'South Carolina Special Election - State House District 113',
+        date: new Date('2025-03-25'),
+        civicElectionId: '9171'
       });
-      expect(mockGetActiveElections).toHaveBeenCalledTimes(1);
     });
-    
-    it('should handle errors properly', async () => {
-      // Mock the implementation to throw an error
-      mockGetActiveElections.mockImplementationOnce(() => {
-        throw new Error('Failed to fetch elections from Google Civic API');
+
+    it('should expand state abbreviations and describe districts from the OCD-ID', async () => {
+      mockCivicInfo.elections.electionQuery.mockResolvedValueOnce({ data: electionsResponse });
+
+      const result = await civicModule.getActiveElections();
+      const byId = Object.fromEntries(result.map(election => [election.civicElectionId, election]));
+
+      expect(byId['9172']).toMatchObject({ state: 'Pennsylvania', district: 'State Senate District 36' });
+      expect(byId['9173']).toMatchObject({ state: 'Wisconsin', district: 'Wisconsin' });
+      expect(byId['9174']).toMatchObject({ state: 'Alaska', district: 'Anchorage' });
+      expect(byId['9175']).toMatchObject({ state: 'District of Columbia', district: 'Ward 8' });
+    });
+
+    it('should skip elections without a valid date and fall back when the OCD-ID is malformed', async () => {
+      mockCivicInfo.elections.electionQuery.mockResolvedValueOnce({ data: malformedElectionsResponse });
+
+      const result = await civicModule.getActiveElections();
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        name: 'Election With An Unparseable Division',
+        state: 'N/A',
+        district: 'United States',
+        civicElectionId: '9182'
       });
-      
+      // A malformed percent-encoding does not stop the other elections
+      expect(result[1]).toMatchObject({ name: 'Election With A Malformed Encoded Division', state: 'N/A', civicElectionId: '9183' });
+    });
+
+    it('should handle errors properly', async () => {
+      mockCivicInfo.elections.electionQuery.mockRejectedValueOnce(new Error('quota exceeded'));
+
       await expect(civicModule.getActiveElections()).rejects.toThrow(
         'Failed to fetch elections from Google Civic API'
       );
-      expect(mockGetActiveElections).toHaveBeenCalledTimes(1);
+      expect(mockCivicInfo.elections.electionQuery).toHaveBeenCalledTimes(1);
     });
   });
-}); 
\ No newline at end of file
+});
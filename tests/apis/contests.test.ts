@@ -0,0 +1,147 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { addressesForElection, discoverContests, loadContestAddresses } from '../../src/apis/civic/contests';
+import { FixtureResearchProvider } from '../../src/apis/research';
+import { runPipeline } from '../../src/services/pipeline';
+import { AIDataLogger } from '../../src/utils/ai-data-logger';
+import { config } from '../../src/config';
+import { BasicElection, ElectionType } from '../../src/models/types';
+import downtownResponse from '../fixtures/civic/voterinfo-downtown.json';
+import hillsideResponse from '../fixtures/civic/voterinfo-hillside.json';
+
+// Point the Civic API client at the local stub started below
+jest.mock('../../src/config', () => {
+  const actual = jest.requireActual('../../src/config');
+  return {
+    ...actual,
+    config: { ...actual.config, google: { apiKey: 'test-key', civicApiUrl: '', contestAddressesFile: '' } }
+  };
+});
+
+jest.mock('../../src/services/db', () => ({
+  ...jest.requireActual('../../src/services/db/diff'),
+  storeElectionData: jest.fn()
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const FIXTURE_RUN_DIR = path.join(__dirname, '../fixtures/runs/2025-04-01_09-00-00');
+const DOWNTOWN = '632 W 6th Ave, Anchorage, AK 99501';
+const HILLSIDE = '10100 Hillside Dr, Anchorage, AK 99507';
+
+// Ballots of the stub, by address; other addresses get the Civic API's 400 error
+const BALLOTS: Record<string, unknown> = {
+  [DOWNTOWN]: downtownResponse,
+  [HILLSIDE]: hillsideResponse
+};
+
+const election: BasicElection = {
+  name: 'Alaska,Anchorage,Anchorage general election,2025-04-01',
+  state: 'Alaska',
+  district: 'Anchorage',
+  description: 'Anchorage general election',
+  date: new Date('2025-04-01'),
+  civicElectionId: '9001'
+};
+
+describe('Contest discovery', () => {
+  let server: http.Server;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const url = new URL(request.url || '', 'http://localhost');
+      requests.push(url);
+      const ballot = url.pathname === '/civicinfo/v2/voterinfo' ? BALLOTS[url.searchParams.get('address') || ''] : undefined;
+
+      response.writeHead(ballot ? 200 : 400, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(ballot || { error: { code: 400, message: 'Election unknown' } }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    config.google.civicApiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('should merge the contests and candidates of every address', async () => {
+    const discovery = await discoverContests(election, [DOWNTOWN, HILLSIDE, '1 Nowhere Rd, Anchorage, AK']);
+
+    expect(requests.map(url => [url.searchParams.get('electionId'), url.searchParams.get('key')])).toEqual([
+      ['9001', 'test-key'], ['9001', 'test-key'], ['9001', 'test-key']
+    ]);
+    expect(discovery.positions.map(position => [position.positionName, position.city, position.type, position.positions, position.knownCandidates])).toEqual([
+      ['Mayor', 'Anchorage', ElectionType.LOCAL, 1, ['Jane Smith', 'John Doe', 'Richard Roe']],
+      ['Assembly Member - District 3', 'Anchorage', ElectionType.LOCAL, 1, ['Maria Lopez']],
+      ['School Board', '', ElectionType.LOCAL, 2, ['Anh Nguyen']],
+      ['State Senator', '', ElectionType.STATE, 1, []]
+    ]);
+    expect(discovery.positions[0]).toMatchObject({ state: 'Alaska', electionDate: election.date, description: 'Mayor (Anchorage)' });
+    expect(discovery.failedAddresses).toEqual([{ address: '1 Nowhere Rd, Anchorage, AK', message: 'Failed to fetch voter information' }]);
+  });
+
+  it('should research only the candidates of the discovered contests', async () => {
+    const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-logs-'));
+    const aiLogger = new AIDataLogger(logDir);
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    const research = jest.spyOn(provider, 'research');
+
+    try {
+      const result = await runPipeline({
+        elections: [election],
+        contestAddresses: { AK: [DOWNTOWN] },
+        provider,
+        aiLogger,
+        store: false
+      });
+
+      expect(research.mock.calls.map(([request]) => [request.stage, request.positionName])).toEqual([
+        ['candidates', 'Mayor'],
+        ['candidates', 'Assembly Member - District 3']
+      ]);
+      expect(research.mock.calls[0][0].prompt).toContain('candidates_on_ballot: Jane Smith; John Doe,');
+      expect(result.elections.map(detailed => detailed.position)).toEqual(['Mayor', 'Assembly Member - District 3']);
+
+      const logged = JSON.parse(fs.readFileSync(
+        path.join(aiLogger.getRunDir(), 'civic-api', 'contests', 'alaska_anchorage_anchorage_general_election_2025_04_01.json'),
+        'utf8'
+      ));
+      expect(logged.contests.map((contest: { position: string }) => contest.position)).toEqual(['Mayor', 'Assembly Member - District 3']);
+    } finally {
+      fs.rmSync(logDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should pick the addresses of the election\'s state or district', () => {
+    const addresses = { AK: [DOWNTOWN], anchorage: [DOWNTOWN, HILLSIDE], Juneau: ['155 S Seward St, Juneau, AK'] };
+
+    expect(addressesForElection(addresses, election)).toEqual([DOWNTOWN, HILLSIDE]);
+    expect(addressesForElection(addresses, { ...election, state: 'Delaware', district: 'Dover' })).toEqual([]);
+  });
+
+  it('should validate the addresses file', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'addresses-'));
+    const valid = path.join(tmpDir, 'addresses.yaml');
+    const invalid = path.join(tmpDir, 'invalid.json');
+    fs.writeFileSync(valid, `Alaska:\n  - ${DOWNTOWN}\n`, 'utf8');
+    fs.writeFileSync(invalid, JSON.stringify({ Alaska: [] }), 'utf8');
+
+    try {
+      expect(loadContestAddresses(valid)).toEqual({ Alaska: [DOWNTOWN] });
+      expect(() => loadContestAddresses(invalid)).toThrow(/Invalid contest addresses file .*Alaska/);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
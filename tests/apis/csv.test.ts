@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getElectionsFromCsv, parseElectionDate, readElectionsCsv } from '../../src/apis/csv';
+import { ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const repoRoot = path.join(__dirname, '..', '..');
+
+describe('CSV election importer', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-import-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeCsv(content: string): string {
+    const filePath = path.join(tmpDir, 'elections.csv');
+    fs.writeFileSync(filePath, content, 'utf8');
+    return filePath;
+  }
+
+  it('should read the padded State,District,Description,Date sample file', async () => {
+    const { elections, errors } = await readElectionsCsv(path.join(repoRoot, 'docs', 'sample_elections.csv'));
+
+    expect(errors).toEqual([]);
+    expect(elections).toHaveLength(11);
+    expect(elections[0]).toEqual({
+      name: 'South Carolina,South Carolina,S.C., special municipal general elections,2025-04-01',
+      state: 'South Carolina',
+      district: 'South Carolina',
+      description: 'S.C., special municipal general elections',
+      date: new Date('2025-04-01'),
+    });
+    expect(elections[1].name).toBe('Alaska,Anchorage,Anchorage general election,2025-04-01');
+    expect(elections[9].district).toBe('Haysville Unified School District 261');
+    expect(elections[10].date).toEqual(new Date('2025-04-08'));
+  });
+
+  it('should read the documented name,date layout', async () => {
+    const elections = await getElectionsFromCsv(path.join(repoRoot, 'my_elections.csv'));
+
+    expect(elections).toHaveLength(3);
+    expect(elections[0]).toEqual({
+      name: 'South Carolina Special Election - State House District 113',
+      state: 'South Carolina',
+      district: 'South Carolina',
+      description: 'South Carolina Special Election - State House District 113',
+      date: new Date('2025-03-25'),
+    });
+    expect(elections[1].state).toBe('Pennsylvania');
+    expect(elections[2].date).toEqual(new Date('2025-04-01'));
+  });
+
+  it('should keep the election names of the existing layout unchanged', async () => {
+    const elections = await getElectionsFromCsv(path.join(repoRoot, 'tests', 'fixtures', 'csv', 'anchorage.csv'));
+
+    expect(elections.map(election => election.name)).toEqual([
+      'Alaska,Anchorage,Anchorage general election,2025-04-01'
+    ]);
+  });
+
+  it('should read the optional columns', async () => {
+    const filePath = writeCsv([
+      'Election Name,Election Date,City,Type,Positions,Candidates,Source URL',
+      '"Laurel Town Council","03/27/2025","Laurel","Local","Mayor; Town Council","Jane Doe; John Smith, Jr.","https://townoflaurel.net/elections"',
+    ].join('\n'));
+
+    const { elections, errors } = await readElectionsCsv(filePath);
+
+    expect(errors).toEqual([]);
+    expect(elections).toEqual([{
+      name: 'Laurel Town Council',
+      state: '',
+      district: 'Laurel',
+      description: 'Laurel Town Council',
+      date: new Date('2025-03-27'),
+      city: 'Laurel',
+      type: ElectionType.LOCAL,
+      positions: ['Mayor', 'Town Council'],
+      knownCandidates: ['Jane Doe', 'John Smith, Jr.'],
+      sourceUrl: 'https://townoflaurel.net/elections',
+    }]);
+  });
+
+  it('should expand state abbreviations', async () => {
+    const filePath = writeCsv('state,district,description,date\nDE,Blades,Town election,2025-04-07\n');
+
+    const elections = await getElectionsFromCsv(filePath);
+
+    expect(elections[0].name).toBe('Delaware,Blades,Town election,2025-04-07');
+  });
+
+  it('should accept extra header names from the column map', async () => {
+    const filePath = writeCsv('Contest Title,Held On\n"Omaha primary","April 1, 2025"\n');
+
+    const elections = await getElectionsFromCsv(filePath, {
+      columnMap: { name: ['Contest Title'], date: ['Held On'] },
+    });
+
+    expect(elections.map(election => [election.name, election.date])).toEqual([
+      ['Omaha primary', new Date('2025-04-01')]
+    ]);
+  });
+
+  it('should report each bad row and keep the valid ones', async () => {
+    const filePath = writeCsv([
+      'state,district,description,date,type,source url',
+      'Alaska,Anchorage,Anchorage general election,2025-04-01,,',
+      'Alaska,Juneau,Juneau election,not a date,,',
+      'Alaska,,Missing district,2025-04-01,,',
+      'Alaska,Fairbanks,Fairbanks election,2025-02-30,,',
+      'Alaska,Nome,Nome election,2025-04-01,regional,',
+      'Alaska,Sitka,Sitka election,2025-04-01,,www.sitka.gov',
+      'Alaska,Kodiak,Kodiak election,2025-04-01',
+    ].join('\n'));
+
+    const { elections, errors } = await readElectionsCsv(filePath);
+
+    expect(elections.map(election => election.district)).toEqual(['Anchorage']);
+    expect(errors.map(error => error.row)).toEqual([2, 3, 4, 5, 6, 7]);
+    expect(errors[0].message).toContain('invalid date "not a date"');
+    expect(errors[0].record.district).toBe('Juneau');
+    expect(errors[1].message).toContain('missing required fields');
+    expect(errors[2].message).toContain('invalid date "2025-02-30"');
+    expect(errors[3].message).toContain('unknown election type "regional"');
+    expect(errors[4].message).toContain('invalid source URL');
+  });
+
+  it('should fail when no row is valid', async () => {
+    const filePath = writeCsv('name,date\n"Juneau election",soon\n');
+
+    await expect(getElectionsFromCsv(filePath)).rejects.toThrow('no valid election rows');
+  });
+
+  it('should fail for files that cannot be used', async () => {
+    await expect(readElectionsCsv(path.join(tmpDir, 'missing.csv'))).rejects.toThrow('CSV file not found');
+    await expect(readElectionsCsv(writeCsv('  \n'))).rejects.toThrow('CSV file is empty');
+    await expect(readElectionsCsv(writeCsv('name,when\n"Omaha primary",2025-04-01\n'))).rejects.toThrow('no date column');
+  });
+});
+
+describe('Election date parser', () => {
+  it.each([
+    ['2025-04-01'],
+    ['2025/4/1'],
+    ['2025-04-01T00:00:00Z'],
+    ['04/01/2025'],
+    ['4/1/25'],
+    ['04-01-2025'],
+    ['April 1, 2025'],
+    ['Apr. 1st 2025'],
+    ['1 April 2025'],
+  ])('should parse %s', value => {
+    expect(parseElectionDate(value)).toEqual(new Date('2025-04-01'));
+  });
+
+  it.each([['2025-13-01'], ['02/30/2025'], ['Foo 1, 2025'], ['tomorrow'], ['']])('should reject %s', value => {
+    expect(parseElectionDate(value)).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import { callGeminiApi, parseAIGeneratedJson, validateRawPositions } from '../../src/apis/gemini';
+import { TRANSFORMATION_RESPONSE_SCHEMA } from '../../src/apis/gemini/schemas';
+import { BasicElection, ElectionType } from '../../src/models/types';
+
+// Mock the Gemini client so no request leaves the test
+const mockGenerateContent = jest.fn();
+jest.mock('@google/generative-ai', () => ({
+  ...jest.requireActual('@google/generative-ai'),
+  GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+    getGenerativeModel: () => ({ generateContent: mockGenerateContent })
+  }))
+}));
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const basicElection: BasicElection = {
+  name: 'Anchorage general election',
+  state: 'Alaska',
+  district: 'Anchorage',
+  description: 'Anchorage general election',
+  date: new Date('2025-04-01')
+};
+
+describe('Gemini API', () => {
+  describe('callGeminiApi', () => {
+    beforeEach(() => {
+      mockGenerateContent.mockReset();
+      mockGenerateContent.mockResolvedValue({ response: { text: () => '{"elections": []}' } });
+    });
+
+    it('should use JSON mode with the response schema for ungrounded requests', async () => {
+      await callGeminiApi('Transform this', false, [], { responseSchema: TRANSFORMATION_RESPONSE_SCHEMA });
+
+      const request = mockGenerateContent.mock.calls[0][0];
+      expect(request.generationConfig.responseMimeType).toBe('application/json');
+      expect(request.generationConfig.responseSchema).toBe(TRANSFORMATION_RESPONSE_SCHEMA);
+      expect(request.tools).toBeUndefined();
+    });
+
+    it('should ignore the response schema for grounded requests', async () => {
+      await callGeminiApi('Research this', true, [], { responseSchema: TRANSFORMATION_RESPONSE_SCHEMA });
+
+      const request = mockGenerateContent.mock.calls[0][0];
+      expect(request.generationConfig.responseMimeType).toBeUndefined();
+      expect(request.tools).toEqual([{ googleSearch: {} }]);
+    });
+
+    it('should return the grounding metadata of grounded requests', async () => {
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text: () => 'Jane Smith is running for mayor.',
+          candidates: [{
+            groundingMetadata: {
+              webSearchQueries: ['Anchorage mayor candidates'],
+              groundingChunks: [{ web: { uri: 'https://www.adn.com/mayor', title: 'adn.com' } }, {}],
+              groundingSupports: [
+                { segment: { text: 'Jane Smith is running for mayor.' }, groundingChunkIndices: [0, 1], confidenceScores: [0.9, 0.4] },
+                { segment: { text: '' }, groundingChunkIndices: [0] },
+              ],
+            },
+          }],
+        },
+      });
+
+      const grounded = await callGeminiApi('Research this', true);
+      const ungrounded = await callGeminiApi('Transform this', false);
+
+      expect(grounded).toEqual({
+        text: 'Jane Smith is running for mayor.',
+        grounding: {
+          searchQueries: ['Anchorage mayor candidates'],
+          sources: [{ uri: 'https://www.adn.com/mayor', title: 'adn.com' }, { uri: '', title: '' }],
+          claims: [{ text: 'Jane Smith is running for mayor.', sources: [0], confidence: [0.9, 0.4] }],
+        },
+      });
+      expect(ungrounded.grounding).toBeUndefined();
+    });
+  });
+
+  describe('parseAIGeneratedJson', () => {
+    it('should parse elections from fenced JSON', () => {
+      const response = '```json\n' + JSON.stringify({
+        elections: [{
+          position: 'Mayor',
+          date: '2025-04-01',
+          city: 'Anchorage',
+          state: 'Alaska',
+          description: 'Mayor of Anchorage',
+          type: 'LOCAL',
+          candidates: [{
+            fullName: 'Jane Doe',
+            keyPolicies: [{ title: 'Housing', description: 'Build more homes' }, 'Lower taxes']
+          }]
+        }]
+      }) + '\n```';
+
+      const result = parseAIGeneratedJson(response, basicElection);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(1);
+        expect(result.data[0].type).toBe(ElectionType.LOCAL);
+        expect(result.data[0].candidates[0].keyPolicies).toEqual([
+          { title: 'Housing', description: 'Build more homes' },
+          { title: 'Policy', description: 'Lower taxes' }
+        ]);
+      }
+    });
+
+    it('should treat "N/A" and similar answers as missing values', () => {
+      const response = JSON.stringify({
+        elections: [{
+          position: 'Mayor',
+          date: '2025-04-01',
+          type: 'LOCAL',
+          candidates: [{ fullName: 'Jane Doe', party: 'N/A', linkedinUrl: 'n/a', twitter: 'Not available', city: 'Anchorage' }]
+        }]
+      });
+
+      const result = parseAIGeneratedJson(response, basicElection);
+
+      const candidate = result.success ? result.data[0].candidates[0] : undefined;
+      expect(candidate).toMatchObject({ city: 'Anchorage', currentPosition: 'Candidate', keyPolicies: [], sources: [] });
+      expect(candidate?.party).toBeUndefined();
+      expect(candidate?.linkedinUrl).toBeUndefined();
+      expect(candidate?.twitter).toBeUndefined();
+      expect(candidate?.state).toBeUndefined();
+    });
+
+    it('should report a missing elections array as an invalid structure', () => {
+      const result = parseAIGeneratedJson('{"candidates": []}', basicElection);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.reason).toBe('invalid_structure');
+      }
+    });
+
+    it('should report an empty elections array as an empty result', () => {
+      const result = parseAIGeneratedJson('{"elections": []}', basicElection);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.reason).toBe('empty_result');
+      }
+    });
+  });
+
+  describe('validateRawPositions', () => {
+    it('should parse positions and skip entries without a name', () => {
+      const response = 'Here are the positions: {"positions_up_for_election": [' +
+        '{"position_name": "Mayor", "position_type": "local", "positions": "1"},' +
+        '{"position_type": "state"},' +
+        '{"position_name": "Assembly Member - District 3", "position_type": "local", "positions": "2"},' +
+        ']}';
+
+      const result = validateRawPositions(response, basicElection);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.map(position => position.positionName)).toEqual(['Mayor', 'Assembly Member - District 3']);
+        expect(result.data[1].positions).toBe(2);
+        expect(result.data[0].electionDate).toEqual(basicElection.date);
+        expect(result.repaired).toBe(true);
+      }
+    });
+
+    it('should pass through the reason a response could not be parsed', () => {
+      const result = validateRawPositions('No elections were found for this date.', basicElection);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.reason).toBe('no_json_found');
+      }
+    });
+  });
+});
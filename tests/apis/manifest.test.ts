@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getElectionsFromManifest, readElectionManifest } from '../../src/apis/manifest';
+import { getElectionsFromCsv } from '../../src/apis/csv';
+import { ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/manifest');
+
+describe('Election manifest importer', () => {
+  it('should read a YAML manifest with seeded positions', async () => {
+    const { elections, errors } = await readElectionManifest(path.join(FIXTURES_DIR, 'anchorage.yaml'));
+    const date = new Date('2025-04-01');
+
+    expect(errors).toEqual([]);
+    expect(elections).toEqual([{
+      name: 'Alaska,Anchorage,Anchorage general election,2025-04-01',
+      state: 'Alaska',
+      district: 'Anchorage',
+      description: 'Anchorage general election',
+      date,
+      city: 'Anchorage',
+      type: ElectionType.LOCAL,
+      knownCandidates: ['Jane Smith'],
+      sourceUrl: 'https://www.muni.org/departments/assembly/clerk/elections',
+      seededPositions: [
+        {
+          positionName: 'Mayor',
+          electionDate: date,
+          city: 'Anchorage',
+          state: 'Alaska',
+          description: 'Chief executive of the Municipality of Anchorage',
+          type: ElectionType.LOCAL,
+          positions: 1
+        },
+        {
+          positionName: 'Assembly Member - District 3',
+          electionDate: date,
+          city: 'Anchorage',
+          state: 'Alaska',
+          description: 'Position for Alaska,Anchorage,Anchorage general election,2025-04-01',
+          type: ElectionType.LOCAL,
+          positions: 1
+        }
+      ]
+    }]);
+  });
+
+  it('should name elections like the CSV source', async () => {
+    const [fromManifest] = await getElectionsFromManifest(path.join(FIXTURES_DIR, 'anchorage.yaml'));
+    const [fromCsv] = await getElectionsFromCsv(path.join(__dirname, '../fixtures/csv/anchorage.csv'));
+
+    expect(fromManifest.name).toBe(fromCsv.name);
+  });
+
+  it('should read a JSON manifest and report each invalid entry', async () => {
+    const { elections, errors } = await readElectionManifest(path.join(FIXTURES_DIR, 'elections.json'));
+
+    expect(elections.map(election => election.name)).toEqual([
+      'Pennsylvania Special Election - State Senate District 36',
+      'Florida Special Elections'
+    ]);
+    expect(elections[0]).toMatchObject({ state: 'Pennsylvania', date: new Date('2025-03-25'), type: ElectionType.STATE });
+    expect(elections[0].seededPositions?.map(position => [position.positionName, position.type])).toEqual([
+      ['State Senator - District 36', ElectionType.STATE]
+    ]);
+    expect(elections[1].seededPositions).toBeUndefined();
+
+    expect(errors.map(error => error.row)).toEqual([3, 4, 5, 6]);
+    expect(errors[0].message).toContain('invalid date "sometime in April"');
+    expect(errors[1].message).toContain('missing required fields');
+    expect(errors[2].message).toContain("Unrecognized key(s) in object: 'positons'");
+    expect(errors[2].record).toMatchObject({ name: 'Omaha primary' });
+    expect(errors[3].message).toBe('positions.0.type: unknown election type "regional"');
+  });
+
+  describe('invalid files', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function writeManifest(fileName: string, content: string): string {
+      const filePath = path.join(tmpDir, fileName);
+      fs.writeFileSync(filePath, content, 'utf8');
+      return filePath;
+    }
+
+    it('should fail for manifests that cannot be used', async () => {
+      await expect(readElectionManifest(path.join(tmpDir, 'missing.yaml'))).rejects.toThrow('Manifest not found');
+      await expect(readElectionManifest(writeManifest('elections.toml', 'x = 1'))).rejects.toThrow('Unsupported manifest format ".toml"');
+      await expect(readElectionManifest(writeManifest('broken.json', '{ "elections": ['))).rejects.toThrow('Manifest is not valid JSON');
+      await expect(readElectionManifest(writeManifest('object.yml', 'name: Omaha primary'))).rejects.toThrow('"elections" list');
+    });
+
+    it('should fail when no entry is valid', async () => {
+      const filePath = writeManifest('elections.yml', '- name: Omaha primary\n  date: soon\n');
+
+      await expect(getElectionsFromManifest(filePath)).rejects.toThrow('Manifest has no valid elections');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { parseOcdDivisionId } from '../../src/apis/civic/ocd';
+
+describe('OCD division ID parser', () => {
+  it('should parse a state legislative district', () => {
+    expect(parseOcdDivisionId('ocd-division/country:us/state:pa/sldu:36')).toEqual({
+      id: 'ocd-division/country:us/state:pa/sldu:36',
+      country: 'us',
+      state: 'Pennsylvania',
+      segments: [
+        { type: 'country', value: 'us' },
+        { type: 'state', value: 'pa' },
+        { type: 'sldu', value: '36' }
+      ],
+      district: 'State Senate District 36'
+    });
+  });
+
+  it('should leave the district empty for statewide divisions', () => {
+    const division = parseOcdDivisionId('ocd-division/country:us/state:fl');
+
+    expect(division?.state).toBe('Florida');
+    expect(division?.district).toBeUndefined();
+  });
+
+  it('should describe nested local divisions', () => {
+    expect(parseOcdDivisionId('ocd-division/country:us/state:pa/county:allegheny/council_district:3')?.district)
+      .toBe('Allegheny County, Council District 3');
+    expect(parseOcdDivisionId('ocd-division/country:us/state:ny/place:new_york')?.district)
+      .toBe('New York');
+    expect(parseOcdDivisionId('ocd-division/country:us/state:al/school_district:tuscaloosa_city')?.district)
+      .toBe('Tuscaloosa City School District');
+    expect(parseOcdDivisionId('ocd-division/country:us/state:ca/cd:12')?.district)
+      .toBe('Congressional District 12');
+  });
+
+  it('should treat the District of Columbia as a state', () => {
+    expect(parseOcdDivisionId('ocd-division/country:us/district:dc')?.state).toBe('District of Columbia');
+  });
+
+  it('should be case-insensitive', () => {
+    expect(parseOcdDivisionId('OCD-Division/Country:US/State:TX/SLDL:35')?.district).toBe('State House District 35');
+  });
+
+  it('should return null for malformed identifiers', () => {
+    expect(parseOcdDivisionId('')).toBeNull();
+    expect(parseOcdDivisionId('state:ny')).toBeNull();
+    expect(parseOcdDivisionId('ocd-division/state:ny')).toBeNull();
+    expect(parseOcdDivisionId('ocd-division/country:us/state')).toBeNull();
+    expect(parseOcdDivisionId('ocd-division/country:us/state:ny/place:new%zzyork')).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { loadOfficialListProfile, OfficialListProfile, readOfficialCandidateList } from '../../src/apis/official';
+import { ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/official');
+
+describe('Official candidate list importer', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'official-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read a CSV list into official races with the jurisdiction profile', async () => {
+    const profile = loadOfficialListProfile('anchorage', FIXTURES_DIR);
+
+    const { races, errors } = await readOfficialCandidateList(path.join(FIXTURES_DIR, 'anchorage-candidates.csv'), profile);
+
+    expect(races.map(race => [race.position.positionName, race.candidates.map(candidate => candidate.fullName)])).toEqual([
+      ['Mayor', ['Jane Smith', 'Richard Roe']],
+      ['Assembly Member - District 3', ['Maria Lopez']],
+      ['School Board - Seat E', ['Anh Nguyen']]
+    ]);
+    expect(races[0].position).toEqual({
+      positionName: 'Mayor',
+      electionDate: new Date('2025-04-01'),
+      city: 'Anchorage',
+      state: 'Alaska',
+      description: "Mayor (candidate list of the Municipality of Anchorage Clerk's Office)",
+      type: ElectionType.LOCAL,
+      positions: 1,
+      official: true
+    });
+    expect(races[0].candidates[0]).toEqual({
+      fullName: 'Jane Smith',
+      currentPosition: '',
+      description: '',
+      keyPolicies: [],
+      sources: ["Official candidate list: Municipality of Anchorage Clerk's Office (anchorage-candidates.csv)"],
+      party: 'Nonpartisan',
+      state: 'Alaska',
+      campaignUrl: 'https://janesmith.example.org',
+      official: true
+    });
+    expect(errors).toEqual([expect.objectContaining({ row: 5, message: 'missing candidate name' })]);
+  });
+
+  it('should read an XLSX sheet with dates, seats and last-first names', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Summary']]), 'Summary');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['CONTEST', 'DIST', 'CANDIDATE', 'PARTY', 'ELECTION DATE', 'VOTE FOR'],
+      ['State Senator', '36', 'DOE, JANE Q', 'DEM', '05/20/2025', '1'],
+      ['State Senator', '36', "O'NEIL, PAT", 'REP', '05/20/2025', '1'],
+      ['County Council', 'At Large', 'Lee, Sam', 'DEM', '05/20/2025', '2'],
+      ['County Council', 'At Large', 'Park, Jo', 'DEM', 'next spring', '2'],
+      ['County Council', 'At Large', 'Lee, Sam', 'DEM', '05/20/2025', '2']
+    ]), 'Candidates');
+    const filePath = path.join(tmpDir, 'candidates.xlsx');
+    XLSX.writeFile(workbook, filePath);
+
+    const profile: OfficialListProfile = {
+      id: 'pa-county',
+      jurisdiction: 'Example County Board of Elections',
+      state: 'PA',
+      type: ElectionType.STATE,
+      sheet: 'Candidates',
+      nameFormat: 'last-first',
+      parties: { DEM: 'Democratic', REP: 'Republican' },
+      columns: { office: 'Contest', district: 'Dist', name: 'Candidate', party: 'Party', date: 'Election Date', seats: 'Vote For' }
+    };
+
+    const { races, errors } = await readOfficialCandidateList(filePath, profile);
+
+    expect(races.map(race => [race.position.positionName, race.position.positions, race.candidates.map(candidate => candidate.fullName)])).toEqual([
+      ['State Senator - District 36', 1, ['Jane Q Doe', "Pat O'Neil"]],
+      ['County Council - At Large', 2, ['Sam Lee']]
+    ]);
+    expect(races[0].position).toMatchObject({ electionDate: new Date('2025-05-20'), state: 'Pennsylvania', type: ElectionType.STATE });
+    expect(races[0].candidates.map(candidate => candidate.party)).toEqual(['Democratic', 'Republican']);
+    expect(errors.map(error => [error.row, error.message])).toEqual([
+      [4, 'invalid date "next spring"'],
+      [5, 'duplicate candidate "Sam Lee" for County Council - At Large']
+    ]);
+  });
+
+  it('should fail when the list does not have the profile\'s columns', async () => {
+    const filePath = path.join(tmpDir, 'list.csv');
+    fs.writeFileSync(filePath, 'Candidate List\nOffice,Candidate\nMayor,Jane Smith\n', 'utf8');
+    const profile = loadOfficialListProfile('anchorage', FIXTURES_DIR);
+
+    await expect(readOfficialCandidateList(filePath, profile)).rejects.toThrow('missing the profile\'s columns: Seat, First Name, Last Name, Party, Website (found: Office, Candidate)');
+  });
+
+  it('should validate candidate list profiles', () => {
+    const profilePath = path.join(tmpDir, 'broken.yaml');
+    fs.writeFileSync(profilePath, 'jurisdiction: Somewhere\nstate: AK\ntype: regional\ncolumns:\n  office: Office\n', 'utf8');
+
+    expect(() => loadOfficialListProfile(profilePath)).toThrow(/type: Unknown election type "regional".*Either "name" or both "firstName" and "lastName" are required/);
+    expect(() => loadOfficialListProfile('unknown', FIXTURES_DIR)).toThrow('Candidate list profile not found: unknown');
+  });
+
+  it('should load the example profile', () => {
+    const profile = loadOfficialListProfile('example', path.join(__dirname, '../../official-profiles'));
+
+    expect(profile).toMatchObject({ id: 'example', state: 'PA', type: ElectionType.LOCAL, electionDate: '2025-11-04' });
+  });
+});
@@ -0,0 +1,70 @@
+import path from 'path';
+import { FixtureResearchProvider, createResearchProvider } from '../../src/apis/research';
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const FIXTURE_RUN_DIR = path.join(__dirname, '../fixtures/runs/2025-04-01_09-00-00');
+const ELECTION_NAME = 'Alaska,Anchorage,Anchorage general election,2025-04-01';
+
+describe('Research providers', () => {
+  describe('FixtureResearchProvider', () => {
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+
+    it('should replay a recorded response by exact prompt', async () => {
+      const response = await provider.research({
+        stage: 'candidates',
+        prompt: '  Recorded candidates query\n   for Mayor ',
+        electionName: 'Some other election',
+      });
+
+      expect(response.text).toContain('"name": "Jane Smith"');
+    });
+
+    it('should fall back to the election and position file names', async () => {
+      const positions = await provider.research({ stage: 'positions', prompt: 'a new prompt', electionName: ELECTION_NAME });
+      const candidates = await provider.research({
+        stage: 'candidates',
+        prompt: 'a new prompt',
+        electionName: ELECTION_NAME,
+        positionName: 'Assembly Member - District 3',
+      });
+
+      expect(positions.text).toContain('positions_up_for_election');
+      expect(candidates.text).toContain('Maria Lopez');
+    });
+
+    it('should replay the recorded structured JSON for transformations', async () => {
+      const response = await provider.transform({ stage: 'transform', prompt: 'transform', electionName: ELECTION_NAME });
+
+      expect(JSON.parse(response.text).elections).toHaveLength(2);
+    });
+
+    it('should reject requests that were never recorded', async () => {
+      await expect(provider.research({ stage: 'positions', prompt: 'unknown', electionName: 'Unknown election' }))
+        .rejects.toThrow('No recorded positions response for "Unknown election"');
+      await expect(provider.transform({ stage: 'transform', prompt: 'unknown', electionName: 'Unknown election' }))
+        .rejects.toThrow('No recorded transform response for "Unknown election"');
+    });
+  });
+
+  describe('createResearchProvider', () => {
+    it('should create the requested provider', () => {
+      expect(createResearchProvider({ provider: 'gemini' }).name).toBe('gemini');
+      expect(createResearchProvider({ provider: 'fixture', fixtureRunDir: FIXTURE_RUN_DIR }).name).toBe('fixture');
+    });
+
+    it('should reject unknown providers and missing fixture directories', () => {
+      expect(() => createResearchProvider({ provider: 'unknown' })).toThrow('Unknown research provider: unknown');
+      expect(() => createResearchProvider({ provider: 'fixture', fixtureRunDir: path.join(FIXTURE_RUN_DIR, 'missing') }))
+        .toThrow('Fixture run directory not found');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readVipFeed, streamVipFeed } from '../../src/apis/vip';
+import { ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const VIP_FILE = path.join(__dirname, '../fixtures/vip/anchorage.xml');
+const SOURCE = 'VIP feed: Anchorage Regular Municipal Election (anchorage.xml)';
+
+describe('VIP feed importer', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vip-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should map candidate contests to official races', async () => {
+    const { election, races } = await readVipFeed(VIP_FILE);
+
+    expect(election).toEqual({ name: 'Anchorage Regular Municipal Election', date: new Date('2025-04-01'), state: 'Alaska' });
+    expect(races.map(race => [race.position.positionName, race.position.city, race.position.type, race.position.positions])).toEqual([
+      ['Mayor', 'Anchorage', ElectionType.LOCAL, 1],
+      ['Assembly Member - District 3', '', ElectionType.LOCAL, 2],
+      ['State Representative - District 16', '', ElectionType.STATE, 1]
+    ]);
+    expect(races[0].position).toMatchObject({
+      electionDate: new Date('2025-04-01'),
+      state: 'Alaska',
+      description: 'Mayor (official ballot of the Anchorage Regular Municipal Election)',
+      official: true
+    });
+  });
+
+  it('should map candidates with their person, party and incumbency, leaving out withdrawn candidates', async () => {
+    const { races } = await readVipFeed(VIP_FILE);
+
+    expect(races[0].candidates).toEqual([
+      {
+        fullName: 'Jane Smith',
+        currentPosition: 'Incumbent Mayor',
+        description: '',
+        keyPolicies: [],
+        sources: [SOURCE],
+        party: 'Nonpartisan',
+        state: 'Alaska',
+        campaignUrl: 'https://janesmith.example.org',
+        official: true
+      },
+      expect.objectContaining({ fullName: 'Richard A. Roe, Jr.', currentPosition: '', campaignUrl: 'https://richardroe.example.org' })
+    ]);
+    expect(races[1].candidates.map(candidate => [candidate.fullName, candidate.party])).toEqual([['Maria Lopez', undefined]]);
+    expect(races[2].candidates.map(candidate => [candidate.fullName, candidate.party])).toEqual([['Sam Rivers', 'Republican']]);
+  });
+
+  it('should report contests that cannot be resolved', async () => {
+    const { errors } = await readVipFeed(VIP_FILE);
+
+    expect(errors.map(error => [error.row, error.message, error.record])).toEqual([
+      [3, 'unknown ballot selection cs9', { id: 'cc3', name: 'State Representative - District 15' }],
+      [3, 'no candidates', { id: 'cc3', name: 'State Representative - District 15' }]
+    ]);
+  });
+
+  it('should keep only the objects needed for contests while streaming', async () => {
+    const feed = await streamVipFeed(VIP_FILE);
+
+    expect(feed.CandidateContest.size).toBe(4);
+    expect(feed).not.toHaveProperty('StreetSegment');
+    expect(feed).not.toHaveProperty('BallotMeasureContest');
+  });
+
+  it('should fail on a malformed feed or a feed without an election', async () => {
+    const malformed = path.join(tmpDir, 'malformed.xml');
+    fs.writeFileSync(malformed, '<VipObject><Election id="ele1"><Date>2025-04-01</Date></VipObject>', 'utf8');
+    const noElection = path.join(tmpDir, 'empty.xml');
+    fs.writeFileSync(noElection, '<VipObject><State id="st1"><Name>Alaska</Name></State></VipObject>', 'utf8');
+
+    await expect(readVipFeed(malformed)).rejects.toThrow(/Invalid VIP XML in .*malformed\.xml/);
+    await expect(readVipFeed(noElection)).rejects.toThrow('VIP feed has no Election');
+    await expect(readVipFeed(path.join(tmpDir, 'missing.xml'))).rejects.toThrow('VIP feed not found');
+  });
+});
@@ -0,0 +1,265 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli, ExitCode } from '../../src/cli';
+import { parseArgs, UsageError } from '../../src/cli/args';
+import { runPipeline } from '../../src/services/pipeline';
+import { LinkVerifier } from '../../src/services/link-verifier';
+import { replayRun } from '../../src/services/replay';
+import { getStoredElections, pruneElections } from '../../src/services/db';
+import { matchesElectionFilter } from '../../src/utils/election-filter';
+
+// The Civic API is not used with CSV input
+jest.mock('googleapis', () => ({
+  google: {
+    civicinfo: jest.fn().mockImplementation(() => ({}))
+  }
+}));
+
+jest.mock('../../src/services/pipeline', () => ({
+  runPipeline: jest.fn()
+}));
+
+jest.mock('../../src/services/replay', () => ({
+  replayRun: jest.fn()
+}));
+
+jest.mock('../../src/services/db', () => ({
+  ...jest.requireActual('../../src/services/db/diff'),
+  getStoredElections: jest.fn(),
+  pruneElections: jest.fn()
+}));
+
+// Commands that call the APIs check the environment first
+jest.mock('../../src/config', () => ({
+  ...jest.requireActual('../../src/config'),
+  validateConfig: jest.fn()
+}));
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CSV_FILE = path.join(__dirname, '../fixtures/csv/anchorage.csv');
+const VIP_FILE = path.join(__dirname, '../fixtures/vip/anchorage.xml');
+
+const pipelineResult = {
+  runId: '2025-04-01_09-00-00',
+  elections: [],
+  quarantined: [],
+  storeSummary: {
+    elections: { created: 1, updated: 0, unchanged: 0 },
+    candidates: { created: 2, updated: 0, unchanged: 0 },
+    suggestions: 0
+  }
+};
+
+const diff = {
+  elections: [{
+    position: 'Mayor',
+    date: new Date('2025-04-01'),
+    city: 'Anchorage',
+    state: 'Alaska',
+    status: 'new',
+    changes: [],
+    candidates: { added: ['Jane Smith'], removed: [], changed: [] }
+  }],
+  totals: { newElections: 1, changedElections: 0, unchangedElections: 0, addedCandidates: 1, removedCandidates: 0, changedCandidates: 0 }
+};
+
+describe('CLI', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const output = (spy: jest.SpyInstance) => spy.mock.calls.map(([chunk]) => String(chunk)).join('');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    (runPipeline as jest.Mock).mockResolvedValue(pipelineResult);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  it('should list the commands with --help', async () => {
+    await expect(runCli(['--help'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(output(stdout)).toContain('Usage: election-source <command> [options]');
+    expect(output(stdout)).toContain('db prune');
+    expect(output(stdout)).toContain('runs list');
+  });
+
+  it('should show the options of a command', async () => {
+    await expect(runCli(['ingest', '--help'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(output(stdout)).toContain('Usage: election-source ingest (--csv <file> | --manifest <file> | --civic | --resume <runId>) [options]');
+    expect(output(stdout)).toContain('--since <date>');
+    expect(runPipeline).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [[], ''],
+    [['frobnicate'], 'Unknown command: frobnicate'],
+    [['db'], 'Missing db command (expected one of: prune)'],
+    [['ingest', '--csv', CSV_FILE, '--bogus'], 'Unknown option: --bogus'],
+    [['ingest'], 'Choose an election source: --csv <file>, --manifest <file> or --civic'],
+    [['ingest', '--csv', CSV_FILE, '--manifest', 'elections.yaml'], 'Options --csv and --manifest cannot be combined'],
+    [['ingest', '--civic', '--official', 'candidates.csv'], 'Options --official and --official-profile must be given together'],
+    [['ingest', '--civic', '--limit', 'ten'], 'Option --limit must be a non-negative integer'],
+    [['ingest', '--civic', '--since', '04/01/2025'], 'Option --since must be a date in YYYY-MM-DD format'],
+    [['ingest', '--civic', '--consistency', '1'], 'Option --consistency needs at least 2 runs'],
+    [['replay'], 'Missing required argument: <runId>'],
+    [['vip', 'import'], 'Missing required argument: <file>']
+  ])('should exit with the usage code for %p', async (argv, message) => {
+    await expect(runCli(argv)).resolves.toBe(ExitCode.USAGE);
+
+    expect(output(stderr)).toContain(message);
+    expect(runPipeline).not.toHaveBeenCalled();
+  });
+
+  it('should ingest a CSV file with filters and a limit', async () => {
+    await expect(runCli(['ingest', '--csv', CSV_FILE, '--state', 'AK', '--since=2025-01-01', '--limit', '1', '--verify-links'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(runPipeline).toHaveBeenCalledWith(expect.objectContaining({
+      csvFilePath: CSV_FILE,
+      filter: { state: 'AK', since: new Date('2025-01-01'), until: undefined },
+      limit: 1,
+      logging: true,
+      dryRun: false,
+      linkVerifier: expect.any(LinkVerifier)
+    }));
+    expect(output(stdout)).toContain('Stored elections: 1 created, 0 updated, 0 unchanged');
+  });
+
+  it('should print the diff against the database on a dry run', async () => {
+    (runPipeline as jest.Mock).mockResolvedValue({ ...pipelineResult, storeSummary: undefined, diff });
+
+    await expect(runCli(['ingest', '--civic', '--dry-run', '--no-ai-logs'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(runPipeline).toHaveBeenCalledWith(expect.objectContaining({ csvFilePath: undefined, logging: false, dryRun: true }));
+    expect(output(stdout)).toContain('Dry run, nothing was stored');
+    expect(output(stdout)).toContain('+ Mayor, Anchorage, Alaska (2025-04-01) [new election]\n  + candidate Jane Smith');
+  });
+
+  it('should print only the JSON diff with --json', async () => {
+    (runPipeline as jest.Mock).mockResolvedValue({ ...pipelineResult, storeSummary: undefined, diff });
+
+    await expect(runCli(['ingest', '--civic', '--dry-run', '--json'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(JSON.parse(output(stdout)).totals).toEqual(diff.totals);
+    await expect(runCli(['ingest', '--civic', '--json'])).resolves.toBe(ExitCode.USAGE);
+  });
+
+  it('should exit with the failure code when the pipeline fails', async () => {
+    (runPipeline as jest.Mock).mockRejectedValue(new Error('Election data pipeline failed'));
+
+    await expect(runCli(['ingest', '--civic'])).resolves.toBe(ExitCode.FAILURE);
+    expect(output(stderr)).toContain('Error: Election data pipeline failed');
+  });
+
+  it('should research a single election found by name', async () => {
+    await expect(runCli(['research', 'anchorage general', '--csv', CSV_FILE, '--consistency', '3'])).resolves.toBe(ExitCode.SUCCESS);
+
+    const { elections, consistency } = (runPipeline as jest.Mock).mock.calls[0][0];
+    expect(consistency).toEqual({ runs: 3 });
+    expect(elections).toHaveLength(1);
+    expect(elections[0].name).toContain('Anchorage general election');
+  });
+
+  it('should fail to research an election that is not in the source', async () => {
+    await expect(runCli(['research', 'Springfield', '--csv', CSV_FILE])).resolves.toBe(ExitCode.FAILURE);
+
+    expect(output(stderr)).toContain('No election matches "Springfield"');
+    expect(runPipeline).not.toHaveBeenCalled();
+  });
+
+  it('should replay a run as a dry run', async () => {
+    (replayRun as jest.Mock).mockResolvedValue({ ...pipelineResult, replayedRunId: '2025-04-01_09-00-00' });
+
+    await expect(runCli(['replay', '2025-04-01_09-00-00', '--dry-run'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(replayRun).toHaveBeenCalledWith('2025-04-01_09-00-00', expect.objectContaining({ dryRun: true }));
+    expect(output(stdout)).toContain('Replayed run 2025-04-01_09-00-00');
+  });
+
+  it('should import a VIP feed as a dry run', async () => {
+    await expect(runCli(['vip', 'import', VIP_FILE, '--since', '2025-01-01', '--dry-run'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(runPipeline).toHaveBeenCalledWith(expect.objectContaining({
+      vipFilePath: VIP_FILE,
+      filter: { state: undefined, since: new Date('2025-01-01'), until: undefined },
+      logging: true,
+      dryRun: true
+    }));
+  });
+
+  it('should export stored elections to a file', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-'));
+    const outputFile = path.join(outputDir, 'elections.json');
+    (getStoredElections as jest.Mock).mockResolvedValue([{ id: 1, position: 'Mayor', candidates: [] }]);
+
+    try {
+      await expect(runCli(['export', '--state', 'Alaska', '--output', outputFile])).resolves.toBe(ExitCode.SUCCESS);
+
+      expect(getStoredElections).toHaveBeenCalledWith(expect.objectContaining({ state: 'Alaska' }));
+      expect(JSON.parse(fs.readFileSync(outputFile, 'utf8'))).toEqual({ elections: [{ id: 1, position: 'Mayor', candidates: [] }] });
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report what a dry-run prune would delete', async () => {
+    const election = { id: 3, position: 'Mayor', date: new Date('2024-04-02'), city: 'Anchorage', state: 'Alaska', candidates: 2 };
+    (pruneElections as jest.Mock).mockResolvedValue({ pruned: [election], kept: [] });
+
+    await expect(runCli(['db', 'prune', '--dry-run'])).resolves.toBe(ExitCode.SUCCESS);
+
+    expect(pruneElections).toHaveBeenCalledWith(expect.objectContaining({ dryRun: true }));
+    expect(output(stdout)).toContain('Would delete: #3 Mayor, Anchorage, Alaska (2024-04-02, 2 candidates)');
+  });
+});
+
+describe('parseArgs', () => {
+  const definitions = {
+    csv: { type: 'string' as const, description: 'CSV file' },
+    'dry-run': { type: 'boolean' as const, description: 'Dry run' }
+  };
+
+  it('should parse positionals, values and flags', () => {
+    expect(parseArgs(['name', '--csv', 'a.csv', '--dry-run', '--', '--not-an-option'], definitions)).toEqual({
+      positionals: ['name', '--not-an-option'],
+      options: { csv: 'a.csv', 'dry-run': true }
+    });
+  });
+
+  it('should reject a missing value and a value on a flag', () => {
+    expect(() => parseArgs(['--csv'], definitions)).toThrow(UsageError);
+    expect(() => parseArgs(['--csv', '--dry-run'], definitions)).toThrow('Option --csv requires a value');
+    expect(() => parseArgs(['--dry-run=yes'], definitions)).toThrow('Option --dry-run does not take a value');
+  });
+});
+
+describe('matchesElectionFilter', () => {
+  const election = { state: 'Alaska', date: new Date('2025-04-01T18:00:00Z') };
+
+  it.each([
+    [{ state: 'ak' }, true],
+    [{ state: 'Alabama' }, false],
+    [{ since: new Date('2025-04-01'), until: new Date('2025-04-01') }, true],
+    [{ since: new Date('2025-04-02') }, false],
+    [{ until: new Date('2025-03-31') }, false]
+  ])('should match %p: %p', (filter, expected) => {
+    expect(matchesElectionFilter(election, filter)).toBe(expected);
+  });
+});
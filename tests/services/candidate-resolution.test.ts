@@ -0,0 +1,150 @@
+import { compareCandidates, findCandidateMatch, MATCH_THRESHOLD, parsePersonName, resolveCandidateDuplicates, REVIEW_THRESHOLD } from '../../src/services/candidate-resolution';
+import { Candidate, DetailedElection, ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function buildCandidate(overrides: Partial<Candidate> = {}): Candidate {
+  return {
+    fullName: 'Robert Smith',
+    currentPosition: 'Assembly Member',
+    description: 'Long-time assembly member',
+    keyPolicies: [{ title: 'Housing', description: 'Build more homes' }],
+    sources: ['City website'],
+    ...overrides,
+  };
+}
+
+function buildElection(candidates: Candidate[]): DetailedElection {
+  return {
+    position: 'Mayor',
+    date: new Date('2025-04-01'),
+    city: 'Anchorage',
+    state: 'Alaska',
+    description: 'Chief executive of the municipality',
+    type: ElectionType.LOCAL,
+    candidates,
+  };
+}
+
+describe('Candidate resolution', () => {
+  it('should parse name order, titles, suffixes and nicknames', () => {
+    expect(parsePersonName('Smith, Robert J.')).toEqual({ first: 'robert', middle: ['j'], last: 'smith', suffix: '' });
+    expect(parsePersonName('Dr. Bob "Bobby" Smith, Jr.')).toEqual({ first: 'robert', middle: [], last: 'smith', suffix: 'jr' });
+  });
+
+  it('should score nicknames, middle initials and spelling differences as the same person', () => {
+    expect(compareCandidates({ name: 'Bob Smith' }, { name: 'Robert J. Smith' }).score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+    expect(compareCandidates({ name: 'Smith, Robert' }, { name: 'Robert Smith' }).score).toBe(1);
+    expect(compareCandidates({ name: 'Katherine Johnson' }, { name: 'Katherine Jonson' }).score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+
+  it('should keep different people apart and leave conflicts for review', () => {
+    expect(compareCandidates({ name: 'Maria Lopez' }, { name: 'Mario Lopez' }).score).toBeLessThan(MATCH_THRESHOLD);
+    expect(compareCandidates({ name: 'Jane Smith' }, { name: 'John Doe' }).score).toBeLessThan(REVIEW_THRESHOLD);
+
+    const juniors = compareCandidates({ name: 'John Smith Jr.' }, { name: 'John Smith Sr.' });
+    expect(juniors.score).toBeLessThan(MATCH_THRESHOLD);
+    expect(juniors.reasons).toContain('different suffixes');
+  });
+
+  it.each([
+    ['Daniel Smith', 'Danielle Smith'],
+    ['Robert Jones', 'Roberta Jones'],
+    ['Michael Brown', 'Michaela Brown'],
+  ])('should leave %s and %s for review instead of merging them', (a, b) => {
+    const { score } = compareCandidates({ name: a }, { name: b });
+    expect(score).toBeLessThan(MATCH_THRESHOLD);
+    expect(score).toBeGreaterThanOrEqual(REVIEW_THRESHOLD);
+  });
+
+  it('should leave first names only spelled alike for review', () => {
+    const { score, reasons } = compareCandidates({ name: 'John Smith' }, { name: 'Jon Smith' });
+
+    expect(score).toBeLessThan(MATCH_THRESHOLD);
+    expect(score).toBeGreaterThanOrEqual(REVIEW_THRESHOLD);
+    expect(reasons[0]).toMatch(/^similar first names/);
+  });
+
+  it('should not merge gendered variants of a first name running in the same race', () => {
+    const { elections: [resolved], report } = resolveCandidateDuplicates([
+      buildElection([buildCandidate({ fullName: 'Daniel Smith' }), buildCandidate({ fullName: 'Danielle Smith' })]),
+    ]);
+
+    expect(resolved.candidates.map(candidate => candidate.fullName)).toEqual(['Daniel Smith', 'Danielle Smith']);
+    expect(report.merged).toEqual([]);
+    expect(report.review).toEqual([expect.objectContaining({ candidate: 'Danielle Smith', match: 'Daniel Smith' })]);
+  });
+
+  it('should match on a shared link unless the last names differ', () => {
+    const sameProfile = compareCandidates(
+      { name: 'Jen Smith', linkedin: 'https://www.linkedin.com/in/janesmith' },
+      { name: 'Jennifer Smith', linkedin: 'linkedin.com/in/janesmith/' }
+    );
+    expect(sameProfile).toEqual({ score: 0.98, reasons: expect.arrayContaining(['same LinkedIn profile']) });
+
+    const sameTwitter = compareCandidates({ name: 'J. Smith', twitter: '@jsmith' }, { name: 'Jane Smith', twitter: 'https://x.com/JSmith' });
+    expect(sameTwitter.score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+
+    const slate = compareCandidates({ name: 'Jane Smith', website: 'https://reform-slate.org' }, { name: 'Ann Lee', website: 'reform-slate.org' });
+    expect(slate.score).toBe(REVIEW_THRESHOLD);
+  });
+
+  it('should not pick a match when several candidates match almost as well', () => {
+    const { match, ambiguous } = findCandidateMatch({ name: 'J. Smith' }, [{ name: 'John Smith' }, { name: 'Jane Smith' }]);
+
+    expect(match).toBeUndefined();
+    expect(ambiguous.map(result => result.record.name)).toEqual(['John Smith', 'Jane Smith']);
+
+    // An exact name is still told apart from a first initial
+    expect(findCandidateMatch({ name: 'Jane Smith' }, [{ name: 'J. Smith' }, { name: 'Jane Smith' }]).match?.record.name).toBe('Jane Smith');
+  });
+
+  it('should merge duplicates within an election and report uncertain pairs', () => {
+    const elections = [buildElection([
+      buildCandidate({ fullName: 'Bob Smith', campaignUrl: 'https://bobsmith.com' }),
+      buildCandidate({
+        fullName: 'Robert J. Smith',
+        official: true,
+        party: 'Nonpartisan',
+        sources: ['Election office'],
+        keyPolicies: [{ title: 'housing', description: 'More homes' }, { title: 'Transit', description: 'More buses' }],
+      }),
+      buildCandidate({ fullName: 'John A. Doe' }),
+      buildCandidate({ fullName: 'John B. Doe' }),
+    ])];
+
+    const { elections: resolved, report } = resolveCandidateDuplicates(elections);
+
+    expect(resolved[0].candidates.map(candidate => candidate.fullName)).toEqual(['Robert J. Smith', 'John A. Doe', 'John B. Doe']);
+    expect(resolved[0].candidates[0]).toMatchObject({
+      official: true,
+      party: 'Nonpartisan',
+      campaignUrl: 'https://bobsmith.com',
+      sources: ['Election office', 'City website'],
+      keyPolicies: [{ title: 'housing', description: 'More homes' }, { title: 'Transit', description: 'More buses' }],
+    });
+    expect(report.merged).toEqual([
+      expect.objectContaining({ election: 'Mayor (2025-04-01)', kept: 'Robert J. Smith', merged: 'Robert J. Smith' }),
+    ]);
+    expect(report.review).toEqual([
+      expect.objectContaining({ candidate: 'John B. Doe', match: 'John A. Doe', reasons: ['different middle names'] }),
+    ]);
+  });
+
+  it('should leave elections without duplicates untouched', () => {
+    const election = buildElection([buildCandidate({ fullName: 'Jane Smith' }), buildCandidate({ fullName: 'John Doe' })]);
+
+    const { elections, report } = resolveCandidateDuplicates([election]);
+
+    expect(elections[0]).toBe(election);
+    expect(report).toEqual({ merged: [], review: [] });
+  });
+});
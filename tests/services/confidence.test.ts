@@ -0,0 +1,121 @@
+import { confirmOfficialFields, scoreCandidate, scoreElections } from '../../src/services/confidence';
+import { ResearchGrounding } from '../../src/apis/research';
+import { Candidate, DetailedElection, ElectionType, SourceRecord } from '../../src/models/types';
+
+const grounding: ResearchGrounding = { searchQueries: ['Anchorage mayor candidates 2025'], sources: [], claims: [] };
+const thresholds = { holdBelow: 0.3, flagBelow: 0.6 };
+
+function source(uri: string, fields: string[]): SourceRecord {
+  return { uri, title: '', fields, claims: [], searchQueries: [] };
+}
+
+function buildCandidate(overrides: Partial<Candidate> = {}): Candidate {
+  return {
+    fullName: 'Jane Smith',
+    currentPosition: 'Assembly Member',
+    description: 'Two-term assembly member and former small business owner.',
+    keyPolicies: [],
+    sources: [],
+    party: 'Nonpartisan',
+    twitter: '@janesmith',
+    provenance: [
+      source('https://www.muni.org/elections/candidates', ['fullName', 'party', 'currentPosition']),
+      source('https://www.adn.com/politics/2025/02/mayor-race', ['fullName', 'party']),
+      // A second page of the same site is not an independent source
+      source('https://www.adn.com/politics/2025/03/debate', ['fullName', 'party']),
+    ],
+    ...overrides,
+  };
+}
+
+describe('scoreCandidate', () => {
+  it('should score fields on the independent sites backing them and hold back unsupported optional fields', () => {
+    const scored = scoreCandidate(buildCandidate(), { positionName: 'Mayor', grounding }, thresholds);
+
+    expect(scored.party).toBe('Nonpartisan');
+    expect(scored.confidence?.party).toEqual({ score: 0.75, status: 'confident', sources: 2, official: false });
+    expect(scored.confidence?.currentPosition).toMatchObject({ score: 0.55, status: 'flagged', sources: 1 });
+    // Required fields are flagged, optional ones are held back
+    expect(scored.confidence?.description).toMatchObject({ score: 0.2, status: 'flagged' });
+    expect(scored.twitter).toBeUndefined();
+    expect(scored.confidence?.twitter).toEqual({ score: 0.2, status: 'held', sources: 0, official: false, heldValue: '@janesmith' });
+  });
+
+  it('should raise stable values and lower those a second answer does not give', () => {
+    const recheckResponse = '{"candidates": [{"name": "Jane Smith", "party": "Nonpartisan", "twitter": "@janesmith2025"}]}';
+
+    const scored = scoreCandidate(buildCandidate(), { positionName: 'Mayor', recheckResponse }, thresholds);
+
+    // Without grounding metadata, scores start from the middle
+    expect(scored.confidence?.party).toMatchObject({ score: 0.6, status: 'confident', stable: true });
+    expect(scored.confidence?.twitter).toMatchObject({ score: 0.2, status: 'held', stable: false });
+    expect(scored.confidence?.currentPosition).toMatchObject({ score: 0.2, status: 'flagged', stable: false });
+  });
+
+  it('should not score empty fields or placeholders', () => {
+    const scored = scoreCandidate(buildCandidate({ party: 'N/A', twitter: undefined }), undefined, thresholds);
+
+    expect(Object.keys(scored.confidence || {})).toEqual(['currentPosition', 'description']);
+  });
+
+  it('should not score the defaults filled in for missing required fields', () => {
+    const scored = scoreCandidate(
+      buildCandidate({ currentPosition: 'Candidate', description: 'No description found', party: undefined, twitter: undefined }),
+      { positionName: 'Mayor', grounding },
+      thresholds
+    );
+
+    expect(scored.confidence).toBeUndefined();
+  });
+});
+
+describe('scoreElections', () => {
+  it('should use the evidence of each election\'s position', () => {
+    const election: DetailedElection = {
+      position: 'Mayor',
+      date: new Date('2025-04-01'),
+      city: 'Anchorage',
+      state: 'Alaska',
+      description: 'Chief executive of the Municipality of Anchorage',
+      type: ElectionType.LOCAL,
+      candidates: [buildCandidate()],
+    };
+
+    const [scored] = scoreElections([election], [{ positionName: 'Anchorage Mayor', grounding }], thresholds);
+
+    expect(scored.candidates[0].confidence?.twitter?.status).toBe('held');
+  });
+});
+
+describe('confirmOfficialFields', () => {
+  it('should give full confidence to the fields an official list gives', () => {
+    const scored = scoreCandidate(buildCandidate(), { positionName: 'Mayor', grounding }, thresholds);
+
+    const confirmed = confirmOfficialFields({ ...scored, twitter: '@janesmith' }, ['fullName', 'twitter']);
+
+    expect(confirmed.confidence?.twitter).toEqual({ score: 1, status: 'confident', sources: 0, official: true });
+    expect(confirmed.confidence?.party).toEqual(scored.confidence?.party);
+  });
+
+  it('should flag official values the research disagrees with', () => {
+    const researched = scoreCandidate(buildCandidate(), { positionName: 'Mayor', grounding }, thresholds);
+
+    const confirmed = confirmOfficialFields(
+      { ...researched, party: 'Democratic Party', twitter: '@JaneSmith' },
+      ['party', 'twitter'],
+      researched
+    );
+
+    expect(confirmed.confidence?.party).toEqual({ score: 1, status: 'flagged', sources: 2, official: true, disagreedValue: 'Nonpartisan' });
+    // The held back handle is the same one
+    expect(confirmed.confidence?.twitter).toEqual({ score: 1, status: 'confident', sources: 0, official: true });
+  });
+
+  it('should give confidence to the fields of an official candidate without research', () => {
+    const official: Candidate = { fullName: 'Richard Roe', currentPosition: 'Candidate', description: '', keyPolicies: [], sources: [], party: 'Republican' };
+
+    expect(confirmOfficialFields(official, ['fullName', 'currentPosition', 'party']).confidence).toEqual({
+      party: { score: 1, status: 'confident', sources: 0, official: true },
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { transformElectionData } from '../../src/services/data-transformer';
+import { AIDataLogger } from '../../src/utils/ai-data-logger';
+import { Candidate, DetailedElection, ElectionType } from '../../src/models/types';
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+/**
+ * Builds a valid candidate
+ */
+function candidate(fullName: string, overrides: Partial<Candidate> = {}): Candidate {
+  return {
+    fullName,
+    currentPosition: 'Candidate',
+    description: `${fullName} is running for office`,
+    keyPolicies: [{ title: 'Housing', description: 'Build more homes' }],
+    sources: ['https://example.com'],
+    campaignUrl: 'example.com',
+    ...overrides
+  };
+}
+
+/**
+ * Builds a valid election
+ */
+function election(position: string, candidates: Candidate[], overrides: Partial<DetailedElection> = {}): DetailedElection {
+  return {
+    position,
+    date: new Date('2025-04-01'),
+    city: 'Anchorage',
+    state: 'Alaska',
+    description: `${position} of Anchorage`,
+    type: ElectionType.LOCAL,
+    candidates,
+    ...overrides
+  };
+}
+
+describe('transformElectionData', () => {
+  it('should pass valid records through with standardized URLs', () => {
+    const result = transformElectionData([election('Mayor', [candidate('Jane Smith')])]);
+
+    expect(result.quarantined).toEqual([]);
+    expect(result.elections).toHaveLength(1);
+    expect(result.elections[0].candidates[0].campaignUrl).toBe('https://example.com');
+  });
+
+  it('should give social links their canonical URLs and handles', () => {
+    const result = transformElectionData([election('Mayor', [candidate('Jane Smith', {
+      twitter: 'https://x.com/janesmith?s=20',
+      linkedinUrl: 'https://uk.linkedin.com/in/janesmith?trk=people-guest',
+    }), candidate('John Doe', { twitter: 'N/A' })])]);
+
+    const [jane, john] = result.elections[0].candidates;
+    expect(jane.twitter).toBe('@janesmith');
+    expect(jane.linkedinUrl).toBe('https://www.linkedin.com/in/janesmith');
+    expect(jane.socials).toEqual({
+      x: { handle: 'janesmith', url: 'https://x.com/janesmith' },
+      linkedin: { handle: 'janesmith', url: 'https://www.linkedin.com/in/janesmith' },
+    });
+    expect(john.twitter).toBeUndefined();
+    expect(john.socials).toBeUndefined();
+  });
+
+  it('should quarantine an invalid candidate and keep the rest of the election', () => {
+    const invalid = candidate('John Doe', { sources: 'https://example.com/john' as unknown as string[] });
+
+    const result = transformElectionData([election('Mayor', [candidate('Jane Smith'), invalid])]);
+
+    expect(result.elections[0].candidates.map(c => c.fullName)).toEqual(['Jane Smith']);
+    expect(result.quarantined).toEqual([
+      expect.objectContaining({
+        kind: 'candidate',
+        election: 'Mayor',
+        candidate: 'John Doe',
+        errors: expect.stringContaining('sources: Expected array, received string')
+      })
+    ]);
+  });
+
+  it('should quarantine an invalid election without losing the others', () => {
+    const result = transformElectionData([
+      election('Mayor', [candidate('Jane Smith')], { date: new Date('not a date') }),
+      election('Assembly Member - District 3', [candidate('Ann Lee')])
+    ]);
+
+    expect(result.elections.map(e => e.position)).toEqual(['Assembly Member - District 3']);
+    expect(result.quarantined).toHaveLength(1);
+    expect(result.quarantined[0]).toMatchObject({ kind: 'election', election: 'Mayor' });
+    expect(result.quarantined[0].errors).toContain('date: Invalid date');
+  });
+});
+
+describe('AIDataLogger.logValidationResults', () => {
+  let logDir: string;
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it('should write the quarantine file and add the counts to the run summary', () => {
+    const aiLogger = new AIDataLogger(logDir);
+    aiLogger.createRunSummary(1, new Date());
+    const invalid = candidate('John Doe', { fullName: undefined as unknown as string });
+    const result = transformElectionData([election('Mayor', [candidate('Jane Smith'), invalid])]);
+
+    aiLogger.logValidationResults(result);
+
+    const quarantine = JSON.parse(fs.readFileSync(path.join(aiLogger.getRunDir(), 'quarantine.json'), 'utf8'));
+    expect(quarantine).toHaveLength(1);
+    expect(quarantine[0].errors).toContain('fullName: Required');
+
+    const summary = fs.readFileSync(path.join(aiLogger.getRunDir(), 'run_summary.txt'), 'utf8');
+    expect(summary).toContain('Elections processed: 1');
+    expect(summary).toContain('- Elections: 1 valid, 0 quarantined');
+    expect(summary).toContain('- Candidates: 1 valid, 1 quarantined');
+  });
+});
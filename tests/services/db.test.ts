@@ -0,0 +1,515 @@
+import { storeElectionData, diffElectionData, formatDiff, getStoredElections, pruneElections } from '../../src/services/db';
+import { DetailedElection, ElectionType } from '../../src/models/types';
+
+// In-memory stand-in for the Prisma tables used by the db service
+jest.mock('@prisma/client', () => {
+  const tables: Record<string, any[]> = { election: [], candidate: [], candidateSuggestion: [], candidateSource: [], candidateFieldConfidence: [], testimonial: [] };
+
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([field, condition]: [string, any]) => {
+    if (condition === undefined) return true;
+    if (condition && typeof condition === 'object' && 'some' in condition) {
+      return Array.isArray(row[field]) && row[field].length > 0;
+    }
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return condition.in.includes(row[field]);
+    }
+    if (condition && typeof condition === 'object' && ('gte' in condition || 'lt' in condition)) {
+      return (condition.gte === undefined || row[field] >= condition.gte) && (condition.lt === undefined || row[field] < condition.lt);
+    }
+    return row[field] === condition;
+  });
+
+  // Only the election -> candidates relation is needed
+  const withIncludes = (row: any, include: any) => include?.candidates
+    ? { ...row, candidates: tables.candidate.filter(candidate => candidate.electionId === row.id) }
+    : row;
+
+  // Compound unique keys of the schema, named like Prisma names them ("candidateId_uri")
+  const uniqueKeys: Record<string, string[][]> = { candidateSource: [['candidateId', 'uri']], candidateFieldConfidence: [['candidateId', 'field']] };
+
+  // Finds the row of a unique `where`, which like Prisma's must be the ID or one compound key
+  const findUniqueRow = (name: string, where: any) => {
+    if (Object.keys(where).length === 1 && 'id' in where) {
+      return tables[name].find(row => row.id === where.id);
+    }
+    const fields = (uniqueKeys[name] || []).find(key => Object.keys(where).length === 1 && key.join('_') in where);
+    if (!fields) {
+      throw new Error(`Invalid ${name} unique where: ${JSON.stringify(where)}`);
+    }
+    const values = where[fields.join('_')];
+    return tables[name].find(row => fields.every(field => row[field] === values[field]));
+  };
+
+  const insert = (name: string, defaults: Record<string, unknown>, data: any) => {
+    for (const fields of uniqueKeys[name] || []) {
+      if (tables[name].some(row => fields.every(field => row[field] === data[field]))) {
+        throw new Error(`Unique constraint failed on the fields: (${fields.join(', ')})`);
+      }
+    }
+    const row = { id: tables[name].length + 1, ...defaults, ...data };
+    tables[name].push(row);
+    return row;
+  };
+
+  const model = (name: string, defaults: Record<string, unknown> = {}) => ({
+    findMany: jest.fn(async ({ where, include }: any = {}) => tables[name].filter(row => matches(row, where)).map(row => withIncludes(row, include))),
+    findFirst: jest.fn(async ({ where }: any = {}) => tables[name].find(row => matches(row, where)) || null),
+    count: jest.fn(async ({ where }: any = {}) => tables[name].filter(row => matches(row, where)).length),
+    findUnique: jest.fn(async ({ where }: any) => findUniqueRow(name, where) || null),
+    create: jest.fn(async ({ data }: any) => insert(name, defaults, data)),
+    upsert: jest.fn(async ({ where, create, update }: any) => {
+      const row = findUniqueRow(name, where);
+      return row ? Object.assign(row, update) : insert(name, defaults, create);
+    }),
+    update: jest.fn(async ({ where, data }: any) => {
+      const row = tables[name].find(existing => existing.id === where.id);
+      Object.assign(row, data);
+      return row;
+    }),
+    delete: jest.fn(async ({ where }: any) => {
+      const index = tables[name].findIndex(existing => existing.id === where.id);
+      return tables[name].splice(index, 1)[0];
+    }),
+    deleteMany: jest.fn(async ({ where }: any) => {
+      const kept = tables[name].filter(row => !matches(row, where));
+      const count = tables[name].length - kept.length;
+      tables[name].splice(0, tables[name].length, ...kept);
+      return { count };
+    }),
+  });
+
+  const client: any = {
+    election: model('election'),
+    candidate: model('candidate'),
+    candidateSuggestion: model('candidateSuggestion', { status: 'PENDING' }),
+    candidateSource: model('candidateSource'),
+    candidateFieldConfidence: model('candidateFieldConfidence'),
+    testimonial: model('testimonial'),
+    $transaction: jest.fn(async (fn: (tx: any) => Promise<unknown>) => fn(client)),
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => client),
+    __tables: tables,
+  };
+});
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const tables: Record<string, any[]> = jest.requireMock('@prisma/client').__tables;
+
+function buildElection(overrides: Partial<DetailedElection> = {}): DetailedElection {
+  return {
+    position: 'Mayor',
+    date: new Date('2025-04-01'),
+    city: 'Anchorage',
+    state: 'Alaska',
+    description: 'Chief executive of the municipality',
+    type: ElectionType.LOCAL,
+    candidates: [
+      {
+        fullName: 'Jane Smith',
+        currentPosition: 'Assembly Member',
+        description: 'Long-time assembly member',
+        keyPolicies: [{ title: 'Housing', description: 'Build more homes' }],
+        sources: ['City website'],
+        party: 'Nonpartisan',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('Database storage', () => {
+  beforeEach(() => {
+    tables.election.length = 0;
+    tables.candidate.length = 0;
+    tables.candidateSuggestion.length = 0;
+    tables.candidateSource.length = 0;
+    tables.candidateFieldConfidence.length = 0;
+    tables.testimonial.length = 0;
+  });
+
+  it('should create new elections and candidates', async () => {
+    const summary = await storeElectionData([buildElection()]);
+
+    expect(summary).toEqual({
+      elections: { created: 1, updated: 0, unchanged: 0 },
+      candidates: { created: 1, updated: 0, unchanged: 0 },
+      suggestions: 0,
+    });
+    expect(tables.election).toHaveLength(1);
+    expect(tables.candidate[0]).toMatchObject({ name: 'Jane Smith', electionId: 1, policies: ['Housing: Build more homes'] });
+  });
+
+  it('should store the seats of an election, one when they are unknown', async () => {
+    await storeElectionData([buildElection({ position: 'School Board', positions: 3 }), buildElection()]);
+
+    expect(tables.election.map(election => [election.position, election.positions])).toEqual([['School Board', 3], ['Mayor', 1]]);
+  });
+
+  it('should leave rows unchanged when the same input is stored again', async () => {
+    await storeElectionData([buildElection()]);
+    const summary = await storeElectionData([buildElection()]);
+
+    expect(summary).toEqual({
+      elections: { created: 0, updated: 0, unchanged: 1 },
+      candidates: { created: 0, updated: 0, unchanged: 1 },
+      suggestions: 0,
+    });
+    expect(tables.election).toHaveLength(1);
+    expect(tables.candidate).toHaveLength(1);
+  });
+
+  it('should match on normalized natural keys and update changed fields', async () => {
+    await storeElectionData([buildElection()]);
+
+    const rerun = buildElection({
+      position: '  MAYOR ',
+      city: 'anchorage',
+      date: new Date('2025-04-01T15:30:00Z'),
+      description: 'Chief executive of Anchorage',
+    });
+    rerun.candidates[0] = { ...rerun.candidates[0], fullName: 'jane  smith', party: 'Independent' };
+    rerun.candidates.push({
+      fullName: 'John Doe',
+      currentPosition: 'Business Owner',
+      description: 'Local business owner',
+      keyPolicies: [],
+      sources: [],
+    });
+
+    const summary = await storeElectionData([rerun]);
+
+    expect(summary).toEqual({
+      elections: { created: 0, updated: 1, unchanged: 0 },
+      candidates: { created: 1, updated: 1, unchanged: 0 },
+      suggestions: 0,
+    });
+    expect(tables.election[0].description).toBe('Chief executive of Anchorage');
+    expect(tables.candidate).toHaveLength(2);
+    expect(tables.candidate[0]).toMatchObject({ name: 'jane  smith', party: 'Independent' });
+  });
+
+  it('should not clear stored values when an incoming field is missing', async () => {
+    const election = buildElection();
+    election.candidates[0].linkedinUrl = 'https://www.linkedin.com/in/janesmith';
+    await storeElectionData([election]);
+
+    const summary = await storeElectionData([buildElection()]);
+
+    expect(summary.candidates.unchanged).toBe(1);
+    expect(tables.candidate[0].linkedin).toBe('https://www.linkedin.com/in/janesmith');
+  });
+
+  it('should match elections on their canonical position', async () => {
+    await storeElectionData([buildElection({ position: 'Council Member, District 3' })]);
+    const summary = await storeElectionData([buildElection({ position: 'Anchorage City Councilwoman - Dist. 03' })]);
+
+    expect(summary.elections.created).toBe(0);
+    expect(tables.election).toHaveLength(1);
+  });
+
+  it('should keep elections on different dates separate', async () => {
+    await storeElectionData([buildElection()]);
+    const summary = await storeElectionData([buildElection({ date: new Date('2025-11-04') })]);
+
+    expect(summary.elections.created).toBe(1);
+    expect(tables.election).toHaveLength(2);
+  });
+
+  it('should store a candidate\'s sources once per page and add what a later run finds', async () => {
+    const source = {
+      uri: 'https://www.adn.com/mayor-race',
+      title: 'adn.com',
+      fields: ['fullName', 'party'],
+      claims: ['Jane Smith is running as a nonpartisan candidate.'],
+      searchQueries: ['Anchorage mayor candidates 2025'],
+    };
+    const election = buildElection();
+    election.candidates[0].provenance = [source];
+    await storeElectionData([election]);
+
+    const rerun = buildElection();
+    rerun.candidates[0].provenance = [{ ...source, fields: ['fullName', 'keyPolicies'], claims: ['Smith wants to build more homes.'] }];
+    await storeElectionData([rerun]);
+
+    expect(tables.candidateSource).toEqual([expect.objectContaining({
+      candidateId: 1,
+      uri: 'https://www.adn.com/mayor-race',
+      fields: ['fullName', 'party', 'keyPolicies'],
+      claims: ['Jane Smith is running as a nonpartisan candidate.', 'Smith wants to build more homes.'],
+    })]);
+  });
+
+  it('should store the confidence in each field and keep a held back party out of the record', async () => {
+    await storeElectionData([buildElection()]);
+
+    const rerun = buildElection();
+    delete rerun.candidates[0].party;
+    rerun.candidates[0].confidence = {
+      party: { score: 0.2, status: 'held', sources: 0, official: false, heldValue: 'Republican' },
+      description: { score: 0.75, status: 'confident', sources: 2, official: false, stable: true },
+    };
+    await storeElectionData([rerun]);
+
+    expect(tables.candidate[0].party).toBe('Nonpartisan');
+    expect(tables.candidateFieldConfidence).toEqual([
+      expect.objectContaining({ candidateId: 1, field: 'party', score: 0.2, status: 'held', heldValue: 'Republican', stable: null }),
+      expect.objectContaining({ candidateId: 1, field: 'description', score: 0.75, status: 'confident', sources: 2, stable: true }),
+    ]);
+  });
+
+  it('should update a source a concurrent store wrote first instead of failing', async () => {
+    const election = buildElection();
+    election.candidates[0].provenance = [{ uri: 'https://www.adn.com/mayor-race', title: 'adn.com', fields: ['party'], claims: [], searchQueries: [] }];
+    await storeElectionData([election]);
+
+    // The other store's row was written after this store looked it up
+    const client = new (jest.requireMock('@prisma/client').PrismaClient)();
+    client.candidateSource.findUnique.mockResolvedValueOnce(null);
+    election.candidates[0].provenance = [{ uri: 'https://www.adn.com/mayor-race', title: 'adn.com', fields: ['party', 'description'], claims: [], searchQueries: [] }];
+    await storeElectionData([election]);
+
+    expect(tables.candidateSource).toEqual([expect.objectContaining({ candidateId: 1, fields: ['party', 'description'] })]);
+  });
+
+  it('should update a field\'s confidence a concurrent store wrote first instead of failing', async () => {
+    const election = buildElection();
+    election.candidates[0].confidence = { party: { score: 0.55, status: 'flagged', sources: 1, official: false } };
+    await storeElectionData([election]);
+
+    // The other store's row was written after this store looked it up
+    const client = new (jest.requireMock('@prisma/client').PrismaClient)();
+    client.candidateFieldConfidence.findUnique.mockResolvedValueOnce(null);
+    election.candidates[0].confidence = { party: { score: 0.75, status: 'confident', sources: 2, official: false } };
+    await storeElectionData([election]);
+
+    expect(tables.candidateFieldConfidence).toEqual([expect.objectContaining({ candidateId: 1, field: 'party', score: 0.75, status: 'confident' })]);
+  });
+
+  describe('verified and claimed candidates', () => {
+    const rerunWithNewBio = () => {
+      const election = buildElection();
+      election.candidates[0] = {
+        ...election.candidates[0],
+        description: 'AI-written biography',
+        currentPosition: 'Deputy Mayor',
+      };
+      return election;
+    };
+
+    it.each([
+      ['verified', { verified: true }],
+      ['claimed', { clerkUserId: 'user_123' }],
+    ])('should store protected field changes on %s candidates as pending suggestions', async (_label, claim) => {
+      await storeElectionData([buildElection()]);
+      Object.assign(tables.candidate[0], claim, { bio: 'Written by the campaign' });
+
+      const summary = await storeElectionData([rerunWithNewBio()]);
+
+      expect(tables.candidate[0].bio).toBe('Written by the campaign');
+      expect(tables.candidate[0].position).toBe('Deputy Mayor');
+      expect(summary.candidates.updated).toBe(1);
+      expect(summary.suggestions).toBe(1);
+      expect(tables.candidateSuggestion).toEqual([
+        expect.objectContaining({
+          candidateId: 1,
+          field: 'bio',
+          currentValue: 'Written by the campaign',
+          suggestedValue: 'AI-written biography',
+          source: 'ingestion',
+        }),
+      ]);
+    });
+
+    it('should not duplicate an identical pending suggestion on re-runs', async () => {
+      await storeElectionData([buildElection()]);
+      Object.assign(tables.candidate[0], { verified: true, bio: 'Written by the campaign' });
+
+      await storeElectionData([rerunWithNewBio()]);
+      const summary = await storeElectionData([rerunWithNewBio()]);
+
+      expect(summary.suggestions).toBe(0);
+      expect(tables.candidateSuggestion).toHaveLength(1);
+    });
+
+    it('should overwrite fields of unclaimed candidates', async () => {
+      await storeElectionData([buildElection()]);
+
+      const summary = await storeElectionData([rerunWithNewBio()]);
+
+      expect(tables.candidate[0].bio).toBe('AI-written biography');
+      expect(summary.suggestions).toBe(0);
+    });
+  });
+
+  describe('reading and pruning stored elections', () => {
+    beforeEach(async () => {
+      await storeElectionData([
+        buildElection({ date: new Date('2024-04-02') }),
+        buildElection({ position: 'School Board', date: new Date('2024-04-02'), state: 'AK' }),
+        buildElection({ date: new Date('2025-04-01') }),
+      ]);
+    });
+
+    it('should read stored elections with their candidates by state and date', async () => {
+      const elections = await getStoredElections({ state: 'Alaska', until: new Date('2024-12-31') });
+
+      expect(elections.map(election => election.position)).toEqual(['Mayor', 'School Board']);
+      expect(elections[0].candidates).toEqual([expect.objectContaining({ name: 'Jane Smith' })]);
+    });
+
+    it('should only report past elections on a dry run', async () => {
+      const result = await pruneElections({ before: new Date('2025-01-01'), dryRun: true });
+
+      expect(result.pruned.map(election => election.id)).toEqual([1, 2]);
+      expect(tables.election).toHaveLength(3);
+    });
+
+    it('should delete past elections with their candidates and suggestions', async () => {
+      tables.candidateSuggestion.push({ id: 1, candidateId: 1, field: 'bio', status: 'PENDING' });
+
+      const result = await pruneElections({ before: new Date('2025-01-01') });
+
+      expect(result.pruned).toHaveLength(2);
+      expect(tables.election.map(election => election.id)).toEqual([3]);
+      expect(tables.candidate.map(candidate => candidate.electionId)).toEqual([3]);
+      expect(tables.candidateSuggestion).toHaveLength(0);
+    });
+
+    it('should keep past elections with verified, claimed or endorsed candidates', async () => {
+      tables.candidate[0].verified = true;
+      tables.testimonial.push({ id: 1, candidateId: 2 });
+
+      const result = await pruneElections({ before: new Date('2025-01-01') });
+
+      expect(result.pruned).toHaveLength(0);
+      expect(result.kept.map(election => election.id)).toEqual([1, 2]);
+      expect(tables.election).toHaveLength(3);
+    });
+
+    it('should keep past elections with candidates linked to vendors', async () => {
+      tables.candidate[1].Vendor = [{ id: 1 }];
+
+      const result = await pruneElections({ before: new Date('2025-01-01') });
+
+      expect(result.pruned.map(election => election.id)).toEqual([1]);
+      expect(result.kept.map(election => election.id)).toEqual([2]);
+      expect(tables.candidate.map(candidate => candidate.electionId)).toEqual([2, 3]);
+    });
+  });
+
+  describe('entity resolution', () => {
+    it('should link a candidate stored under another spelling and keep the stored name', async () => {
+      await storeElectionData([buildElection({ candidates: [{ ...buildElection().candidates[0], fullName: 'Robert J. Smith' }] })]);
+
+      const rerun = buildElection();
+      rerun.candidates[0] = { ...rerun.candidates[0], fullName: 'Bob Smith', party: 'Independent' };
+      const summary = await storeElectionData([rerun]);
+
+      expect(summary.candidates).toEqual({ created: 0, updated: 1, unchanged: 0 });
+      expect(summary.resolution?.linked).toEqual([
+        expect.objectContaining({ candidate: 'Bob Smith', existing: 'Robert J. Smith', existingId: 1, election: 'Mayor (2025-04-01)' }),
+      ]);
+      expect(tables.candidate).toHaveLength(1);
+      expect(tables.candidate[0]).toMatchObject({ name: 'Robert J. Smith', party: 'Independent' });
+    });
+
+    it('should create uncertain matches as new candidates and list them for review', async () => {
+      await storeElectionData([buildElection({ candidates: [{ ...buildElection().candidates[0], fullName: 'John A. Smith' }] })]);
+
+      const rerun = buildElection();
+      rerun.candidates[0] = { ...rerun.candidates[0], fullName: 'John B. Smith' };
+      const summary = await storeElectionData([rerun]);
+
+      expect(summary.candidates.created).toBe(1);
+      expect(summary.resolution).toEqual({
+        linked: [],
+        review: [expect.objectContaining({ candidate: 'John B. Smith', match: 'John A. Smith', existingId: 1, reasons: ['different middle names'] })],
+      });
+      expect(tables.candidate).toHaveLength(2);
+    });
+
+    it('should report a linked candidate as changed, not as added and removed, on a dry run', async () => {
+      await storeElectionData([buildElection({ candidates: [{ ...buildElection().candidates[0], fullName: 'Jennifer Smith', linkedinUrl: 'https://linkedin.com/in/janesmith' }] })]);
+
+      const rerun = buildElection();
+      rerun.candidates[0] = { ...rerun.candidates[0], fullName: 'Jen Smith', linkedinUrl: 'https://www.linkedin.com/in/janesmith/', party: 'Independent' };
+      const diff = await diffElectionData([rerun]);
+
+      expect(diff.elections[0].candidates).toEqual({
+        added: [],
+        removed: [],
+        changed: [expect.objectContaining({ id: 1, name: 'Jennifer Smith' })],
+      });
+    });
+  });
+
+  describe('dry-run diff', () => {
+    it('should report new elections and candidates without writing', async () => {
+      const diff = await diffElectionData([buildElection()]);
+
+      expect(diff.elections[0]).toMatchObject({ status: 'new', candidates: { added: ['Jane Smith'], removed: [], changed: [] } });
+      expect(diff.totals).toMatchObject({ newElections: 1, addedCandidates: 1 });
+      expect(tables.election).toHaveLength(0);
+      expect(tables.candidate).toHaveLength(0);
+    });
+
+    it('should report field changes and new, removed and protected candidates', async () => {
+      const stored = buildElection();
+      stored.candidates.push({ fullName: 'John Doe', currentPosition: 'Business Owner', description: 'Owner', keyPolicies: [], sources: [] });
+      await storeElectionData([stored]);
+      tables.candidate[0].verified = true;
+
+      const rerun = buildElection({ description: 'Chief executive of Anchorage' });
+      rerun.candidates[0] = { ...rerun.candidates[0], description: 'AI-written biography', party: 'Independent' };
+      rerun.candidates.push({ fullName: 'Ann Lee', currentPosition: 'Teacher', description: 'Teacher', keyPolicies: [], sources: [] });
+
+      const diff = await diffElectionData([rerun]);
+
+      expect(diff.elections[0]).toMatchObject({
+        status: 'changed',
+        electionId: 1,
+        changes: [{ field: 'description', from: 'Chief executive of the municipality', to: 'Chief executive of Anchorage' }],
+        candidates: {
+          added: ['Ann Lee'],
+          removed: ['John Doe'],
+          changed: [{
+            id: 1,
+            name: 'Jane Smith',
+            changes: [
+              { field: 'party', from: 'Nonpartisan', to: 'Independent' },
+              { field: 'bio', from: 'Long-time assembly member', to: 'AI-written biography', suggested: true }
+            ]
+          }]
+        }
+      });
+      expect(tables.election[0].description).toBe('Chief executive of the municipality');
+      expect(tables.candidate).toHaveLength(2);
+
+      const formatted = formatDiff(diff);
+      expect(formatted).toContain('~ Mayor, Anchorage, Alaska (2025-04-01) [election #1]');
+      expect(formatted).toContain('  - candidate John Doe (not in the new data, kept)');
+      expect(formatted).toContain('bio: "Long-time assembly member" -> "AI-written biography" (pending suggestion: verified or claimed candidate)');
+      expect(formatted).toContain('Elections: 0 new, 1 changed, 0 unchanged. Candidates: 1 new, 1 removed, 1 changed.');
+    });
+
+    it('should report unchanged elections', async () => {
+      await storeElectionData([buildElection()]);
+
+      const diff = await diffElectionData([buildElection()]);
+
+      expect(diff.elections[0].status).toBe('unchanged');
+      expect(formatDiff(diff)).toBe('Elections: 0 new, 0 changed, 1 unchanged. Candidates: 0 new, 0 removed, 0 changed.');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { applyLinkChecks, createHttpFetcher, LinkFetcher, LinkVerifier, verifyElectionLinks } from '../../src/services/link-verifier';
+import { Candidate, DetailedElection, ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+// Pages of the stub, by path; the host of the requested URL is ignored
+const PAGES: Record<string, { status: number; headers?: Record<string, string>; body?: string }> = {
+  '/in/jane-smith-anchorage': { status: 200, body: '<html><head><title>Jane Smith - Anchorage Assembly | LinkedIn</title></head></html>' },
+  '/in/janesmith': { status: 301, headers: { Location: 'https://www.linkedin.com/in/jane-smith-anchorage' } },
+  '/janesmith': { status: 200, body: '<html><head><title>Jane Smith (@janesmith) / X</title></head></html>' },
+  '/in/jdoe': { status: 200, body: '<html><head><title>John Doe | LinkedIn</title></head></html>' },
+  '/campaign': { status: 200, body: '<html><head><title>Elect Jane for Mayor</title></head><body><p>Jane Smith has served Anchorage for ten years.</p></body></html>' },
+  '/parked': { status: 200, body: '<html><head><title>This domain is for sale</title></head></html>' },
+  '/photo.jpg': { status: 200, headers: { 'Content-Type': 'image/jpeg' }, body: 'jpeg' },
+  '/blocked': { status: 999 },
+};
+
+let server: http.Server;
+let stubUrl: string;
+const requests: string[] = [];
+
+// Sends every request to the stub, keeping its path
+const stubFetcher: LinkFetcher = url => {
+  const { pathname } = new URL(url);
+  return createHttpFetcher(2000)(`${stubUrl}${pathname}`);
+};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push(req.url || '');
+    const page = PAGES[req.url || ''] || { status: 404, body: '<html><head><title>Page not found</title></head></html>' };
+    res.writeHead(page.status, { 'Content-Type': 'text/html', ...page.headers });
+    res.end(page.body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  stubUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+function buildCandidate(overrides: Partial<Candidate> = {}): Candidate {
+  return {
+    fullName: 'Jane Smith',
+    currentPosition: 'Assembly Member',
+    description: 'Two-term assembly member',
+    keyPolicies: [],
+    sources: [],
+    ...overrides,
+  };
+}
+
+describe('LinkVerifier', () => {
+  it('should follow redirects and match the page title and handle with the candidate', async () => {
+    const verifier = new LinkVerifier({ fetcher: stubFetcher });
+
+    const checks = await verifier.verifyCandidate(buildCandidate({
+      linkedinUrl: 'https://linkedin.com/in/janesmith',
+      twitter: '@janesmith',
+      campaignUrl: 'https://janesmithformayor.com/campaign',
+      imageUrl: 'https://janesmithformayor.com/photo.jpg',
+    }));
+
+    expect(checks).toEqual([
+      {
+        candidate: 'Jane Smith',
+        field: 'linkedinUrl',
+        url: 'https://linkedin.com/in/janesmith',
+        status: 200,
+        redirects: ['https://www.linkedin.com/in/jane-smith-anchorage'],
+        finalUrl: 'https://www.linkedin.com/in/jane-smith-anchorage',
+        title: 'Jane Smith - Anchorage Assembly | LinkedIn',
+        handle: 'jane-smith-anchorage',
+        matchesName: true,
+        verdict: 'ok',
+      },
+      expect.objectContaining({ field: 'campaignUrl', title: 'Elect Jane for Mayor', matchesName: true, verdict: 'ok' }),
+      expect.objectContaining({ field: 'twitter', url: 'https://x.com/janesmith', handle: 'janesmith', verdict: 'ok' }),
+      expect.objectContaining({ field: 'imageUrl', status: 200, verdict: 'ok' }),
+    ]);
+  });
+
+  it('should find dead, mismatched and blocked links', async () => {
+    const verifier = new LinkVerifier({ fetcher: stubFetcher });
+
+    const checks = await verifier.verifyCandidate(buildCandidate({
+      linkedinUrl: 'https://www.linkedin.com/in/jdoe',
+      campaignUrl: 'https://smith2025.com/parked',
+      twitter: 'https://x.com/blocked',
+      imageUrl: 'https://smith2025.com/missing.jpg',
+    }));
+
+    expect(checks.map(check => [check.field, check.status, check.verdict])).toEqual([
+      ['linkedinUrl', 200, 'mismatch'],
+      // The host names the candidate, though the page does not
+      ['campaignUrl', 200, 'ok'],
+      ['twitter', 999, 'unverified'],
+      ['imageUrl', 404, 'dead'],
+    ]);
+  });
+
+  it('should request each URL once', async () => {
+    const verifier = new LinkVerifier({ fetcher: stubFetcher });
+
+    await verifier.verifyLink('Jane Smith', 'linkedinUrl', 'https://linkedin.com/in/janesmith');
+    await verifier.verifyLink('Jane Smith', 'linkedinUrl', 'https://linkedin.com/in/janesmith');
+
+    expect(requests).toEqual(['/in/janesmith', '/in/jane-smith-anchorage']);
+  });
+
+  it('should treat hosts that do not exist as dead and stop after too many redirects', async () => {
+    const fetcher: LinkFetcher = async url => {
+      if (url.includes('gone.example')) {
+        throw Object.assign(new TypeError('fetch failed'), { cause: { code: 'ENOTFOUND' } });
+      }
+      return { status: 302, location: `${url}x` };
+    };
+    const verifier = new LinkVerifier({ fetcher, maxRedirects: 2 });
+
+    const dead = await verifier.verifyLink('Jane Smith', 'campaignUrl', 'https://gone.example/');
+    const looping = await verifier.verifyLink('Jane Smith', 'campaignUrl', 'https://loop.example/a');
+
+    expect(dead).toMatchObject({ verdict: 'dead', error: 'ENOTFOUND' });
+    expect(looping).toMatchObject({ verdict: 'unverified', redirects: ['https://loop.example/ax', 'https://loop.example/axx'] });
+  });
+});
+
+describe('applyLinkChecks', () => {
+  it('should hold back dead links and flag mismatched ones', () => {
+    const candidate = buildCandidate({
+      linkedinUrl: 'https://www.linkedin.com/in/jdoe',
+      imageUrl: 'https://smith2025.com/missing.jpg',
+      confidence: { linkedinUrl: { score: 0.75, status: 'confident', sources: 2, official: false } },
+    });
+
+    const applied = applyLinkChecks(candidate, [
+      { candidate: 'Jane Smith', field: 'linkedinUrl', url: candidate.linkedinUrl as string, redirects: [], finalUrl: '', verdict: 'mismatch' },
+      { candidate: 'Jane Smith', field: 'imageUrl', url: candidate.imageUrl as string, redirects: [], finalUrl: '', verdict: 'dead' },
+    ]);
+
+    expect(applied.linkedinUrl).toBe('https://www.linkedin.com/in/jdoe');
+    expect(applied.imageUrl).toBeUndefined();
+    expect(applied.confidence).toEqual({
+      linkedinUrl: { score: 0.4, status: 'flagged', sources: 2, official: false },
+      imageUrl: { score: 0, status: 'held', sources: 0, official: false, heldValue: 'https://smith2025.com/missing.jpg' },
+    });
+  });
+});
+
+describe('verifyElectionLinks', () => {
+  it('should check every candidate of every election', async () => {
+    const election: DetailedElection = {
+      position: 'Mayor',
+      date: new Date('2025-04-01'),
+      city: 'Anchorage',
+      state: 'Alaska',
+      description: 'Chief executive of the Municipality of Anchorage',
+      type: ElectionType.LOCAL,
+      candidates: [
+        buildCandidate({ twitter: '@janesmith' }),
+        buildCandidate({ fullName: 'John Doe', campaignUrl: 'https://doe.example/gone' }),
+      ],
+    };
+
+    const { elections, checks } = await verifyElectionLinks([election], new LinkVerifier({ fetcher: stubFetcher }));
+
+    expect(checks.map(check => check.verdict)).toEqual(['ok', 'dead']);
+    expect(elections[0].candidates[0].twitter).toBe('@janesmith');
+    expect(elections[0].candidates[1].campaignUrl).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { mergeOfficialRaces } from '../../src/services/official-merge';
+import { OfficialRace } from '../../src/apis/official';
+import { Candidate, DetailedElection, ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const date = new Date('2025-04-01');
+
+function candidate(fullName: string, fields: Partial<Candidate> = {}): Candidate {
+  return { fullName, currentPosition: '', description: '', keyPolicies: [], sources: [], ...fields };
+}
+
+function officialRace(positionName: string, candidates: Candidate[]): OfficialRace {
+  return {
+    position: {
+      positionName,
+      electionDate: date,
+      city: 'Anchorage',
+      state: 'Alaska',
+      description: `${positionName} (candidate list of the Clerk)`,
+      type: ElectionType.LOCAL,
+      positions: 1,
+      official: true
+    },
+    candidates: candidates.map(official => ({ ...official, official: true, sources: ['Official candidate list: Clerk'] }))
+  };
+}
+
+function researched(position: string, candidates: Candidate[], city = 'Anchorage'): DetailedElection {
+  return { position, date, city, state: 'Alaska', description: `Researched ${position}`, type: ElectionType.LOCAL, candidates };
+}
+
+describe('mergeOfficialRaces', () => {
+  it('should put official candidates first and fill them in from research', () => {
+    const { elections, report } = mergeOfficialRaces(
+      [
+        researched('School Board', [candidate('Ann Lee')]),
+        researched('mayor', [
+          candidate('John Doe', { party: 'Independent' }),
+          candidate('JANE SMITH', { party: 'Nonpartisan', description: 'Assembly member', campaignUrl: 'https://old.example.org', sources: ['Anchorage Daily News'] })
+        ])
+      ],
+      [officialRace('Mayor', [candidate('Jane Smith', { campaignUrl: 'https://janesmith.example.org' }), candidate('Richard Roe')])]
+    );
+
+    expect(elections.map(election => [election.position, election.official])).toEqual([
+      ['Mayor', true],
+      ['School Board', undefined]
+    ]);
+    expect(elections[0].description).toBe('Researched mayor');
+    expect(elections[0].candidates).toEqual([
+      {
+        fullName: 'Jane Smith',
+        currentPosition: '',
+        description: 'Assembly member',
+        keyPolicies: [],
+        party: 'Nonpartisan',
+        campaignUrl: 'https://janesmith.example.org',
+        sources: ['Official candidate list: Clerk', 'Anchorage Daily News'],
+        official: true,
+        // The research found another campaign site
+        confidence: {
+          campaignUrl: { score: 1, status: 'flagged', sources: 0, official: true, disagreedValue: 'https://old.example.org' }
+        }
+      },
+      expect.objectContaining({ fullName: 'Richard Roe', official: true })
+    ]);
+    expect(report).toEqual({
+      matchedRaces: ['Mayor (2025-04-01)'],
+      addedRaces: [],
+      enrichedCandidates: 1,
+      droppedCandidates: [{ election: 'Mayor', candidate: 'John Doe' }]
+    });
+  });
+
+  it('should add official races without a researched election', () => {
+    const { elections, report } = mergeOfficialRaces(
+      [researched('Mayor', [candidate('Jane Smith')], 'Juneau')],
+      [officialRace('Mayor', [candidate('Jane Smith', { party: 'Nonpartisan' })])]
+    );
+
+    expect(elections.map(election => [election.position, election.city])).toEqual([
+      ['Mayor', 'Anchorage'],
+      ['Mayor', 'Juneau']
+    ]);
+    expect(elections[0].description).toBe('Mayor (candidate list of the Clerk)');
+    expect(elections[0].candidates[0].confidence).toEqual({ party: { score: 1, status: 'confident', sources: 0, official: true } });
+    expect(report.addedRaces).toEqual(['Mayor (2025-04-01)']);
+  });
+});
@@ -0,0 +1,429 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runPipeline } from '../../src/services/pipeline';
+import { LinkVerifier } from '../../src/services/link-verifier';
+import { diffElectionData, storeElectionData } from '../../src/services/db';
+import { FixtureResearchProvider, ResearchProvider } from '../../src/apis/research';
+import { AIDataLogger } from '../../src/utils/ai-data-logger';
+import { RunCheckpoint } from '../../src/utils/run-checkpoint';
+import { getElectionsFromCsv } from '../../src/apis/csv';
+import { loadOfficialListProfile } from '../../src/apis/official';
+import { ElectionType } from '../../src/models/types';
+
+// The Civic API is not used with CSV input
+jest.mock('googleapis', () => ({
+  google: {
+    civicinfo: jest.fn().mockImplementation(() => ({}))
+  }
+}));
+
+// Valid elections are stored through the regular db service
+jest.mock('../../src/services/db', () => ({
+  ...jest.requireActual('../../src/services/db/diff'),
+  diffElectionData: jest.fn().mockResolvedValue({
+    elections: [],
+    totals: { newElections: 2, changedElections: 0, unchangedElections: 0, addedCandidates: 3, removedCandidates: 0, changedCandidates: 0 }
+  }),
+  storeElectionData: jest.fn().mockResolvedValue({
+    elections: { created: 2, updated: 0, unchanged: 0 },
+    candidates: { created: 3, updated: 0, unchanged: 0 },
+    suggestions: 0
+  }),
+  getStoredElections: jest.fn().mockResolvedValue([])
+}));
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const FIXTURE_RUN_DIR = path.join(__dirname, '../fixtures/runs/2025-04-01_09-00-00');
+const CSV_FILE = path.join(__dirname, '../fixtures/csv/anchorage.csv');
+const MANIFEST_FILE = path.join(__dirname, '../fixtures/manifest/anchorage.yaml');
+const OFFICIAL_DIR = path.join(__dirname, '../fixtures/official');
+const VIP_FILE = path.join(__dirname, '../fixtures/vip/anchorage.xml');
+
+describe('runPipeline', () => {
+  let logDir: string;
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should run every stage offline against a recorded run', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+
+    const result = await runPipeline({
+      csvFilePath: CSV_FILE,
+      aiLogger,
+      provider: new FixtureResearchProvider(FIXTURE_RUN_DIR),
+    });
+
+    expect(result.runId).toBe(aiLogger.getRunId());
+    expect(result.elections.map(election => [election.position, election.positions])).toEqual([['Mayor', 1], ['Assembly Member - District 3', 1]]);
+    expect(result.elections[0].candidates.map(candidate => candidate.fullName)).toEqual(['Jane Smith', 'John Doe']);
+    expect(result.quarantined).toEqual([]);
+    expect(storeElectionData).toHaveBeenCalledWith(result.elections);
+    expect(result.storeSummary?.elections.created).toBe(2);
+
+    // Every stage is logged and checkpointed in the new run
+    const queries = fs.readdirSync(path.join(aiLogger.getRunDir(), 'gemini-queries'));
+    expect(queries).toHaveLength(3);
+    const checkpoint = new RunCheckpoint(aiLogger.getRunDir());
+    for (const stage of ['source', 'validate', 'resolve', 'store']) {
+      expect(checkpoint.has(RunCheckpoint.key(stage))).toBe(true);
+    }
+  });
+
+  it('should not research or store again when resuming a completed run', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    await runPipeline({ csvFilePath: CSV_FILE, aiLogger, provider });
+
+    const research = jest.spyOn(provider, 'research');
+    const result = await runPipeline({ aiLogger: new AIDataLogger(logDir, aiLogger.getRunId()), provider });
+
+    expect(result.elections).toHaveLength(2);
+    expect(research).not.toHaveBeenCalled();
+    expect(storeElectionData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the stored elections, with their links checked, when resuming a completed run', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    const completed = await runPipeline({
+      csvFilePath: CSV_FILE,
+      aiLogger,
+      provider,
+      linkVerifier: new LinkVerifier({ fetcher: jest.fn().mockResolvedValue({ status: 404 }) }),
+    });
+
+    const result = await runPipeline({ aiLogger: new AIDataLogger(logDir, aiLogger.getRunId()), provider });
+
+    expect(result.elections[0].candidates[0].linkedinUrl).toBeUndefined();
+    expect(result.elections).toEqual(completed.elections);
+    expect(new RunCheckpoint(aiLogger.getRunDir()).has(RunCheckpoint.key('resolve'))).toBe(true);
+  });
+
+  it('should run without AI data logging or storage', async () => {
+    const result = await runPipeline({
+      csvFilePath: CSV_FILE,
+      provider: new FixtureResearchProvider(FIXTURE_RUN_DIR),
+      logging: false,
+      store: false,
+      concurrency: 1,
+    });
+
+    expect(result.runId).toBeUndefined();
+    expect(result.elections).toHaveLength(2);
+    expect(result.storeSummary).toBeUndefined();
+    expect(storeElectionData).not.toHaveBeenCalled();
+  });
+
+  it('should give the reason a run failed', async () => {
+    await expect(runPipeline({
+      csvFilePath: path.join(__dirname, '../fixtures/csv/missing.csv'),
+      provider: new FixtureResearchProvider(FIXTURE_RUN_DIR),
+      logging: false,
+    })).rejects.toThrow(/^Election data pipeline failed: .*missing\.csv/);
+  });
+
+  it('should skip elections whose research fails and keep the others', async () => {
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    const elections = [
+      { name: 'Unrecorded election', state: 'Alaska', district: 'Juneau', description: 'Unrecorded', date: new Date('2025-04-01') },
+      ...await getElectionsFromCsv(CSV_FILE)
+    ];
+
+    const result = await runPipeline({ elections, provider, logging: false, store: false });
+
+    expect(result.elections.map(election => election.position)).toEqual(['Mayor', 'Assembly Member - District 3']);
+  });
+
+  it('should quarantine a candidate still invalid after the repair attempts and store the others', async () => {
+    // A copy of the recorded run whose transformation gives John Doe an invalid policy
+    const runDir = path.join(logDir, 'invalid-run');
+    fs.cpSync(FIXTURE_RUN_DIR, runDir, { recursive: true });
+    const rawFile = path.join(runDir, 'gemini-json', 'alaska_anchorage_anchorage_general_election_2025_04_01_raw.json');
+    const raw = JSON.parse(fs.readFileSync(rawFile, 'utf8'));
+    raw.elections[0].candidates[1].keyPolicies = [{ title: 'Port modernization', description: 42 }];
+    fs.writeFileSync(rawFile, JSON.stringify(raw));
+    const provider = new FixtureResearchProvider(runDir);
+    const transform = jest.spyOn(provider, 'transform');
+
+    const result = await runPipeline({ csvFilePath: CSV_FILE, provider, logging: false });
+
+    // The first response and two repair attempts
+    expect(transform).toHaveBeenCalledTimes(3);
+    expect(result.quarantined).toEqual([expect.objectContaining({ kind: 'candidate', election: 'Mayor', candidate: 'John Doe' })]);
+    expect(result.elections.map(election => election.position)).toEqual(['Mayor', 'Assembly Member - District 3']);
+    expect(result.elections[0].candidates.map(candidate => candidate.fullName)).toEqual(['Jane Smith']);
+    expect(storeElectionData).toHaveBeenCalledWith(result.elections);
+  });
+
+  it('should only research elections matching the filter', async () => {
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    const research = jest.spyOn(provider, 'research');
+    const elections = [
+      { name: 'Juneau municipal election', state: 'Alaska', district: 'Juneau', description: 'Unrecorded', date: new Date('2025-10-07') },
+      { name: 'Tacoma general election', state: 'Washington', district: 'Tacoma', description: 'Unrecorded', date: new Date('2025-04-01') },
+      ...await getElectionsFromCsv(CSV_FILE)
+    ];
+
+    const result = await runPipeline({
+      elections,
+      provider,
+      filter: { state: 'AK', until: new Date('2025-06-30') },
+      logging: false,
+      store: false,
+    });
+
+    expect(result.elections).toHaveLength(2);
+    expect(new Set(research.mock.calls.map(([request]) => request.electionName))).toEqual(new Set([elections[2].name]));
+  });
+
+  it('should not query positions already listed in a manifest', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    const research = jest.spyOn(provider, 'research');
+
+    const result = await runPipeline({
+      manifestFilePath: MANIFEST_FILE,
+      aiLogger,
+      provider,
+      store: false,
+    });
+
+    expect(result.elections.map(election => election.position)).toEqual(['Mayor', 'Assembly Member - District 3']);
+    expect(research.mock.calls.map(([request]) => request.stage)).toEqual(['candidates', 'candidates']);
+    expect(fs.readdirSync(path.join(aiLogger.getRunDir(), 'manifest-input')).sort()).toEqual(['anchorage.yaml', 'elections.json', 'elections.txt']);
+  });
+
+  it('should research a race listed by a statewide and a city election once', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    const research = jest.spyOn(provider, 'research');
+    const statewide = {
+      name: 'Alaska municipal elections',
+      state: 'Alaska',
+      district: '',
+      description: 'Municipal elections across Alaska',
+      date: new Date('2025-04-01'),
+      seededPositions: [{
+        positionName: 'Anchorage Mayor',
+        electionDate: new Date('2025-04-01'),
+        city: '',
+        state: 'Alaska',
+        description: 'Mayor of Anchorage',
+        type: ElectionType.LOCAL,
+        positions: 1,
+      }],
+    };
+
+    const result = await runPipeline({ elections: [statewide, ...await getElectionsFromCsv(CSV_FILE)], aiLogger, provider });
+
+    expect(result.elections.map(election => election.position)).toEqual(['Mayor', 'Assembly Member - District 3']);
+    expect(research.mock.calls.every(([request]) => request.electionName !== statewide.name)).toBe(true);
+    const report = JSON.parse(fs.readFileSync(path.join(aiLogger.getRunDir(), 'position-dedup.json'), 'utf8'));
+    expect(report.dropped).toEqual([
+      { election: 'Alaska municipal elections', position: 'Anchorage Mayor', keptIn: 'Alaska,Anchorage,Anchorage general election,2025-04-01', keptAs: 'Mayor' },
+    ]);
+  });
+
+  it('should record the sources the research is grounded in on the candidates', async () => {
+    // A copy of the recorded run, with the grounding of the Mayor candidates research
+    const runDir = path.join(logDir, 'grounded-run');
+    fs.cpSync(FIXTURE_RUN_DIR, runDir, { recursive: true });
+    fs.mkdirSync(path.join(runDir, 'gemini-grounding'));
+    fs.copyFileSync(
+      path.join(__dirname, '../fixtures/grounding/mayor_candidate_grounding.json'),
+      path.join(runDir, 'gemini-grounding', 'alaska_anchorage_anchorage_general_election_2025_04_01_mayor_candidate_grounding.json')
+    );
+    const aiLogger = new AIDataLogger(path.join(logDir, 'ai-logs'));
+
+    const result = await runPipeline({ csvFilePath: CSV_FILE, aiLogger, provider: new FixtureResearchProvider(runDir) });
+
+    const [jane, john] = result.elections[0].candidates;
+    expect(jane.provenance?.map(source => source.uri)).toEqual([
+      'https://www.muni.org/elections/candidates',
+      'https://www.adn.com/politics/2025/02/mayor-race',
+    ]);
+    expect(jane.provenance?.[1].fields).toEqual(['fullName', 'party', 'currentPosition', 'keyPolicies']);
+    expect(john.provenance?.[0]).toMatchObject({ uri: 'https://www.adn.com/politics/2025/02/mayor-race', fields: ['fullName', 'currentPosition', 'description'] });
+    expect(result.elections[1].candidates[0].provenance).toBeUndefined();
+    // The grounding is logged with the run
+    expect(fs.readdirSync(path.join(aiLogger.getRunDir(), 'gemini-grounding'))).toEqual([
+      'alaska_anchorage_anchorage_general_election_2025_04_01_mayor_candidate_grounding.json',
+    ]);
+  });
+
+  it('should ask each candidates question twice with the recheck option and score the stable answers', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+
+    const result = await runPipeline({ csvFilePath: CSV_FILE, aiLogger, provider: new FixtureResearchProvider(FIXTURE_RUN_DIR), store: false, recheck: true });
+
+    // The recorded run has no grounding, so the answers given again are all that raises the scores
+    expect(result.elections[0].candidates[0].confidence?.party).toEqual({ score: 0.6, status: 'confident', sources: 0, official: false, stable: true });
+    expect(fs.readdirSync(path.join(aiLogger.getRunDir(), 'gemini-rechecks'))).toEqual([
+      'alaska_anchorage_anchorage_general_election_2025_04_01_assembly_member_district_3_candidate_recheck.txt',
+      'alaska_anchorage_anchorage_general_election_2025_04_01_mayor_candidate_recheck.txt',
+    ]);
+  });
+
+  it('should drop dead candidate links before storing with a link verifier', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    const fetcher = jest.fn().mockResolvedValue({ status: 404 });
+
+    const result = await runPipeline({
+      csvFilePath: CSV_FILE,
+      aiLogger,
+      provider: new FixtureResearchProvider(FIXTURE_RUN_DIR),
+      store: false,
+      linkVerifier: new LinkVerifier({ fetcher }),
+    });
+
+    expect(fetcher).toHaveBeenCalledWith('https://www.linkedin.com/in/janesmith');
+    const jane = result.elections[0].candidates[0];
+    expect(jane.linkedinUrl).toBeUndefined();
+    expect(jane.confidence?.linkedinUrl).toMatchObject({ status: 'held', heldValue: 'https://www.linkedin.com/in/janesmith' });
+    const checks = JSON.parse(fs.readFileSync(path.join(aiLogger.getRunDir(), 'link-checks.json'), 'utf8'));
+    expect(checks).toEqual([expect.objectContaining({ candidate: 'Jane Smith', field: 'linkedinUrl', status: 404, verdict: 'dead' })]);
+  });
+
+  it('should reconcile the answers of several providers by majority vote in self-consistency mode', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    // A second provider that only ever finds Jane Smith, and only her party
+    const other: ResearchProvider = {
+      name: 'other',
+      research: jest.fn().mockResolvedValue({ text: JSON.stringify({ candidates: [{ name: 'Jane Smith', party: 'nonpartisan' }] }) }),
+      transform: jest.fn(),
+    };
+
+    await runPipeline({
+      csvFilePath: CSV_FILE,
+      aiLogger,
+      provider: new FixtureResearchProvider(FIXTURE_RUN_DIR),
+      store: false,
+      consistency: { runs: 3, providers: [other] },
+    });
+
+    expect(other.research).toHaveBeenCalledTimes(4);
+    const report = JSON.parse(fs.readFileSync(
+      path.join(aiLogger.getRunDir(), 'consistency', 'alaska_anchorage_anchorage_general_election_2025_04_01_mayor_consistency.json'),
+      'utf8'
+    ));
+    expect(report).toMatchObject({
+      answers: 3,
+      quorum: 2,
+      kept: [{ candidate: 'Jane Smith', votes: 3 }],
+      dropped: [{ candidate: 'John Doe', votes: 1 }],
+    });
+    // Values only the first answer gives have no majority
+    expect(report.disagreements.map((disagreement: { field: string }) => disagreement.field)).toEqual(['position', 'linkedin_url', 'home_city', 'hometown_state']);
+    expect(report.responses).toHaveLength(3);
+  });
+
+  it('should merge an official candidate list ahead of the research', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+
+    const result = await runPipeline({
+      csvFilePath: CSV_FILE,
+      official: {
+        filePath: path.join(OFFICIAL_DIR, 'anchorage-candidates.csv'),
+        profile: loadOfficialListProfile('anchorage', OFFICIAL_DIR),
+      },
+      aiLogger,
+      provider: new FixtureResearchProvider(FIXTURE_RUN_DIR),
+      store: false,
+    });
+
+    expect(result.elections.map(election => [election.position, election.official, election.candidates.map(candidate => candidate.fullName)])).toEqual([
+      ['Mayor', true, ['Jane Smith', 'Richard Roe']],
+      ['Assembly Member - District 3', true, ['Maria Lopez']],
+      ['School Board - Seat E', true, ['Anh Nguyen']]
+    ]);
+    // Validation keeps the official marker and the researched details
+    expect(result.elections[0].candidates[0]).toMatchObject({ official: true, currentPosition: 'Assembly Member', campaignUrl: 'https://janesmith.example.org' });
+
+    const report = JSON.parse(fs.readFileSync(path.join(aiLogger.getRunDir(), 'official-input', 'merge_report.json'), 'utf8'));
+    expect(report.droppedCandidates).toEqual([{ election: 'Mayor', candidate: 'John Doe' }]);
+    expect(new RunCheckpoint(aiLogger.getRunDir()).has(RunCheckpoint.key('official'))).toBe(true);
+  });
+
+  it('should merge the official candidate list of a resumed run without the list given again', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    await runPipeline({
+      csvFilePath: CSV_FILE,
+      official: {
+        filePath: path.join(OFFICIAL_DIR, 'anchorage-candidates.csv'),
+        profile: loadOfficialListProfile('anchorage', OFFICIAL_DIR),
+      },
+      aiLogger,
+      provider,
+      store: false,
+    });
+    // The run was interrupted before validating
+    fs.rmSync(path.join(aiLogger.getRunDir(), 'checkpoints', `${RunCheckpoint.key('validate')}.json`));
+
+    const result = await runPipeline({ aiLogger: new AIDataLogger(logDir, aiLogger.getRunId()), provider, store: false });
+
+    expect(result.elections.map(election => [election.position, election.official])).toEqual([
+      ['Mayor', true],
+      ['Assembly Member - District 3', true],
+      ['School Board - Seat E', true]
+    ]);
+  });
+
+  it('should store the contests of a VIP feed without research', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+    const provider = new FixtureResearchProvider(FIXTURE_RUN_DIR);
+    const research = jest.spyOn(provider, 'research');
+
+    const result = await runPipeline({
+      vipFilePath: VIP_FILE,
+      aiLogger,
+      provider,
+      filter: { state: 'AK' },
+    });
+
+    expect(research).not.toHaveBeenCalled();
+    expect(result.elections.map(election => [election.position, election.official, election.candidates.length])).toEqual([
+      ['Mayor', true, 2],
+      ['Assembly Member - District 3', true, 1],
+      ['State Representative - District 16', true, 1]
+    ]);
+    expect(storeElectionData).toHaveBeenCalledWith(result.elections);
+    expect(fs.readdirSync(path.join(aiLogger.getRunDir(), 'vip-input')).sort()).toEqual(['contests.json', 'row_errors.json']);
+    expect(new RunCheckpoint(aiLogger.getRunDir()).has(RunCheckpoint.key('vip'))).toBe(true);
+  });
+
+  it('should compare with the database instead of storing on a dry run', async () => {
+    const aiLogger = new AIDataLogger(logDir);
+
+    const result = await runPipeline({
+      csvFilePath: CSV_FILE,
+      aiLogger,
+      provider: new FixtureResearchProvider(FIXTURE_RUN_DIR),
+      dryRun: true,
+    });
+
+    expect(storeElectionData).not.toHaveBeenCalled();
+    expect(diffElectionData).toHaveBeenCalledWith(result.elections);
+    expect(result.diff?.totals.newElections).toBe(2);
+    expect(fs.readFileSync(path.join(aiLogger.getRunDir(), 'dry-run-diff.txt'), 'utf8')).toContain('Elections: 2 new');
+    expect(new RunCheckpoint(aiLogger.getRunDir()).has(RunCheckpoint.key('store'))).toBe(false);
+  });
+});
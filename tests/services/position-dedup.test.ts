@@ -0,0 +1,102 @@
+import { dedupePositions, PlannedElection } from '../../src/services/position-dedup';
+import { canonicalPosition, positionsOverlap } from '../../src/services/db/matching';
+import { DetailedPosition, ElectionType } from '../../src/models/types';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const DATE = new Date('2025-11-04');
+
+function buildPosition(positionName: string, city: string, overrides: Partial<DetailedPosition> = {}): DetailedPosition {
+  return {
+    positionName,
+    electionDate: DATE,
+    city,
+    state: 'Florida',
+    description: positionName,
+    type: ElectionType.LOCAL,
+    positions: 1,
+    ...overrides,
+  };
+}
+
+function buildPlan(name: string, positions: DetailedPosition[]): PlannedElection {
+  return {
+    election: { name, state: 'Florida', district: '', description: name, date: DATE },
+    positions,
+  };
+}
+
+describe('Position canonicalization', () => {
+  it('should normalize office titles, districts and seats', () => {
+    expect(canonicalPosition('Dist. 03 Council')).toBe('council member district 3');
+    expect(canonicalPosition('City Councilwoman - 3rd District')).toBe('council member district 3');
+    expect(canonicalPosition('Council Member, Ward 3')).toBe('council member ward 3');
+    expect(canonicalPosition('Board of Education Member, Position A')).toBe(canonicalPosition('School Board Seat A'));
+    expect(canonicalPosition('County Commission District 2')).toBe('county commissioner district 2');
+  });
+
+  it('should drop the position\'s own city and state from the title', () => {
+    expect(canonicalPosition('Mayor of the City of Miami', { city: 'Miami', state: 'Florida' })).toBe('mayor');
+    expect(canonicalPosition('Florida Governor', { state: 'Florida' })).toBe('governor');
+  });
+
+  it('should only match a position without a city when its title names the city', () => {
+    const mayor = { position: 'Mayor', date: DATE, city: 'Miami', state: 'Florida' };
+
+    expect(positionsOverlap({ ...mayor, position: 'Miami Mayor', city: '' }, mayor)).toBe(true);
+    expect(positionsOverlap({ ...mayor, city: '' }, mayor)).toBe(false);
+    expect(positionsOverlap({ ...mayor, city: 'Tampa' }, mayor)).toBe(false);
+    expect(positionsOverlap({ ...mayor, date: new Date('2025-03-11') }, mayor)).toBe(false);
+  });
+});
+
+describe('dedupePositions', () => {
+  it('should keep the city election\'s position and drop the statewide duplicate', () => {
+    const plans = [
+      buildPlan('Florida municipal elections', [
+        buildPosition('Miami Mayor', '', { knownCandidates: ['Ann Lee'] }),
+        buildPosition('Tampa City Council District 1', ''),
+      ]),
+      buildPlan('Miami municipal election', [buildPosition('Mayor', 'Miami', { knownCandidates: ['Bob Smith'] })]),
+    ];
+
+    const { plans: deduped, report } = dedupePositions(plans);
+
+    expect(deduped[0].positions.map(position => position.positionName)).toEqual(['Tampa City Council District 1']);
+    expect(deduped[1].positions).toEqual([buildPosition('Mayor', 'Miami', { knownCandidates: ['Bob Smith', 'Ann Lee'] })]);
+    expect(report).toEqual({
+      dropped: [{ election: 'Florida municipal elections', position: 'Miami Mayor', keptIn: 'Miami municipal election', keptAs: 'Mayor' }],
+      stored: [],
+    });
+  });
+
+  it('should drop a race listed twice under different names, keeping the first', () => {
+    const plans = [buildPlan('Miami municipal election', [
+      buildPosition('City Commission, District 2', 'Miami'),
+      buildPosition('Commissioner - Dist. 2', 'Miami'),
+      buildPosition('Commissioner - District 4', 'Miami'),
+    ])];
+
+    const { plans: deduped } = dedupePositions(plans);
+
+    expect(deduped[0].positions.map(position => position.positionName)).toEqual(['City Commission, District 2', 'Commissioner - District 4']);
+  });
+
+  it('should rename positions to the stored election of the same race', () => {
+    const plans = [buildPlan('Florida municipal elections', [buildPosition('Miami Mayor', '')])];
+    const stored = [{ id: 7, position: 'Mayor', date: DATE, city: 'Miami', state: 'Florida' }];
+
+    const { plans: deduped, report } = dedupePositions(plans, stored);
+
+    expect(deduped[0].positions[0]).toMatchObject({ positionName: 'Mayor', city: 'Miami' });
+    expect(report.stored).toEqual([{ election: 'Florida municipal elections', position: 'Miami Mayor', storedAs: 'Mayor', electionId: 7 }]);
+  });
+});
@@ -0,0 +1,100 @@
+import { attachProvenance, mergeSourceRecords } from '../../src/services/provenance';
+import { ResearchGrounding } from '../../src/apis/research';
+import { DetailedElection, ElectionType } from '../../src/models/types';
+
+const grounding: ResearchGrounding = {
+  searchQueries: ['Anchorage mayor candidates 2025'],
+  sources: [
+    { uri: 'https://www.muni.org/elections/candidates', title: 'muni.org' },
+    { uri: 'https://www.adn.com/politics/2025/02/mayor-race', title: 'adn.com' },
+  ],
+  claims: [
+    { text: 'Jane Smith, a Nonpartisan Assembly Member, is running for mayor.', sources: [0, 1], confidence: [0.92, 0.81] },
+    { text: 'Smith\'s platform centers on housing supply and public safety.', sources: [1], confidence: [0.74] },
+  ],
+};
+
+function buildElection(): DetailedElection {
+  return {
+    position: 'Mayor',
+    date: new Date('2025-04-01'),
+    city: 'Anchorage',
+    state: 'Alaska',
+    description: 'Chief executive of the Municipality of Anchorage',
+    type: ElectionType.LOCAL,
+    candidates: [
+      {
+        fullName: 'Jane Smith',
+        currentPosition: 'Assembly Member',
+        description: 'Two-term assembly member and former small business owner.',
+        keyPolicies: [{ title: 'Housing supply', description: '' }],
+        sources: ['Municipality of Anchorage candidate list'],
+        party: 'Nonpartisan',
+      },
+      {
+        fullName: 'John Doe',
+        currentPosition: 'Incumbent Mayor',
+        description: 'Incumbent mayor seeking a second term.',
+        keyPolicies: [],
+        sources: [],
+      },
+    ],
+  };
+}
+
+describe('attachProvenance', () => {
+  it('should attach each page to the candidates and fields its statements back', () => {
+    const [election] = attachProvenance([buildElection()], undefined, [{ positionName: 'Mayor', grounding }]);
+
+    expect(election.candidates[0].provenance).toEqual([
+      {
+        uri: 'https://www.muni.org/elections/candidates',
+        title: 'muni.org',
+        fields: ['fullName', 'party', 'currentPosition'],
+        claims: ['Jane Smith, a Nonpartisan Assembly Member, is running for mayor.'],
+        searchQueries: ['Anchorage mayor candidates 2025'],
+      },
+      {
+        uri: 'https://www.adn.com/politics/2025/02/mayor-race',
+        title: 'adn.com',
+        fields: ['fullName', 'party', 'currentPosition', 'keyPolicies'],
+        claims: [
+          'Jane Smith, a Nonpartisan Assembly Member, is running for mayor.',
+          'Smith\'s platform centers on housing supply and public safety.',
+        ],
+        searchQueries: ['Anchorage mayor candidates 2025'],
+      },
+    ]);
+    // No statement names John Doe
+    expect(election.candidates[1].provenance).toBeUndefined();
+  });
+
+  it('should attach the positions research to the election it names', () => {
+    const positionsGrounding: ResearchGrounding = {
+      searchQueries: ['Anchorage 2025 election offices'],
+      sources: [{ uri: 'https://www.muni.org/elections', title: 'muni.org' }],
+      claims: [{ text: 'Anchorage voters elect a mayor, the chief executive of the Municipality of Anchorage.', sources: [0], confidence: [] }],
+    };
+
+    const [election] = attachProvenance([buildElection()], positionsGrounding, []);
+
+    expect(election.provenance).toEqual([expect.objectContaining({ uri: 'https://www.muni.org/elections', fields: ['position', 'description'] })]);
+    expect(election.candidates[0].provenance).toBeUndefined();
+  });
+
+  it('should match research to elections whose position is written differently', () => {
+    const election = { ...buildElection(), position: 'Mayor of Anchorage' };
+
+    const [attached] = attachProvenance([election], undefined, [{ positionName: 'Anchorage Mayor', grounding }]);
+
+    expect(attached.candidates[0].provenance).toHaveLength(2);
+  });
+
+  it('should combine source records by page', () => {
+    const record = { uri: 'https://adn.com/a', title: '', fields: ['fullName'], claims: ['a'], searchQueries: ['q'] };
+
+    expect(mergeSourceRecords([record], [{ ...record, title: 'adn.com', fields: ['party'], claims: ['a', 'b'] }])).toEqual([
+      { uri: 'https://adn.com/a', title: 'adn.com', fields: ['fullName', 'party'], claims: ['a', 'b'], searchQueries: ['q'] },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { replayRun } from '../../src/services/replay';
+import { storeElectionData } from '../../src/services/db';
+
+// The Civic API is not used when replaying
+jest.mock('googleapis', () => ({
+  google: {
+    civicinfo: jest.fn().mockImplementation(() => ({}))
+  }
+}));
+
+// Replays are stored through the regular db service
+jest.mock('../../src/services/db', () => ({
+  storeElectionData: jest.fn().mockResolvedValue({
+    elections: { created: 2, updated: 0, unchanged: 0 },
+    candidates: { created: 3, updated: 0, unchanged: 0 },
+    suggestions: 0
+  }),
+  getStoredElections: jest.fn().mockResolvedValue([])
+}));
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const FIXTURE_RUN_ID = '2025-04-01_09-00-00';
+const FIXTURE_RUN_DIR = path.join(__dirname, '../fixtures/runs', FIXTURE_RUN_ID);
+
+describe('replayRun', () => {
+  let baseDir: string;
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-logs-'));
+    fs.cpSync(FIXTURE_RUN_DIR, path.join(baseDir, FIXTURE_RUN_ID), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should rebuild and store elections from a recorded run', async () => {
+    const result = await replayRun(FIXTURE_RUN_ID, { baseDir });
+
+    expect(result.replayedRunId).toBe(FIXTURE_RUN_ID);
+    expect(result.runId).not.toBe(FIXTURE_RUN_ID);
+    expect(result.elections.map(election => election.position)).toEqual(['Mayor', 'Assembly Member - District 3']);
+    expect(storeElectionData).toHaveBeenCalledWith(result.elections);
+    expect(result.storeSummary?.elections.created).toBe(2);
+  });
+
+  it('should leave the replayed run untouched', async () => {
+    await replayRun(FIXTURE_RUN_ID, { baseDir });
+
+    expect(fs.existsSync(path.join(baseDir, FIXTURE_RUN_ID, 'checkpoints'))).toBe(false);
+  });
+
+  it('should replay runs that only recorded the structured JSON', async () => {
+    fs.rmSync(path.join(baseDir, FIXTURE_RUN_ID, 'gemini-queries'), { recursive: true });
+
+    const result = await replayRun(FIXTURE_RUN_ID, { baseDir, store: false });
+
+    expect(result.elections).toHaveLength(2);
+    expect(result.elections[0].candidates.map(candidate => candidate.fullName)).toEqual(['Jane Smith', 'John Doe']);
+    expect(storeElectionData).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown runs', async () => {
+    await expect(replayRun('1999-01-01_00-00-00', { baseDir })).rejects.toThrow('Run directory not found');
+  });
+});
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { transformWithRepair } from '../../src/services/response-repair';
+import { ResearchProvider, ResearchRequest } from '../../src/apis/research';
+import { AIDataLogger } from '../../src/utils/ai-data-logger';
+import { BasicElection } from '../../src/models/types';
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const basicElection: BasicElection = {
+  name: 'Anchorage general election',
+  state: 'Alaska',
+  district: 'Anchorage',
+  description: 'Anchorage general election',
+  date: new Date('2025-04-01')
+};
+
+const request: ResearchRequest = {
+  stage: 'transform',
+  prompt: 'Transform the research into JSON',
+  electionName: basicElection.name,
+  conversationHistory: [{ role: 'model', text: 'Candidate research' }]
+};
+
+/**
+ * Builds a transformation response with one candidate
+ */
+function electionsJson(policyDescription: unknown): string {
+  return JSON.stringify({
+    elections: [{
+      position: 'Mayor',
+      date: '2025-04-01',
+      city: 'Anchorage',
+      state: 'Alaska',
+      description: 'Mayor of Anchorage',
+      type: 'LOCAL',
+      candidates: [{
+        fullName: 'Jane Smith',
+        currentPosition: 'Assembly Member',
+        description: 'Longtime resident',
+        keyPolicies: [{ title: 'Housing', description: policyDescription }],
+        sources: ['https://example.com/jane']
+      }]
+    }]
+  });
+}
+
+/**
+ * Builds a provider whose transformations return the given responses in order
+ */
+function fakeProvider(responses: string[]): ResearchProvider & { transform: jest.Mock } {
+  const transform = jest.fn();
+  responses.forEach(text => transform.mockResolvedValueOnce({ text }));
+  return { name: 'fake', research: jest.fn(), transform };
+}
+
+describe('transformWithRepair', () => {
+  let logDir: string;
+  let aiLogger: AIDataLogger;
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-logs-'));
+    aiLogger = new AIDataLogger(logDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it('should accept a valid response without re-asking', async () => {
+    const provider = fakeProvider([electionsJson('Build more homes')]);
+
+    const result = await transformWithRepair(request, basicElection, provider, aiLogger, 2);
+
+    expect(result.repairAttempts).toBe(0);
+    expect(result.detailedInfo[0].candidates[0].fullName).toBe('Jane Smith');
+    expect(provider.transform).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-ask with the previous output and the zod error paths', async () => {
+    const invalid = electionsJson(42);
+    const provider = fakeProvider([invalid, electionsJson('Build more homes')]);
+
+    const result = await transformWithRepair(request, basicElection, provider, aiLogger, 2);
+
+    expect(result.repairAttempts).toBe(1);
+    expect(result.structuredJson).toBe(electionsJson('Build more homes'));
+
+    const repairRequest: ResearchRequest = provider.transform.mock.calls[1][0];
+    expect(repairRequest.prompt).toContain('elections.0.candidates.0.keyPolicies.0.description: Expected string, received number');
+    expect(repairRequest.conversationHistory).toEqual([
+      { role: 'model', text: 'Candidate research' },
+      { role: 'user', text: request.prompt },
+      { role: 'model', text: invalid }
+    ]);
+
+    // The attempt is recorded in the run
+    const repairLog = fs.readFileSync(path.join(aiLogger.getRunDir(), 'gemini-json', 'anchorage_general_election_repair_1.txt'), 'utf8');
+    expect(repairLog).toContain('=== ERRORS ===');
+    expect(repairLog).toContain('keyPolicies.0.description');
+  });
+
+  it('should re-ask with the parse failure when the response is not JSON', async () => {
+    const provider = fakeProvider(['Sorry, I cannot help with that.', electionsJson('Build more homes')]);
+
+    const result = await transformWithRepair(request, basicElection, provider, aiLogger, 2);
+
+    expect(result.repairAttempts).toBe(1);
+    expect(provider.transform.mock.calls[1][0].prompt).toContain('no_json_found');
+  });
+
+  it('should return a response that parses but still fails validation after the last attempt', async () => {
+    const provider = fakeProvider([electionsJson(42), electionsJson(43)]);
+
+    const result = await transformWithRepair(request, basicElection, provider, aiLogger, 1);
+
+    expect(provider.transform).toHaveBeenCalledTimes(2);
+    expect(result.repairAttempts).toBe(1);
+    expect(result.detailedInfo[0].candidates[0].keyPolicies).toEqual([{ title: 'Housing', description: 43 }]);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const provider = fakeProvider(['not json', 'still not json', 'nope']);
+
+    await expect(transformWithRepair(request, basicElection, provider, aiLogger, 2))
+      .rejects.toThrow('Failed to get valid structured JSON after 2 repair attempt(s): no_json_found');
+
+    expect(provider.transform).toHaveBeenCalledTimes(3);
+    const logged = fs.readdirSync(path.join(aiLogger.getRunDir(), 'gemini-json'));
+    expect(logged).toEqual(expect.arrayContaining([
+      'anchorage_general_election_repair_1.txt',
+      'anchorage_general_election_repair_2.txt',
+      'anchorage_general_election_raw.json'
+    ]));
+  });
+});
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { listRuns } from '../../src/services/runs';
+import { RunCheckpoint } from '../../src/utils/run-checkpoint';
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('listRuns', () => {
+  let logDir: string;
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty list when there are no runs', () => {
+    expect(listRuns(path.join(logDir, 'missing'))).toEqual([]);
+  });
+
+  it('should summarize each run, most recent first', () => {
+    const completed = path.join(logDir, '2025-04-01_09-00-00');
+    fs.mkdirSync(path.join(completed, 'csv-input'), { recursive: true });
+    fs.writeFileSync(path.join(completed, 'csv-input', 'elections.json'), '[]');
+    fs.writeFileSync(path.join(completed, 'run_summary.txt'), 'Run ID: 2025-04-01_09-00-00\nElections processed: 2\n');
+    fs.writeFileSync(path.join(completed, 'quarantine.json'), JSON.stringify([{ kind: 'candidate' }]));
+    new RunCheckpoint(completed).save(RunCheckpoint.key('store'), {});
+
+    fs.mkdirSync(path.join(logDir, '2025-04-02_10-30-00', 'civic-api'), { recursive: true });
+    fs.writeFileSync(path.join(logDir, '2025-04-02_10-30-00', 'civic-api', 'elections.json'), '[]');
+
+    expect(listRuns(logDir)).toEqual([
+      { runId: '2025-04-02_10-30-00', source: 'civic', electionsProcessed: undefined, quarantined: 0, completed: false },
+      { runId: '2025-04-01_09-00-00', source: 'csv', electionsProcessed: 2, quarantined: 1, completed: true }
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { reconcileCandidateAnswers } from '../../src/services/self-consistency';
+
+const label = { election: 'Anchorage general election', position: 'Mayor' };
+
+function answer(candidates: Array<Record<string, unknown>>): string {
+  return '```json\n' + JSON.stringify({ candidates }) + '\n```';
+}
+
+describe('reconcileCandidateAnswers', () => {
+  it('should keep the candidates a majority of the answers list, matching them across spellings', () => {
+    const { response, report } = reconcileCandidateAnswers([
+      answer([{ name: 'Robert Jones', party: 'Nonpartisan' }, { name: 'Jane Smith', party: 'Nonpartisan' }]),
+      answer([{ name: 'Bob Jones', party: 'Nonpartisan' }, { name: 'Pat Example', party: 'Independent' }]),
+      answer([{ name: 'Jones, Robert', party: 'nonpartisan' }, { name: 'Jane Smith', party: 'Nonpartisan' }]),
+    ], label);
+
+    expect(JSON.parse(response).candidates.map((candidate: { name: string }) => candidate.name)).toEqual(['Robert Jones', 'Jane Smith']);
+    expect(report).toMatchObject({
+      answers: 3,
+      parsed: 3,
+      quorum: 2,
+      kept: [{ candidate: 'Robert Jones', votes: 3 }, { candidate: 'Jane Smith', votes: 2 }],
+      dropped: [{ candidate: 'Pat Example', votes: 1 }],
+      disagreements: [],
+    });
+  });
+
+  it('should replace values without a majority and report them, combining the sources', () => {
+    const { response, report } = reconcileCandidateAnswers([
+      answer([{ name: 'Jane Smith', party: 'Democratic', linkedin_url: 'https://www.linkedin.com/in/janesmith/', description: 'First wording', sources: ['muni.org'] }]),
+      answer([{ name: 'Jane Smith', party: 'Republican', linkedin_url: 'linkedin.com/in/janesmith', description: 'Second wording', sources: ['adn.com'] }]),
+      answer([{ name: 'Jane Smith', party: 'N/A', linkedin_url: 'N/A' }]),
+    ], label);
+
+    const [jane] = JSON.parse(response).candidates;
+    expect(jane).toEqual({
+      name: 'Jane Smith',
+      party: 'N/A',
+      linkedin_url: 'https://www.linkedin.com/in/janesmith/',
+      description: 'First wording',
+      sources: ['muni.org', 'adn.com'],
+    });
+    expect(report.disagreements).toEqual([
+      { candidate: 'Jane Smith', field: 'party', values: [{ value: 'Democratic', votes: 1 }, { value: 'Republican', votes: 1 }] },
+    ]);
+  });
+
+  it('should use the first answer when fewer than two answers can be read', () => {
+    const first = answer([{ name: 'Jane Smith' }]);
+
+    const { response, report } = reconcileCandidateAnswers([first, 'I could not find any candidates.'], label);
+
+    expect(response).toBe(first);
+    expect(report).toMatchObject({ answers: 2, parsed: 1, kept: [] });
+  });
+});
@@ -0,0 +1,102 @@
+import { detectSocialPlatform, normalizeCandidateSocials, normalizeSocialLink } from '../../src/services/data-transformer/socials';
+import { Candidate } from '../../src/models/types';
+
+function buildCandidate(overrides: Partial<Candidate> = {}): Candidate {
+  return {
+    fullName: 'Jane Smith',
+    currentPosition: 'Assembly Member',
+    description: 'Two-term assembly member',
+    keyPolicies: [],
+    sources: [],
+    ...overrides,
+  };
+}
+
+describe('normalizeSocialLink', () => {
+  it.each([
+    ['@janesmith', 'janesmith'],
+    ['janesmith', 'janesmith'],
+    ['https://x.com/janesmith?s=20', 'janesmith'],
+    ['http://mobile.twitter.com/janesmith/', 'janesmith'],
+    ['twitter.com/janesmith/status/1234567890', 'janesmith'],
+  ])('should turn the X/Twitter link %s into the canonical profile', (value, handle) => {
+    expect(normalizeSocialLink('x', value)).toEqual({ handle, url: `https://x.com/${handle}` });
+  });
+
+  it('should drop tracking parameters and country subdomains from LinkedIn URLs', () => {
+    expect(normalizeSocialLink('linkedin', 'https://ca.linkedin.com/in/Jane-Smith-12ab/?trk=public_profile')).toEqual({
+      handle: 'jane-smith-12ab',
+      url: 'https://www.linkedin.com/in/jane-smith-12ab',
+    });
+    expect(normalizeSocialLink('linkedin', 'linkedin.com/company/smith-for-mayor')?.url).toBe('https://www.linkedin.com/company/smith-for-mayor');
+  });
+
+  it('should give the canonical profiles of Facebook, Instagram, YouTube and Ballotpedia', () => {
+    expect(normalizeSocialLink('facebook', 'https://m.facebook.com/JaneSmithForMayor/posts/123?ref=share')).toEqual({
+      handle: 'JaneSmithForMayor',
+      url: 'https://www.facebook.com/JaneSmithForMayor',
+    });
+    expect(normalizeSocialLink('facebook', 'https://www.facebook.com/profile.php?id=1000123&mibextid=abc')?.url)
+      .toBe('https://www.facebook.com/profile.php?id=1000123');
+    expect(normalizeSocialLink('instagram', 'instagram.com/JaneSmithAK/?hl=en')).toEqual({ handle: 'janesmithak', url: 'https://www.instagram.com/janesmithak' });
+    expect(normalizeSocialLink('youtube', 'https://www.youtube.com/@JaneSmithAK/videos')).toEqual({ handle: 'JaneSmithAK', url: 'https://www.youtube.com/@JaneSmithAK' });
+    expect(normalizeSocialLink('ballotpedia', 'https://ballotpedia.org/Jane_Smith_(Alaska)')).toEqual({
+      handle: 'Jane_Smith_(Alaska)',
+      url: 'https://ballotpedia.org/Jane_Smith_(Alaska)',
+    });
+  });
+
+  it('should reject placeholders, other sites and pages that are not profiles', () => {
+    expect(normalizeSocialLink('x', 'N/A')).toBeUndefined();
+    expect(normalizeSocialLink('x', 'Not available')).toBeUndefined();
+    expect(normalizeSocialLink('x', 'https://x.com/search?q=jane')).toBeUndefined();
+    expect(normalizeSocialLink('x', 'https://janesmith.com')).toBeUndefined();
+    expect(normalizeSocialLink('instagram', 'https://www.instagram.com/p/C3xyz/')).toBeUndefined();
+    expect(normalizeSocialLink('linkedin', 'https://www.linkedin.com/feed/')).toBeUndefined();
+  });
+});
+
+describe('detectSocialPlatform', () => {
+  it('should recognize the platforms by host', () => {
+    expect(detectSocialPlatform('https://uk.linkedin.com/in/janesmith')).toBe('linkedin');
+    expect(detectSocialPlatform('fb.com/janesmith')).toBe('facebook');
+    expect(detectSocialPlatform('https://notx.com/janesmith')).toBeUndefined();
+  });
+});
+
+describe('normalizeCandidateSocials', () => {
+  it('should canonicalize the candidate\'s links and collect their profiles', () => {
+    const normalized = normalizeCandidateSocials(buildCandidate({
+      twitter: 'https://twitter.com/JaneSmithAK?s=20',
+      linkedinUrl: 'https://ca.linkedin.com/in/janesmith/',
+      campaignUrl: 'https://www.facebook.com/JaneSmithForMayor',
+      sources: [
+        'https://ballotpedia.org/Jane_Smith',
+        // Pages that are not about the candidate are not her profiles
+        'https://ballotpedia.org/Mayoral_election_in_Anchorage,_Alaska_(2025)',
+        'https://www.instagram.com/adnews',
+      ],
+    }));
+
+    expect(normalized).toMatchObject({
+      twitter: '@JaneSmithAK',
+      linkedinUrl: 'https://www.linkedin.com/in/janesmith',
+      campaignUrl: 'https://www.facebook.com/JaneSmithForMayor',
+      socials: {
+        x: { handle: 'JaneSmithAK', url: 'https://x.com/JaneSmithAK' },
+        linkedin: { handle: 'janesmith', url: 'https://www.linkedin.com/in/janesmith' },
+        facebook: { handle: 'JaneSmithForMayor', url: 'https://www.facebook.com/JaneSmithForMayor' },
+        ballotpedia: { handle: 'Jane_Smith', url: 'https://ballotpedia.org/Jane_Smith' },
+      },
+    });
+    expect(normalized.socials?.instagram).toBeUndefined();
+  });
+
+  it('should leave out placeholders and handles that are not valid', () => {
+    const normalized = normalizeCandidateSocials(buildCandidate({ twitter: 'Not available', linkedinUrl: 'https://janesmith.com/about' }));
+
+    expect(normalized.twitter).toBeUndefined();
+    expect(normalized.linkedinUrl).toBe('https://janesmith.com/about');
+    expect(normalized.socials).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { getArrayProperty, parseJsonResponse } from '../../src/utils/json-repair';
+
+describe('parseJsonResponse', () => {
+  it('should parse plain JSON without repairs', () => {
+    const result = parseJsonResponse('{"candidates": [{"name": "Jane Doe"}]}');
+
+    expect(result).toEqual({
+      success: true,
+      data: { candidates: [{ name: 'Jane Doe' }] },
+      repaired: false,
+    });
+  });
+
+  it('should extract JSON from markdown fences and surrounding prose', () => {
+    const text = 'Here is the data you asked for:\n```json\n{"positions_up_for_election": [{"position_name": "Mayor"}]}\n```\nLet me know if you need more.';
+    const result = parseJsonResponse(text);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ positions_up_for_election: [{ position_name: 'Mayor' }] });
+      expect(result.repaired).toBe(true);
+    }
+  });
+
+  it('should not be confused by braces inside strings', () => {
+    const result = parseJsonResponse('Result: {"description": "Uses {curly} braces", "sources": []} done');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toMatchObject({ description: 'Uses {curly} braces' });
+    }
+  });
+
+  it('should remove trailing commas', () => {
+    const result = parseJsonResponse('{"sources": ["a", "b",], "party": "Independent",}');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ sources: ['a', 'b'], party: 'Independent' });
+      expect(result.repaired).toBe(true);
+    }
+  });
+
+  it('should complete truncated output, dropping the incomplete value', () => {
+    const text = '```json\n{"candidates": [{"name": "Jane Doe", "party": "Democratic"}, {"name": "John Sm';
+    const result = parseJsonResponse(text);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ candidates: [{ name: 'Jane Doe', party: 'Democratic' }] });
+      expect(result.repaired).toBe(true);
+    }
+  });
+
+  it('should merge several objects on the array key', () => {
+    const text = '{"candidates": [{"name": "Jane Doe"}]}\n\n{"candidates": [{"name": "John Smith"}]}';
+    const result = parseJsonResponse(text, { arrayKey: 'candidates' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ candidates: [{ name: 'Jane Doe' }, { name: 'John Smith' }] });
+    }
+  });
+
+  it.each([
+    ['', 'empty_response'],
+    ['   \n', 'empty_response'],
+    ['I could not find any information about this election.', 'no_json_found'],
+    ['{"candidates": [{"name": ', 'truncated'],
+    ['{"candidates": [name: Jane Doe]}', 'syntax_error'],
+  ])('should report why %j could not be parsed', (text, reason) => {
+    const result = parseJsonResponse(text);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.reason).toBe(reason);
+      expect(result.error.preview).toBe(text);
+    }
+  });
+
+  it('should truncate the preview of long responses', () => {
+    const text = `No JSON here. ${'x'.repeat(500)}`;
+    const result = parseJsonResponse(text);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.preview).toHaveLength(203);
+      expect(result.error.preview.endsWith('...')).toBe(true);
+    }
+  });
+});
+
+describe('getArrayProperty', () => {
+  it('should only give array properties of objects', () => {
+    expect(getArrayProperty({ elections: [{ position: 'Mayor' }] }, 'elections')).toEqual([{ position: 'Mayor' }]);
+    expect(getArrayProperty({ elections: 'Mayor' }, 'elections')).toBeUndefined();
+    expect(getArrayProperty([{ elections: [] }], 'elections')).toBeUndefined();
+    expect(getArrayProperty(null, 'elections')).toBeUndefined();
+  });
+});
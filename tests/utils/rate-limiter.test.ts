@@ -0,0 +1,125 @@
+import { RateLimiter, isRateLimitError } from '../../src/utils/rate-limiter';
+import { retryWithBackoff } from '../../src/utils/helpers';
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+/**
+ * Builds a call that resolves when `resolve` is called
+ */
+function deferredCall() {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<string>(res => { resolve = () => res('done'); });
+  return { fn: jest.fn(() => promise), resolve: () => resolve() };
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not run more calls at once than the concurrency limit', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 100, tokensPerMinute: 100000, maxConcurrency: 1 });
+    const first = deferredCall();
+    const second = deferredCall();
+
+    const firstResult = limiter.schedule(first.fn);
+    const secondResult = limiter.schedule(second.fn);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(first.fn).toHaveBeenCalled();
+    expect(second.fn).not.toHaveBeenCalled();
+
+    first.resolve();
+    await expect(firstResult).resolves.toBe('done');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(second.fn).toHaveBeenCalled();
+
+    second.resolve();
+    await expect(secondResult).resolves.toBe('done');
+  });
+
+  it('should space requests out to the requests per minute', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2, tokensPerMinute: 100000, maxConcurrency: 5 });
+    const call = jest.fn().mockResolvedValue('ok');
+
+    const results = [limiter.schedule(call), limiter.schedule(call), limiter.schedule(call)];
+    await jest.advanceTimersByTimeAsync(0);
+    expect(call).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(29000);
+    expect(call).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(call).toHaveBeenCalledTimes(3);
+    await expect(Promise.all(results)).resolves.toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('should wait for the token budget', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 100, tokensPerMinute: 6000, maxConcurrency: 5 });
+    const call = jest.fn().mockResolvedValue('ok');
+
+    await limiter.schedule(call, 6000);
+    const second = limiter.schedule(call, 3000);
+    await jest.advanceTimersByTimeAsync(29000);
+    expect(call).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(second).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pause every caller after a rate limit error', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60, tokensPerMinute: 100000, maxConcurrency: 5 });
+    const rateLimited = jest.fn().mockRejectedValue(Object.assign(new Error('Too Many Requests'), { status: 429 }));
+    const call = jest.fn().mockResolvedValue('ok');
+
+    await expect(limiter.schedule(rateLimited)).rejects.toThrow('Too Many Requests');
+
+    // Halved rate: one request every 2 seconds
+    const next = limiter.schedule(call);
+    await jest.advanceTimersByTimeAsync(1900);
+    expect(call).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(next).resolves.toBe('ok');
+  });
+});
+
+describe('isRateLimitError', () => {
+  it.each([
+    [Object.assign(new Error('Request failed'), { status: 429 }), true],
+    [new Error('[GoogleGenerativeAI Error]: [429 Too Many Requests] Resource has been exhausted'), true],
+    [new Error('RESOURCE_EXHAUSTED: quota exceeded for model'), true],
+    [new Error('[400 Bad Request] Invalid argument'), false],
+    [undefined, false]
+  ])('should classify %p', (error, expected) => {
+    expect(isRateLimitError(error)).toBe(expected);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('should retry rate limit errors and give up on other errors immediately', async () => {
+    const flaky = jest.fn()
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockResolvedValueOnce('ok');
+    await expect(retryWithBackoff(flaky, 3, 1, isRateLimitError)).resolves.toBe('ok');
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const broken = jest.fn().mockRejectedValue(new Error('400 Bad Request'));
+    await expect(retryWithBackoff(broken, 3, 1, isRateLimitError)).rejects.toThrow('400 Bad Request');
+    expect(broken).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RunCheckpoint } from '../../src/utils/run-checkpoint';
+
+// Mock the logger to avoid console clutter during tests
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('RunCheckpoint', () => {
+  let runDir: string;
+
+  beforeEach(() => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-checkpoint-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(runDir, { recursive: true, force: true });
+  });
+
+  it('should build sanitized keys from their parts', () => {
+    expect(RunCheckpoint.key('Florida Special Elections', 'candidates', 'Mayor - Ward 2'))
+      .toBe('florida_special_elections__candidates__mayor_ward_2');
+  });
+
+  it('should key the stages of elections sharing a name by their state, district and date', () => {
+    const election = { name: 'General Election', state: 'Alaska', district: 'Anchorage', description: 'General Election', date: new Date('2025-04-01') };
+
+    expect(RunCheckpoint.electionKey(election, 'candidates', 'Mayor'))
+      .toBe('general_election_alaska_anchorage_2025_04_01__candidates__mayor');
+    expect(RunCheckpoint.electionKey({ ...election, district: 'Juneau' }, 'candidates', 'Mayor'))
+      .not.toBe(RunCheckpoint.electionKey(election, 'candidates', 'Mayor'));
+    expect(RunCheckpoint.electionKey({ ...election, date: new Date('2025-11-04') }, 'transformation'))
+      .not.toBe(RunCheckpoint.electionKey(election, 'transformation'));
+  });
+
+  it('should report missing stages', () => {
+    const checkpoint = new RunCheckpoint(runDir);
+
+    expect(checkpoint.has('source')).toBe(false);
+    expect(checkpoint.load('source')).toBeUndefined();
+  });
+
+  it('should round-trip saved stages and revive dates', () => {
+    const checkpoint = new RunCheckpoint(runDir);
+    const elections = [{ name: 'Wisconsin Spring Election', date: new Date('2025-04-01') }];
+
+    checkpoint.save('source', elections);
+
+    // A new instance over the same run directory sees the saved stage
+    const resumed = new RunCheckpoint(runDir);
+    expect(resumed.has('source')).toBe(true);
+    expect(resumed.load('source')).toEqual(elections);
+  });
+
+  it('should treat an unreadable checkpoint as missing', () => {
+    const checkpoint = new RunCheckpoint(runDir);
+    fs.mkdirSync(path.join(runDir, 'checkpoints'));
+    fs.writeFileSync(path.join(runDir, 'checkpoints', 'positions.json'), '{ truncated', 'utf8');
+
+    expect(checkpoint.load('positions')).toBeUndefined();
+  });
+});